@@ -0,0 +1,72 @@
+/**
+ * Composable for the data-extraction stage: a model pulls the numbers stated in the research
+ * into datasets, each row traced to the sentence it came from, so the R chunks of the
+ * outline plot the figures the text cites instead of made-up data
+ */
+
+import { ref } from 'vue'
+import { useOpenRouter } from './useOpenRouter'
+import { useModelSettings } from './useModelSettings'
+import { usePromptTemplates } from './usePromptTemplates'
+import { createDebugger } from '~/utils/debug'
+import { parseDatasets } from '~/utils/datasets'
+import type { ResearchDataset } from '~/types/research'
+
+export interface DatasetExtractionOptions {
+  /** Model id; the extraction stage model when omitted */
+  model?: string
+  /** Research session the call is billed to */
+  sessionId?: string
+  bypassCache?: boolean
+}
+
+export const useDatasetExtraction = () => {
+  const debug = createDebugger('useDatasetExtraction')
+  const { renderActivePrompt } = usePromptTemplates()
+  const { getStageOverride } = useModelSettings()
+  const isExtracting = ref(false)
+  const error = ref<string | null>(null)
+
+  /**
+   * Extracts the datasets of the research
+   * @param research The research document
+   * @param options Model, session and cache options
+   * @returns The datasets, possibly none, or null if the extraction failed
+   */
+  const extractDatasets = async (research: string, options: DatasetExtractionOptions = {}): Promise<ResearchDataset[] | null> => {
+    if (!research.trim() || isExtracting.value) return null
+    isExtracting.value = true
+    error.value = null
+
+    try {
+      const client = useOpenRouter()
+      const prompt = await renderActivePrompt('extract', { research })
+      const reply = await client.queryModel(prompt.text, 3000, false, undefined, {
+        stage: 'extraction',
+        model: options.model || getStageOverride('extraction'),
+        sessionId: options.sessionId,
+        bypassCache: options.bypassCache
+      })
+      if (reply === null) {
+        error.value = client.error.value || 'Failed to extract the data of the research'
+        return null
+      }
+
+      const datasets = parseDatasets(reply, research)
+      debug.log('Datasets extracted', { datasets: datasets.length })
+      return datasets
+    } catch (err) {
+      debug.error('Data extraction failed', err)
+      error.value = err instanceof Error ? err.message : 'Failed to extract the data of the research'
+      return null
+    } finally {
+      isExtracting.value = false
+    }
+  }
+
+  return {
+    isExtracting,
+    error,
+    extractDatasets
+  }
+}
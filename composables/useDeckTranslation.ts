@@ -0,0 +1,111 @@
+/**
+ * Composable for translating an outline slide by slide. Code chunks, Marp directives, speaker
+ * notes, HTML, links and citation markers are kept out of the model's reach, and a slide whose
+ * translation breaks them or a table keeps its original text
+ */
+
+import { ref } from 'vue'
+import { useOpenRouter } from './useOpenRouter'
+import { useModelSettings } from './useModelSettings'
+import { usePromptTemplates } from './usePromptTemplates'
+import { createDebugger } from '~/utils/debug'
+import { checkTranslation, protectSlide, replaceSlideText, restoreSlide } from '~/utils/deckTranslation'
+import { hasContent, parseOutline, serializeOutline } from '~/utils/slideAst'
+import type { SlideNode } from '~/types/deck'
+
+export interface DeckTranslationOptions {
+  /** Research session the calls are billed to */
+  sessionId?: string
+  bypassCache?: boolean
+}
+
+export interface DeckTranslation {
+  outline: string
+  /** Slides kept in the original language, and why */
+  warnings: string[]
+}
+
+export const useDeckTranslation = () => {
+  const debug = createDebugger('useDeckTranslation')
+  const { renderActivePrompt } = usePromptTemplates()
+  const { getStageOverride } = useModelSettings()
+  const isTranslating = ref(false)
+  /** Slides translated so far, out of the slides of the outline */
+  const progress = ref({ done: 0, total: 0 })
+  const error = ref<string | null>(null)
+  const warnings = ref<string[]>([])
+
+  /**
+   * Translates an outline one slide at a time; the front matter is left as it is
+   * @param outline The outline
+   * @param language The language to translate into
+   * @param options Session and cache options
+   * @returns The translated outline and the slides that were kept, or null if the translation failed
+   */
+  const translateOutline = async (
+    outline: string,
+    language: string,
+    options: DeckTranslationOptions = {}
+  ): Promise<DeckTranslation | null> => {
+    const deck = parseOutline(outline)
+    const slides = deck.slides.filter(hasContent)
+    if (!slides.length || !language.trim() || isTranslating.value) return null
+    isTranslating.value = true
+    error.value = null
+    warnings.value = []
+    progress.value = { done: 0, total: slides.length }
+
+    try {
+      const client = useOpenRouter()
+      const translated = new Map<SlideNode, SlideNode>()
+
+      for (const [index, slide] of slides.entries()) {
+        const protectedSlide = protectSlide(slide)
+        // Slides that are only code or directives have nothing to translate
+        if (!/[^\W\d_]/.test(protectedSlide.text.replace(/__KEEP_\d+__/g, ''))) {
+          progress.value = { ...progress.value, done: index + 1 }
+          continue
+        }
+
+        const prompt = await renderActivePrompt('translate', { slide: protectedSlide.text, language })
+        const reply = await client.queryModel(prompt.text, 2000, false, undefined, {
+          stage: 'rewrite',
+          model: getStageOverride('rewrite'),
+          sessionId: options.sessionId,
+          bypassCache: options.bypassCache
+        })
+        if (!reply?.trim()) {
+          error.value = client.error.value || `Failed to translate slide ${index + 1}`
+          return null
+        }
+
+        const problems = checkTranslation(protectedSlide, reply.trim())
+        if (problems.length) {
+          warnings.value = [...warnings.value, `Slide ${index + 1} was kept in the original language: ${problems.join(', ')}`]
+        } else {
+          translated.set(slide, replaceSlideText(slide, restoreSlide(reply.trim(), protectedSlide.placeholders)))
+        }
+        progress.value = { ...progress.value, done: index + 1 }
+      }
+
+      debug.log('Outline translated', { language, slides: slides.length, kept: warnings.value.length })
+      // The front matter and the slide breaks are written back as they were
+      const outlineSlides = deck.slides.map(slide => translated.get(slide) ?? slide)
+      return { outline: serializeOutline({ ...deck, slides: outlineSlides }), warnings: warnings.value }
+    } catch (err) {
+      debug.error('Outline translation failed', err)
+      error.value = err instanceof Error ? err.message : 'Failed to translate the outline'
+      return null
+    } finally {
+      isTranslating.value = false
+    }
+  }
+
+  return {
+    isTranslating,
+    progress,
+    error,
+    warnings,
+    translateOutline
+  }
+}
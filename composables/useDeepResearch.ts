@@ -0,0 +1,294 @@
+/**
+ * Composable for deep research: plans sub-questions from the topic and subtopics,
+ * researches each one in its own call with a concurrency limit, then synthesizes the
+ * answers into one document. Steps can be re-run individually before re-synthesizing
+ */
+
+import { ref, computed } from 'vue'
+import { useOpenRouter } from './useOpenRouter'
+import { usePromptTemplates } from './usePromptTemplates'
+import { useDocuments } from './useDocuments'
+import { createDebugger } from '~/utils/debug'
+import { sumTokenUsage } from '~/utils/modelCatalog'
+import { briefPromptValues } from '~/utils/researchBrief'
+import { addPassageSources, formatSourceList, formatSourcesForPrompt } from '~/utils/citations'
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_MAX_QUESTIONS,
+  createPlanSteps,
+  formatFindings,
+  parseResearchPlan,
+  runWithConcurrency
+} from '~/utils/researchPlanner'
+import type { TokenUsage } from '~/types/llm'
+import type { PromptVersionRef } from '~/types/prompts'
+import type { RetrievedPassage } from '~/types/documents'
+import type { ResearchBriefSettings, ResearchPlan, ResearchSource } from '~/types/research'
+
+/** The brief settings shape the plan and the final document */
+export interface DeepResearchOptions extends ResearchBriefSettings {
+  model?: string
+  bypassCache?: boolean
+  /** Research session the calls are billed to */
+  sessionId?: string
+  /** Maximum number of sub-questions researched at once */
+  concurrency?: number
+  /** Maximum number of sub-questions in the plan */
+  maxQuestions?: number
+}
+
+export interface DeepResearchSynthesis {
+  content: string
+  model?: string
+  usage?: TokenUsage
+  promptVersion: PromptVersionRef
+}
+
+/** Passages of the uploaded documents retrieved for each sub-question */
+const PASSAGES_PER_STEP = 3
+
+/**
+ * Numbers of the sources shown for a step: the notes and references of the brief and the
+ * passages retrieved for the step
+ */
+const stepSourceNumbers = (sources: ResearchSource[], passages: RetrievedPassage[]): number[] => {
+  return sources
+    .map((source, index) => ({ source, number: index + 1 }))
+    .filter(({ source }) => source.kind !== 'document' || passages.some(passage =>
+      passage.documentId === source.documentId && passage.chunkIndex === source.chunkIndex))
+    .map(({ number }) => number)
+}
+
+export const useDeepResearch = () => {
+  const debug = createDebugger('useDeepResearch')
+  const { renderActivePrompt } = usePromptTemplates()
+  const { searchDocuments } = useDocuments()
+  const plan = ref<ResearchPlan | null>(null)
+  const isPlanning = ref(false)
+  const isSynthesizing = ref(false)
+  const error = ref<string | null>(null)
+  const planUsage = ref<TokenUsage | null>(null)
+  const synthesisUsage = ref<TokenUsage | null>(null)
+  // Settings of the current run, reused when a step is re-run
+  let runOptions: DeepResearchOptions = {}
+
+  const isRunning = computed(() => {
+    return isPlanning.value || isSynthesizing.value || !!plan.value?.steps.some(step => step.status === 'running')
+  })
+
+  /** Usage of every call of the run: plan, steps and synthesis */
+  const totalUsage = computed(() => sumTokenUsage([
+    planUsage.value,
+    ...(plan.value?.steps.map(step => step.usage) || []),
+    synthesisUsage.value
+  ]))
+
+  const promptValues = (topic: string, subtopics: string[]) => {
+    const { model, bypassCache, sessionId, concurrency, maxQuestions, ...settings } = runOptions
+    return briefPromptValues({ ...settings, topic, subtopics })
+  }
+
+  const queryOptions = () => ({
+    stage: 'research' as const,
+    model: runOptions.model,
+    sessionId: runOptions.sessionId,
+    bypassCache: runOptions.bypassCache
+  })
+
+  /**
+   * Asks the model to split the topic into sub-questions
+   * @param topic The research topic
+   * @param subtopics Subtopics the plan must cover
+   * @param options Model, session, brief and plan settings
+   * @returns The plan or null if planning failed
+   */
+  const createPlan = async (topic: string, subtopics: string[], options: DeepResearchOptions = {}): Promise<ResearchPlan | null> => {
+    runOptions = options
+    isPlanning.value = true
+    error.value = null
+    plan.value = null
+    planUsage.value = null
+    synthesisUsage.value = null
+    const maxQuestions = options.maxQuestions || DEFAULT_MAX_QUESTIONS
+
+    try {
+      const client = useOpenRouter()
+      const prompt = await renderActivePrompt('plan', { ...promptValues(topic, subtopics), count: maxQuestions })
+      const reply = await client.queryModel(prompt.text, 1000, false, undefined, queryOptions())
+      if (reply === null) {
+        error.value = client.error.value || 'Failed to plan the research'
+        return null
+      }
+
+      planUsage.value = client.lastUsage.value
+      plan.value = {
+        topic,
+        subtopics,
+        steps: createPlanSteps(parseResearchPlan(reply, topic, subtopics, maxQuestions)),
+        sources: options.sources ? [...options.sources] : [],
+        createdAt: new Date().toISOString()
+      }
+      debug.log('Research plan created', { steps: plan.value.steps.length })
+      return plan.value
+    } catch (err) {
+      debug.error('Planning failed', err)
+      error.value = err instanceof Error ? err.message : 'Failed to plan the research'
+      return null
+    } finally {
+      isPlanning.value = false
+    }
+  }
+
+  /**
+   * Researches one sub-question, streaming the answer into the step
+   * @param stepId The step id
+   */
+  const runStep = async (stepId: string): Promise<void> => {
+    const current = plan.value
+    const step = current?.steps.find(candidate => candidate.id === stepId)
+    if (!current || !step) return
+
+    step.status = 'running'
+    step.content = ''
+    step.error = undefined
+
+    try {
+      const client = useOpenRouter()
+      // Each sub-question is grounded in the uploaded passages that match it
+      step.passages = runOptions.documentCollection
+        ? await searchDocuments(runOptions.documentCollection, [step.question, step.subtopic].filter(Boolean).join('\n'), PASSAGES_PER_STEP)
+        : undefined
+      // Passages join the plan's sources so citations keep one numbering across the steps
+      const sources = addPassageSources(current.sources || [], step.passages || [])
+      current.sources = sources
+      const prompt = await renderActivePrompt('subquestion', {
+        topic: current.topic,
+        question: step.question,
+        subtopic: step.subtopic,
+        sources: formatSourcesForPrompt(sources, stepSourceNumbers(sources, step.passages || []))
+      })
+      const result = await client.queryModel(
+        prompt.text,
+        1500,
+        true,
+        (chunk) => {
+          step.content += chunk
+        },
+        queryOptions()
+      )
+
+      if (result === null) {
+        step.status = 'failed'
+        step.error = client.error.value || 'The request failed'
+        return
+      }
+      step.content = result
+      step.model = client.lastModel.value || undefined
+      step.usage = client.lastUsage.value || undefined
+      step.status = 'completed'
+    } catch (err) {
+      debug.error('Research step failed', err)
+      step.status = 'failed'
+      step.error = err instanceof Error ? err.message : 'The request failed'
+    }
+  }
+
+  /**
+   * Researches the given steps, or every step that is not completed yet
+   * @param stepIds The steps to run
+   */
+  const runSteps = async (stepIds?: string[]): Promise<void> => {
+    const steps = plan.value?.steps.filter(step => stepIds ? stepIds.includes(step.id) : step.status !== 'completed') || []
+    await runWithConcurrency(steps, runOptions.concurrency || DEFAULT_CONCURRENCY, step => runStep(step.id))
+  }
+
+  /**
+   * Writes the final document from the completed steps
+   * @param onChunk Callback invoked with each streamed piece of the document
+   * @returns The document or null if there is nothing to synthesize or the request failed
+   */
+  const synthesize = async (onChunk?: (chunk: string) => void): Promise<DeepResearchSynthesis | null> => {
+    const current = plan.value
+    const findings = current ? formatFindings(current.steps) : ''
+    if (!current || !findings) {
+      error.value = 'None of the sub-questions could be researched'
+      return null
+    }
+
+    isSynthesizing.value = true
+    error.value = null
+    synthesisUsage.value = null
+
+    try {
+      const client = useOpenRouter()
+      const prompt = await renderActivePrompt('synthesis', {
+        ...promptValues(current.topic, current.subtopics),
+        findings,
+        sources: formatSourceList(current.sources || [])
+      })
+      const result = await client.queryModel(prompt.text, 4000, true, onChunk, queryOptions())
+      if (result === null) {
+        error.value = client.error.value || 'Failed to synthesize the research'
+        return null
+      }
+
+      synthesisUsage.value = client.lastUsage.value
+      return {
+        content: result,
+        model: client.lastModel.value || undefined,
+        usage: totalUsage.value,
+        promptVersion: prompt.version
+      }
+    } catch (err) {
+      debug.error('Synthesis failed', err)
+      error.value = err instanceof Error ? err.message : 'Failed to synthesize the research'
+      return null
+    } finally {
+      isSynthesizing.value = false
+    }
+  }
+
+  /**
+   * Drops the current plan, e.g. when a regular research run starts
+   */
+  const reset = () => {
+    plan.value = null
+    planUsage.value = null
+    synthesisUsage.value = null
+    error.value = null
+  }
+
+  /**
+   * Plans, researches every sub-question and synthesizes the result
+   * @param topic The research topic
+   * @param subtopics Subtopics the plan must cover
+   * @param options Model, session, brief, concurrency and plan settings
+   * @param onChunk Callback invoked with each streamed piece of the final document
+   * @returns The synthesized document or null if the run failed
+   */
+  const run = async (
+    topic: string,
+    subtopics: string[],
+    options: DeepResearchOptions = {},
+    onChunk?: (chunk: string) => void
+  ): Promise<DeepResearchSynthesis | null> => {
+    if (!(await createPlan(topic, subtopics, options))) return null
+    await runSteps()
+    return synthesize(onChunk)
+  }
+
+  return {
+    plan,
+    isPlanning,
+    isSynthesizing,
+    isRunning,
+    error,
+    totalUsage,
+    createPlan,
+    runStep,
+    runSteps,
+    synthesize,
+    run,
+    reset
+  }
+}
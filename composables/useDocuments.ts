@@ -0,0 +1,125 @@
+/**
+ * Composable for the documents uploaded as grounding context
+ * Documents belong to a collection whose id travels with the research brief; the
+ * research retrieves the passages that best match the topic from it
+ */
+
+import { ref } from 'vue'
+import { createDebugger } from '~/utils/debug'
+import type { RetrievedPassage, StoredDocument } from '~/types/documents'
+
+/**
+ * Creates a document collection id
+ */
+export const createCollectionId = (): string => {
+  return globalThis.crypto?.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`
+}
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json()
+    return data.statusMessage || data.message || response.statusText
+  } catch {
+    return response.statusText
+  }
+}
+
+export const useDocuments = () => {
+  const debug = createDebugger('useDocuments')
+  const documents = ref<StoredDocument[]>([])
+  const isUploading = ref(false)
+  const error = ref<string | null>(null)
+
+  /**
+   * Loads the documents of a collection
+   * @param collectionId The collection
+   */
+  const loadDocuments = async (collectionId: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/documents/${collectionId}`)
+      if (!response.ok) throw new Error(await readError(response))
+      documents.value = (await response.json()).documents
+    } catch (err) {
+      debug.error('Failed to load documents', err)
+      error.value = err instanceof Error ? err.message : 'Failed to load documents'
+    }
+  }
+
+  /**
+   * Uploads files to a collection
+   * @param collectionId The collection
+   * @param files The files
+   * @returns The stored documents, or an empty list if the upload failed
+   */
+  const uploadDocuments = async (collectionId: string, files: File[]): Promise<StoredDocument[]> => {
+    if (!files.length) return []
+    isUploading.value = true
+    error.value = null
+
+    try {
+      const form = new FormData()
+      for (const file of files) form.append('files', file, file.name)
+      const response = await fetch(`/api/documents/${collectionId}`, { method: 'POST', body: form })
+      if (!response.ok) throw new Error(await readError(response))
+
+      const uploaded: StoredDocument[] = (await response.json()).documents
+      documents.value = [...documents.value, ...uploaded]
+      return uploaded
+    } catch (err) {
+      debug.error('Failed to upload documents', err)
+      error.value = err instanceof Error ? err.message : 'Failed to upload documents'
+      return []
+    } finally {
+      isUploading.value = false
+    }
+  }
+
+  /**
+   * Removes a document from a collection
+   * @param collectionId The collection
+   * @param documentId The document
+   */
+  const removeDocument = async (collectionId: string, documentId: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/documents/${collectionId}/${documentId}`, { method: 'DELETE' })
+      if (!response.ok && response.status !== 404) throw new Error(await readError(response))
+      documents.value = documents.value.filter(document => document.id !== documentId)
+    } catch (err) {
+      debug.error('Failed to remove document', err)
+      error.value = err instanceof Error ? err.message : 'Failed to remove the document'
+    }
+  }
+
+  /**
+   * Retrieves the passages of a collection that best match a query
+   * @param collectionId The collection
+   * @param query The query
+   * @param limit Maximum number of passages
+   * @returns The passages, or an empty list if the search failed
+   */
+  const searchDocuments = async (collectionId: string, query: string, limit?: number): Promise<RetrievedPassage[]> => {
+    try {
+      const response = await fetch(`/api/documents/${collectionId}/search`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, ...(limit ? { limit } : {}) })
+      })
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).passages
+    } catch (err) {
+      // Research still runs without grounding if the search fails
+      debug.warn('Document search failed', err)
+      return []
+    }
+  }
+
+  return {
+    documents,
+    isUploading,
+    error,
+    loadDocuments,
+    uploadDocuments,
+    removeDocument,
+    searchDocuments
+  }
+}
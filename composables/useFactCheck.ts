@@ -0,0 +1,227 @@
+/**
+ * Composable for the optional fact-check pass over the research: a model, possibly a
+ * different one than the research model, lists the claims and checks each one against the
+ * sources and its own knowledge. Flagged claims can be accepted, edited or rewritten by the
+ * model; the checks are saved with their research session
+ */
+
+import { ref, computed } from 'vue'
+import { useOpenRouter } from './useOpenRouter'
+import { useModelSettings } from './useModelSettings'
+import { usePromptTemplates } from './usePromptTemplates'
+import { useSessions } from './useSessions'
+import { createDebugger } from '~/utils/debug'
+import { formatSourcesForPrompt } from '~/utils/citations'
+import { openWarnings, parseVerification, replacePassage } from '~/utils/factCheck'
+import type { ResearchSource, ResearchVerification, VerifiedClaim } from '~/types/research'
+
+/** localStorage key prefix for the copy kept in the browser; the research session id is appended */
+const STORAGE_PREFIX = 'researchVerification:'
+
+export interface FactCheckOptions {
+  /** Model id; the fact-check stage model when omitted */
+  model?: string
+  /** Sources the claims are checked against */
+  sources?: ResearchSource[]
+  /** Language the research is written in */
+  language?: string
+  bypassCache?: boolean
+}
+
+export const useFactCheck = () => {
+  const debug = createDebugger('useFactCheck')
+  const { renderActivePrompt } = usePromptTemplates()
+  const { getStageOverride } = useModelSettings()
+  const { fetchSession, saveSession } = useSessions()
+  const verification = ref<ResearchVerification | null>(null)
+  const isVerifying = ref(false)
+  /** The claim whose passage is being rewritten */
+  const revisingClaimId = ref<string | null>(null)
+  const error = ref<string | null>(null)
+  const sessionId = ref<string | null>(null)
+
+  /** Unsupported and contradicted claims the user has not handled yet */
+  const warnings = computed(() => openWarnings(verification.value?.claims || []))
+
+  // The browser keeps a copy for when the server cannot be reached
+  const saveVerification = async () => {
+    const id = sessionId.value
+    if (!id) return
+    if (typeof window !== 'undefined') {
+      if (verification.value) localStorage.setItem(STORAGE_PREFIX + id, JSON.stringify(verification.value))
+      else localStorage.removeItem(STORAGE_PREFIX + id)
+    }
+    await saveSession(id, { verification: verification.value })
+  }
+
+  const readSavedCopy = (id: string): ResearchVerification | null => {
+    if (typeof window === 'undefined') return null
+    try {
+      const saved = localStorage.getItem(STORAGE_PREFIX + id)
+      return saved ? JSON.parse(saved) : null
+    } catch (err) {
+      debug.error('Failed to load the fact-check', err)
+      return null
+    }
+  }
+
+  /**
+   * Loads the fact-check of a research session; the copy in the browser is used when the
+   * session cannot be loaded or was saved without a fact-check
+   * @param id The research session id
+   */
+  const loadVerification = async (id: string): Promise<void> => {
+    sessionId.value = id
+    verification.value = null
+    const session = await fetchSession(id)
+    // Another session may have been opened in the meantime
+    if (sessionId.value !== id) return
+    verification.value = session?.verification ?? readSavedCopy(id)
+  }
+
+  /**
+   * Discards the fact-check of the current session
+   */
+  const clearVerification = async (): Promise<void> => {
+    verification.value = null
+    await saveVerification()
+  }
+
+  /**
+   * Lists and checks the claims of the research
+   * @param research The research document
+   * @param options Model, sources and language
+   * @returns The fact-check or null if it failed
+   */
+  const verifyResearch = async (research: string, options: FactCheckOptions = {}): Promise<ResearchVerification | null> => {
+    if (!research.trim() || isVerifying.value) return null
+    isVerifying.value = true
+    error.value = null
+
+    try {
+      const client = useOpenRouter()
+      const prompt = await renderActivePrompt('verify', {
+        research,
+        language: options.language,
+        sources: formatSourcesForPrompt(options.sources || [])
+      })
+      const reply = await client.queryModel(prompt.text, 3000, false, undefined, {
+        stage: 'verification',
+        model: options.model || getStageOverride('verification'),
+        sessionId: sessionId.value || undefined,
+        bypassCache: options.bypassCache
+      })
+      if (reply === null) {
+        error.value = client.error.value || 'Failed to fact-check the research'
+        return null
+      }
+
+      verification.value = {
+        claims: parseVerification(reply, research),
+        model: client.lastModel.value || undefined,
+        usage: client.lastUsage.value || undefined,
+        promptVersion: prompt.version,
+        createdAt: new Date().toISOString()
+      }
+      saveVerification()
+      debug.log('Research fact-checked', { claims: verification.value.claims.length, warnings: warnings.value.length })
+      return verification.value
+    } catch (err) {
+      debug.error('Fact-check failed', err)
+      error.value = err instanceof Error ? err.message : 'Failed to fact-check the research'
+      return null
+    } finally {
+      isVerifying.value = false
+    }
+  }
+
+  const updateClaim = (id: string, changes: Partial<VerifiedClaim>) => {
+    if (!verification.value) return
+    verification.value = {
+      ...verification.value,
+      claims: verification.value.claims.map(claim => claim.id === id ? { ...claim, ...changes } : claim)
+    }
+    saveVerification()
+  }
+
+  /**
+   * Keeps a flagged claim as it is and removes its warning
+   * @param id The claim id
+   */
+  const acceptClaim = (id: string) => updateClaim(id, { status: 'accepted' })
+
+  /**
+   * Replaces the passage of a claim with the user's text
+   * @param id The claim id
+   * @param research The research document
+   * @param text The new passage
+   * @returns The updated research
+   */
+  const editClaim = (id: string, research: string, text: string): string => {
+    const claim = verification.value?.claims.find(candidate => candidate.id === id)
+    if (!claim?.quote || !text.trim()) return research
+
+    updateClaim(id, { status: 'edited', quote: text.trim() })
+    return replacePassage(research, claim.quote, text)
+  }
+
+  /**
+   * Asks the rewriting model to fix the passage of a flagged claim
+   * @param id The claim id
+   * @param research The research document
+   * @param options Model, sources and language
+   * @returns The updated research, or null if the rewrite failed
+   */
+  const reviseClaim = async (id: string, research: string, options: FactCheckOptions = {}): Promise<string | null> => {
+    const claim = verification.value?.claims.find(candidate => candidate.id === id)
+    if (!claim?.quote || revisingClaimId.value) return null
+    revisingClaimId.value = id
+    error.value = null
+
+    try {
+      const client = useOpenRouter()
+      const prompt = await renderActivePrompt('revise', {
+        passage: claim.quote,
+        claim: claim.claim,
+        explanation: claim.explanation,
+        language: options.language,
+        sources: formatSourcesForPrompt(options.sources || [], claim.sources)
+      })
+      const reply = await client.queryModel(prompt.text, 1000, false, undefined, {
+        stage: 'rewrite',
+        model: getStageOverride('rewrite'),
+        sessionId: sessionId.value || undefined,
+        bypassCache: options.bypassCache
+      })
+      if (!reply?.trim()) {
+        error.value = client.error.value || 'Failed to rewrite the passage'
+        return null
+      }
+
+      const passage = reply.trim()
+      updateClaim(id, { status: 'rewritten', quote: passage })
+      return replacePassage(research, claim.quote, passage)
+    } catch (err) {
+      debug.error('Rewrite failed', err)
+      error.value = err instanceof Error ? err.message : 'Failed to rewrite the passage'
+      return null
+    } finally {
+      revisingClaimId.value = null
+    }
+  }
+
+  return {
+    verification,
+    warnings,
+    isVerifying,
+    revisingClaimId,
+    error,
+    sessionId,
+    verifyResearch,
+    acceptClaim,
+    editClaim,
+    reviseClaim,
+    loadVerification,
+    clearVerification
+  }
+}
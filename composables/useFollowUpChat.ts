@@ -0,0 +1,148 @@
+/**
+ * Composable for follow-up questions about the generated research
+ * Every request sends a system prompt with the research as context plus the whole
+ * conversation; conversations are saved with their research session
+ */
+
+import { ref } from 'vue'
+import { useOpenRouter } from './useOpenRouter'
+import { useModelSettings } from './useModelSettings'
+import { useSessions } from './useSessions'
+import { createDebugger } from '~/utils/debug'
+import type { ChatMessage } from '~/types/llm'
+import type { FollowUpMessage } from '~/types/research'
+
+/** localStorage key prefix for the copy kept in the browser; the research session id is appended */
+const STORAGE_PREFIX = 'researchChat:'
+
+/**
+ * Builds the system prompt that grounds the conversation in the research
+ * @param research The current research document
+ * @returns The system prompt
+ */
+export const buildFollowUpSystemPrompt = (research: string): string => {
+  return `You are a research assistant answering follow-up questions about the research document below.
+Base your answers on the document and say so when a question goes beyond it.
+Answer in markdown. When asked to write, expand or rewrite a section, reply with the new section text only, without any introduction.
+
+Research document:
+"""
+${research}
+"""`
+}
+
+export const useFollowUpChat = () => {
+  const debug = createDebugger('useFollowUpChat')
+  const { queryModel, isLoading, error, lastModel } = useOpenRouter()
+  const { getStageOverride } = useModelSettings()
+  const { fetchSession, saveSession } = useSessions()
+  const messages = ref<FollowUpMessage[]>([])
+  const streamingReply = ref<string>('')
+  const sessionId = ref<string | null>(null)
+
+  // The browser keeps a copy for when the server cannot be reached
+  const saveConversation = async () => {
+    const id = sessionId.value
+    if (!id) return
+    if (typeof window !== 'undefined') localStorage.setItem(STORAGE_PREFIX + id, JSON.stringify(messages.value))
+    await saveSession(id, { chat: messages.value })
+  }
+
+  const readSavedCopy = (id: string): FollowUpMessage[] => {
+    if (typeof window === 'undefined') return []
+    try {
+      const saved = localStorage.getItem(STORAGE_PREFIX + id)
+      return saved ? JSON.parse(saved) : []
+    } catch (err) {
+      debug.error('Failed to load conversation', err)
+      return []
+    }
+  }
+
+  /**
+   * Loads the conversation of a research session; the copy in the browser is used when the
+   * session cannot be loaded or has no conversation yet
+   * @param id The research session id
+   */
+  const loadConversation = async (id: string): Promise<void> => {
+    sessionId.value = id
+    messages.value = []
+    const session = await fetchSession(id)
+    // Another session may have been opened in the meantime
+    if (sessionId.value !== id) return
+    messages.value = session?.chat ?? readSavedCopy(id)
+  }
+
+  /**
+   * Clears the conversation of the current session
+   */
+  const clearConversation = async (): Promise<void> => {
+    messages.value = []
+    await saveConversation()
+  }
+
+  /**
+   * Builds the messages sent to the model: system prompt, then every turn
+   * @param research The current research document
+   * @returns The chat messages
+   */
+  const buildRequestMessages = (research: string): ChatMessage[] => [
+    { role: 'system', content: buildFollowUpSystemPrompt(research) },
+    ...messages.value.map(({ role, content }) => ({ role, content }))
+  ]
+
+  /**
+   * Asks a follow-up question and streams the reply
+   * @param question The user's question
+   * @param research The current research document
+   * @param options Per-request model override
+   * @returns The reply or null if the request failed
+   */
+  const sendMessage = async (question: string, research: string, options: { model?: string } = {}): Promise<string | null> => {
+    const text = question.trim()
+    if (!text || isLoading.value) return null
+
+    messages.value.push({ role: 'user', content: text, timestamp: new Date().toISOString() })
+    saveConversation()
+    streamingReply.value = ''
+
+    const reply = await queryModel(
+      text,
+      2000,
+      true,
+      (chunk) => {
+        streamingReply.value += chunk
+      },
+      {
+        stage: 'rewrite',
+        model: options.model || getStageOverride('rewrite'),
+        messages: buildRequestMessages(research),
+        sessionId: sessionId.value || undefined
+      }
+    )
+
+    streamingReply.value = ''
+    if (reply) {
+      messages.value.push({
+        role: 'assistant',
+        content: reply,
+        model: lastModel.value || undefined,
+        timestamp: new Date().toISOString()
+      })
+      saveConversation()
+    }
+    return reply
+  }
+
+  return {
+    messages,
+    streamingReply,
+    sessionId,
+    isLoading,
+    error,
+    sendMessage,
+    loadConversation,
+    clearConversation,
+    buildRequestMessages
+  }
+}
@@ -8,12 +8,29 @@ import { ref } from 'vue'
 import { Marp } from '@marp-team/marp-core'
 import { useFetch } from '#app'
 import { containsSvgImages, extractSvgDataUrls, convertMarkdownSvgToHtml } from '~/utils/svgUtils'
+import { appendReferencesSlide, checkCitations } from '~/utils/citations'
+import { parseOutline, serializeOutline, spaceSlides } from '~/utils/slideAst'
+import type { BlockNode, ChunkNode, FrontMatterNode, HeadingNode } from '~/types/deck'
+import type { CitationStyle, ResearchDataset, ResearchSource } from '~/types/research'
+
+// Used for decks that have no Marp front matter
+const DEFAULT_FRONT_MATTER: FrontMatterNode = {
+  yaml: `marp: true
+theme: gaia
+class: lead
+paginate: true
+backgroundColor: #fff
+backgroundImage: url('./background.svg')`,
+  fields: { marp: 'true', theme: 'gaia', class: 'lead', paginate: 'true' }
+}
 
 export const useMarp = () => {
   const isGenerating = ref(false)
   const error = ref<string | null>(null)
   const slidesHtml = ref<string>('')
   const isProcessingR = ref(false)
+  /** Citation markers of the last converted deck that match no source */
+  const citationErrors = ref<string[]>([])
 
   /**
    * Generates MARP slides from markdown content
@@ -126,12 +143,17 @@ export const useMarp = () => {
 
   /**
    * Converts Markdown to HTML slides using MARP
+   * With sources, citation markers are written in the citation style, a References slide
+   * listing the cited sources is appended and markers that match no source are reported in
+   * citationErrors
    * @param markdown The Markdown content to convert
+   * @param options The sources the citation markers refer to and the citation style
    * @returns A promise that resolves with the HTML slides
    */
-  const convertMarkdownToSlides = async (markdown: string): Promise<string | null> => {
+  const convertMarkdownToSlides = async (markdown: string, options: { sources?: ResearchSource[], style?: CitationStyle } = {}): Promise<string | null> => {
     isGenerating.value = true
     error.value = null
+    citationErrors.value = []
 
     try {
       // First, process any R Markdown code chunks
@@ -168,61 +190,27 @@ export const useMarp = () => {
         }
       }
 
-      // Convert any standard Markdown SVG images to HTML for better compatibility
-      processedMarkdown = convertMarkdownSvgToHtml(processedMarkdown)
-
-      // First, check if the markdown already has MARP directives
-      const hasMarpDirectives = /^---[\s\S]*?marp:\s*true[\s\S]*?---/m.test(processedMarkdown);
-
-      if (!hasMarpDirectives) {
-        // If no MARP directives, add them at the beginning
-        processedMarkdown = `---
-marp: true
-theme: gaia
-class: lead
-paginate: true
-backgroundColor: #fff
-backgroundImage: url('./background.svg')
----
-
-${processedMarkdown}`;
-      }
-
-      // Ensure proper slide separation
-      // First, identify the content after the frontmatter
-      const frontmatterEndMatch = processedMarkdown.match(/^---[\s\S]*?---\s*/m);
-      let contentStartIndex = 0;
-
-      if (frontmatterEndMatch) {
-        contentStartIndex = frontmatterEndMatch[0].length;
+      if (options.sources) {
+        citationErrors.value = checkCitations(processedMarkdown, options.sources).errors
+        processedMarkdown = appendReferencesSlide(processedMarkdown, options.sources, options.style)
       }
 
-      // Extract content after frontmatter
-      const frontmatter = processedMarkdown.substring(0, contentStartIndex);
-      let content = processedMarkdown.substring(contentStartIndex);
-
-      // Process the content to ensure proper slide breaks
-      // 1. Make sure each slide separator is on its own line with proper spacing
-      content = content.replace(/([^\n])---([^\n])/g, '$1\n---\n$2');
-
-      // 2. Ensure there are blank lines around slide separators for proper parsing
-      content = content.replace(/([^\n])\n---\n/g, '$1\n\n---\n\n');
-      content = content.replace(/\n---\n([^\n])/g, '\n---\n\n$1');
+      // Convert any standard Markdown SVG images to HTML for better compatibility
+      processedMarkdown = convertMarkdownSvgToHtml(processedMarkdown)
 
-      // 3. Make sure the first slide has a title if not already present
-      const firstSlideContent = content.split(/\n---\n/)[0];
-      if (!firstSlideContent.match(/^#\s+/m)) {
-        // Add a default title if none exists
-        content = `# Presentation
+      // Decks without Marp's front matter get the default theme
+      const deck = parseOutline(processedMarkdown)
+      const frontMatter = deck.frontMatter?.fields.marp === 'true' ? deck.frontMatter : DEFAULT_FRONT_MATTER
 
-${content}`;
+      // Blank lines around the slide breaks, and a title on the first slide
+      const slides = spaceSlides({ slides: deck.slides }).slides
+      if (!slides[0].blocks.some(block => block.type === 'heading' && block.depth === 1)) {
+        slides[0] = { ...slides[0], blocks: [{ type: 'heading', depth: 1, text: 'Presentation' }, { type: 'blank' }, ...slides[0].blocks] }
       }
-
-      // Reassemble the document with proper frontmatter and content
-      processedMarkdown = frontmatter + content;
+      processedMarkdown = serializeOutline({ frontMatter, slides })
 
       // Log for debugging
-      console.log('Slide separators count:', (processedMarkdown.match(/\n---\n/g) || []).length + 1);
+      console.log('Slide count:', slides.length)
 
       // Create a new Marp instance
       const marp = new Marp({
@@ -235,9 +223,10 @@ ${content}`;
       // Process the markdown with Marp
       const { html, css } = marp.render(processedMarkdown)
 
-      // Extract title from Markdown if available
-      const titleMatch = processedMarkdown.match(/^#\s+(.+)$/m)
-      const title = titleMatch ? titleMatch[1] : 'MARP Presentation'
+      // The first top-level heading names the page
+      const title = slides
+        .flatMap(slide => slide.blocks)
+        .find((block): block is HeadingNode => block.type === 'heading' && block.depth === 1)?.text || 'MARP Presentation'
 
       // Generate complete HTML document with the rendered content
       const fullHtml = `
@@ -284,122 +273,13 @@ ${content}`;
     }
   }
 
-  // Helper function to generate slide HTML from Markdown content
-  const generateSlidesFromMarkdown = (markdown: string): string => {
-    // This is a simplified implementation
-    // In a real app, you would use a proper MARP converter
-
-    // Extract any non-slide content at the beginning (before MARP directives)
-    let nonSlideContent = '';
-    let slideContent = markdown;
-
-    // Look for the first MARP directive or slide separator
-    const marpDirectiveIndex = markdown.indexOf('<!-- ');
-    const firstSlideBreakIndex = markdown.indexOf('---');
-
-    // If there's content before the first MARP directive or slide break, it's non-slide content
-    if (marpDirectiveIndex > 0 || firstSlideBreakIndex > 0) {
-      const contentBreakIndex = Math.min(
-        marpDirectiveIndex > 0 ? marpDirectiveIndex : Infinity,
-        firstSlideBreakIndex > 0 ? firstSlideBreakIndex : Infinity
-      );
-      nonSlideContent = markdown.substring(0, contentBreakIndex).trim();
-      slideContent = markdown.substring(contentBreakIndex);
-    }
-
-    // Split by slide breaks (--- in MARP)
-    const sections = slideContent.split(/^---$/m).filter(section => section.trim())
-
-    // Generate HTML for each section
-    return sections.map((section, index) => {
-      // Extract heading if available
-      const headingMatch = section.match(/^#+\s+(.+)$/m)
-      const heading = headingMatch ? headingMatch[1] : ''
-
-      // Use the section as content
-      let content = section
-
-      // Process tables before other conversions
-      // Match table pattern with | column | headers | format
-      content = content.replace(
-        /^\|(.+)\|\s*\n\|\s*[-:\s]+\|\s*[-:\s]+\|\s*([-:\s]+\|\s*)*\n((\|.+\|\s*\n)+)/gm,
-        (match) => {
-          // Split the table into rows
-          const rows = match.trim().split('\n');
-
-          // Extract header row and separator row
-          const headerRow = rows[0];
-          const separatorRow = rows[1];
-          const dataRows = rows.slice(2);
-
-          // Process header cells
-          const headerCells = headerRow
-            .split('|')
-            .filter(cell => cell.trim() !== '')
-            .map(cell => `<th>${cell.trim()}</th>`)
-            .join('');
-
-          // Process data rows
-          const dataCellsHTML = dataRows
-            .map(row => {
-              const cells = row
-                .split('|')
-                .filter(cell => cell.trim() !== '')
-                .map(cell => `<td>${cell.trim()}</td>`)
-                .join('');
-              return `<tr>${cells}</tr>`;
-            })
-            .join('');
-
-          // Construct the HTML table
-          return `<table class="marp-table"><thead><tr>${headerCells}</tr></thead><tbody>${dataCellsHTML}</tbody></table>`;
-        }
-      );
-
-      // Convert markdown-like syntax to HTML (simplified)
-      content = content
-        .replace(/^#+\s+.+$/gm, '') // Remove headings (already extracted)
-        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>') // Bold
-        .replace(/\*(.+?)\*/g, '<em>$1</em>') // Italic
-        .replace(/^\s*-\s+(.+)$/gm, '<li>$1</li>') // List items
-        .replace(/(<li>.+\n)+/g, '<ul>$&</ul>') // Wrap list items
-        .replace(/`(.+?)`/g, '<code>$1</code>') // Inline code
-        .replace(/\n\n/g, '</p><p>') // Paragraphs
-
-      return `
-  <div class="slide">
-    ${heading ? `<h1>${heading}</h1>` : ''}
-    <style>
-      .marp-table {
-        border-collapse: collapse;
-        margin: 1em 0;
-        width: 100%;
-      }
-      .marp-table th, .marp-table td {
-        border: 1px solid #ddd;
-        padding: 8px;
-        text-align: left;
-      }
-      .marp-table th {
-        background-color: #f2f2f2;
-        font-weight: bold;
-      }
-      .marp-table tr:nth-child(even) {
-        background-color: #f9f9f9;
-      }
-    </style>
-    <div>${content}</div>
-    <div class="slide-number">${index + 2}</div>
-  </div>`
-    }).join('')
-  }
-
   /**
    * Process R Markdown content as a complete document
    * @param markdown The markdown content with R code chunks
+   * @param datasets Datasets loaded as data frames before the chunks run
    * @returns A promise that resolves to the processed markdown with R code chunks replaced by their outputs
    */
-  const processRMarkdownContent = async (markdown: string): Promise<string> => {
+  const processRMarkdownContent = async (markdown: string, datasets: ResearchDataset[] = []): Promise<string> => {
     isProcessingR.value = true
     let processedMarkdown = markdown
 
@@ -415,7 +295,8 @@ ${content}`;
         method: 'POST',
         body: {
           content: markdown,
-          type: 'document'
+          type: 'document',
+          datasets
         }
       })
 
@@ -451,71 +332,46 @@ ${content}`;
         })
       }
 
-      // Process the markdown to replace R code chunks with their outputs
-      // Regular expression to find R code chunks
-      const rCodeChunkRegex = /```{r.*?}\n([\s\S]*?)\n```/g
-
-      // Find all R code chunks
-      const matches = [...processedMarkdown.matchAll(rCodeChunkRegex)]
-
-      // Process each R code chunk
-      for (const match of matches) {
-        const fullMatch = match[0]
-        const rCode = match[1].trim()
-        const rCodeHash = generateHash(rCode)
-
-        // Check if this is a plot
-        let replaced = false
-        if (result.plots) {
-          for (const plotId in result.plots) {
-            const plot = result.plots[plotId]
-            const plotContent = plot.content
-
-            // If the plot was generated from this code chunk
-            if (plotContent.includes(rCode) || rCode.includes(plotContent.substring(0, 20))) {
-              const plotHash = generateHash(plot.content)
-              const dataUrl = getDataUrl(plotHash)
-
-              if (dataUrl) {
-                // Replace with an image reference with proper sizing for MARP
-                processedMarkdown = processedMarkdown.replace(
-                  fullMatch,
-                  `<div class="r-plot">
+      // Replace the R code chunks with their outputs
+      const replaceChunk = (chunk: ChunkNode): BlockNode => {
+        const rCode = chunk.code.trim()
+
+        // Check if this is a plot generated from this code chunk
+        for (const plotId in result.plots || {}) {
+          const plot = result.plots[plotId]
+          if (plot.content.includes(rCode) || rCode.includes(plot.content.substring(0, 20))) {
+            const dataUrl = getDataUrl(generateHash(plot.content))
+            // Replace with an image reference with proper sizing for MARP
+            if (dataUrl) {
+              return { type: 'html', html: `<div class="r-plot">
   <img src="${dataUrl}" alt="${plotId}" style="max-width: 100%; max-height: 70vh;" />
-</div>`
-                )
-                replaced = true
-                break
-              }
+</div>` }
             }
           }
         }
 
-        // Check if this is a table
-        if (!replaced && result.tables) {
-          for (const tableId in result.tables) {
-            const table = result.tables[tableId]
-            const tableContent = table.content
-
-            // If the table was generated from this code chunk
-            if (tableContent.includes(rCode) || rCode.includes(tableContent.substring(0, 20))) {
-              // Replace with the HTML table
-              processedMarkdown = processedMarkdown.replace(
-                fullMatch,
-                table.content
-              )
-              replaced = true
-              break
-            }
+        // Check if this is a table generated from this code chunk
+        for (const tableId in result.tables || {}) {
+          const table = result.tables[tableId]
+          if (table.content.includes(rCode) || rCode.includes(table.content.substring(0, 20))) {
+            return { type: 'html', html: table.content }
           }
         }
 
         // If not replaced, keep the original code chunk
-        if (!replaced) {
-          console.warn('Could not find output for R code chunk:', rCode)
-        }
+        console.warn('Could not find output for R code chunk:', rCode)
+        return chunk
       }
 
+      const deck = parseOutline(processedMarkdown)
+      processedMarkdown = serializeOutline({
+        ...deck,
+        slides: deck.slides.map(slide => ({
+          ...slide,
+          blocks: slide.blocks.map(block => block.type === 'chunk' && block.engine.toLowerCase() === 'r' ? replaceChunk(block) : block)
+        }))
+      })
+
       return processedMarkdown
     } catch (error) {
       console.error('Error processing R Markdown content:', error)
@@ -528,9 +384,10 @@ ${content}`;
   /**
    * Process individual R Markdown code chunks
    * @param markdown The markdown content with R code chunks
+   * @param datasets Datasets loaded as data frames before the chunks run
    * @returns A promise that resolves to the processed markdown with R code chunks replaced by their outputs
    */
-  const processRMarkdownChunks = async (content: string): Promise<string> => {
+  const processRMarkdownChunks = async (content: string, datasets: ResearchDataset[] = []): Promise<string> => {
     if (!content) return ''
 
     isProcessingR.value = true
@@ -542,7 +399,8 @@ ${content}`;
         },
         body: JSON.stringify({
           content,
-          type: 'document'
+          type: 'document',
+          datasets
         })
       })
 
@@ -571,14 +429,57 @@ ${content}`;
     }
   }
 
+  /**
+   * Renders an R Markdown document to a standalone HTML page with R Markdown
+   * With sources, citation markers and the bibliography are rendered by pandoc in the citation style
+   * @param content The R Markdown document
+   * @param options The sources the citation markers refer to, the citation style, and the datasets the chunks plot
+   * @returns A promise that resolves with the HTML page
+   */
+  const renderRMarkdownHtml = async (
+    content: string,
+    options: { sources?: ResearchSource[], style?: CitationStyle, datasets?: ResearchDataset[] } = {}
+  ): Promise<string> => {
+    isProcessingR.value = true
+    try {
+      const response = await fetch('/api/rmarkdown', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          content,
+          type: 'html',
+          sources: options.sources,
+          citationStyle: options.style,
+          datasets: options.datasets
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      if (data.error) {
+        throw new Error(data.error)
+      }
+      return data.result
+    } finally {
+      isProcessingR.value = false
+    }
+  }
+
   return {
     generateMarpSlides,
     convertMarkdownToSlides,
+    renderRMarkdownHtml,
     processRMarkdownChunks,
     processRMarkdownContent,
     isGenerating,
     isProcessingR,
     error,
+    citationErrors,
     slidesHtml
   }
 }
@@ -0,0 +1,95 @@
+/**
+ * Composable for choosing which model each pipeline stage uses
+ * Selections are shared between components and remembered in localStorage;
+ * stages without a selection fall back to the server's configured default
+ */
+
+import { ref } from 'vue'
+import { MODEL_CATALOG } from '~/utils/modelCatalog'
+import type { ModelInfo, ModelStage } from '~/types/llm'
+
+const STORAGE_KEY = 'modelSettings'
+
+const loadOverrides = (): Partial<Record<ModelStage, string>> => {
+  if (typeof window === 'undefined') return {}
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  } catch (error) {
+    console.error('Error reading model settings:', error)
+    return {}
+  }
+}
+
+// Module-level state so every component sees the same selection
+const catalog = ref<ModelInfo[]>(MODEL_CATALOG)
+const stageDefaults = ref<Partial<Record<ModelStage, string>>>({})
+const stageOverrides = ref<Partial<Record<ModelStage, string>>>(loadOverrides())
+const isCatalogLoaded = ref(false)
+
+export const useModelSettings = () => {
+  /**
+   * Loads the catalog and stage defaults from the server
+   */
+  const loadCatalog = async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/models')
+      if (!response.ok) {
+        throw new Error(`API error: ${response.statusText}`)
+      }
+      const data = await response.json()
+      catalog.value = data.models
+      stageDefaults.value = data.defaults || {}
+      isCatalogLoaded.value = true
+    } catch (error) {
+      console.error('Error loading model catalog:', error)
+    }
+  }
+
+  /**
+   * Gets the model explicitly selected for a stage
+   * @param stage The pipeline stage
+   * @returns The selected model id, or undefined to use the server default
+   */
+  const getStageOverride = (stage: ModelStage): string | undefined => {
+    return stageOverrides.value[stage] || undefined
+  }
+
+  /**
+   * Gets the model a stage will run with, for display and history records
+   * @param stage The pipeline stage
+   * @returns The selected model id or the stage default
+   */
+  const getEffectiveModel = (stage: ModelStage): string | undefined => {
+    return getStageOverride(stage) || stageDefaults.value[stage]
+  }
+
+  /**
+   * Selects a model for a stage; an empty id restores the default
+   * @param stage The pipeline stage
+   * @param modelId The model id
+   */
+  const setStageModel = (stage: ModelStage, modelId: string): void => {
+    const next = { ...stageOverrides.value }
+    if (modelId) {
+      next[stage] = modelId
+    } else {
+      delete next[stage]
+    }
+    stageOverrides.value = next
+
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    }
+  }
+
+  return {
+    catalog,
+    stageDefaults,
+    stageOverrides,
+    isCatalogLoaded,
+    loadCatalog,
+    getStageOverride,
+    getEffectiveModel,
+    setStageModel
+  }
+}
@@ -1,56 +1,144 @@
 /**
- * Composable for interacting with the OpenRouter API
- * Provides functionality to query the DeepSeek model
+ * Composable for interacting with the LLM chat proxy (/api/chat)
+ * The server decides which provider answers (OpenRouter, a local
+ * OpenAI-compatible server or the mock provider)
  */
 
 import { ref } from 'vue'
 import debug from '~/utils/debug'
+import { readSSEData, SSE_DONE } from '~/utils/sse'
+import { toTokenUsage } from '~/utils/modelCatalog'
+import type { ChatMessage, ModelStage, TokenUsage } from '~/types/llm'
+import type { StructuredOutline } from '~/utils/structuredOutline'
+import type { OutlineVariant, ResearchBrief, ResearchSource } from '~/types/research'
+
+export interface QueryOptions {
+  /** Model id to request; overrides the stage default */
+  model?: string
+  /** Pipeline stage, used by the server to pick the stage's default model */
+  stage?: ModelStage
+  /** Full message history; replaces the single user prompt when provided */
+  messages?: ChatMessage[]
+  /** Research session the call belongs to, used to aggregate usage and budgets */
+  sessionId?: string
+  /** Skip the server-side response cache and always call the model */
+  bypassCache?: boolean
+  /** Called with the job id as soon as a background job has been created */
+  onJobStarted?: (jobId: string) => void
+}
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled'
 
 export const useOpenRouter = () => {
   const isLoading = ref(false)
   const error = ref<string | null>(null)
   const streamingContent = ref<string>('')
   const isStreaming = ref(false)
+  const currentJobId = ref<string | null>(null)
+  const jobStatus = ref<JobStatus | null>(null)
+  // The model that answered the last request; may be a fallback model
+  const lastModel = ref<string | null>(null)
+  // Token usage and estimated cost of the last request
+  const lastUsage = ref<TokenUsage | null>(null)
+
+  /**
+   * Reads an SSE chat stream from /api/chat or /api/jobs/:id/stream
+   * @param body The response body
+   * @param onChunk Callback invoked with each piece of content
+   * @returns The concatenated content and the final job status, if reported
+   */
+  const readChatStream = async (
+    body: ReadableStream<Uint8Array>,
+    onChunk?: (chunk: string) => void
+  ): Promise<{ content: string, status?: JobStatus }> => {
+    let fullContent = ''
+    let status: JobStatus | undefined
+
+    for await (const data of readSSEData(body)) {
+      if (data === SSE_DONE || !data) continue
+
+      let parsed
+      try {
+        parsed = JSON.parse(data)
+      } catch (e) {
+        console.error('Error parsing streaming response:', e)
+        continue
+      }
+
+      // Errors raised after the stream started are reported in-band
+      if (parsed.error) {
+        throw new Error(parsed.error.message || 'Streaming response failed')
+      }
+
+      // Job streams finish with a status event
+      if (parsed.status) {
+        status = parsed.status
+        continue
+      }
+
+      if (parsed.model) {
+        lastModel.value = parsed.model
+      }
+
+      // The last chunk of every stream carries the usage of the call
+      if (parsed.usage) {
+        lastUsage.value = toTokenUsage(parsed.model || lastModel.value || '', parsed.usage)
+      }
+
+      const content = parsed.choices?.[0]?.delta?.content || ''
+      if (content) {
+        fullContent += content
+        streamingContent.value += content
+        if (onChunk) onChunk(content)
+      }
+    }
+
+    return { content: fullContent, status }
+  }
 
   /**
-   * Sends a query to the DeepSeek model via OpenRouter API
+   * Sends a query to the configured model via the /api/chat proxy
    * @param prompt The prompt to send to the model
    * @param maxTokens Maximum number of tokens to generate
    * @param streaming Whether to stream the response
+   * @param onChunk Callback invoked with each streamed piece of content
+   * @param options Model override and message history
    * @returns The generated content or null if an error occurred
    */
-  const queryDeepSeek = async (
-    prompt: string, 
-    maxTokens = 128000, 
+  const queryModel = async (
+    prompt: string,
+    maxTokens = 128000,
     streaming = true,
-    onChunk?: (chunk: string) => void
+    onChunk?: (chunk: string) => void,
+    options: QueryOptions = {}
   ): Promise<string | null> => {
-     console.log('queryDeepSeek called with:', { 
-      promptLength: prompt.length, 
-      promptPreview: prompt.substring(0, 50) + '...', 
-      maxTokens, 
-      streaming 
+    console.log('queryModel called with:', {
+      promptLength: prompt.length,
+      promptPreview: prompt.substring(0, 50) + '...',
+      maxTokens,
+      streaming,
+      stage: options.stage,
+      model: options.model
     })
-    
+
     isLoading.value = true
     error.value = null
     streamingContent.value = ''
     isStreaming.value = streaming
-
-    const config = useRuntimeConfig()
-    const siteUrl = config.public.siteUrl
-    // console.log('Site URL from config:', siteUrl)
+    lastModel.value = null
+    lastUsage.value = null
 
     try {
-      // console.log('Sending request to /api/chat endpoint')
       const requestBody = {
-        model: 'deepseek/deepseek-chat-v3-0324:free',
-        messages: [{ role: 'user', content: prompt }],
+        ...(options.stage ? { stage: options.stage } : {}),
+        ...(options.model ? { model: options.model } : {}),
+        ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+        ...(options.bypassCache ? { bypassCache: true } : {}),
+        messages: options.messages || [{ role: 'user', content: prompt }],
         max_tokens: maxTokens,
         stream: streaming
       }
-      // console.log('Request payload:', { ...requestBody, messages: '[content omitted for brevity]' })
-      
+
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
@@ -59,8 +147,6 @@ export const useOpenRouter = () => {
         body: JSON.stringify(requestBody)
       })
 
-      // console.log('Response received:', { status: response.status, ok: response.ok })
-      
       if (!response.ok) {
         const errorText = await response.text()
         console.error('API request failed:', { status: response.status, error: errorText })
@@ -69,53 +155,8 @@ export const useOpenRouter = () => {
 
       // Handle streaming response
       if (streaming && response.body) {
-        // console.log('Starting streaming response processing...')
-        const reader = response.body.getReader()
-        const decoder = new TextDecoder('utf-8')
-        let fullContent = ''
-
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) {
-            // console.log('Stream completed')
-            break
-          }
-          
-          const chunk = decoder.decode(value, { stream: true })
-          // console.log('Received raw chunk:', chunk.length, 'bytes')
-          const lines = chunk.split('\n').filter(line => line.trim() !== '')
-          // console.log('Procconsole.log('queryDeepSeekessing', lines.length, 'non-empty lines')
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6)
-              if (data === '[DONE]') {
-                // console.log('Received [DONE] signal')
-                continue
-              }
-              
-              // Only process non-empty data
-              if (data.trim()) {
-                try {
-                  const parsed = JSON.parse(data)
-                  const content = parsed.choices?.[0]?.delta?.content || ''
-                  if (content) {
-                    // console.log('Received content chunk:', content.length, 'characters')
-                    fullContent += content
-                    streamingContent.value += content
-                    if (onChunk) onChunk(content)
-                  }
-                } catch (e) {
-                  console.error('Error parsing streaming response:', e)
-                  // Log the problematic data for debugging
-                  // console.log('Problematic JSON data:', data.substring(0, 150) + '...')
-                }
-              }
-            }
-          }
-        }
-        
-        return fullContent
+        const { content } = await readChatStream(response.body, onChunk)
+        return content
       } else {
         // Handle regular response
         const data = await response.json()
@@ -123,15 +164,18 @@ export const useOpenRouter = () => {
           debug.error('Invalid response format', data)
           throw new Error('Invalid response format from API')
         }
-        
-        debug.log('Regular response processed', { 
+
+        lastModel.value = data.model || null
+        lastUsage.value = data.usage ? toTokenUsage(data.model || '', data.usage) : null
+        debug.log('Regular response processed', {
           contentLength: data.choices[0].message.content.length,
+          model: data.model,
           usage: data.usage
         })
         return data.choices[0].message.content
       }
     } catch (err) {
-      debug.error('Error querying DeepSeek model', err)
+      debug.error('Error querying model', err)
       error.value = err instanceof Error ? err.message : 'An unknown error occurred'
       return null
     } finally {
@@ -141,5 +185,208 @@ export const useOpenRouter = () => {
     }
   }
 
-  return { queryDeepSeek, isLoading, error }
-}
\ No newline at end of file
+  /**
+   * Follows a job's SSE stream, replaying chunks after the offset
+   * @param jobId The job id
+   * @param onChunk Callback invoked with each piece of content
+   * @param offset Number of chunks the caller already has
+   * @returns The content received and the final status
+   */
+  const followJob = async (jobId: string, onChunk?: (chunk: string) => void, offset = 0) => {
+    const response = await fetch(`/api/jobs/${jobId}/stream?offset=${offset}`)
+    if (!response.ok || !response.body) {
+      const errorText = await response.text()
+      throw new Error(`Job stream failed with status ${response.status}: ${errorText}`)
+    }
+
+    const result = await readChatStream(response.body, onChunk)
+    jobStatus.value = result.status || 'completed'
+    return result
+  }
+
+  /**
+   * Runs a prompt as a server-side job so it survives reloads and can be cancelled
+   * @param prompt The prompt to send to the model
+   * @param maxTokens Maximum number of tokens to generate
+   * @param onChunk Callback invoked with each streamed piece of content
+   * @param options Model override, message history and job callback
+   * @returns The generated content (partial if cancelled) or null if an error occurred
+   */
+  const runJob = async (
+    prompt: string,
+    maxTokens = 128000,
+    onChunk?: (chunk: string) => void,
+    options: QueryOptions = {}
+  ): Promise<string | null> => {
+    isLoading.value = true
+    error.value = null
+    streamingContent.value = ''
+    isStreaming.value = true
+    jobStatus.value = 'running'
+    lastModel.value = null
+    lastUsage.value = null
+
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...(options.stage ? { stage: options.stage } : {}),
+          ...(options.model ? { model: options.model } : {}),
+          ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+          ...(options.bypassCache ? { bypassCache: true } : {}),
+          messages: options.messages || [{ role: 'user', content: prompt }],
+          max_tokens: maxTokens
+        })
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`API request failed with status ${response.status}: ${errorText}`)
+      }
+
+      const job = await response.json()
+      currentJobId.value = job.id
+      if (options.onJobStarted) options.onJobStarted(job.id)
+
+      const { content } = await followJob(job.id, onChunk)
+      return content
+    } catch (err) {
+      debug.error('Error running job', err)
+      error.value = err instanceof Error ? err.message : 'An unknown error occurred'
+      jobStatus.value = 'failed'
+      return null
+    } finally {
+      isLoading.value = false
+      isStreaming.value = false
+      currentJobId.value = null
+    }
+  }
+
+  /**
+   * Re-attaches to a job started earlier, e.g. after the page was reloaded
+   * @param jobId The job id
+   * @param onChunk Callback invoked with each replayed or new piece of content
+   * @param offset Number of chunks the caller already has
+   * @returns The content received, or null if the job is gone or failed
+   */
+  const attachToJob = async (
+    jobId: string,
+    onChunk?: (chunk: string) => void,
+    offset = 0
+  ): Promise<string | null> => {
+    isLoading.value = true
+    error.value = null
+    streamingContent.value = ''
+    isStreaming.value = true
+    currentJobId.value = jobId
+    jobStatus.value = 'running'
+    lastModel.value = null
+    lastUsage.value = null
+
+    try {
+      const { content } = await followJob(jobId, onChunk, offset)
+      return content
+    } catch (err) {
+      debug.error('Error attaching to job', err)
+      error.value = err instanceof Error ? err.message : 'An unknown error occurred'
+      jobStatus.value = 'failed'
+      return null
+    } finally {
+      isLoading.value = false
+      isStreaming.value = false
+      currentJobId.value = null
+    }
+  }
+
+  /**
+   * Cancels a job; the server aborts the upstream model request
+   * @param jobId The job id, defaults to the job currently being followed
+   */
+  const cancelJob = async (jobId: string | null = currentJobId.value): Promise<void> => {
+    if (!jobId) return
+
+    try {
+      await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' })
+    } catch (err) {
+      debug.error('Error cancelling job', err)
+    }
+  }
+
+  /**
+   * Asks the server for a structured outline; the server validates the model's JSON
+   * against the deck schema and repairs invalid replies before serializing it
+   * @param research The research document
+   * @param options Model override, session, cache bypass, audience, variant, the brief of the research and its sources
+   * @returns The deck and its R Markdown, or null if an error occurred
+   */
+  const queryStructuredOutline = async (
+    research: string,
+    options: Pick<QueryOptions, 'model' | 'sessionId' | 'bypassCache'> & { audience?: string, variant?: OutlineVariant, brief?: ResearchBrief, sources?: ResearchSource[] } = {}
+  ): Promise<StructuredOutline | null> => {
+    isLoading.value = true
+    error.value = null
+    lastModel.value = null
+    lastUsage.value = null
+
+    try {
+      const response = await fetch('/api/outline', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          research,
+          ...(options.audience ? { audience: options.audience } : {}),
+          ...(options.variant ? { variant: options.variant } : {}),
+          ...(options.brief ? { brief: options.brief } : {}),
+          ...(options.sources?.length ? { sources: options.sources } : {}),
+          ...(options.model ? { model: options.model } : {}),
+          ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+          ...(options.bypassCache ? { bypassCache: true } : {})
+        })
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`Outline request failed with status ${response.status}: ${errorText}`)
+      }
+
+      const outline: StructuredOutline = await response.json()
+      lastModel.value = outline.model || null
+      lastUsage.value = outline.usage ? toTokenUsage(outline.model || '', outline.usage) : null
+      debug.log('Structured outline received', { slides: outline.deck.slides.length, attempts: outline.attempts })
+      return outline
+    } catch (err) {
+      debug.error('Error generating structured outline', err)
+      error.value = err instanceof Error ? err.message : 'An unknown error occurred'
+      return null
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * @deprecated Use queryModel; kept for callers written against the DeepSeek-only API
+   */
+  const queryDeepSeek = queryModel
+
+  return {
+    queryModel,
+    queryDeepSeek,
+    queryStructuredOutline,
+    runJob,
+    attachToJob,
+    cancelJob,
+    currentJobId,
+    jobStatus,
+    lastModel,
+    lastUsage,
+    isLoading,
+    isStreaming,
+    streamingContent,
+    error
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Composable for rendering the active version of a prompt template
+ * Falls back to the built-in version when the server cannot be reached
+ */
+
+import { createDebugger } from '~/utils/debug'
+import { getBuiltInPrompt, renderPrompt } from '~/utils/promptTemplates'
+import type { PromptTemplateId, PromptValues, PromptVersion, PromptVersionRef } from '~/types/prompts'
+
+export const usePromptTemplates = () => {
+  const debug = createDebugger('usePromptTemplates')
+
+  /**
+   * Fetches the active version of a template
+   * @param templateId The template id
+   * @returns The active version, or the built-in one if the request fails
+   */
+  const getActivePrompt = async (templateId: PromptTemplateId): Promise<PromptVersion> => {
+    try {
+      const response = await fetch(`/api/prompts/${templateId}`)
+      if (!response.ok) {
+        throw new Error(`API error: ${response.statusText}`)
+      }
+      const data = await response.json()
+      return data.active
+    } catch (err) {
+      debug.warn(`Using the built-in ${templateId} prompt`, err)
+      return getBuiltInPrompt(templateId)
+    }
+  }
+
+  /**
+   * Renders the active version of a template
+   * @param templateId The template id
+   * @param values The template values
+   * @returns The prompt and the version it was rendered from
+   */
+  const renderActivePrompt = async (
+    templateId: PromptTemplateId,
+    values: PromptValues
+  ): Promise<{ text: string, version: PromptVersionRef }> => {
+    return renderPrompt(await getActivePrompt(templateId), values)
+  }
+
+  return {
+    getActivePrompt,
+    renderActivePrompt
+  }
+}
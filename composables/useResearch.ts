@@ -5,13 +5,114 @@
 
 import { ref } from 'vue'
 import { useOpenRouter } from './useOpenRouter'
+import { useModelSettings } from './useModelSettings'
+import { usePromptTemplates } from './usePromptTemplates'
+import { useDeepResearch } from './useDeepResearch'
+import { useDocuments } from './useDocuments'
+import { useSessions } from './useSessions'
+import type { DeepResearchSynthesis } from './useDeepResearch'
 import { createDebugger } from '~/utils/debug'
-import type { ResearchResult, PresentationOutline } from '~/types/research'
+import { briefPromptValues, briefRetrievalQuery, createResearchBrief } from '~/utils/researchBrief'
+import { mergePassages } from '~/utils/documentIndex'
+import { addPassageSources, formatSourceList, formatSourcesForPrompt } from '~/utils/citations'
+import { getOutlineVariant, variantInstruction } from '~/utils/outlineVariants'
+import { formatDatasetsForPrompt } from '~/utils/datasets'
+import type {
+  ResearchResult,
+  OutlineVariant,
+  PresentationOutline,
+  ResearchBrief,
+  ResearchDataset,
+  ResearchBriefSettings,
+  ResearchSession,
+  ResearchSessionChanges,
+  ResearchSource,
+  SessionVersion,
+  SessionVersionKind,
+  SessionVersionReason
+} from '~/types/research'
+import type { DeckSpec } from '~/types/deck'
+import type { PromptVersionRef } from '~/types/prompts'
+import type { RetrievedPassage } from '~/types/documents'
+
+/** localStorage key holding the research job that is still running */
+const ACTIVE_JOB_KEY = 'activeResearchJob'
+
+interface ActiveResearchJob {
+  id: string
+  topic?: string
+  subtopics: string[]
+  model?: string
+  sessionId?: string
+  promptVersion?: PromptVersionRef
+  brief?: ResearchBrief
+  passages?: RetrievedPassage[]
+  sources?: ResearchSource[]
+}
+
+/** Brief settings (audience, depth, tone, length, language, must-include/avoid) and request settings */
+export interface ResearchOptions extends ResearchBriefSettings {
+  model?: string
+  bypassCache?: boolean
+}
+
+export interface DeepResearchRunOptions extends ResearchOptions {
+  /** Maximum number of sub-questions researched at once */
+  concurrency?: number
+  /** Maximum number of sub-questions in the plan */
+  maxQuestions?: number
+}
+
+export interface OutlineOptions {
+  model?: string
+  bypassCache?: boolean
+  /** Who the presentation is for; overrides the audience of the brief */
+  audience?: string
+  /** Language of the slides; overrides the language of the brief */
+  language?: string
+  /** Audience variant with its own slide budget, vocabulary and chart density; sets the audience unless one is given */
+  variant?: OutlineVariant
+  /** The brief to write the outline to; defaults to the brief of the current research */
+  brief?: ResearchBrief
+  /** The sources the citation markers refer to; defaults to the sources of the current research */
+  sources?: ResearchSource[]
+  /** 'json' asks for a deck matching the deck schema, validated and serialized by the server */
+  format?: 'markdown' | 'json'
+}
+
+/** Used when research is started without a topic */
+const DEFAULT_TOPIC = 'Artificial Intelligence'
+const DEFAULT_SUBTOPICS = ['Machine learning', 'NLP', 'Computer vision', 'AI ethics', 'Future trends']
+
+/**
+ * Creates an id for a research session; usage and budgets are aggregated per session
+ */
+const createSessionId = (): string => {
+  return globalThis.crypto?.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`
+}
 
 export const useResearch = () => {
   // Initialize debugger for this composable
   const debug = createDebugger('useResearch')
-  const { queryDeepSeek, isLoading, error, streamingContent, isStreaming } = useOpenRouter()
+  const {
+    queryModel,
+    queryStructuredOutline,
+    runJob,
+    attachToJob,
+    cancelJob,
+    jobStatus,
+    lastModel,
+    lastUsage,
+    isLoading,
+    error,
+    streamingContent,
+    isStreaming
+  } = useOpenRouter()
+  const { getStageOverride, getEffectiveModel } = useModelSettings()
+  const { renderActivePrompt } = usePromptTemplates()
+  const deepResearch = useDeepResearch()
+  const { searchDocuments } = useDocuments()
+  const { fetchSession, saveSession: storeSession, addVersion, branchSession: storeBranch } = useSessions()
   const researchResults = ref<string>('')
   const presentationOutline = ref<string>('')
   const researchHistory = ref<ResearchResult[]>([])
@@ -20,89 +121,453 @@ export const useResearch = () => {
   const isOutlineComplete = ref<boolean>(false)
   const isGeneratingOutline = ref<boolean>(false)
   const outlineProgress = ref<number>(0)
+  const activeJobId = ref<string | null>(null)
+  const isResearchCancelled = ref<boolean>(false)
+  const sessionId = ref<string>(createSessionId())
+  /** The brief of the current research */
+  const researchBrief = ref<ResearchBrief | null>(null)
+  /** Passages of the uploaded documents the current research is grounded in */
+  const retrievedPassages = ref<RetrievedPassage[]>([])
+  /** Sources the citation markers of the current research refer to */
+  const researchSources = ref<ResearchSource[]>([])
+  /** Saved versions of the research and the outline of the current session */
+  const versions = ref<SessionVersion[]>([])
+  /** Datasets of the numbers in the current research; the outline plots them in its R chunks */
+  const researchDatasets = ref<ResearchDataset[]>([])
+
+  const saveActiveJob = (job: ActiveResearchJob) => {
+    activeJobId.value = job.id
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job))
+    }
+  }
+
+  const clearActiveJob = () => {
+    activeJobId.value = null
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(ACTIVE_JOB_KEY)
+    }
+  }
+
+  const loadActiveJob = (): ActiveResearchJob | null => {
+    if (typeof window === 'undefined') return null
+    try {
+      const saved = localStorage.getItem(ACTIVE_JOB_KEY)
+      return saved ? JSON.parse(saved) : null
+    } catch {
+      return null
+    }
+  }
 
   /**
-   * Conducts research automatically without requiring topic/subtopics input
-   * Uses a default research prompt focused on a general topic
-   * @returns A promise that resolves when the research is complete
+   * Saves the current session to server storage so it can be reopened as /research/:id
+   * Only the history entries of the current session are saved
+   * @param changes Only save these fields, e.g. the research after the user edited it
    */
-  const conductResearch = async (topic?: string): Promise<void> => {
-    // debug.log('Starting research process', { topic });
-    isResearchComplete.value = false;
-    researchResults.value = '';
+  const saveSession = async (changes?: ResearchSessionChanges): Promise<void> => {
+    const id = sessionId.value
+    await storeSession(id, changes || {
+      ...(researchBrief.value ? { brief: researchBrief.value, title: researchBrief.value.topic } : {}),
+      research: researchResults.value,
+      sources: researchSources.value,
+      passages: retrievedPassages.value,
+      researchHistory: researchHistory.value.filter(result => result.sessionId === id),
+      outline: presentationOutline.value,
+      outlineHistory: outlineHistory.value.filter(outline => outline.sessionId === id)
+    })
+  }
 
-    // Default research prompt for automatic research
-    let researchPrompt = `Conduct a thorough research study on artificial intelligence and its applications in modern society.
+  /**
+   * Records the current research or outline as a version of the session
+   * @param kind Which document to record
+   * @param reason Why it is recorded
+   */
+  const recordVersion = async (kind: SessionVersionKind, reason: SessionVersionReason = 'generated'): Promise<void> => {
+    const content = kind === 'research' ? researchResults.value : presentationOutline.value
+    if (!content) return
+    const session = await addVersion(sessionId.value, kind, content, reason)
+    if (session) versions.value = session.versions || []
+  }
 
-Include the following subtopics:
-- Machine learning and deep learning
-- Natural language processing
-- Computer vision
-- AI ethics and governance
-- Future trends in AI
+  /**
+   * Makes an older version the current research or outline; the restore is recorded as a version
+   * @param version The version
+   */
+  const restoreVersion = async (version: SessionVersion): Promise<void> => {
+    if (version.kind === 'research') {
+      researchResults.value = version.content
+    } else {
+      presentationOutline.value = version.content
+    }
+    await recordVersion(version.kind, 'restored')
+  }
 
-Provide comprehensive information with academic rigor. Include relevant facts, theories, and current developments.`
+  /**
+   * Opens a new session that starts from a version of the current one
+   * @param version The version
+   * @returns The new session, or null if it could not be created
+   */
+  const branchVersion = async (version: SessionVersion): Promise<ResearchSession | null> => {
+    const branch = await storeBranch(sessionId.value, version.id)
+    return branch ? await loadSession(branch.id) : null
+  }
 
-    // If a topic is provided, use it instead of the default
-    if (topic) {
-      // debug.log('Using provided topic for research', { topic });
-      console.log('Conducting research on user-provided topic:', topic);
+  /**
+   * Opens a saved session: its brief, research, sources and outlines replace the current ones
+   * @param id The session id
+   * @returns The session, or null if it could not be loaded
+   */
+  const loadSession = async (id: string): Promise<ResearchSession | null> => {
+    const session = await fetchSession(id)
+    if (!session) return null
+
+    sessionId.value = session.id
+    researchBrief.value = session.brief || null
+    researchResults.value = session.research
+    researchSources.value = session.sources || []
+    retrievedPassages.value = session.passages || []
+    researchHistory.value = session.researchHistory
+    presentationOutline.value = session.outline
+    outlineHistory.value = session.outlineHistory
+    versions.value = session.versions || []
+    researchDatasets.value = session.datasets || []
+    isResearchComplete.value = !!session.research
+    isOutlineComplete.value = !!session.outline
+    return session
+  }
 
-      researchPrompt = `Conduct a thorough research study. ${topic}.
+  /**
+   * Stores a finished research result, or keeps the partial text if the job was stopped
+   */
+  const finishResearch = async (result: string | null, job: Omit<ActiveResearchJob, 'id'>) => {
+    clearActiveJob()
+
+    if (jobStatus.value === 'cancelled') {
+      // Keep whatever streamed in before the job was stopped
+      isResearchCancelled.value = true
+      isResearchComplete.value = !!researchResults.value
+      await saveSession()
+      return
+    }
 
-Provide comprehensive information with academic rigor. Include relevant facts, theories, and current developments. Add data visulation such as charts, flowcharts and number plots. Organize the information into logical sections with appropriate headings.
+    if (result) {
+      // Ensure the final result is set (in case streaming had issues)
+      researchResults.value = result
 
-Be verbose and use formal words. Do not ask the user any questions or clarifications. There is also no need to ackhowledge the request.
+      // Save to history
+      researchHistory.value.push({
+        topic: job.topic || DEFAULT_TOPIC,
+        subtopics: job.topic ? job.subtopics : DEFAULT_SUBTOPICS,
+        content: result,
+        // Record the model that actually answered, which may be a fallback
+        model: lastModel.value || job.model || getEffectiveModel('research'),
+        usage: lastUsage.value || undefined,
+        sessionId: job.sessionId,
+        promptVersion: job.promptVersion,
+        brief: job.brief,
+        passages: job.passages?.length ? job.passages : undefined,
+        sources: job.sources?.length ? job.sources : undefined,
+        timestamp: new Date().toISOString()
+      })
 
-Try to keep the output less than a thousand tokens.
-`;
+      isResearchComplete.value = true;
+      await saveSession()
+      await recordVersion('research')
+    } else {
+      debug.error('Research completed but returned no result');
     }
+  }
 
-    try {
-        // debug.log('Preparing research query');
-        // debug.log('Sending research query', { promptLength: researchPrompt.length });
+  /**
+   * Conducts research with the active research prompt
+   * Without a topic, researches artificial intelligence and its applications
+   * @param topic The research topic
+   * @param subtopics Subtopics the research should cover
+   * @param options Brief settings, per-request model override and cache bypass
+   * @returns A promise that resolves when the research is complete
+   */
+  const conductResearch = async (topic?: string, subtopics: string[] = [], options: ResearchOptions = {}): Promise<void> => {
+    // debug.log('Starting research process', { topic });
+    isResearchComplete.value = false;
+    researchResults.value = '';
+    deepResearch.reset();
+
+    if (topic) {
+      console.log('Conducting research on user-provided topic:', topic);
+    }
+
+    const { model: modelOverride, bypassCache, ...settings } = options
+    const brief = createResearchBrief({
+      ...settings,
+      topic: topic || DEFAULT_TOPIC,
+      subtopics: topic ? subtopics : DEFAULT_SUBTOPICS
+    })
+    researchBrief.value = brief
+    retrievedPassages.value = []
+    researchSources.value = brief.sources || []
 
-        // Use streaming API for real-time updates
-        const result = await queryDeepSeek(
-            researchPrompt,
+    try {
+        // Ground the research in the uploaded documents that match the brief
+        const passages = brief.documentCollection
+          ? await searchDocuments(brief.documentCollection, briefRetrievalQuery(brief))
+          : []
+        retrievedPassages.value = passages
+        // The passages are cited after the notes and references of the brief
+        const sources = addPassageSources(brief.sources || [], passages)
+        researchSources.value = sources
+
+        const prompt = await renderActivePrompt('research', {
+          ...briefPromptValues(brief),
+          topic: topic || `${DEFAULT_TOPIC} and its applications in modern society`,
+          sources: formatSourcesForPrompt(sources)
+        })
+
+        const model = modelOverride || getStageOverride('research')
+        isResearchCancelled.value = false
+        // Every research run starts a new session; the outline is billed to it as well
+        sessionId.value = createSessionId()
+        versions.value = []
+        researchDatasets.value = []
+        const session = sessionId.value
+        // The session is saved before the job starts, so /research/:id can re-attach to it
+        await saveSession()
+
+        // Run as a server-side job so a reload can re-attach and the user can stop it
+        const result = await runJob(
+            prompt.text,
             4000,
-            true, // Enable streaming
             (chunk) => {
-                // debug.log('Received streaming chunk', { chunkLength: chunk.length });
                 // This callback will be called for each chunk of the streaming response
                 researchResults.value += chunk
+            },
+            {
+                stage: 'research',
+                model,
+                sessionId: session,
+                bypassCache,
+                onJobStarted: (id) => saveActiveJob({ id, topic, subtopics, model, sessionId: session, promptVersion: prompt.version, brief, passages, sources })
             }
         )
 
-        if (result) {
-            // debug.log('Research completed successfully', { resultLength: result.length });
-            // Ensure the final result is set (in case streaming had issues)
-            researchResults.value = result
-
-            // Save to history
-            researchHistory.value.push({
-                topic: topic || 'Artificial Intelligence',
-                subtopics: topic ? [] : ['Machine learning', 'NLP', 'Computer vision', 'AI ethics', 'Future trends'],
-                content: result,
-                timestamp: new Date().toISOString()
-            })
-
-            isResearchComplete.value = true;
-        } else {
-            debug.error('Research completed but returned no result');
-        }
+        await finishResearch(result, { topic, subtopics, model, sessionId: session, promptVersion: prompt.version, brief, passages, sources })
     } catch (err) {
         debug.error('Research process failed', err);
         error.value = 'Failed to complete research. Please try again.';
     }
 }
 
+  /**
+   * Re-attaches to a research job left running by a previous page load
+   * The job replays from its first chunk, so the results are rebuilt from scratch
+   * @param topic Only resume if the saved job was for this topic
+   * @param session Only resume if the saved job belongs to this session
+   * @returns Whether a job was found and re-attached
+   */
+  const resumeResearch = async (topic?: string, session?: string): Promise<boolean> => {
+    const job = loadActiveJob()
+    if (!job || (topic && job.topic !== topic) || (session && job.sessionId !== session)) return false
+
+    isResearchComplete.value = false
+    isResearchCancelled.value = false
+    researchResults.value = ''
+    activeJobId.value = job.id
+    if (job.sessionId) sessionId.value = job.sessionId
+    researchBrief.value = job.brief || null
+    retrievedPassages.value = job.passages || []
+    researchSources.value = job.sources || []
+
+    const result = await attachToJob(job.id, (chunk) => {
+      researchResults.value += chunk
+    })
+
+    if (result === null && !researchResults.value) {
+      // The server no longer knows the job (e.g. it restarted)
+      clearActiveJob()
+      return false
+    }
+
+    await finishResearch(result, job)
+    return true
+  }
+
+  /**
+   * Stops the running research job; the partial results are kept
+   */
+  const stopResearch = async (): Promise<void> => {
+    if (!activeJobId.value) return
+    await cancelJob(activeJobId.value)
+  }
+
+  /**
+   * Records a finished deep research run; the plan is copied so re-running a step later
+   * does not change the history entry
+   */
+  const finishDeepResearch = async (synthesis: DeepResearchSynthesis | null) => {
+    const plan = deepResearch.plan.value
+    if (!synthesis || !plan) {
+      error.value = deepResearch.error.value || 'Failed to complete research. Please try again.'
+      return
+    }
+
+    researchResults.value = synthesis.content
+    retrievedPassages.value = mergePassages(plan.steps.flatMap(step => step.passages || []))
+    researchSources.value = plan.sources || []
+    researchHistory.value.push({
+      topic: plan.topic,
+      subtopics: plan.subtopics,
+      content: synthesis.content,
+      model: synthesis.model || getEffectiveModel('research'),
+      usage: synthesis.usage,
+      sessionId: sessionId.value,
+      promptVersion: synthesis.promptVersion,
+      plan: JSON.parse(JSON.stringify(plan)),
+      brief: researchBrief.value || undefined,
+      passages: retrievedPassages.value.length ? [...retrievedPassages.value] : undefined,
+      sources: researchSources.value.length ? [...researchSources.value] : undefined,
+      timestamp: new Date().toISOString()
+    })
+    isResearchComplete.value = true
+    await saveSession()
+    await recordVersion('research')
+  }
+
+  /**
+   * Deep research: plans sub-questions from the topic and subtopics, researches each in
+   * its own call and streams the synthesis into the results
+   * @param topic The research topic
+   * @param subtopics Subtopics the plan must cover
+   * @param options Brief settings, model override, cache bypass, concurrency and plan size
+   * @returns A promise that resolves when the research is complete
+   */
+  const conductDeepResearch = async (topic: string, subtopics: string[] = [], options: DeepResearchRunOptions = {}): Promise<void> => {
+    isResearchComplete.value = false
+    isResearchCancelled.value = false
+    researchResults.value = ''
+    error.value = null
+    sessionId.value = createSessionId()
+    versions.value = []
+    researchDatasets.value = []
+
+    const { model, bypassCache, concurrency, maxQuestions, ...settings } = options
+    const brief = createResearchBrief({ ...settings, topic, subtopics })
+    researchBrief.value = brief
+    retrievedPassages.value = []
+    researchSources.value = brief.sources || []
+    await saveSession()
+
+    const synthesis = await deepResearch.run(
+      brief.topic,
+      brief.subtopics,
+      {
+        ...brief,
+        model: model || getStageOverride('research'),
+        bypassCache,
+        sessionId: sessionId.value,
+        concurrency,
+        maxQuestions
+      },
+      (chunk) => {
+        researchResults.value += chunk
+      }
+    )
+    await finishDeepResearch(synthesis)
+  }
+
+  /**
+   * Re-runs one sub-question of the current plan; call resynthesizeResearch afterwards
+   * to update the document
+   * @param stepId The step id
+   */
+  const rerunPlanStep = async (stepId: string): Promise<void> => {
+    await deepResearch.runStep(stepId)
+  }
+
+  /**
+   * Writes the document again from the current answers of the plan
+   */
+  const resynthesizeResearch = async (): Promise<void> => {
+    isResearchComplete.value = false
+    const previous = researchResults.value
+    researchResults.value = ''
+
+    const synthesis = await deepResearch.synthesize((chunk) => {
+      researchResults.value += chunk
+    })
+    if (!synthesis) researchResults.value = previous
+    await finishDeepResearch(synthesis)
+    if (!synthesis && previous) isResearchComplete.value = true
+  }
+
+  /**
+   * Asks the model for a free-form R Markdown outline with the active outline prompt
+   * and strips code fences around it
+   * @param model The model override
+   * @param bypassCache Whether to skip the server-side response cache
+   * @param brief The brief the outline is written to
+   * @param audience Who the presentation is for
+   * @param sources The sources the research cites
+   * @param variant The audience variant
+   * @returns The outline and the prompt version, or null if the request failed
+   */
+  const queryMarkdownOutline = async (
+    model: string | undefined,
+    bypassCache?: boolean,
+    brief?: ResearchBrief,
+    audience?: string,
+    sources: ResearchSource[] = [],
+    variant?: OutlineVariant
+  ): Promise<{ text: string, promptVersion: PromptVersionRef } | null> => {
+    const prompt = await renderActivePrompt('outline', {
+      ...(brief ? briefPromptValues(brief) : {}),
+      research: researchResults.value,
+      audience,
+      variant: variantInstruction(variant),
+      sources: formatSourceList(sources),
+      datasets: formatDatasetsForPrompt(researchDatasets.value)
+    })
+
+    // Always use non-streaming for outline generation to ensure progress bar works correctly
+    const result = await queryModel(
+      prompt.text,
+      2000,
+      false, // Never stream for outline generation
+      (chunk) => {
+        // This callback won't be used since streaming is disabled
+        // But we keep it for API compatibility
+        presentationOutline.value += chunk
+      },
+      { stage: 'outline', model, sessionId: sessionId.value, bypassCache }
+    )
+
+    if (!result) return null
+
+    // Clean the result before setting it
+    let cleanedResult = result
+
+    // Remove ```markdown at the beginning if it exists
+    if (cleanedResult.trim().startsWith('```markdown')) {
+      cleanedResult = cleanedResult.replace(/^\s*```markdown\s*\n/, '')
+    } else if (cleanedResult.trim().startsWith('```') && !cleanedResult.trim().startsWith('```{')) {
+      // Handle case where it might just be ``` without 'markdown'
+      // But don't remove R Markdown code blocks that start with ```{r}
+      cleanedResult = cleanedResult.replace(/^\s*```\s*\n/, '')
+    }
+
+    // Remove ``` at the end if it exists
+    if (cleanedResult.trim().endsWith('```')) {
+      cleanedResult = cleanedResult.replace(/\n\s*```\s*$/, '')
+    }
+
+    return { text: cleanedResult, promptVersion: prompt.version }
+  }
+
   /**
    * Generates a presentation outline based on the research results
    * @param inNewWindow Whether to open the outline in a new window
+   * @param options Per-request model override, cache bypass, brief, audience and output format
    * @returns A promise that resolves when the outline generation is complete
    */
-  const generateOutline = async (inNewWindow: boolean = false): Promise<void> => {
+  const generateOutline = async (inNewWindow: boolean = false, options: OutlineOptions = {}): Promise<void> => {
     // debug.log('Starting outline generation', { inNewWindow });
     isOutlineComplete.value = false;
     isGeneratingOutline.value = true;
@@ -115,79 +580,61 @@ Try to keep the output less than a thousand tokens.
       return
     }
 
-    const outlinePrompt = `Based on the following research, create a comprehensive presentation outline using R Markdown format. As much as possible, add plots or charts and graphs for data visualization. Return only what is being asked and do not provide any into or outro:\n\n${researchResults.value}\n\n` +
-      'Format the outline as follows:\n' +
-      '1. Start with a clear title and subtitle using # and ## headings.\n' +
-      '2. Organize content into logical sections with clear headings.\n' +
-      '3. Use "---" on a separate line to indicate slide breaks between main topics.\n' +
-      '4. For each slide:\n' +
-      '   - Use # for slide titles\n' +
-      '   - Use ## for section headings\n' +
-      '   - Use ### for subsections\n' +
-      '   - Keep content concise\n' +
-      '5. For tables, use proper markdown table syntax with headers:\n' +
-      '   ```\n' +
-      '   | Header 1 | Header 2 | Header 3 |\n' +
-      '   | -------- | -------- | -------- |\n' +
-      '   | Cell 1   | Cell 2   | Cell 3   |\n' +
-      '   ```\n' +
-      '6. Use bullet points for lists:\n' +
-      '   - Main point\n' +
-      '     - Sub point\n' +
-      '7. For emphasis, use **bold** or *italic* text.\n' +
-      '8. Include image placeholders if relevant: ![alt text](image-url)\n' +
-      '9. You can include R code chunks for generating graphs and charts using the following syntax:\n' +
-      '   ```{r}\n' +
-      '   # R code for generating a chart\n' +
-      '   library(ggplot2)\n' +
-      '   ggplot(data, aes(x=x, y=y)) + geom_point()\n' +
-      '   ```\n' +
-      '10. For diagrams and flowcharts, use simple text descriptions or ASCII art.\n' +
-      '11. IMPORTANT: Ensure each slide has a clear purpose and doesn\'t contain too much text that would cause overflow.'
-
-    // debug.log('Sending outline generation query', { promptLength: outlinePrompt.length });
-
-    // Always use non-streaming for outline generation to ensure progress bar works correctly
-    const result = await queryDeepSeek(
-      outlinePrompt,
-      2000,
-      false, // Never stream for outline generation
-      (chunk) => {
-        // This callback won't be used since streaming is disabled
-        // But we keep it for API compatibility
-        presentationOutline.value += chunk
-      }
-    )
+    const model = options.model || getStageOverride('outline')
+    const baseBrief = options.brief || researchBrief.value || undefined
+    const variantAudience = getOutlineVariant(options.variant)?.audience
+    const overrides = {
+      ...(options.audience || variantAudience ? { audience: options.audience || variantAudience } : {}),
+      ...(options.language ? { language: options.language } : {})
+    }
+    const brief = baseBrief && Object.keys(overrides).length ? { ...baseBrief, ...overrides } : baseBrief
+    const audience = options.audience || variantAudience || brief?.audience
+    const sources = options.sources || researchSources.value
+    let result: string | null = null
+    let deck: DeckSpec | undefined
+    let promptVersion: PromptVersionRef | undefined
+
+    if (options.format === 'json') {
+      // The server validates the deck and serializes it, so no cleanup is needed
+      const outline = await queryStructuredOutline(researchResults.value, {
+        model,
+        sessionId: sessionId.value,
+        bypassCache: options.bypassCache,
+        audience,
+        brief,
+        sources,
+        variant: options.variant
+      })
+      result = outline?.markdown || null
+      deck = outline?.deck
+      promptVersion = outline?.promptVersion
+    } else {
+      const outline = await queryMarkdownOutline(model, options.bypassCache, brief, audience, sources, options.variant)
+      result = outline?.text || null
+      promptVersion = outline?.promptVersion
+    }
 
     if (result) {
-      // Clean the result before setting it
-      let cleanedResult = result
-
-      // Remove ```markdown at the beginning if it exists
-      if (cleanedResult.trim().startsWith('```markdown')) {
-        cleanedResult = cleanedResult.replace(/^\s*```markdown\s*\n/, '')
-      } else if (cleanedResult.trim().startsWith('```') && !cleanedResult.trim().startsWith('```{')) {
-        // Handle case where it might just be ``` without 'markdown'
-        // But don't remove R Markdown code blocks that start with ```{r}
-        cleanedResult = cleanedResult.replace(/^\s*```\s*\n/, '')
-      }
-
-      // Remove ``` at the end if it exists
-      if (cleanedResult.trim().endsWith('```')) {
-        cleanedResult = cleanedResult.replace(/\n\s*```\s*$/, '')
-      }
-
-      // Ensure the final result is set (in case streaming had issues)
-      presentationOutline.value = cleanedResult.trim()
+      presentationOutline.value = result.trim()
 
       // Save to history
       outlineHistory.value.push({
-        content: cleanedResult.trim(),
-        format: 'markdown',
+        content: result.trim(),
+        format: deck ? 'rmarkdown' : 'markdown',
+        ...(options.variant ? { variant: options.variant } : {}),
+        ...(deck ? { deck } : {}),
+        model: lastModel.value || model || getEffectiveModel('outline'),
+        usage: lastUsage.value || undefined,
+        sessionId: sessionId.value,
+        promptVersion,
+        brief,
+        sources: sources.length ? [...sources] : undefined,
         timestamp: new Date().toISOString()
       })
 
       isOutlineComplete.value = true;
+      await saveSession()
+      await recordVersion('outline')
 
       // Set progress to 100% when complete
       outlineProgress.value = 100;
@@ -232,6 +679,32 @@ Try to keep the output less than a thousand tokens.
     }
   }
 
+  /**
+   * Derives one outline per audience variant from the research, one after the other; each is
+   * kept in the outline history, and the last one becomes the current outline
+   * @param variants The variants to generate
+   * @param options Model override, cache bypass, language and output format
+   * @returns The outlines that were generated
+   */
+  const generateOutlineVariants = async (
+    variants: OutlineVariant[],
+    options: Omit<OutlineOptions, 'variant' | 'audience'> = {}
+  ): Promise<PresentationOutline[]> => {
+    const outlines: PresentationOutline[] = []
+    try {
+      for (const variant of variants) {
+        await generateOutline(false, { ...options, variant })
+        const outline = outlineHistory.value[outlineHistory.value.length - 1]
+        if (!isOutlineComplete.value || outline?.variant !== variant) break
+        outlines.push(outline)
+      }
+    } finally {
+      isGeneratingOutline.value = false
+    }
+    debug.log('Outline variants generated', { requested: variants, generated: outlines.length })
+    return outlines
+  }
+
   /**
    * Generates HTML slides from the R Markdown outline using MARP
    * @returns A promise that resolves when the slides generation is complete
@@ -258,7 +731,25 @@ Try to keep the output less than a thousand tokens.
 
   return {
     conductResearch,
+    conductDeepResearch,
+    rerunPlanStep,
+    resynthesizeResearch,
+    researchPlan: deepResearch.plan,
+    isDeepResearchRunning: deepResearch.isRunning,
+    researchBrief,
+    retrievedPassages,
+    researchSources,
+    researchDatasets,
+    resumeResearch,
+    stopResearch,
+    saveSession,
+    loadSession,
+    versions,
+    recordVersion,
+    restoreVersion,
+    branchVersion,
     generateOutline,
+    generateOutlineVariants,
     generateSlides,
     researchResults,
     presentationOutline,
@@ -269,6 +760,9 @@ Try to keep the output less than a thousand tokens.
     isStreaming,
     streamingContent,
     isResearchComplete,
+    isResearchCancelled,
+    activeJobId,
+    sessionId,
     isOutlineComplete,
     isGeneratingOutline,
     outlineProgress
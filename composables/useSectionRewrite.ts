@@ -0,0 +1,132 @@
+/**
+ * Composable for rewriting one section of the research: regenerate, expand, condense, add
+ * data or change the tone. The reply streams into the place of the section, and each
+ * rewrite can be undone
+ */
+
+import { ref, computed } from 'vue'
+import { useOpenRouter } from './useOpenRouter'
+import { useModelSettings } from './useModelSettings'
+import { usePromptTemplates } from './usePromptTemplates'
+import { createDebugger } from '~/utils/debug'
+import { formatSourceList } from '~/utils/citations'
+import { replaceMarkdownSection, splitMarkdownSections } from '~/utils/markdownSections'
+import { sectionContext, sectionInstruction } from '~/utils/sectionRewrite'
+import type { SectionAction } from '~/utils/sectionRewrite'
+import type { ResearchSource, ResearchTone } from '~/types/research'
+
+/** Number of rewrites that can be undone */
+const MAX_UNDO = 10
+
+export interface SectionRewriteOptions {
+  /** The new tone, for the tone action */
+  tone?: ResearchTone
+  /** Sources the citation markers of the research refer to */
+  sources?: ResearchSource[]
+  /** Language the research is written in */
+  language?: string
+  /** Research session the call is billed to */
+  sessionId?: string
+  bypassCache?: boolean
+}
+
+export const useSectionRewrite = () => {
+  const debug = createDebugger('useSectionRewrite')
+  const { renderActivePrompt } = usePromptTemplates()
+  const { getStageOverride } = useModelSettings()
+  /** The section being rewritten */
+  const rewritingIndex = ref<number | null>(null)
+  const error = ref<string | null>(null)
+  /** The documents before each rewrite, newest last */
+  const undoStack = ref<string[]>([])
+  const canUndo = computed(() => undoStack.value.length > 0)
+
+  /**
+   * Rewrites a section with the rewriting model; the rest of the document is sent as context
+   * @param research The research document
+   * @param index The section index
+   * @param action What to do with the section
+   * @param options Tone, sources, language and session
+   * @param onUpdate Called with the document each time more of the section has streamed in
+   * @returns The updated document, or null if the rewrite failed
+   */
+  const rewriteSection = async (
+    research: string,
+    index: number,
+    action: SectionAction,
+    options: SectionRewriteOptions = {},
+    onUpdate?: (research: string) => void
+  ): Promise<string | null> => {
+    const section = splitMarkdownSections(research)[index]
+    if (!section || rewritingIndex.value !== null) return null
+    rewritingIndex.value = index
+    error.value = null
+
+    try {
+      const client = useOpenRouter()
+      const prompt = await renderActivePrompt('section', {
+        document: sectionContext(research, index),
+        section: section.content.trim(),
+        instruction: sectionInstruction(action, options.tone),
+        language: options.language,
+        sources: formatSourceList(options.sources || [])
+      })
+
+      let text = ''
+      const reply = await client.queryModel(prompt.text, 2000, true, (chunk) => {
+        text += chunk
+        onUpdate?.(replaceMarkdownSection(research, index, text))
+      }, {
+        stage: 'rewrite',
+        model: getStageOverride('rewrite'),
+        sessionId: options.sessionId,
+        bypassCache: options.bypassCache
+      })
+      if (!reply?.trim()) {
+        error.value = client.error.value || 'Failed to rewrite the section'
+        onUpdate?.(research)
+        return null
+      }
+
+      const updated = replaceMarkdownSection(research, index, reply)
+      undoStack.value = [...undoStack.value, research].slice(-MAX_UNDO)
+      onUpdate?.(updated)
+      debug.log('Section rewritten', { index, action })
+      return updated
+    } catch (err) {
+      debug.error('Section rewrite failed', err)
+      error.value = err instanceof Error ? err.message : 'Failed to rewrite the section'
+      onUpdate?.(research)
+      return null
+    } finally {
+      rewritingIndex.value = null
+    }
+  }
+
+  /**
+   * Takes back the latest rewrite
+   * @returns The document before it, or null if there is nothing to undo
+   */
+  const undo = (): string | null => {
+    const previous = undoStack.value[undoStack.value.length - 1]
+    if (previous === undefined) return null
+    undoStack.value = undoStack.value.slice(0, -1)
+    return previous
+  }
+
+  /**
+   * Forgets the rewrites, e.g. when another research is opened
+   */
+  const clearUndo = () => {
+    undoStack.value = []
+  }
+
+  return {
+    rewritingIndex,
+    error,
+    canUndo,
+    rewriteSection,
+    undo,
+    clearUndo
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Composable for the research sessions kept in server storage
+ * A session holds the brief, the research, the outlines and the decks of one research run
+ * and is opened as /research/:id and /outline/:id
+ */
+
+import { ref } from 'vue'
+import { createDebugger } from '~/utils/debug'
+import type {
+  LibraryEntry,
+  ResearchDataset,
+  ResearchSession,
+  ResearchSessionChanges,
+  ResearchSessionSummary,
+  SessionAsset,
+  SessionVersionKind,
+  SessionVersionReason
+} from '~/types/research'
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json()
+    return data.statusMessage || data.message || response.statusText
+  } catch {
+    return response.statusText
+  }
+}
+
+/**
+ * Finds the files a deck refers to that were generated for it, e.g. charts rendered by R
+ * @param html The HTML of the deck
+ * @returns The assets
+ */
+export const findDeckAssets = (html: string): SessionAsset[] => {
+  const timestamp = new Date().toISOString()
+  const urls = [...html.matchAll(/src="(\/(?:svg-cache|api\/svg)\/[^"]+)"/g)].map(match => match[1])
+  return [...new Set(urls)].map(url => ({ url, contentType: 'image/svg+xml', timestamp }))
+}
+
+export const useSessions = () => {
+  const debug = createDebugger('useSessions')
+  const sessions = ref<ResearchSessionSummary[]>([])
+  /** The sessions with their research, for /library */
+  const library = ref<LibraryEntry[]>([])
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  /**
+   * Loads the list of sessions
+   */
+  const listSessions = async (): Promise<void> => {
+    isLoading.value = true
+    try {
+      const response = await fetch('/api/sessions')
+      if (!response.ok) throw new Error(await readError(response))
+      sessions.value = (await response.json()).sessions
+    } catch (err) {
+      debug.error('Failed to load sessions', err)
+      error.value = err instanceof Error ? err.message : 'Failed to load the sessions'
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Loads the sessions with their research for the library
+   */
+  const loadLibrary = async (): Promise<void> => {
+    isLoading.value = true
+    try {
+      const response = await fetch('/api/library')
+      if (!response.ok) throw new Error(await readError(response))
+      library.value = (await response.json()).entries
+    } catch (err) {
+      debug.error('Failed to load the library', err)
+      error.value = err instanceof Error ? err.message : 'Failed to load the library'
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Loads a session
+   * @param id The session id
+   * @returns The session, or null if it does not exist or could not be loaded
+   */
+  const fetchSession = async (id: string): Promise<ResearchSession | null> => {
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}`)
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).session
+    } catch (err) {
+      debug.error('Failed to load session', err)
+      error.value = err instanceof Error ? err.message : 'Failed to load the session'
+      return null
+    }
+  }
+
+  /**
+   * Saves fields of a session, creating the session if it does not exist yet
+   * @param id The session id
+   * @param changes The fields to save; lists are replaced as a whole
+   * @returns The saved session, or null if saving failed
+   */
+  const saveSession = async (id: string, changes: ResearchSessionChanges): Promise<ResearchSession | null> => {
+    try {
+      let response = await fetch(`/api/sessions/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      if (response.status === 404) {
+        response = await fetch('/api/sessions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...changes, id })
+        })
+      }
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).session
+    } catch (err) {
+      // The research stays usable on the page when it cannot be saved
+      debug.warn('Failed to save session', err)
+      error.value = err instanceof Error ? err.message : 'Failed to save the session'
+      return null
+    }
+  }
+
+  /**
+   * Records a version of the research or the outline; the content becomes the current text
+   * @param id The session id
+   * @param kind Which document the version is of
+   * @param content The text
+   * @param reason Why the version is recorded
+   * @returns The updated session, or null if recording failed
+   */
+  const addVersion = async (
+    id: string,
+    kind: SessionVersionKind,
+    content: string,
+    reason: SessionVersionReason
+  ): Promise<ResearchSession | null> => {
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, content, reason })
+      })
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).session
+    } catch (err) {
+      debug.warn('Failed to record version', err)
+      error.value = err instanceof Error ? err.message : 'Failed to save the version'
+      return null
+    }
+  }
+
+  /**
+   * Creates a new session from a version of a session
+   * @param id The session id
+   * @param versionId The version to branch from
+   * @returns The new session, or null if it could not be created
+   */
+  const branchSession = async (id: string, versionId: string): Promise<ResearchSession | null> => {
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId })
+      })
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).session
+    } catch (err) {
+      debug.error('Failed to branch session', err)
+      error.value = err instanceof Error ? err.message : 'Failed to branch the session'
+      return null
+    }
+  }
+
+  /**
+   * Stores a translation of the outline of a session as a new session linked to it
+   * @param id The session whose outline was translated
+   * @param language The language of the translation
+   * @param outline The translated outline
+   * @returns The new session, or null if it could not be created
+   */
+  const createTranslation = async (id: string, language: string, outline: string): Promise<ResearchSession | null> => {
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}/translations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language, outline })
+      })
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).session
+    } catch (err) {
+      debug.error('Failed to save translation', err)
+      error.value = err instanceof Error ? err.message : 'Failed to save the translation'
+      return null
+    }
+  }
+
+  /**
+   * Uploads CSV, TSV or Excel files to a session as datasets
+   * @param id The session id
+   * @param files The files
+   * @returns All datasets of the session, or null if the upload failed
+   */
+  const uploadDatasets = async (id: string, files: File[]): Promise<ResearchDataset[] | null> => {
+    try {
+      const form = new FormData()
+      for (const file of files) form.append('files', file, file.name)
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}/datasets`, { method: 'POST', body: form })
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).session.datasets || []
+    } catch (err) {
+      debug.error('Failed to upload datasets', err)
+      error.value = err instanceof Error ? err.message : 'Failed to upload the datasets'
+      return null
+    }
+  }
+
+  /**
+   * Removes a session
+   * @param id The session id
+   */
+  const deleteSession = async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      if (!response.ok && response.status !== 404) throw new Error(await readError(response))
+      sessions.value = sessions.value.filter(session => session.id !== id)
+      library.value = library.value.filter(entry => entry.sessionId !== id)
+    } catch (err) {
+      debug.error('Failed to remove session', err)
+      error.value = err instanceof Error ? err.message : 'Failed to remove the session'
+    }
+  }
+
+  return {
+    sessions,
+    library,
+    isLoading,
+    error,
+    listSessions,
+    loadLibrary,
+    fetchSession,
+    saveSession,
+    addVersion,
+    branchSession,
+    createTranslation,
+    uploadDatasets,
+    deleteSession
+  }
+}
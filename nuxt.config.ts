@@ -16,10 +16,51 @@ export default defineNuxtConfig({
     // Server-side environment variables
     openrouterApiKey: process.env.OPENROUTER_API_KEY,
 
+    // LLM provider used by /api/chat: 'openrouter', 'openai-compatible' (llama.cpp, Ollama...) or 'mock'
+    llm: {
+      provider: process.env.LLM_PROVIDER || 'openrouter',
+      baseUrl: process.env.LLM_BASE_URL || '',
+      apiKey: process.env.LLM_API_KEY || '',
+      defaultModel: process.env.LLM_DEFAULT_MODEL || 'deepseek/deepseek-chat-v3-0324:free',
+      // Comma-separated ids of models not in the built-in catalog (e.g. local models)
+      extraModels: process.env.LLM_EXTRA_MODELS || '',
+      mockDelayMs: Number(process.env.LLM_MOCK_DELAY_MS || 15),
+      // Comma-separated models tried in order when the requested model keeps failing
+      fallbackModels: process.env.LLM_FALLBACK_MODELS || '',
+      maxRetries: Number(process.env.LLM_MAX_RETRIES || 2),
+      retryBaseDelayMs: Number(process.env.LLM_RETRY_BASE_DELAY_MS || 500),
+      retryMaxDelayMs: Number(process.env.LLM_RETRY_MAX_DELAY_MS || 8000),
+      // Hard spending limits in USD; requests are rejected once exceeded (0 = no limit)
+      dailyBudgetUsd: Number(process.env.LLM_DAILY_BUDGET_USD || 0),
+      sessionBudgetUsd: Number(process.env.LLM_SESSION_BUDGET_USD || 0),
+      // Cassettes: 'record' saves every upstream exchange, 'replay' serves only from saved ones
+      cassetteMode: process.env.LLM_CASSETTE_MODE || 'off',
+      cassetteDir: process.env.LLM_CASSETTE_DIR || 'cassettes',
+      // Set to 'false' to replay cassettes without the recorded delays
+      cassetteTiming: process.env.LLM_CASSETTE_TIMING !== 'false',
+      // Opt-in cache for identical chat requests, stored in Nitro storage
+      cacheEnabled: process.env.LLM_CACHE_ENABLED === 'true',
+      cacheTtlSeconds: Number(process.env.LLM_CACHE_TTL_SECONDS || 24 * 60 * 60),
+      cacheMaxEntries: Number(process.env.LLM_CACHE_MAX_ENTRIES || 500),
+      cacheMaxEntryBytes: Number(process.env.LLM_CACHE_MAX_ENTRY_BYTES || 512 * 1024)
+    },
+
+    // Directory holding edited prompt template versions (see /admin/prompts)
+    promptsDir: process.env.PROMPTS_DIR || 'prompts',
+
     // Public variables that are exposed to the client
     public: {
       siteUrl: process.env.NUXT_PUBLIC_SITE_URL || 'http://localhost:3000',
-      isDev: process.env.NODE_ENV === 'development'
+      isDev: process.env.NODE_ENV === 'development',
+
+      // Default model per pipeline stage; users can override them in the UI
+      models: {
+        research: process.env.LLM_RESEARCH_MODEL || process.env.LLM_DEFAULT_MODEL || 'deepseek/deepseek-chat-v3-0324:free',
+        verification: process.env.LLM_VERIFICATION_MODEL || process.env.LLM_DEFAULT_MODEL || 'deepseek/deepseek-chat-v3-0324:free',
+        extraction: process.env.LLM_EXTRACTION_MODEL || process.env.LLM_DEFAULT_MODEL || 'deepseek/deepseek-chat-v3-0324:free',
+        outline: process.env.LLM_OUTLINE_MODEL || process.env.LLM_DEFAULT_MODEL || 'deepseek/deepseek-chat-v3-0324:free',
+        rewrite: process.env.LLM_REWRITE_MODEL || process.env.LLM_DEFAULT_MODEL || 'deepseek/deepseek-chat-v3-0324:free'
+      }
     }
   },
 
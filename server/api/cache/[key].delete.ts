@@ -0,0 +1,15 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { getResponseCache } from '~/utils/chatService'
+
+/**
+ * Removes a single cached chat response
+ */
+export default defineEventHandler(async (event) => {
+  const key = getRouterParam(event, 'key') || ''
+  const removed = await getResponseCache(useRuntimeConfig(), useStorage('data')).remove(key)
+
+  if (!removed) {
+    throw createError({ statusCode: 404, statusMessage: `Cache entry ${key} not found` })
+  }
+  return { removed: key }
+})
@@ -0,0 +1,15 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { getResponseCache } from '~/utils/chatService'
+
+/**
+ * Returns a cached chat response, including its content
+ */
+export default defineEventHandler(async (event) => {
+  const key = getRouterParam(event, 'key') || ''
+  const entry = await getResponseCache(useRuntimeConfig(), useStorage('data')).inspect(key)
+
+  if (!entry) {
+    throw createError({ statusCode: 404, statusMessage: `Cache entry ${key} not found` })
+  }
+  return entry
+})
@@ -0,0 +1,12 @@
+import { defineEventHandler } from 'h3'
+import { getResponseCache } from '~/utils/chatService'
+
+/**
+ * Purges every cached chat response
+ */
+export default defineEventHandler(async () => {
+  const cache = getResponseCache(useRuntimeConfig(), useStorage('data'))
+  const removed = await cache.purge()
+  console.log(`Purged ${removed} cached responses`)
+  return { removed }
+})
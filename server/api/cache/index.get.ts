@@ -0,0 +1,21 @@
+import { defineEventHandler } from 'h3'
+import { getResponseCache } from '~/utils/chatService'
+
+/**
+ * Lists cached chat responses (without their content) and the cache settings
+ */
+export default defineEventHandler(async () => {
+  const config = useRuntimeConfig()
+  const cache = getResponseCache(config, useStorage('data'))
+  const entries = await cache.list()
+
+  return {
+    enabled: config.llm.cacheEnabled,
+    ttlSeconds: config.llm.cacheTtlSeconds,
+    maxEntries: config.llm.cacheMaxEntries,
+    maxEntryBytes: config.llm.cacheMaxEntryBytes,
+    count: entries.length,
+    totalBytes: entries.reduce((total, entry) => total + entry.size, 0),
+    entries
+  }
+})
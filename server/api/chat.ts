@@ -1,76 +1,53 @@
 import { defineEventHandler } from 'h3'
+import { randomUUID } from 'crypto'
+import { createSSEStream, toOpenAICompletion } from '~/utils/sse'
+import { buildChatRequest, createChatProvider, toChatHttpError } from '~/utils/chatService'
 
 export default defineEventHandler(async (event) => {
   console.log('API endpoint called: /api/chat')
   const config = useRuntimeConfig()
   const body = await readBody(event)
-  
+  const request = buildChatRequest(body, config)
+
   // Log request details
   console.log('Request body:', {
-    model: body.model || 'deepseek-ai/deepseek-chat-v3-0324:free',
-    messageCount: body.messages?.length,
-    firstMessagePreview: body.messages?.[0]?.content?.substring(0, 50) + '...',
-    max_tokens: body.max_tokens,
-    stream: body.stream
+    provider: config.llm.provider,
+    stage: body.stage,
+    model: request.model,
+    messageCount: request.messages.length,
+    firstMessagePreview: request.messages[0]?.content?.substring(0, 50) + '...',
+    max_tokens: request.max_tokens,
+    stream: request.stream,
+    bypassCache: !!body.bypassCache
   })
-  
-  // Check if API key is configured
-  if (!config.openrouterApiKey) {
-    console.error('OpenRouter API key is missing')
-    throw createError({
-      statusCode: 500,
-      statusMessage: 'API key configuration is missing'
-    })
-  }
 
-  try {
-    console.log('Sending request to OpenRouter API...')
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${config.openrouterApiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': config.public.siteUrl,
-        'X-Title': 'Research Assistant'
-      },
-      body: JSON.stringify({
-        model: body.model || 'deepseek-ai/deepseek-chat-v3-0324:free',
-        messages: body.messages,
-        max_tokens: body.max_tokens,
-        stream: body.stream
-      })
-    })
+  const provider = await createChatProvider(config, useStorage('data'), body, (result) => {
+    setResponseHeader(event, 'X-Cache', result.toUpperCase())
+  })
 
-    console.log('OpenRouter API response status:', response.status)
-    
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('OpenRouter API error:', response.status, errorText)
-      throw createError({
-        statusCode: response.status,
-        statusMessage: `OpenRouter API error: ${response.statusText}`,
-        data: errorText
-      })
-    }
+  try {
+    console.log(`Sending request to ${provider.id} provider...`)
 
-    if (body.stream && response.body) {
+    if (request.stream) {
+      const chunks = await provider.stream(request)
       console.log('Streaming response back to client')
-      return sendStream(event, response.body)
+      setResponseHeaders(event, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      })
+      return sendStream(event, createSSEStream(chunks, `chatcmpl-${randomUUID()}`, request.model))
     }
 
-    const data = await response.json()
-    console.log('OpenRouter API response:', {
-      choices: data.choices?.length,
-      usage: data.usage,
-      firstChoicePreview: data.choices?.[0]?.message?.content?.substring(0, 50) + '...'
+    const completion = await provider.complete(request)
+    console.log(`${provider.id} response:`, {
+      model: completion.model,
+      usage: completion.usage,
+      firstChoicePreview: completion.content.substring(0, 50) + '...'
     })
-    return data
+    return toOpenAICompletion(completion)
   } catch (error) {
     console.error('Error in chat API:', error)
-    throw createError({
-      statusCode: 500,
-      statusMessage: 'Failed to communicate with OpenRouter API',
-      data: error
-    })
+    throw toChatHttpError(error, provider.id)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,22 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { createDocumentStore, toDocumentHttpError } from '~/utils/documentStore'
+
+/**
+ * Removes a document from a collection
+ */
+export default defineEventHandler(async (event) => {
+  const collectionId = getRouterParam(event, 'collection') || ''
+  const id = getRouterParam(event, 'id') || ''
+
+  let removed
+  try {
+    removed = await createDocumentStore(useStorage('data')).remove(collectionId, id)
+  } catch (error) {
+    throw toDocumentHttpError(error)
+  }
+
+  if (!removed) {
+    throw createError({ statusCode: 404, statusMessage: `Document ${id} not found` })
+  }
+  return { removed: id }
+})
@@ -0,0 +1,15 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { createDocumentStore, toDocumentHttpError } from '~/utils/documentStore'
+
+/**
+ * Lists the documents uploaded to a collection
+ */
+export default defineEventHandler(async (event) => {
+  const collectionId = getRouterParam(event, 'collection') || ''
+
+  try {
+    return { documents: await createDocumentStore(useStorage('data')).list(collectionId) }
+  } catch (error) {
+    throw toDocumentHttpError(error)
+  }
+})
@@ -0,0 +1,38 @@
+import { defineEventHandler, getRouterParam, readMultipartFormData } from 'h3'
+import { extractDocumentText } from '~/utils/documentParser'
+import { MAX_DOCUMENT_BYTES, createDocumentStore, toDocumentHttpError } from '~/utils/documentStore'
+import type { StoredDocument } from '~/types/documents'
+
+/**
+ * Uploads documents to a collection as multipart/form-data; every file part is stored
+ * Markdown, plain text, CSV, HTML and PDF are accepted; the text is extracted, chunked and indexed
+ */
+export default defineEventHandler(async (event) => {
+  const collectionId = getRouterParam(event, 'collection') || ''
+  const parts = (await readMultipartFormData(event) || []).filter(part => part.filename)
+
+  if (!parts.length) {
+    throw createError({ statusCode: 400, statusMessage: 'No files uploaded' })
+  }
+
+  const tooLarge = parts.find(part => part.data.length > MAX_DOCUMENT_BYTES)
+  if (tooLarge) {
+    throw createError({ statusCode: 413, statusMessage: `${tooLarge.filename} is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB` })
+  }
+
+  const store = createDocumentStore(useStorage('data'))
+  const documents: StoredDocument[] = []
+  try {
+    for (const part of parts) {
+      const name = part.filename!
+      const { format, text } = await extractDocumentText(name, part.data, part.type)
+      documents.push(await store.add(collectionId, { name, format, size: part.data.length, text }))
+    }
+  } catch (error) {
+    throw toDocumentHttpError(error)
+  }
+
+  console.log('Uploaded documents:', { collectionId, documents: documents.map(doc => `${doc.name} (${doc.chunkCount} chunks)`) })
+  setResponseStatus(event, 201)
+  return { documents }
+})
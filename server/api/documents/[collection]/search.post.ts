@@ -0,0 +1,23 @@
+import { defineEventHandler, getRouterParam, readBody } from 'h3'
+import { DEFAULT_PASSAGE_LIMIT } from '~/utils/documentIndex'
+import { createDocumentStore, toDocumentHttpError } from '~/utils/documentStore'
+
+/**
+ * Returns the passages of a collection that best match a query (BM25)
+ * Body: query, and optionally limit (1-20, default 5)
+ */
+export default defineEventHandler(async (event) => {
+  const collectionId = getRouterParam(event, 'collection') || ''
+  const body = await readBody(event)
+
+  if (typeof body?.query !== 'string' || !body.query.trim()) {
+    throw createError({ statusCode: 400, statusMessage: 'No query provided' })
+  }
+  const limit = Number.isInteger(body.limit) ? Math.min(Math.max(body.limit, 1), 20) : DEFAULT_PASSAGE_LIMIT
+
+  try {
+    return { passages: await createDocumentStore(useStorage('data')).search(collectionId, body.query, limit) }
+  } catch (error) {
+    throw toDocumentHttpError(error)
+  }
+})
@@ -0,0 +1,17 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { cancelJob } from '~/utils/jobManager'
+
+/**
+ * Cancels a job; the upstream model request is aborted
+ */
+export default defineEventHandler((event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const job = cancelJob(id)
+
+  if (!job) {
+    throw createError({ statusCode: 404, statusMessage: `Job ${id} not found` })
+  }
+
+  console.log('Cancelled generation job:', { id, status: job.status })
+  return job
+})
@@ -0,0 +1,16 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { getJob } from '~/utils/jobManager'
+
+/**
+ * Returns the status and content generated so far for a job
+ */
+export default defineEventHandler((event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const job = getJob(id)
+
+  if (!job) {
+    throw createError({ statusCode: 404, statusMessage: `Job ${id} not found` })
+  }
+
+  return job
+})
@@ -0,0 +1,56 @@
+import { defineEventHandler, getQuery, getRequestHeader, getRouterParam } from 'h3'
+import { getJob, subscribeToJob } from '~/utils/jobManager'
+import { encodeSSEData, SSE_DONE, toOpenAIChunk } from '~/utils/sse'
+
+/**
+ * Streams a job as SSE in the same chunk format as /api/chat
+ * Each event carries `id: <n>` (chunks received so far); reconnecting with
+ * `?offset=<n>` or a Last-Event-ID header replays only the missing chunks
+ */
+export default defineEventHandler((event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const query = getQuery(event)
+  const offset = Number(query.offset ?? getRequestHeader(event, 'last-event-id') ?? 0) || 0
+
+  // Aborted when the client disconnects, so a stalled job does not hold the subscription
+  const disconnect = new AbortController()
+  const subscription = subscribeToJob(id, offset, disconnect.signal)
+  if (!subscription) {
+    throw createError({ statusCode: 404, statusMessage: `Job ${id} not found` })
+  }
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await subscription.next()
+      if (disconnect.signal.aborted) return
+      if (!done) {
+        const job = getJob(id)
+        const payload = toOpenAIChunk(value.chunk, id, job?.model || '')
+        controller.enqueue(encoder.encode(encodeSSEData(payload, value.index + 1)))
+        return
+      }
+
+      // Report how the job ended before closing the stream
+      const job = getJob(id)
+      if (job?.status === 'failed') {
+        controller.enqueue(encoder.encode(encodeSSEData({ error: { message: job.error } })))
+      } else if (job) {
+        controller.enqueue(encoder.encode(encodeSSEData({ status: job.status })))
+      }
+      controller.enqueue(encoder.encode(encodeSSEData(SSE_DONE)))
+      controller.close()
+    },
+    async cancel() {
+      disconnect.abort()
+      await subscription.return(undefined)
+    }
+  })
+
+  setResponseHeaders(event, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  })
+  return sendStream(event, stream)
+})
@@ -0,0 +1,25 @@
+import { defineEventHandler, readBody } from 'h3'
+import { createJob } from '~/utils/jobManager'
+import { buildChatRequest, createChatProvider } from '~/utils/chatService'
+
+/**
+ * Starts a background generation job
+ * Accepts the same body as /api/chat; the job always streams
+ */
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig()
+  const body = await readBody(event)
+
+  if (!body?.messages?.length) {
+    throw createError({ statusCode: 400, statusMessage: 'No messages provided' })
+  }
+
+  const request = buildChatRequest({ ...body, stream: true }, config)
+  const provider = await createChatProvider(config, useStorage('data'), body)
+  const job = createJob(request, provider)
+
+  console.log('Started generation job:', { id: job.id, provider: provider.id, model: job.model })
+
+  setResponseStatus(event, 201)
+  return job
+})
@@ -0,0 +1,13 @@
+import { defineEventHandler } from 'h3'
+import { createSessionStore, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Lists the research sessions with their research for /library, most recently updated first
+ */
+export default defineEventHandler(async () => {
+  try {
+    return { entries: await createSessionStore(useStorage('data')).library() }
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+})
@@ -0,0 +1,16 @@
+import { defineEventHandler } from 'h3'
+import { getModelCatalog, MODEL_STAGES } from '~/utils/modelCatalog'
+
+/**
+ * Lists the model catalog and the configured default model for each stage
+ */
+export default defineEventHandler(() => {
+  const config = useRuntimeConfig()
+
+  return {
+    provider: config.llm.provider,
+    models: getModelCatalog(config.llm.extraModels.split(',')),
+    stages: MODEL_STAGES,
+    defaults: config.public.models
+  }
+})
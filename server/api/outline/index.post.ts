@@ -0,0 +1,79 @@
+import { defineEventHandler, readBody } from 'h3'
+import { buildChatRequest, createChatProvider, toChatHttpError } from '~/utils/chatService'
+import { getPromptRegistry, toPromptHttpError } from '~/utils/promptRegistry'
+import { briefPromptValues, createResearchBrief } from '~/utils/researchBrief'
+import { formatSourceList, normalizeSources } from '~/utils/citations'
+import { isOutlineVariant, variantInstruction } from '~/utils/outlineVariants'
+import { DEFAULT_MAX_REPAIRS, DeckValidationError, buildDeckMessages, generateStructuredOutline } from '~/utils/structuredOutline'
+
+/**
+ * Generates a structured outline: the model returns JSON matching the deck schema,
+ * invalid replies are repaired by re-prompting with the validation errors, and the deck
+ * is serialized to R Markdown
+ * Body: research, and optionally brief, audience (overrides the brief's), variant (executive,
+ * technical or teaching), sources (the sources the research cites), model, sessionId,
+ * bypassCache, max_tokens, maxRepairs
+ */
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig()
+  const body = await readBody(event)
+
+  if (typeof body?.research !== 'string' || !body.research.trim()) {
+    throw createError({ statusCode: 400, statusMessage: 'No research provided' })
+  }
+
+  // The active deck prompt version is used and reported with the outline
+  let messages
+  let promptVersion
+  try {
+    const prompt = await getPromptRegistry(config).getActive('deck')
+    const brief = body.brief && typeof body.brief === 'object' ? createResearchBrief(body.brief) : undefined
+    messages = buildDeckMessages(body.research, prompt, {
+      ...(brief ? briefPromptValues(brief) : {}),
+      ...(typeof body.audience === 'string' && body.audience.trim() ? { audience: body.audience } : {}),
+      ...(isOutlineVariant(body.variant) ? { variant: variantInstruction(body.variant) } : {}),
+      sources: formatSourceList(normalizeSources(body.sources))
+    })
+    promptVersion = { templateId: prompt.templateId, version: prompt.version }
+  } catch (error) {
+    throw toPromptHttpError(error)
+  }
+
+  const request = buildChatRequest({
+    stage: 'outline',
+    model: body.model,
+    messages,
+    max_tokens: body.max_tokens || 4000,
+    temperature: body.temperature,
+    stream: false
+  }, config)
+  const maxRepairs = Number.isInteger(body.maxRepairs)
+    ? Math.min(Math.max(body.maxRepairs, 0), 5)
+    : DEFAULT_MAX_REPAIRS
+
+  const provider = await createChatProvider(config, useStorage('data'), body, (result) => {
+    setResponseHeader(event, 'X-Cache', result.toUpperCase())
+  })
+
+  try {
+    const outline = await generateStructuredOutline(provider, request, maxRepairs)
+    console.log('Generated structured outline:', {
+      model: outline.model,
+      slides: outline.deck.slides.length,
+      attempts: outline.attempts,
+      prompt: promptVersion
+    })
+    return { ...outline, promptVersion }
+  } catch (error) {
+    if (error instanceof DeckValidationError) {
+      console.error('Structured outline failed validation:', error.errors)
+      throw createError({
+        statusCode: 422,
+        statusMessage: error.message,
+        data: { errors: error.errors, attempts: error.attempts }
+      })
+    }
+    console.error('Error generating structured outline:', error)
+    throw toChatHttpError(error, provider.id)
+  }
+})
@@ -0,0 +1,10 @@
+import { defineEventHandler } from 'h3'
+import { DECK_JSON_SCHEMA } from '~/utils/deckSchema'
+
+/**
+ * Publishes the JSON schema structured outlines must match
+ */
+export default defineEventHandler((event) => {
+  setResponseHeader(event, 'Content-Type', 'application/schema+json')
+  return DECK_JSON_SCHEMA
+})
@@ -0,0 +1,23 @@
+import { defineEventHandler, getRouterParam, readBody } from 'h3'
+import { getPromptRegistry, toPromptHttpError } from '~/utils/promptRegistry'
+
+/**
+ * Makes a version of a prompt template the one used to generate content
+ * Body: version
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const body = await readBody(event)
+
+  if (!Number.isInteger(body?.version)) {
+    throw createError({ statusCode: 400, statusMessage: 'No version provided' })
+  }
+
+  try {
+    const template = await getPromptRegistry(useRuntimeConfig()).activate(id, body.version)
+    console.log('Activated prompt version:', { template: id, version: body.version })
+    return template
+  } catch (error) {
+    throw toPromptHttpError(error)
+  }
+})
@@ -0,0 +1,17 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { getPromptRegistry, toPromptHttpError } from '~/utils/promptRegistry'
+
+/**
+ * Returns a prompt template with the text of its active version
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const registry = getPromptRegistry(useRuntimeConfig())
+
+  try {
+    const [template, active] = await Promise.all([registry.get(id), registry.getActive(id)])
+    return { ...template, active }
+  } catch (error) {
+    throw toPromptHttpError(error)
+  }
+})
@@ -0,0 +1,16 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { getPromptRegistry, toPromptHttpError } from '~/utils/promptRegistry'
+
+/**
+ * Returns one version of a prompt template, including its text
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const version = Number(getRouterParam(event, 'version'))
+
+  try {
+    return await getPromptRegistry(useRuntimeConfig()).getVersion(id, version)
+  } catch (error) {
+    throw toPromptHttpError(error)
+  }
+})
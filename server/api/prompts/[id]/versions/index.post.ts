@@ -0,0 +1,29 @@
+import { defineEventHandler, getRouterParam, readBody } from 'h3'
+import { getPromptRegistry, toPromptHttpError } from '~/utils/promptRegistry'
+
+/**
+ * Saves a new version of a prompt template
+ * Body: text, note, and activate to make it the active version right away
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const body = await readBody(event)
+
+  if (typeof body?.text !== 'string') {
+    throw createError({ statusCode: 400, statusMessage: 'No template text provided' })
+  }
+
+  const registry = getPromptRegistry(useRuntimeConfig())
+  try {
+    const version = await registry.createVersion(id, body.text, body.note)
+    if (body.activate === true) {
+      await registry.activate(id, version.version)
+    }
+    console.log('Saved prompt version:', { template: id, version: version.version, activated: body.activate === true })
+
+    setResponseStatus(event, 201)
+    return version
+  } catch (error) {
+    throw toPromptHttpError(error)
+  }
+})
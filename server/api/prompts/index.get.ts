@@ -0,0 +1,9 @@
+import { defineEventHandler } from 'h3'
+import { getPromptRegistry } from '~/utils/promptRegistry'
+
+/**
+ * Lists the prompt templates with their variables, versions and active version
+ */
+export default defineEventHandler(() => {
+  return getPromptRegistry(useRuntimeConfig()).list()
+})
@@ -7,8 +7,13 @@ import * as os from 'os'
 import * as crypto from 'crypto'
 import { logRExecution, logRFileOperation, logSvgOperation } from '~/utils/serverLogger'
 import { saveSvgToFile } from '~/utils/svgStorage'
+import { sourcesToBibtex } from '~/utils/bibtex'
+import { addPandocBibliography, normalizeSources } from '~/utils/citations'
+import { isCitationStyle } from '~/utils/citationStyles'
+import { datasetColumns, datasetPreamble, normalizeDatasets, usableDatasets } from '~/utils/datasets'
 
 export default defineEventHandler(async (event) => {
+  let datasetPaths: string[] = []
   try {
     console.log('R Markdown API endpoint called')
     const body = await readBody(event)
@@ -23,6 +28,10 @@ export default defineEventHandler(async (event) => {
       return { error: 'No content provided' }
     }
 
+    // The datasets of the session are loaded as data frames before any R code runs
+    const datasets = writeDatasetFiles(body.datasets)
+    datasetPaths = datasets.paths
+
     // Clean content before processing
     const { content: cleanedContent, htmlPlaceholders } = cleanRMarkdownForProcessing(content);
 
@@ -37,7 +46,7 @@ export default defineEventHandler(async (event) => {
         fs.writeFileSync(tempRmdPath, cleanedContent)
 
         // Process with R
-        const result = await processRMarkdown(tempRmdPath)
+        const result = await processRMarkdown(tempRmdPath, datasets.preamble)
 
         // Restore HTML content
         const finalResult = restoreHtmlContent(result, htmlPlaceholders)
@@ -51,10 +60,25 @@ export default defineEventHandler(async (event) => {
         const tempRmdPath = path.join(tempDir, `temp_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.Rmd`)
         const tempRScriptPath = path.join(tempDir, `script_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.R`)
         const tempHtmlPath = path.join(tempDir, `output_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.html`)
+        const tempBibPath = path.join(tempDir, `bibliography_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.bib`)
+
+        // With sources, citations are rendered by pandoc's citeproc from a BibTeX file
+        const sources = normalizeSources(body.sources)
+        let document = content
+        if (sources.length) {
+          try {
+            fs.writeFileSync(tempBibPath, sourcesToBibtex(sources))
+            logRFileOperation('write_file', tempBibPath, true)
+          } catch (err) {
+            logRFileOperation('write_file', tempBibPath, false, err)
+            throw err
+          }
+          document = addPandocBibliography(content, sources, tempBibPath, isCitationStyle(body.citationStyle) ? body.citationStyle : undefined)
+        }
 
         // Write the R Markdown content to a file
         try {
-          fs.writeFileSync(tempRmdPath, content)
+          fs.writeFileSync(tempRmdPath, document)
           logRFileOperation('write_file', tempRmdPath, true)
         } catch (err) {
           logRFileOperation('write_file', tempRmdPath, false, err)
@@ -64,6 +88,7 @@ export default defineEventHandler(async (event) => {
         // Create an R script file to render the R Markdown
         const rScript = `
           library(rmarkdown)
+          ${datasets.preamble}
           render("${tempRmdPath.replace(/\\/g, '/')}", output_file = "${tempHtmlPath.replace(/\\/g, '/')}", quiet = TRUE)
           html_content <- readLines("${tempHtmlPath.replace(/\\/g, '/')}")
           cat(paste(html_content, collapse = "\n"))
@@ -123,6 +148,9 @@ export default defineEventHandler(async (event) => {
           fs.unlinkSync(tempRmdPath)
           fs.unlinkSync(tempRScriptPath)
           fs.unlinkSync(tempHtmlPath)
+          if (fs.existsSync(tempBibPath)) {
+            fs.unlinkSync(tempBibPath)
+          }
           logRFileOperation('delete_files', 'temporary files', true)
         } catch (err) {
           logRFileOperation('delete_files', 'temporary files', false, err)
@@ -145,6 +173,7 @@ export default defineEventHandler(async (event) => {
 
         // Create an R script file
         const rScript = `
+          ${datasets.preamble}
           svg("${tempSvgPath.replace(/\\/g, '/')}")
           ${content}
           dev.off()
@@ -260,6 +289,7 @@ export default defineEventHandler(async (event) => {
         // Create an R script file
         const rScript = `
           library(knitr)
+          ${datasets.preamble}
 
           # Execute the R code to generate a table
           result <- {
@@ -340,6 +370,7 @@ export default defineEventHandler(async (event) => {
 
         // Create an R script file
         const rScript = `
+          ${datasets.preamble}
           # Execute the R code
           result <- {
             ${content}
@@ -393,9 +424,40 @@ export default defineEventHandler(async (event) => {
   } catch (err) {
     console.error('R Markdown processing error:', err)
     return { error: err.message }
+  } finally {
+    removeDatasetFiles(datasetPaths)
   }
 })
 
+/**
+ * Writes the datasets of the request to CSV files for the R code to read
+ * @param input The datasets; the ones that cannot be loaded are left out
+ * @returns The R code that loads them and the paths of the files
+ */
+function writeDatasetFiles(input: unknown) {
+  const files = usableDatasets(normalizeDatasets(input)).map(dataset => ({
+    name: dataset.name,
+    types: datasetColumns(dataset).map(column => column.type),
+    path: path.join(os.tmpdir(), `dataset_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.csv`),
+    csv: dataset.csv
+  }))
+  for (const file of files) {
+    fs.writeFileSync(file.path, file.csv)
+    logRFileOperation('write_file', file.path, true)
+  }
+  return { preamble: datasetPreamble(files), paths: files.map(file => file.path) }
+}
+
+function removeDatasetFiles(paths: string[]) {
+  for (const filePath of paths) {
+    try {
+      fs.unlinkSync(filePath)
+    } catch (err) {
+      logRFileOperation('delete_file', filePath, false, err)
+    }
+  }
+}
+
 function cleanRMarkdownForProcessing(content) {
   if (!content) {
     return {
@@ -442,9 +504,10 @@ function restoreHtmlContent(result, htmlPlaceholders) {
 /**
  * Process R Markdown file using R integration
  * @param filePath Path to the R Markdown file
+ * @param preamble R code run before the document is knitted, e.g. loading the datasets
  * @returns Processed content with R code chunks replaced by their outputs
  */
-async function processRMarkdown(filePath) {
+async function processRMarkdown(filePath, preamble = '') {
   console.log(`Processing R Markdown file: ${filePath}`)
   // Create temporary files
   const tempDir = os.tmpdir()
@@ -458,6 +521,7 @@ async function processRMarkdown(filePath) {
   const rScript = `
     library(knitr)
     library(rmarkdown)
+    ${preamble}
 
     # Read the R Markdown file
     rmd_content <- readLines("${filePath.replace(/\\/g, '/')}")
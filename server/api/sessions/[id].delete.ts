@@ -0,0 +1,21 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { createSessionStore, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Removes a research session
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+
+  let removed
+  try {
+    removed = await createSessionStore(useStorage('data')).remove(id)
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+
+  if (!removed) {
+    throw createError({ statusCode: 404, statusMessage: `Session ${id} not found` })
+  }
+  return { removed: id }
+})
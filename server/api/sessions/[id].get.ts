@@ -0,0 +1,21 @@
+import { defineEventHandler, getRouterParam } from 'h3'
+import { createSessionStore, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Returns a research session with its research, outlines and decks
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+
+  let session
+  try {
+    session = await createSessionStore(useStorage('data')).get(id)
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+
+  if (!session) {
+    throw createError({ statusCode: 404, statusMessage: `Session ${id} not found` })
+  }
+  return { session }
+})
@@ -0,0 +1,16 @@
+import { defineEventHandler, getRouterParam, readBody } from 'h3'
+import { createSessionStore, normalizeSessionChanges, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Replaces the fields of a research session given in the body; lists are replaced as a whole
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const body = await readBody(event)
+
+  try {
+    return { session: await createSessionStore(useStorage('data')).update(id, normalizeSessionChanges(body)) }
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+})
@@ -0,0 +1,22 @@
+import { createError, defineEventHandler, getRouterParam, readBody } from 'h3'
+import { createSessionStore, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Creates a new session from a version of this one
+ * Body: { versionId }
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const body = await readBody(event)
+  if (typeof body?.versionId !== 'string') {
+    throw createError({ statusCode: 400, statusMessage: 'versionId is required' })
+  }
+
+  try {
+    const session = await createSessionStore(useStorage('data')).branch(id, body.versionId)
+    setResponseStatus(event, 201)
+    return { session }
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+})
@@ -0,0 +1,55 @@
+import { defineEventHandler, getRequestHeader, getRouterParam, readMultipartFormData } from 'h3'
+import { DatasetFileError, MAX_DATASET_FILE_BYTES, MAX_DATASET_UPLOAD_BYTES, readDatasetFile } from '~/utils/datasetFiles'
+import { MAX_DATASETS } from '~/utils/datasets'
+import { createSessionStore, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Uploads datasets to a session as multipart/form-data: CSV, TSV and Excel (.xlsx) files
+ * Each file becomes a data frame the R chunks of the outline can plot
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+
+  // The body is read into memory whole, so its size is checked before reading it
+  const length = Number(getRequestHeader(event, 'content-length'))
+  if (!length) {
+    throw createError({ statusCode: 411, statusMessage: 'The upload needs a Content-Length' })
+  }
+  if (length > MAX_DATASET_UPLOAD_BYTES) {
+    throw createError({ statusCode: 413, statusMessage: `An upload can be at most ${MAX_DATASET_UPLOAD_BYTES / 1024 / 1024} MB` })
+  }
+
+  const store = createSessionStore(useStorage('data'))
+  const current = await store.get(id)
+  if (!current) {
+    throw createError({ statusCode: 404, statusMessage: `Session ${id} not found` })
+  }
+
+  const parts = (await readMultipartFormData(event) || []).filter(part => part.filename)
+
+  if (!parts.length) {
+    throw createError({ statusCode: 400, statusMessage: 'No files uploaded' })
+  }
+
+  const room = MAX_DATASETS - (current.datasets?.length || 0)
+  if (parts.length > room) {
+    throw createError({ statusCode: 422, statusMessage: `A session can have at most ${MAX_DATASETS} datasets; ${room} more can be added` })
+  }
+
+  const tooLarge = parts.find(part => part.data.length > MAX_DATASET_FILE_BYTES)
+  if (tooLarge) {
+    throw createError({ statusCode: 413, statusMessage: `${tooLarge.filename} is larger than ${MAX_DATASET_FILE_BYTES / 1024 / 1024} MB` })
+  }
+
+  try {
+    const datasets = parts.map(part => readDatasetFile(part.filename!, part.data))
+    const session = await store.addDatasets(id, datasets)
+    setResponseStatus(event, 201)
+    return { session }
+  } catch (error) {
+    if (error instanceof DatasetFileError) {
+      throw createError({ statusCode: error.status, statusMessage: error.message })
+    }
+    throw toSessionHttpError(error)
+  }
+})
@@ -0,0 +1,19 @@
+import { defineEventHandler, getRouterParam, readBody } from 'h3'
+import { createSessionStore, normalizeTranslationInput, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Stores a translation of the outline of a session as a new session linked to it
+ * Body: { language, outline }
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const body = await readBody(event)
+
+  try {
+    const session = await createSessionStore(useStorage('data')).addTranslation(id, normalizeTranslationInput(body))
+    setResponseStatus(event, 201)
+    return { session }
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+})
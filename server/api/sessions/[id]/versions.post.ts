@@ -0,0 +1,19 @@
+import { defineEventHandler, getRouterParam, readBody } from 'h3'
+import { createSessionStore, normalizeVersionInput, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Records a version of the research or the outline of a session and makes it the current text
+ * Body: { kind: 'research' | 'outline', content, reason?: 'generated' | 'saved' | 'restored' }
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id') || ''
+  const body = await readBody(event)
+
+  try {
+    const session = await createSessionStore(useStorage('data')).addVersion(id, normalizeVersionInput(body))
+    setResponseStatus(event, 201)
+    return { session }
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+})
@@ -0,0 +1,13 @@
+import { defineEventHandler } from 'h3'
+import { createSessionStore, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Lists the research sessions, most recently updated first
+ */
+export default defineEventHandler(async () => {
+  try {
+    return { sessions: await createSessionStore(useStorage('data')).list() }
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+})
@@ -0,0 +1,20 @@
+import { defineEventHandler, readBody } from 'h3'
+import { createSessionStore, normalizeSessionChanges, toSessionHttpError } from '~/utils/sessionStore'
+
+/**
+ * Creates a research session
+ * Body: the session fields, and optionally the id (the client creates it with the research)
+ */
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event)
+
+  try {
+    const changes = normalizeSessionChanges(body)
+    const store = createSessionStore(useStorage('data'))
+    const session = typeof body.id === 'string' ? await store.create(changes, body.id) : await store.create(changes)
+    setResponseStatus(event, 201)
+    return { session }
+  } catch (error) {
+    throw toSessionHttpError(error)
+  }
+})
@@ -14,6 +14,8 @@ export default defineEventHandler(async (event) => {
     timestamp: new Date().toISOString(),
     environment: {
       apiKeyConfigured: !!config.openrouterApiKey,
+      llmProvider: config.llm.provider,
+      defaultModel: config.llm.defaultModel,
       siteUrl: config.public.siteUrl
     },
     message: 'API test endpoint is working correctly'
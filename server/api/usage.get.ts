@@ -0,0 +1,24 @@
+import { defineEventHandler } from 'h3'
+import { getUsageBudget } from '~/utils/chatService'
+import { createUsageTracker } from '~/utils/usageTracker'
+
+/**
+ * Returns token usage and cost aggregated per day and per research session
+ */
+export default defineEventHandler(async () => {
+  const config = useRuntimeConfig()
+  const tracker = createUsageTracker(useStorage('data'))
+
+  const [today, days, sessions] = await Promise.all([
+    tracker.getDay(),
+    tracker.listDays(30),
+    tracker.listSessions(20)
+  ])
+
+  return {
+    today,
+    days,
+    sessions,
+    budget: getUsageBudget(config)
+  }
+})
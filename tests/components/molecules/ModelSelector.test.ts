@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import { ref } from 'vue'
+import ModelSelector from '~/components/molecules/ModelSelector.vue'
+import { MODEL_CATALOG } from '~/utils/modelCatalog'
+
+// Mock the composables
+const mockSettings = {
+  catalog: ref(MODEL_CATALOG),
+  stageDefaults: ref({ research: 'deepseek/deepseek-chat-v3-0324:free' }),
+  stageOverrides: ref({ outline: 'openai/gpt-4o-mini' }),
+  isCatalogLoaded: ref(false),
+  loadCatalog: vi.fn(),
+  setStageModel: vi.fn()
+}
+
+vi.mock('~/composables/useModelSettings', () => ({
+  useModelSettings: () => mockSettings
+}))
+
+describe('ModelSelector.vue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('renders a select for each stage', () => {
+    const wrapper = mount(ModelSelector)
+
+    expect(wrapper.find('[data-test="model-select-research"]').exists()).toBe(true)
+    expect(wrapper.find('[data-test="model-select-outline"]').exists()).toBe(true)
+    expect(wrapper.find('[data-test="model-select-rewrite"]').exists()).toBe(true)
+  })
+
+  it('loads the catalog on mount', () => {
+    mount(ModelSelector)
+
+    expect(mockSettings.loadCatalog).toHaveBeenCalled()
+  })
+
+  it('shows the stage default and current selection', () => {
+    const wrapper = mount(ModelSelector)
+
+    const research = wrapper.find('[data-test="model-select-research"]')
+    expect(research.find('option').text()).toContain('deepseek/deepseek-chat-v3-0324:free')
+    expect((wrapper.find('[data-test="model-select-outline"]').element as HTMLSelectElement).value).toBe('openai/gpt-4o-mini')
+  })
+
+  it('stores the selection and emits change', async () => {
+    const wrapper = mount(ModelSelector)
+
+    await wrapper.find('[data-test="model-select-research"]').setValue('google/gemini-2.0-flash-001')
+
+    expect(mockSettings.setStageModel).toHaveBeenCalledWith('research', 'google/gemini-2.0-flash-001')
+    expect(wrapper.emitted('change')?.[0]).toEqual([{ stage: 'research', model: 'google/gemini-2.0-flash-001' }])
+  })
+})
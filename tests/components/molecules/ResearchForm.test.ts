@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { flushPromises, mount } from '@vue/test-utils'
 import ResearchForm from '~/components/molecules/ResearchForm.vue'
 
 import { ref } from 'vue'
@@ -70,10 +70,79 @@ describe('ResearchForm.vue', () => {
     await wrapper.find('form').trigger('submit.prevent')
     
     // Check that conductResearch was called with correct parameters
-    expect(mockResearch.conductResearch).toHaveBeenCalledWith('Test Topic', ['Test Subtopic'])
+    expect(mockResearch.conductResearch).toHaveBeenCalledWith('Test Topic', ['Test Subtopic'], { depth: 'standard', tone: 'formal', length: 1000 })
     expect(wrapper.emitted('research-complete')).toBeTruthy()
   })
 
+  it('captures the brief and only emits it when research starts elsewhere', async () => {
+    mockResearch.conductResearch.mockClear()
+    const wrapper = mount(ResearchForm, { props: { startResearch: false } })
+
+    await wrapper.find('[data-test="topic-input"] input').setValue('Tea')
+    await wrapper.find('[data-test="audience-input"] input').setValue('students')
+    await wrapper.find('[data-test="language-input"] input').setValue('Spanish')
+    await wrapper.find('[data-test="depth-select"]').setValue('in-depth')
+    await wrapper.find('[data-test="tone-select"]').setValue('neutral')
+    await wrapper.find('[data-test="length-select"]').setValue('3500')
+    await wrapper.find('[data-test="must-include"]').setValue('Opium Wars\nSilk Road')
+    await wrapper.find('[data-test="must-avoid"]').setValue('Brands')
+    await wrapper.find('form').trigger('submit.prevent')
+
+    expect(wrapper.emitted('submit')![0][0]).toEqual({
+      topic: 'Tea',
+      subtopics: ['General overview'],
+      audience: 'students',
+      depth: 'in-depth',
+      tone: 'neutral',
+      length: 3500,
+      language: 'Spanish',
+      mustInclude: ['Opium Wars', 'Silk Road'],
+      mustAvoid: ['Brands']
+    })
+    expect(mockResearch.conductResearch).not.toHaveBeenCalled()
+  })
+
+  it('adds notes and references to the brief', async () => {
+    const wrapper = mount(ResearchForm, { props: { startResearch: false } })
+
+    await wrapper.find('[data-test="topic-input"] input').setValue('Tea')
+    await wrapper.find('[data-test="add-note"]').trigger('click')
+    await wrapper.find('[data-test="add-reference"]').trigger('click')
+    const titles = wrapper.findAll('[data-test="source-title"]')
+    await titles[0].setValue('Interview notes')
+    await wrapper.find('[data-test="source-text"]').setValue('Organic since 2015.')
+    await titles[1].setValue('The history of tea')
+    await wrapper.find('[data-test="source-year"]').setValue('2020')
+    await wrapper.find('form').trigger('submit.prevent')
+
+    expect(wrapper.emitted('submit')![0][0]).toMatchObject({
+      sources: [
+        { kind: 'note', title: 'Interview notes', text: 'Organic since 2015.' },
+        { kind: 'reference', title: 'The history of tea', year: '2020' }
+      ]
+    })
+  })
+
+  it('imports BibTeX entries and the citation style into the brief', async () => {
+    const wrapper = mount(ResearchForm, { props: { startResearch: false } })
+    // jsdom files have no text()
+    const file = { name: 'tea.bib', text: async () => '@article{smith2020, title = {The history of tea}, author = {Smith, John}, year = 2020}' }
+
+    await wrapper.find('[data-test="topic-input"] input').setValue('Tea')
+    const input = wrapper.find('[data-test="bibtex-input"]')
+    Object.defineProperty(input.element, 'files', { value: [file] })
+    await input.trigger('change')
+    await flushPromises()
+    await wrapper.find('[data-test="citation-style"]').setValue('apa')
+    await wrapper.find('form').trigger('submit.prevent')
+
+    expect(wrapper.find('[data-test="source-key"]').text()).toBe('@smith2020')
+    expect(wrapper.emitted('submit')![0][0]).toMatchObject({
+      sources: [{ kind: 'reference', title: 'The history of tea', key: 'smith2020', authors: 'Smith, John', year: '2020' }],
+      citationStyle: 'apa'
+    })
+  })
+
   it('shows loading state when isLoading is true', async () => {
     mockResearch.isLoading.value = true
     const wrapper = mount(ResearchForm)
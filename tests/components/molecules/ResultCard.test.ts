@@ -82,4 +82,32 @@ describe('ResultCard.vue', () => {
     expect(wrapper.find('.card-date').text()).not.toBe('')
     expect(wrapper.find('.card-date').text()).not.toBe('2023-01-01T12:00:00Z')
   })
-})
\ No newline at end of file
+
+  it('shows a selection checkbox only when selectable', async () => {
+    const wrapper = mount(ResultCard, {
+      props: {
+        result: mockResult
+      }
+    })
+
+    expect(wrapper.find('[data-test="select-result"]').exists()).toBe(false)
+
+    await wrapper.setProps({ selected: false })
+    await wrapper.find('[data-test="select-result"]').setValue(true)
+
+    expect(wrapper.emitted('toggle-select')).toEqual([[mockResult]])
+  })
+
+  it('renders the actions slot', () => {
+    const wrapper = mount(ResultCard, {
+      props: {
+        result: mockResult
+      },
+      slots: {
+        actions: '<button class="open-outline">Open</button>'
+      }
+    })
+
+    expect(wrapper.find('.card-actions .open-outline').exists()).toBe(true)
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ClaimReview from '~/components/organisms/ClaimReview.vue'
+import type { ResearchVerification } from '~/types/research'
+
+const verification: ResearchVerification = {
+  claims: [
+    { id: 'claim-1', claim: 'Tea is popular.', quote: 'It is popular.', verdict: 'supported', explanation: '', status: 'open' },
+    { id: 'claim-2', claim: 'Green tea has no caffeine.', quote: 'Green tea has no caffeine.', verdict: 'unsupported', explanation: 'It has some.', status: 'open' },
+    { id: 'claim-3', claim: 'Tea was first grown in India.', quote: 'Tea was first grown in India.', verdict: 'contradicted', explanation: 'China.', status: 'open' },
+    { id: 'claim-4', claim: 'Tea is old.', verdict: 'unsupported', explanation: '', status: 'accepted' }
+  ],
+  model: 'mock/checker',
+  createdAt: '2025-01-01T00:00:00.000Z'
+}
+
+describe('ClaimReview.vue', () => {
+  it('lists the flagged claims, contradicted ones first', () => {
+    const wrapper = mount(ClaimReview, { props: { verification } })
+
+    const claims = wrapper.findAll('[data-test="flagged-claim"]')
+    expect(claims.map(claim => claim.attributes('id'))).toEqual(['claim-3', 'claim-2', 'claim-4'])
+    expect(wrapper.find('[data-test="fact-check-summary"]').text()).toContain('4 claims checked: 1 supported, 3 flagged, 2 still open')
+    expect(claims[2].find('[data-test="claim-status"]').text()).toBe('Accepted')
+    expect(claims[2].find('[data-test="accept-claim"]').exists()).toBe(false)
+  })
+
+  it('emits the actions on a flagged claim', async () => {
+    const wrapper = mount(ClaimReview, { props: { verification } })
+    const claim = wrapper.findAll('[data-test="flagged-claim"]')[0]
+
+    await claim.find('[data-test="accept-claim"]').trigger('click')
+    await claim.find('[data-test="revise-claim"]').trigger('click')
+    await claim.find('[data-test="edit-claim"]').trigger('click')
+    const draft = wrapper.find('[data-test="claim-draft"]')
+    expect((draft.element as HTMLTextAreaElement).value).toBe('Tea was first grown in India.')
+    await draft.setValue('Tea was first grown in China.')
+    await wrapper.find('[data-test="save-claim"]').trigger('click')
+
+    expect(wrapper.emitted('accept')).toEqual([['claim-3']])
+    expect(wrapper.emitted('revise')).toEqual([['claim-3']])
+    expect(wrapper.emitted('edit')).toEqual([[{ id: 'claim-3', text: 'Tea was first grown in China.' }]])
+  })
+
+  it('runs the fact-check', async () => {
+    const wrapper = mount(ClaimReview, { props: { verification: null } })
+
+    expect(wrapper.find('[data-test="run-fact-check"]').text()).toBe('Check the claims')
+    await wrapper.find('[data-test="run-fact-check"]').trigger('click')
+    expect(wrapper.emitted('verify')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import DatasetEditor from '~/components/organisms/DatasetEditor.vue'
+import type { ResearchDataset } from '~/types/research'
+
+const DATASETS: ResearchDataset[] = [
+  {
+    id: 'd1',
+    name: 'exports',
+    title: 'Tea exports',
+    csv: 'year,tonnes\n2010,120\n2020,180\n',
+    provenance: [{ row: 1, quote: 'Exports rose from 120 tonnes in 2010' }]
+  },
+  { id: 'd2', name: 'exports', title: 'Sales', csv: 'month,total\n2024-01-01,5\n', provenance: [], fileName: 'sales.xlsx' }
+]
+
+describe('DatasetEditor.vue', () => {
+  it('previews the datasets with their column types, problems and sources', () => {
+    const wrapper = mount(DatasetEditor, { props: { datasets: DATASETS } })
+
+    const datasets = wrapper.findAll('[data-test="dataset"]')
+    expect(datasets).toHaveLength(2)
+    expect(datasets[0].findAll('[data-test="dataset-preview"] tbody tr')).toHaveLength(2)
+    expect(datasets[0].findAll<HTMLSelectElement>('[data-test="dataset-column-type"]').map(select => select.element.value)).toEqual(['number', 'number'])
+    expect(datasets[0].find('[data-test="dataset-quote"]').text()).toContain('Exports rose from 120 tonnes in 2010')
+    expect(datasets[1].find('[data-test="dataset-file"]').text()).toBe('Uploaded from sales.xlsx')
+    expect(datasets[1].find('[data-test="dataset-problems"]').text()).toContain('Another dataset is named exports')
+  })
+
+  it('emits the datasets with a changed column type or name', async () => {
+    const wrapper = mount(DatasetEditor, { props: { datasets: DATASETS } })
+
+    await wrapper.findAll('[data-test="dataset-column-type"]')[0].setValue('text')
+    await wrapper.findAll('[data-test="dataset-name"]')[1].setValue(' sales ')
+
+    const changes = wrapper.emitted('change') as ResearchDataset[][][]
+    expect(changes[0][0][0].columnTypes).toEqual(['text', 'number'])
+    expect(changes[1][0][1].name).toBe('sales')
+  })
+
+  it('adds, removes and extracts datasets', async () => {
+    const wrapper = mount(DatasetEditor, { props: { datasets: DATASETS } })
+
+    await wrapper.find('[data-test="add-dataset"]').trigger('click')
+    await wrapper.findAll('[data-test="remove-dataset"]')[0].trigger('click')
+    await wrapper.find('[data-test="extract-datasets"]').trigger('click')
+
+    const changes = wrapper.emitted('change') as ResearchDataset[][][]
+    expect(changes[0][0].map(dataset => dataset.name)).toEqual(['exports', 'exports', 'dataset'])
+    expect(changes[1][0].map(dataset => dataset.id)).toEqual(['d2'])
+    expect(wrapper.emitted('extract')).toHaveLength(1)
+  })
+
+  it('disables the actions while busy', () => {
+    const wrapper = mount(DatasetEditor, { props: { datasets: [], busy: true, error: 'Upload failed' } })
+
+    expect(wrapper.find('[data-test="extract-datasets"]').attributes('disabled')).toBeDefined()
+    expect(wrapper.find('[data-test="dataset-upload"]').attributes('disabled')).toBeDefined()
+    expect(wrapper.find('[data-test="dataset-error"]').text()).toBe('Upload failed')
+    expect(wrapper.text()).toContain('No datasets yet.')
+  })
+})
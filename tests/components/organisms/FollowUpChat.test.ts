@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import { ref } from 'vue'
+import FollowUpChat from '~/components/organisms/FollowUpChat.vue'
+
+const mockQueryModel = vi.fn()
+vi.mock('~/composables/useOpenRouter', () => ({
+  useOpenRouter: () => ({
+    queryModel: mockQueryModel,
+    isLoading: ref(false),
+    error: ref(null),
+    lastModel: ref('mock/deterministic')
+  })
+}))
+
+vi.mock('~/composables/useModelSettings', () => ({
+  useModelSettings: () => ({
+    getStageOverride: () => undefined
+  })
+}))
+
+// Sessions kept in memory instead of server storage
+const mockSessions = new Map<string, Record<string, unknown>>()
+vi.mock('~/composables/useSessions', () => ({
+  useSessions: () => ({
+    fetchSession: async (id: string) => mockSessions.get(id) ?? null,
+    saveSession: async (id: string, changes: Record<string, unknown>) => {
+      const session = { ...mockSessions.get(id), ...changes, id }
+      mockSessions.set(id, session)
+      return session
+    }
+  })
+}))
+
+const research = '# Tea\n\n## History\nTea began in China.\n'
+
+describe('FollowUpChat.vue', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    mockSessions.clear()
+    mockQueryModel.mockReset()
+    mockQueryModel.mockImplementation(async (_prompt, _max, _stream, onChunk) => {
+      onChunk('Around ')
+      onChunk('2737 BC.')
+      return 'Around 2737 BC.'
+    })
+  })
+
+  it('sends the research as context and the whole conversation', async () => {
+    const wrapper = mount(FollowUpChat, { props: { research, sessionId: 's1' } })
+
+    await wrapper.find('[data-test="chat-input"]').setValue('When did tea begin?')
+    await wrapper.find('form').trigger('submit')
+    await flushPromises()
+
+    const options = mockQueryModel.mock.calls[0][4]
+    expect(options.stage).toBe('rewrite')
+    expect(options.sessionId).toBe('s1')
+    expect(options.messages[0].role).toBe('system')
+    expect(options.messages[0].content).toContain('Tea began in China.')
+    expect(options.messages[1]).toEqual({ role: 'user', content: 'When did tea begin?' })
+    expect(wrapper.findAll('[data-test="chat-message"]')).toHaveLength(2)
+  })
+
+  it('persists the conversation per research session', async () => {
+    const wrapper = mount(FollowUpChat, { props: { research, sessionId: 's1' } })
+    await flushPromises()
+    await wrapper.find('[data-test="chat-input"]').setValue('When did tea begin?')
+    await wrapper.find('form').trigger('submit')
+    await flushPromises()
+
+    // Restored from the session, e.g. on another device
+    localStorage.clear()
+    const restored = mount(FollowUpChat, { props: { research, sessionId: 's1' } })
+    const other = mount(FollowUpChat, { props: { research, sessionId: 's2' } })
+    await flushPromises()
+
+    expect(mockSessions.get('s1')?.chat).toHaveLength(2)
+    expect(restored.findAll('[data-test="chat-message"]')).toHaveLength(2)
+    expect(other.findAll('[data-test="chat-message"]')).toHaveLength(0)
+  })
+
+  it('falls back to the copy in the browser when the session has no conversation', async () => {
+    localStorage.setItem('researchChat:s1', JSON.stringify([{ role: 'user', content: 'Saved offline', timestamp: '' }]))
+
+    const wrapper = mount(FollowUpChat, { props: { research, sessionId: 's1' } })
+    await flushPromises()
+
+    expect(wrapper.findAll('[data-test="chat-message"]')).toHaveLength(1)
+  })
+
+  it('emits apply with the selected section', async () => {
+    const wrapper = mount(FollowUpChat, { props: { research, sessionId: 's1' } })
+    await wrapper.find('[data-test="chat-input"]').setValue('When did tea begin?')
+    await wrapper.find('form').trigger('submit')
+    await flushPromises()
+
+    await wrapper.find('[data-test="apply-section"]').setValue('1')
+    await wrapper.find('[data-test="apply-replace"]').trigger('click')
+
+    expect(wrapper.emitted('apply')?.[0]).toEqual([{ text: 'Around 2737 BC.', mode: 'replace', sectionIndex: 1 }])
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import OutlineVariants from '~/components/organisms/OutlineVariants.vue'
+import type { PresentationOutline } from '~/types/research'
+
+const OUTLINES: PresentationOutline[] = [
+  { content: '# Summary\n\n---\n\n# Decision', format: 'markdown', variant: 'executive', timestamp: '2025-01-01T10:00:00.000Z' },
+  { content: '# Basics\n\n---\n\n# Terms\n\n---\n\n# Quiz', format: 'markdown', variant: 'teaching', model: 'mock/model', timestamp: '2025-01-01T11:00:00.000Z' }
+]
+
+describe('OutlineVariants.vue', () => {
+  it('shows the newest outline of each variant side by side', () => {
+    const wrapper = mount(OutlineVariants, { props: { outlines: OUTLINES } })
+
+    const variants = wrapper.findAll('[data-test="variant"]')
+    expect(variants).toHaveLength(2)
+    expect(variants[0].text()).toContain('Executive summary')
+    expect(variants[1].text()).toContain('Lecture')
+    expect(wrapper.findAll('[data-test="variant-stats"]').map(stats => stats.text())).toEqual([
+      expect.stringContaining('2 slides'),
+      expect.stringContaining('3 slides')
+    ])
+  })
+
+  it('generates the selected variants and opens one', async () => {
+    const wrapper = mount(OutlineVariants, { props: { outlines: OUTLINES } })
+
+    await wrapper.find('[data-test="variant-technical"]').setValue(false)
+    await wrapper.find('[data-test="generate-variants"]').trigger('click')
+    await wrapper.findAll('[data-test="open-variant"]')[1].trigger('click')
+
+    expect(wrapper.emitted('generate')).toEqual([[['executive', 'teaching']]])
+    expect(wrapper.emitted('open')).toEqual([[OUTLINES[1]]])
+  })
+
+  it('disables the actions while busy', () => {
+    const wrapper = mount(OutlineVariants, { props: { outlines: [], busy: true } })
+
+    expect(wrapper.find('[data-test="generate-variants"]').attributes('disabled')).toBeDefined()
+    expect(wrapper.text()).toContain('No variants yet.')
+  })
+})
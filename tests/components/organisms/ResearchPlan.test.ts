@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ResearchPlan from '~/components/organisms/ResearchPlan.vue'
+import type { ResearchPlan as Plan } from '~/types/research'
+
+const plan: Plan = {
+  topic: 'Tea',
+  subtopics: ['History'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  steps: [
+    { id: 'step-1', question: 'Where does tea come from?', subtopic: 'History', status: 'completed', content: 'From **China**.' },
+    { id: 'step-2', question: 'Who drinks tea?', status: 'failed', content: '', error: 'Upstream timeout' }
+  ]
+}
+
+describe('ResearchPlan.vue', () => {
+  it('lists the steps with their status and errors', () => {
+    const wrapper = mount(ResearchPlan, { props: { plan } })
+
+    expect(wrapper.findAll('[data-test="plan-step"]')).toHaveLength(2)
+    expect(wrapper.findAll('[data-test="step-status"]').map(status => status.text())).toEqual(['Done', 'Failed'])
+    expect(wrapper.text()).toContain('1 / 2 answered')
+    expect(wrapper.text()).toContain('Upstream timeout')
+  })
+
+  it('shows the answer when a step is expanded', async () => {
+    const wrapper = mount(ResearchPlan, { props: { plan } })
+
+    expect(wrapper.html()).not.toContain('<strong>China</strong>')
+    await wrapper.find('.step-toggle').trigger('click')
+    expect(wrapper.html()).toContain('<strong>China</strong>')
+  })
+
+  it('emits re-run and re-synthesize requests unless busy', async () => {
+    const wrapper = mount(ResearchPlan, { props: { plan } })
+
+    await wrapper.findAll('[data-test="rerun-step"]')[1].trigger('click')
+    await wrapper.find('[data-test="resynthesize"]').trigger('click')
+    expect(wrapper.emitted('rerun')).toEqual([['step-2']])
+    expect(wrapper.emitted('resynthesize')).toHaveLength(1)
+
+    await wrapper.setProps({ busy: true })
+    expect(wrapper.find('[data-test="resynthesize"]').attributes('disabled')).toBeDefined()
+  })
+})
@@ -6,8 +6,8 @@ import ResultsView from '~/components/organisms/ResultsView.vue'
 vi.mock('~/components/molecules/ResultCard.vue', () => ({
   default: {
     name: 'ResultCard',
-    props: ['result'],
-    template: '<div class="mock-result-card" data-testid="result-card" @click="$emit(\'view-details\', result)">{{ result.topic }}</div>'
+    props: ['result', 'selected'],
+    template: '<div class="mock-result-card" data-testid="result-card" :data-selected="selected" @click="$emit(\'view-details\', result)">{{ result.topic }}<slot name="actions" /></div>'
   }
 }))
 
@@ -116,6 +116,42 @@ describe('ResultsView.vue', () => {
     expect(allResultCards).toHaveLength(2)
   })
 
+  it('sorts by numeric fields and puts results without the field last', () => {
+    const wrapper = mount(ResultsView, {
+      props: {
+        results: [
+          { ...mockResults[0], deckCount: 1 },
+          { ...mockResults[1] },
+          { ...mockResults[1], topic: 'Topic 3', timestamp: '2023-01-03T12:00:00Z', deckCount: 4 }
+        ],
+        sortBy: 'deckCount',
+        sortDirection: 'desc'
+      }
+    })
+
+    expect(wrapper.findAll('[data-testid="result-card"]').map(card => card.text())).toEqual(['Topic 3', 'Topic 1', 'Topic 2'])
+  })
+
+  it('marks selected results and renders their actions', async () => {
+    const wrapper = mount(ResultsView, {
+      props: {
+        results: [{ ...mockResults[0], sessionId: 'session-1' }, mockResults[1]],
+        selectable: true,
+        selectedKeys: ['session-1']
+      },
+      slots: {
+        actions: '<button class="open-outline">Open</button>'
+      }
+    })
+
+    const cards = wrapper.findAll('[data-testid="result-card"]')
+    expect(cards.map(card => card.attributes('data-selected'))).toEqual(['true', 'false'])
+    expect(wrapper.findAll('.open-outline')).toHaveLength(2)
+
+    await wrapper.findAllComponents({ name: 'ResultCard' })[1].vm.$emit('toggle-select', mockResults[1])
+    expect(wrapper.emitted('toggle-select')).toEqual([[mockResults[1].timestamp]])
+  })
+
   it('renders research results when available', () => {
     const wrapper = mount(ResultsView, {
       props: {
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import SectionActions from '~/components/organisms/SectionActions.vue'
+
+const RESEARCH = '# Tea\n\nIntro.\n\n## Origins\n\nChina.\n\n## Trade\n\nSilk Road.\n'
+
+describe('SectionActions.vue', () => {
+  it('lists the sections of the research', () => {
+    const wrapper = mount(SectionActions, { props: { research: `\n${RESEARCH}` } })
+
+    expect(wrapper.findAll('[data-test="research-section"]').map(section => section.find('.section-heading').text())).toEqual(['Tea', 'Origins', 'Trade'])
+  })
+
+  it('emits the section, the action and the tone', async () => {
+    const wrapper = mount(SectionActions, { props: { research: RESEARCH } })
+
+    await wrapper.findAll('[data-test="section-condense"]')[1].trigger('click')
+    await wrapper.find('[data-test="rewrite-tone"]').setValue('persuasive')
+    await wrapper.findAll('[data-test="section-tone"]')[0].trigger('click')
+
+    expect(wrapper.emitted('rewrite')).toEqual([
+      [{ index: 1, action: 'condense', tone: undefined }],
+      [{ index: 0, action: 'tone', tone: 'persuasive' }]
+    ])
+  })
+
+  it('disables the actions while a section is rewritten', () => {
+    const wrapper = mount(SectionActions, { props: { research: RESEARCH, rewritingIndex: 2, canUndo: true } })
+
+    expect(wrapper.find('[data-test="section-expand"]').attributes('disabled')).toBeDefined()
+    expect(wrapper.find('[data-test="undo-rewrite"]').attributes('disabled')).toBeDefined()
+    expect(wrapper.findAll('[data-test="research-section"]')[2].classes()).toContain('section-rewriting')
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import VersionHistory from '~/components/organisms/VersionHistory.vue'
+import type { SessionVersion } from '~/types/research'
+
+const version = (id: string, content: string, reason: SessionVersion['reason'] = 'generated'): SessionVersion => ({
+  id,
+  kind: 'outline',
+  content,
+  reason,
+  timestamp: '2025-01-01T10:00:00.000Z'
+})
+
+const VERSIONS = [
+  version('v1', '# Intro\n\n---\n\n# Trade\n\n- Tea'),
+  version('v2', '# Intro\n\n---\n\n# Trade\n\n- Tea\n- Silk', 'saved')
+]
+
+describe('VersionHistory.vue', () => {
+  it('lists the versions newest first and diffs the latest against the current text', () => {
+    const wrapper = mount(VersionHistory, {
+      props: { versions: VERSIONS, kind: 'outline', current: '# Intro\n\n---\n\n# Trade\n\n- Silk' }
+    })
+
+    expect(wrapper.findAll('[data-test="version"]').map(item => item.text())).toEqual([
+      expect.stringContaining('v2 Saved'),
+      expect.stringContaining('v1 Generated')
+    ])
+    expect(wrapper.find('[data-test="inline-diff"]').text()).toContain('- - Tea')
+    expect(wrapper.find('.stat-removed').text()).toBe('-1')
+  })
+
+  it('shows the diff side by side and slide by slide', async () => {
+    const wrapper = mount(VersionHistory, {
+      props: { versions: VERSIONS, kind: 'outline', current: '# Intro\n\n---\n\n# Outlook' }
+    })
+
+    await wrapper.find('[data-test="diff-mode-side-by-side"]').trigger('click')
+    expect(wrapper.find('[data-test="side-by-side-diff"]').exists()).toBe(true)
+
+    await wrapper.find('[data-test="diff-mode-slides"]').trigger('click')
+    expect(wrapper.findAll('[data-test="slide-change"]').map(item => item.find('.slide-type').text())).toEqual(['Unchanged', 'Removed', 'Added'])
+  })
+
+  it('offers no slide diff for the research', () => {
+    const wrapper = mount(VersionHistory, {
+      props: { versions: VERSIONS.map(item => ({ ...item, kind: 'research' as const })), kind: 'research', current: '' }
+    })
+
+    expect(wrapper.find('[data-test="diff-mode-slides"]').exists()).toBe(false)
+  })
+
+  it('emits save, restore and branch', async () => {
+    const wrapper = mount(VersionHistory, {
+      props: { versions: VERSIONS, kind: 'outline', current: '# Edited' }
+    })
+
+    await wrapper.find('[data-test="save-version"]').trigger('click')
+    await wrapper.findAll('[data-test="restore-version"]')[1].trigger('click')
+    await wrapper.findAll('[data-test="branch-version"]')[0].trigger('click')
+
+    expect(wrapper.emitted('save')).toHaveLength(1)
+    expect(wrapper.emitted('restore')).toEqual([[VERSIONS[0]]])
+    expect(wrapper.emitted('branch')).toEqual([[VERSIONS[1]]])
+  })
+
+  it('cannot save a text that is already the latest version', () => {
+    const wrapper = mount(VersionHistory, {
+      props: { versions: VERSIONS, kind: 'outline', current: VERSIONS[1].content }
+    })
+
+    expect(wrapper.find('[data-test="save-version"]').attributes('disabled')).toBeDefined()
+    expect(wrapper.find('[data-test="no-changes"]').exists()).toBe(true)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ref } from 'vue'
+import { useDatasetExtraction } from '~/composables/useDatasetExtraction'
+import type { PromptTemplateId, PromptValues } from '~/types/prompts'
+
+const mockQueryModel = vi.fn()
+vi.mock('~/composables/useOpenRouter', () => ({
+  useOpenRouter: () => ({
+    queryModel: mockQueryModel,
+    error: ref('Model unavailable')
+  })
+}))
+
+vi.mock('~/composables/useModelSettings', () => ({
+  useModelSettings: () => ({
+    getStageOverride: (stage: string) => stage === 'extraction' ? 'mock/extractor' : undefined
+  })
+}))
+
+// Render the built-in prompts instead of fetching the active versions
+vi.mock('~/composables/usePromptTemplates', async () => {
+  const { getBuiltInPrompt, renderPrompt } = await import('~/utils/promptTemplates')
+  return {
+    usePromptTemplates: () => ({
+      renderActivePrompt: async (templateId: PromptTemplateId, values: PromptValues) => renderPrompt(getBuiltInPrompt(templateId), values)
+    })
+  }
+})
+
+const RESEARCH = '# Tea\n\nExports rose from 120 tonnes in 2010 to 180 tonnes in 2020.'
+
+describe('useDatasetExtraction', () => {
+  beforeEach(() => {
+    mockQueryModel.mockReset()
+  })
+
+  it('extracts the datasets with the extraction stage model', async () => {
+    mockQueryModel.mockResolvedValue(JSON.stringify([{
+      name: 'exports',
+      title: 'Tea exports',
+      columns: ['year', 'tonnes'],
+      rows: [
+        { values: [2010, 120], quote: 'Exports rose from 120 tonnes in 2010' },
+        { values: [2020, 180], quote: 'to 180 tonnes in 2020' }
+      ]
+    }]))
+    const { extractDatasets, isExtracting } = useDatasetExtraction()
+
+    const datasets = await extractDatasets(RESEARCH, { sessionId: 's1' })
+
+    const [prompt, , stream, , options] = mockQueryModel.mock.calls[0]
+    expect(prompt).toContain(RESEARCH)
+    expect(stream).toBe(false)
+    expect(options).toMatchObject({ stage: 'extraction', model: 'mock/extractor', sessionId: 's1' })
+    expect(datasets).toMatchObject([{ name: 'exports', csv: 'year,tonnes\n2010,120\n2020,180\n' }])
+    expect(datasets?.[0].provenance).toHaveLength(2)
+    expect(isExtracting.value).toBe(false)
+  })
+
+  it('reports a failed request', async () => {
+    mockQueryModel.mockResolvedValue(null)
+    const { extractDatasets, error } = useDatasetExtraction()
+
+    expect(await extractDatasets(RESEARCH)).toBeNull()
+    expect(error.value).toBe('Model unavailable')
+  })
+
+  it('reports a reply without datasets', async () => {
+    mockQueryModel.mockResolvedValue('I found no numbers.')
+    const { extractDatasets, error } = useDatasetExtraction()
+
+    expect(await extractDatasets(RESEARCH)).toBeNull()
+    expect(error.value).toContain('not a list of datasets')
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ref } from 'vue'
+import { useDeckTranslation } from '~/composables/useDeckTranslation'
+import type { PromptTemplateId, PromptValues } from '~/types/prompts'
+
+const mockQueryModel = vi.fn()
+vi.mock('~/composables/useOpenRouter', () => ({
+  useOpenRouter: () => ({
+    queryModel: mockQueryModel,
+    error: ref('Model unavailable')
+  })
+}))
+
+vi.mock('~/composables/useModelSettings', () => ({
+  useModelSettings: () => ({
+    getStageOverride: (stage: string) => stage === 'rewrite' ? 'mock/translator' : undefined
+  })
+}))
+
+// Render the built-in prompts instead of fetching the active versions
+vi.mock('~/composables/usePromptTemplates', async () => {
+  const { getBuiltInPrompt, renderPrompt } = await import('~/utils/promptTemplates')
+  return {
+    usePromptTemplates: () => ({
+      renderActivePrompt: async (templateId: PromptTemplateId, values: PromptValues) => renderPrompt(getBuiltInPrompt(templateId), values)
+    })
+  }
+})
+
+const OUTLINE = '---\ntitle: "Tea"\n---\n\n# Origins [1]\n\n---\n\n```{r}\nplot(x)\n```\n\n---\n\n# Trade\n\n| Year | Tonnes |\n|---|---|\n| 1900 | 5 |'
+
+// Translates the slide in the prompt by prefixing its headings
+const translateSlide = (prompt: string) => prompt.split('\n\n').slice(2).join('\n\n').replace(/^# /gm, '# ES ')
+
+describe('useDeckTranslation', () => {
+  beforeEach(() => {
+    mockQueryModel.mockReset()
+    mockQueryModel.mockImplementation(async (prompt: string) => translateSlide(prompt))
+  })
+
+  it('translates the slides one by one and keeps the front matter and code', async () => {
+    const { translateOutline, progress } = useDeckTranslation()
+
+    const translation = await translateOutline(OUTLINE, 'Spanish', { sessionId: 's1' })
+
+    // The slide with only code is not sent
+    expect(mockQueryModel).toHaveBeenCalledTimes(2)
+    const [prompt, , stream, , options] = mockQueryModel.mock.calls[0]
+    expect(prompt).toContain('into Spanish')
+    expect(prompt).toContain('# Origins __KEEP_0__')
+    expect(stream).toBe(false)
+    expect(options).toMatchObject({ stage: 'rewrite', model: 'mock/translator', sessionId: 's1' })
+    expect(translation).toEqual({
+      outline: '---\ntitle: "Tea"\n---\n\n# ES Origins [1]\n\n---\n\n```{r}\nplot(x)\n```\n\n---\n\n# ES Trade\n\n| Year | Tonnes |\n|---|---|\n| 1900 | 5 |',
+      warnings: []
+    })
+    expect(progress.value).toEqual({ done: 3, total: 3 })
+  })
+
+  it('keeps the slide breaks and spacing of the outline', async () => {
+    const { translateOutline } = useDeckTranslation()
+
+    const translation = await translateOutline('# One\n---\n<!-- _class: lead -->\n# Two\n\n\n---\n# Three\r\n', 'Spanish')
+
+    expect(translation?.outline).toBe('# ES One\n---\n<!-- _class: lead -->\n# ES Two\n\n\n---\n# ES Three\r\n')
+  })
+
+  it('keeps slides whose translation breaks a table', async () => {
+    mockQueryModel.mockImplementation(async (prompt: string) => translateSlide(prompt).replace('| 1900 | 5 |', '| 1900 |'))
+    const { translateOutline, warnings } = useDeckTranslation()
+
+    const translation = await translateOutline(OUTLINE, 'Spanish')
+
+    expect(translation?.outline).toContain('# Trade\n')
+    expect(warnings.value).toEqual(['Slide 3 was kept in the original language: a table changed shape'])
+  })
+
+  it('fails when the model does not reply', async () => {
+    mockQueryModel.mockResolvedValue(null)
+    const { translateOutline, error } = useDeckTranslation()
+
+    expect(await translateOutline(OUTLINE, 'Spanish')).toBeNull()
+    expect(error.value).toBe('Model unavailable')
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ref } from 'vue'
+import { useDeepResearch } from '~/composables/useDeepResearch'
+import type { PromptTemplateId, PromptValues } from '~/types/prompts'
+
+const mockQueryModel = vi.fn()
+vi.mock('~/composables/useOpenRouter', () => ({
+  useOpenRouter: () => ({
+    queryModel: mockQueryModel,
+    error: ref(null),
+    lastModel: ref('mock/deterministic'),
+    lastUsage: ref({ model: 'mock/deterministic', promptTokens: 10, completionTokens: 20, totalTokens: 30, cost: 0 })
+  })
+}))
+
+// Render the built-in prompts instead of fetching the active versions
+vi.mock('~/composables/usePromptTemplates', async () => {
+  const { getBuiltInPrompt, renderPrompt } = await import('~/utils/promptTemplates')
+  return {
+    usePromptTemplates: () => ({
+      renderActivePrompt: async (templateId: PromptTemplateId, values: PromptValues) => renderPrompt(getBuiltInPrompt(templateId), values)
+    })
+  }
+})
+
+const mockSearchDocuments = vi.fn()
+vi.mock('~/composables/useDocuments', () => ({
+  useDocuments: () => ({ searchDocuments: mockSearchDocuments })
+}))
+
+const PLAN = JSON.stringify([
+  { question: 'Where does tea come from?', subtopic: 'History' },
+  { question: 'How is tea grown?', subtopic: 'Farming' },
+  { question: 'Who drinks tea?' }
+])
+
+describe('useDeepResearch', () => {
+  beforeEach(() => {
+    mockQueryModel.mockReset()
+    mockQueryModel.mockImplementation(async (prompt: string, _max: number, stream: boolean, onChunk?: (chunk: string) => void) => {
+      if (prompt.includes('JSON array of sub-questions')) return PLAN
+      const reply = prompt.includes('Findings:') ? '# Tea report' : `Answer to: ${prompt.match(/Question: (.+)/)?.[1]}`
+      if (stream) onChunk?.(reply)
+      return reply
+    })
+  })
+
+  it('plans, researches every sub-question and synthesizes the answers', async () => {
+    const deep = useDeepResearch()
+    const chunks: string[] = []
+
+    const result = await deep.run('Tea', ['History', 'Farming'], { maxQuestions: 4 }, chunk => chunks.push(chunk))
+
+    const planPrompt = mockQueryModel.mock.calls[0][0]
+    expect(planPrompt).toContain('at most 4 focused sub-questions')
+    expect(planPrompt).toContain('Subtopics: History, Farming')
+    expect(deep.plan.value?.steps.map(step => step.status)).toEqual(['completed', 'completed', 'completed'])
+    expect(deep.plan.value?.steps[1].content).toBe('Answer to: How is tea grown?')
+
+    const synthesisPrompt = mockQueryModel.mock.calls[4][0]
+    expect(synthesisPrompt).toContain('### Finding 1 (History): Where does tea come from?')
+    expect(synthesisPrompt).toContain('Answer to: Who drinks tea?')
+    expect(result?.content).toBe('# Tea report')
+    expect(result?.promptVersion).toEqual({ templateId: 'synthesis', version: 1 })
+    expect(result?.usage?.totalTokens).toBe(150)
+    expect(chunks).toEqual(['# Tea report'])
+  })
+
+  it('writes the plan and the synthesis to the brief', async () => {
+    const deep = useDeepResearch()
+
+    await deep.run('Tea', [], { language: 'Spanish', mustInclude: ['Opium Wars'], depth: 'overview' })
+
+    const prompts = mockQueryModel.mock.calls.map(call => call[0] as string)
+    expect(prompts[0]).toContain('The questions must cover: Opium Wars.')
+    expect(prompts[1]).not.toContain('Spanish')
+    expect(prompts[4]).toContain('Write the whole document in Spanish.')
+    expect(prompts[4]).toContain('Give a concise overview')
+  })
+
+  it('grounds each sub-question in the passages that match it', async () => {
+    const deep = useDeepResearch()
+    let chunkIndex = 0
+    mockSearchDocuments.mockImplementation(async (_collection: string, query: string) => [
+      { documentId: 'doc', documentName: 'tea.md', chunkIndex: chunkIndex++, text: `Passage about ${query.split('\n')[0]}`, score: 1 }
+    ])
+
+    await deep.run('Tea', [], { documentCollection: 'brief-1', sources: [{ kind: 'note', title: 'Notes', text: 'Tea notes' }] })
+
+    expect(mockSearchDocuments).toHaveBeenCalledWith('brief-1', 'How is tea grown?\nFarming', 3)
+    // Sources keep one numbering across the steps: the note, then the passages in retrieval order
+    const stepPrompt = mockQueryModel.mock.calls[2][0]
+    expect(stepPrompt).toContain('[1] Notes.\nTea notes\n\n[3] tea.md, part 2.\nPassage about How is tea grown?')
+    expect(stepPrompt).not.toContain('[2]')
+    expect(deep.plan.value?.steps[1].passages).toHaveLength(1)
+    expect(mockQueryModel.mock.calls[4][0]).toContain('[4] tea.md, part 3.')
+    expect(deep.plan.value?.sources).toHaveLength(4)
+  })
+
+  it('keeps going when a step fails and re-runs it on request', async () => {
+    const deep = useDeepResearch()
+    mockQueryModel.mockImplementationOnce(async () => PLAN)
+    await deep.createPlan('Tea', [])
+
+    mockQueryModel.mockImplementationOnce(async () => { throw new Error('Upstream timeout') })
+    await deep.runSteps()
+
+    const failed = deep.plan.value!.steps.find(step => step.status === 'failed')!
+    expect(failed.error).toBe('Upstream timeout')
+    expect(deep.plan.value!.steps.filter(step => step.status === 'completed')).toHaveLength(2)
+
+    await deep.runStep(failed.id)
+    expect(deep.plan.value!.steps.every(step => step.status === 'completed')).toBe(true)
+  })
+
+  it('limits how many sub-questions run at once', async () => {
+    const deep = useDeepResearch()
+    let running = 0
+    let peak = 0
+    mockQueryModel.mockImplementation(async (prompt: string) => {
+      if (prompt.includes('JSON array of sub-questions')) return PLAN
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+      return 'Answer'
+    })
+
+    await deep.createPlan('Tea', [], { concurrency: 1 })
+    await deep.runSteps()
+
+    expect(peak).toBe(1)
+  })
+
+  it('does not synthesize without any answered step', async () => {
+    const deep = useDeepResearch()
+    mockQueryModel.mockImplementation(async (prompt: string) => {
+      if (prompt.includes('JSON array of sub-questions')) return PLAN
+      return null
+    })
+
+    const result = await deep.run('Tea', [])
+
+    expect(result).toBeNull()
+    expect(deep.error.value).toBe('None of the sub-questions could be researched')
+    expect(deep.plan.value?.steps.every(step => step.status === 'failed')).toBe(true)
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ref } from 'vue'
+import { useFactCheck } from '~/composables/useFactCheck'
+import type { PromptTemplateId, PromptValues } from '~/types/prompts'
+
+const mockQueryModel = vi.fn()
+vi.mock('~/composables/useOpenRouter', () => ({
+  useOpenRouter: () => ({
+    queryModel: mockQueryModel,
+    error: ref(null),
+    lastModel: ref('mock/checker'),
+    lastUsage: ref({ model: 'mock/checker', promptTokens: 10, completionTokens: 20, totalTokens: 30, cost: 0 })
+  })
+}))
+
+vi.mock('~/composables/useModelSettings', () => ({
+  useModelSettings: () => ({
+    getStageOverride: (stage: string) => stage === 'verification' ? 'mock/checker' : undefined
+  })
+}))
+
+// Sessions kept in memory instead of server storage
+const mockSessions = new Map<string, Record<string, unknown>>()
+vi.mock('~/composables/useSessions', () => ({
+  useSessions: () => ({
+    fetchSession: async (id: string) => mockSessions.get(id) ?? null,
+    saveSession: async (id: string, changes: Record<string, unknown>) => {
+      const session = { ...mockSessions.get(id), ...changes, id }
+      mockSessions.set(id, session)
+      return session
+    }
+  })
+}))
+
+// Render the built-in prompts instead of fetching the active versions
+vi.mock('~/composables/usePromptTemplates', async () => {
+  const { getBuiltInPrompt, renderPrompt } = await import('~/utils/promptTemplates')
+  return {
+    usePromptTemplates: () => ({
+      renderActivePrompt: async (templateId: PromptTemplateId, values: PromptValues) => renderPrompt(getBuiltInPrompt(templateId), values)
+    })
+  }
+})
+
+const RESEARCH = '# Tea\n\nTea was first grown in India [1]. It is popular.\n'
+const SOURCES = [{ kind: 'note' as const, title: 'Interview notes', text: 'Tea comes from China.' }]
+const CLAIMS = JSON.stringify([
+  { claim: 'Tea was first grown in India.', quote: 'Tea was first grown in India [1].', verdict: 'contradicted', explanation: 'China, not India.', sources: [1] },
+  { claim: 'Tea is popular.', quote: 'It is popular.', verdict: 'supported', explanation: '' }
+])
+
+describe('useFactCheck', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    mockSessions.clear()
+    mockQueryModel.mockReset()
+    mockQueryModel.mockImplementation(async (prompt: string) => prompt.includes('fact-checking') ? CLAIMS : 'Tea was first grown in China [1].')
+  })
+
+  it('checks the claims against the sources with the fact-check model', async () => {
+    const factCheck = useFactCheck()
+    await factCheck.loadVerification('s1')
+
+    const verification = await factCheck.verifyResearch(RESEARCH, { sources: SOURCES, language: 'Spanish' })
+
+    const [prompt, , stream, , options] = mockQueryModel.mock.calls[0]
+    expect(prompt).toContain('against the sources below and against your own knowledge')
+    expect(prompt).toContain('[1] Interview notes.\nTea comes from China.')
+    expect(prompt).toContain('Write the explanations in Spanish.')
+    expect(prompt).toContain(RESEARCH)
+    expect(stream).toBe(false)
+    expect(options).toMatchObject({ stage: 'verification', model: 'mock/checker', sessionId: 's1' })
+    expect(verification?.claims.map(claim => claim.verdict)).toEqual(['contradicted', 'supported'])
+    expect(verification?.promptVersion).toEqual({ templateId: 'verify', version: 1 })
+    expect(factCheck.warnings.value.map(claim => claim.id)).toEqual(['claim-1'])
+
+    // Restored from the session, e.g. on another device
+    localStorage.clear()
+    const restored = useFactCheck()
+    await restored.loadVerification('s1')
+    expect(restored.verification.value?.claims).toHaveLength(2)
+    expect(mockSessions.get('s1')?.verification).toEqual(verification)
+
+    await restored.clearVerification()
+    expect(mockSessions.get('s1')?.verification).toBeNull()
+  })
+
+  it('accepts, edits and rewrites flagged claims', async () => {
+    const factCheck = useFactCheck()
+    await factCheck.verifyResearch(RESEARCH)
+
+    factCheck.acceptClaim('claim-1')
+    expect(factCheck.warnings.value).toEqual([])
+
+    await factCheck.verifyResearch(RESEARCH)
+    const edited = factCheck.editClaim('claim-1', RESEARCH, 'Tea was first grown in China.')
+    expect(edited).toBe('# Tea\n\nTea was first grown in China. It is popular.\n')
+    expect(factCheck.verification.value?.claims[0]).toMatchObject({ status: 'edited', quote: 'Tea was first grown in China.' })
+
+    await factCheck.verifyResearch(RESEARCH)
+    const revised = await factCheck.reviseClaim('claim-1', RESEARCH, { sources: SOURCES })
+    const [prompt, , , , options] = mockQueryModel.mock.calls[3]
+    expect(prompt).toContain('Passage: Tea was first grown in India [1].')
+    expect(prompt).toContain('Finding: China, not India.')
+    expect(options.stage).toBe('rewrite')
+    expect(revised).toBe('# Tea\n\nTea was first grown in China [1]. It is popular.\n')
+    expect(factCheck.verification.value?.claims[0].status).toBe('rewritten')
+  })
+
+  it('reports replies that are not a list of claims', async () => {
+    mockQueryModel.mockResolvedValueOnce('Everything looks right.')
+    const factCheck = useFactCheck()
+
+    expect(await factCheck.verifyResearch(RESEARCH)).toBeNull()
+    expect(factCheck.error.value).toBe('The fact-check reply is not a list of claims')
+  })
+})
@@ -1,16 +1,54 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { useResearch } from '~/composables/useResearch'
+import type { PromptTemplateId, PromptValues } from '~/types/prompts'
 
 // Mock the dependencies
-const mockQueryDeepSeek = vi.fn().mockResolvedValue('Mock research results')
+const mockQueryModel = vi.fn().mockResolvedValue('Mock research results')
+const mockRunJob = vi.fn().mockResolvedValue('Mock research results')
+const mockQueryStructuredOutline = vi.fn().mockResolvedValue({
+  deck: { title: 'Deck', slides: [{ title: 'Slide' }] },
+  markdown: '# Deck\n\n---\n\n# Slide\n',
+  attempts: 1,
+  model: 'mock-model'
+})
 vi.mock('~/composables/useOpenRouter', () => ({
   useOpenRouter: () => ({
-    queryDeepSeek: mockQueryDeepSeek,
+    queryModel: mockQueryModel,
+    queryStructuredOutline: mockQueryStructuredOutline,
+    runJob: mockRunJob,
+    attachToJob: vi.fn().mockResolvedValue(null),
+    cancelJob: vi.fn(),
+    jobStatus: { value: 'completed' },
+    lastModel: { value: null },
+    lastUsage: { value: null },
     isLoading: false,
     error: { value: null }
   })
 }))
 
+// Render the built-in prompts instead of fetching the active versions
+vi.mock('~/composables/usePromptTemplates', async () => {
+  const { getBuiltInPrompt, renderPrompt } = await import('~/utils/promptTemplates')
+  return {
+    usePromptTemplates: () => ({
+      renderActivePrompt: async (templateId: PromptTemplateId, values: PromptValues) => renderPrompt(getBuiltInPrompt(templateId), values)
+    })
+  }
+})
+
+const mockSearchDocuments = vi.fn().mockResolvedValue([])
+vi.mock('~/composables/useDocuments', () => ({
+  useDocuments: () => ({ searchDocuments: mockSearchDocuments })
+}))
+
+const mockSaveSession = vi.fn().mockResolvedValue(null)
+const mockFetchSession = vi.fn().mockResolvedValue(null)
+const mockAddVersion = vi.fn().mockResolvedValue(null)
+const mockBranchSession = vi.fn().mockResolvedValue(null)
+vi.mock('~/composables/useSessions', () => ({
+  useSessions: () => ({ saveSession: mockSaveSession, fetchSession: mockFetchSession, addVersion: mockAddVersion, branchSession: mockBranchSession })
+}))
+
 // Create a test harness to access the reactive properties
 const createTestHarness = () => {
   const { 
@@ -20,6 +58,12 @@ const createTestHarness = () => {
     outlineHistory,
     conductResearch,
     generateOutline,
+    generateOutlineVariants,
+    loadSession,
+    versions,
+    restoreVersion,
+    sessionId,
+    isResearchComplete,
     isLoading,
     error
   } = useResearch()
@@ -31,6 +75,12 @@ const createTestHarness = () => {
     outlineHistory,
     conductResearch,
     generateOutline,
+    generateOutlineVariants,
+    loadSession,
+    versions,
+    restoreVersion,
+    sessionId,
+    isResearchComplete,
     isLoading,
     error
   }
@@ -52,14 +102,14 @@ describe('useResearch composable', () => {
       expect(harness.researchResults.value).toBe('')
     })
     
-    it('calls queryDeepSeek with formatted prompt', async () => {
+    it('runs a research job with formatted prompt', async () => {
       const { useOpenRouter } = await import('~/composables/useOpenRouter')
-      const mockQueryDeepSeek = useOpenRouter().queryDeepSeek
+      const mockRunJob = useOpenRouter().runJob
       
       await harness.conductResearch('AI Ethics', ['Privacy', 'Bias'])
       
-      expect(mockQueryDeepSeek).toHaveBeenCalled()
-      const prompt = mockQueryDeepSeek.mock.calls[0][0]
+      expect(mockRunJob).toHaveBeenCalled()
+      const prompt = mockRunJob.mock.calls[0][0]
       
       expect(prompt).toContain('AI Ethics')
       expect(prompt).toContain('Privacy')
@@ -74,6 +124,66 @@ describe('useResearch composable', () => {
       expect(harness.researchHistory.value[0].topic).toBe('AI Ethics')
       expect(harness.researchHistory.value[0].subtopics).toEqual(['Privacy'])
     })
+
+    it('stamps the research with the prompt version', async () => {
+      await harness.conductResearch('AI Ethics', [])
+
+      expect(harness.researchHistory.value[0].promptVersion).toEqual({ templateId: 'research', version: 1 })
+    })
+
+    it('writes to the brief and saves it with the result', async () => {
+      await harness.conductResearch('Tea', ['Trade'], { audience: 'students', tone: 'neutral', language: 'Spanish', mustAvoid: ['Brands'] })
+
+      const prompt = mockRunJob.mock.calls[0][0]
+      expect(prompt).toContain('Write for students.')
+      expect(prompt).toContain('Use a neutral, factual tone')
+      expect(prompt).toContain('Write the whole document in Spanish.')
+      expect(prompt).toContain('Do not include or discuss: Brands.')
+      expect(harness.researchHistory.value[0].brief).toEqual({
+        topic: 'Tea',
+        subtopics: ['Trade'],
+        audience: 'students',
+        tone: 'neutral',
+        language: 'Spanish',
+        mustAvoid: ['Brands']
+      })
+    })
+
+    it('grounds the research in passages of the uploaded documents', async () => {
+      mockSearchDocuments.mockResolvedValueOnce([
+        { documentId: 'doc', documentName: 'tea.md', chunkIndex: 2, text: 'Assam tea is grown in India.', score: 3.2 }
+      ])
+
+      await harness.conductResearch('Tea', ['Farming'], { documentCollection: 'brief-1' })
+
+      expect(mockSearchDocuments).toHaveBeenCalledWith('brief-1', 'Tea\nFarming')
+      const prompt = mockRunJob.mock.calls[0][0]
+      expect(prompt).toContain('[1] tea.md, part 3.\nAssam tea is grown in India.')
+      expect(harness.researchHistory.value[0].passages).toHaveLength(1)
+    })
+
+    it('numbers the passages after the sources of the brief', async () => {
+      mockSearchDocuments.mockResolvedValueOnce([
+        { documentId: 'doc', documentName: 'tea.md', chunkIndex: 0, text: 'Assam tea is grown in India.', score: 3.2 }
+      ])
+
+      await harness.conductResearch('Tea', [], {
+        documentCollection: 'brief-1',
+        sources: [{ kind: 'reference', title: 'The history of tea', authors: 'Smith, J.', year: '2020' }]
+      })
+
+      const prompt = mockRunJob.mock.calls[0][0]
+      expect(prompt).toContain('Cite them by number in square brackets')
+      expect(prompt).toContain('[1] Smith, J. (2020). The history of tea.\n\n[2] tea.md, part 1.\nAssam tea is grown in India.')
+      expect(harness.researchHistory.value[0].sources.map((source: { kind: string }) => source.kind)).toEqual(['reference', 'document'])
+    })
+
+    it('does not search without a document collection', async () => {
+      await harness.conductResearch('Tea', ['Farming'])
+
+      expect(mockSearchDocuments).not.toHaveBeenCalled()
+      expect(mockRunJob.mock.calls[0][0]).not.toContain("user's documents")
+    })
   })
   
   describe('generateOutline', () => {
@@ -86,19 +196,47 @@ describe('useResearch composable', () => {
       expect(harness.presentationOutline.value).toBe('')
     })
     
-    it('calls queryDeepSeek with outline prompt', async () => {
+    it('calls queryModel with outline prompt', async () => {
       const { useOpenRouter } = await import('~/composables/useOpenRouter')
-      const mockQueryDeepSeek = useOpenRouter().queryDeepSeek
+      const mockQueryModel = useOpenRouter().queryModel
       
       harness.researchResults.value = 'Some research results'
       await harness.generateOutline()
       
-      expect(mockQueryDeepSeek).toHaveBeenCalled()
-      const prompt = mockQueryDeepSeek.mock.calls[0][0]
+      expect(mockQueryModel).toHaveBeenCalled()
+      const prompt = mockQueryModel.mock.calls[0][0]
       
       expect(prompt).toContain('presentation outline')
       expect(prompt).toContain('Some research results')
     })
+
+    it('stamps the outline with the prompt version', async () => {
+      harness.researchResults.value = 'Some research results'
+      await harness.generateOutline()
+
+      expect(harness.outlineHistory.value[0].promptVersion).toEqual({ templateId: 'outline', version: 1 })
+    })
+
+    it('writes the outline to the brief of the research', async () => {
+      await harness.conductResearch('Tea', [], { language: 'Spanish', mustInclude: ['Opium Wars'] })
+      await harness.generateOutline()
+
+      const prompt = mockQueryModel.mock.calls[0][0]
+      expect(prompt).toContain('Write all slide text in Spanish.')
+      expect(prompt).toContain('The slides must cover: Opium Wars.')
+      expect(harness.outlineHistory.value[0].brief?.language).toBe('Spanish')
+    })
+
+    it('asks the outline to keep the citations of the research', async () => {
+      await harness.conductResearch('Tea', [], { sources: [{ kind: 'note', title: 'Interview notes', text: 'Organic since 2015.' }] })
+      await harness.generateOutline()
+
+      const prompt = mockQueryModel.mock.calls[0][0]
+      expect(prompt).toContain('Keep the citation markers')
+      expect(prompt).toContain('[1] Interview notes.')
+      expect(prompt).not.toContain('Organic since 2015.')
+      expect(harness.outlineHistory.value[0].sources).toHaveLength(1)
+    })
     
     it('updates presentationOutline and history on success', async () => {
       harness.researchResults.value = 'Some research results'
@@ -107,5 +245,89 @@ describe('useResearch composable', () => {
       expect(harness.presentationOutline.value).toBe('Mock research results')
       expect(harness.outlineHistory.value).toHaveLength(1)
     })
+
+    it('writes audience variants with their own instructions and keeps each one', async () => {
+      harness.researchResults.value = 'Some research results'
+      const outlines = await harness.generateOutlineVariants(['executive', 'teaching'])
+
+      const [executive, teaching] = mockQueryModel.mock.calls.map(call => call[0])
+      expect(executive).toContain('The presentation is for executives and decision makers.')
+      expect(executive).toContain('use at most 6 slides')
+      expect(teaching).toContain('The presentation is for students.')
+      expect(outlines.map(outline => outline.variant)).toEqual(['executive', 'teaching'])
+      expect(harness.outlineHistory.value.map(outline => outline.variant)).toEqual(['executive', 'teaching'])
+    })
+
+    it('uses the structured outline endpoint in JSON mode', async () => {
+      harness.researchResults.value = 'Some research results'
+      await harness.generateOutline(false, { format: 'json' })
+
+      expect(mockQueryModel).not.toHaveBeenCalled()
+      expect(mockQueryStructuredOutline).toHaveBeenCalledWith('Some research results', expect.any(Object))
+      expect(harness.presentationOutline.value).toBe('# Deck\n\n---\n\n# Slide')
+      expect(harness.outlineHistory.value[0].deck.title).toBe('Deck')
+    })
+  })
+
+  describe('sessions', () => {
+    it('saves the session when the research starts, finishes and gets an outline', async () => {
+      await harness.conductResearch('Tea', ['Trade'])
+      await harness.generateOutline()
+
+      const id = harness.sessionId.value
+      expect(mockSaveSession).toHaveBeenCalledTimes(3)
+      expect(mockSaveSession.mock.calls[0]).toEqual([id, expect.objectContaining({ title: 'Tea', research: '', researchHistory: [] })])
+      expect(mockSaveSession.mock.calls[1][1]).toMatchObject({ research: 'Mock research results', researchHistory: [{ topic: 'Tea', sessionId: id }] })
+      expect(mockSaveSession.mock.calls[2][1]).toMatchObject({ outline: 'Mock research results', outlineHistory: [{ sessionId: id }] })
+    })
+
+    it('opens a saved session', async () => {
+      mockFetchSession.mockResolvedValueOnce({
+        id: 'saved',
+        title: 'Tea',
+        brief: { topic: 'Tea', subtopics: [] },
+        research: '# Tea',
+        researchHistory: [{ topic: 'Tea', subtopics: [], content: '# Tea', sessionId: 'saved', timestamp: '2025-01-01T00:00:00.000Z' }],
+        outline: '',
+        outlineHistory: [],
+        decks: [],
+        assets: [],
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z'
+      })
+
+      const session = await harness.loadSession('saved')
+
+      expect(mockFetchSession).toHaveBeenCalledWith('saved')
+      expect(session?.id).toBe('saved')
+      expect(harness.sessionId.value).toBe('saved')
+      expect(harness.researchResults.value).toBe('# Tea')
+      expect(harness.researchHistory.value).toHaveLength(1)
+      expect(harness.isResearchComplete.value).toBe(true)
+      expect(await harness.loadSession('missing')).toBeNull()
+    })
+
+    it('records a version of the generated research and outline', async () => {
+      await harness.conductResearch('Tea', ['Trade'])
+      await harness.generateOutline()
+
+      const id = harness.sessionId.value
+      expect(mockAddVersion.mock.calls).toEqual([
+        [id, 'research', 'Mock research results', 'generated'],
+        [id, 'outline', 'Mock research results', 'generated']
+      ])
+    })
+
+    it('restores a version and records the restore', async () => {
+      const version = { id: 'v1', kind: 'research', content: '# Old', reason: 'generated', timestamp: '2025-01-01T00:00:00.000Z' }
+      mockAddVersion.mockResolvedValueOnce({ versions: [version, { ...version, id: 'v2', reason: 'restored' }] })
+      harness.researchResults.value = '# New'
+
+      await harness.restoreVersion(version)
+
+      expect(harness.researchResults.value).toBe('# Old')
+      expect(mockAddVersion).toHaveBeenCalledWith(harness.sessionId.value, 'research', '# Old', 'restored')
+      expect(harness.versions.value.map(item => item.id)).toEqual(['v1', 'v2'])
+    })
   })
 })
\ No newline at end of file
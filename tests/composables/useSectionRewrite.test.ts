@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ref } from 'vue'
+import { useSectionRewrite } from '~/composables/useSectionRewrite'
+import type { PromptTemplateId, PromptValues } from '~/types/prompts'
+
+const mockQueryModel = vi.fn()
+vi.mock('~/composables/useOpenRouter', () => ({
+  useOpenRouter: () => ({
+    queryModel: mockQueryModel,
+    error: ref('Model unavailable')
+  })
+}))
+
+vi.mock('~/composables/useModelSettings', () => ({
+  useModelSettings: () => ({
+    getStageOverride: (stage: string) => stage === 'rewrite' ? 'mock/rewriter' : undefined
+  })
+}))
+
+// Render the built-in prompts instead of fetching the active versions
+vi.mock('~/composables/usePromptTemplates', async () => {
+  const { getBuiltInPrompt, renderPrompt } = await import('~/utils/promptTemplates')
+  return {
+    usePromptTemplates: () => ({
+      renderActivePrompt: async (templateId: PromptTemplateId, values: PromptValues) => renderPrompt(getBuiltInPrompt(templateId), values)
+    })
+  }
+})
+
+const RESEARCH = '# Origins\n\nTea comes from China [1].\n\n# Trade\n\nTea was traded.\n'
+const SOURCES = [{ kind: 'note' as const, title: 'Interview notes', text: 'Tea comes from China.' }]
+
+describe('useSectionRewrite', () => {
+  beforeEach(() => {
+    mockQueryModel.mockReset()
+    mockQueryModel.mockImplementation(async (_prompt: string, _maxTokens: number, _stream: boolean, onChunk?: (chunk: string) => void) => {
+      onChunk?.('Tea was traded ')
+      onChunk?.('along the Silk Road.')
+      return 'Tea was traded along the Silk Road.'
+    })
+  })
+
+  it('streams the rewritten section into its place', async () => {
+    const rewrite = useSectionRewrite()
+    const updates: string[] = []
+
+    const updated = await rewrite.rewriteSection(RESEARCH, 1, 'expand', { sources: SOURCES, language: 'Spanish', sessionId: 's1' }, research => updates.push(research))
+
+    const [prompt, , stream, , options] = mockQueryModel.mock.calls[0]
+    expect(prompt).toContain('Expand the section to about twice its length')
+    expect(prompt).toContain('# Origins\n\nTea comes from China [1].\n\n# Trade\n[SECTION TO REWRITE]')
+    expect(prompt).toContain('Section to rewrite:\n\n# Trade\n\nTea was traded.')
+    expect(prompt).toContain('Write in Spanish.')
+    expect(prompt).toContain('Interview notes')
+    expect(stream).toBe(true)
+    expect(options).toMatchObject({ stage: 'rewrite', model: 'mock/rewriter', sessionId: 's1' })
+    expect(updates[0]).toBe('# Origins\n\nTea comes from China [1].\n\n# Trade\nTea was traded\n')
+    expect(updated).toBe('# Origins\n\nTea comes from China [1].\n\n# Trade\nTea was traded along the Silk Road.\n')
+    expect(updates[updates.length - 1]).toBe(updated)
+    expect(rewrite.rewritingIndex.value).toBeNull()
+  })
+
+  it('undoes rewrites one at a time', async () => {
+    const rewrite = useSectionRewrite()
+    const first = await rewrite.rewriteSection(RESEARCH, 1, 'regenerate')
+    await rewrite.rewriteSection(first!, 0, 'condense')
+
+    expect(rewrite.undo()).toBe(first)
+    expect(rewrite.undo()).toBe(RESEARCH)
+    expect(rewrite.undo()).toBeNull()
+    expect(rewrite.canUndo.value).toBe(false)
+  })
+
+  it('puts the section back when the rewrite fails', async () => {
+    mockQueryModel.mockImplementation(async (_prompt: string, _maxTokens: number, _stream: boolean, onChunk?: (chunk: string) => void) => {
+      onChunk?.('Partial')
+      return null
+    })
+    const rewrite = useSectionRewrite()
+    const updates: string[] = []
+
+    expect(await rewrite.rewriteSection(RESEARCH, 1, 'addData', {}, research => updates.push(research))).toBeNull()
+    expect(updates[updates.length - 1]).toBe(RESEARCH)
+    expect(rewrite.error.value).toBe('Model unavailable')
+    expect(rewrite.canUndo.value).toBe(false)
+  })
+})
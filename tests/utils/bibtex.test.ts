@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { BibtexParseError, bibtexToSources, cleanLatex, parseBibtex, sourcesToBibtex } from '~/utils/bibtex'
+
+const BIB = `
+@comment{Exported from a reference manager}
+@string{jtea = "Journal of Tea Studies"}
+
+@article{smith2020,
+  author = {Smith, John and Lee, Kim},
+  title = {The {History} of Tea in G{\\"o}teborg},
+  journal = jtea,
+  year = 2020,
+  month = mar,
+  volume = {12},
+  number = {3},
+  pages = {45--67},
+  doi = {https://doi.org/10.1000/tea.12}
+}
+
+@book{doe2019,
+  author = "Jane Doe",
+  title = "Tea " # "Trade",
+  publisher = {Leaf \\& Co.},
+  year = {2019},
+}
+
+@misc{notitle, year = {2001}}
+`
+
+describe('bibtex', () => {
+  it('parses entries, macros and concatenation', () => {
+    const entries = parseBibtex(BIB)
+
+    expect(entries.map(entry => entry.key)).toEqual(['smith2020', 'doe2019', 'notitle'])
+    expect(entries[0]).toMatchObject({
+      type: 'article',
+      fields: {
+        author: 'Smith, John and Lee, Kim',
+        title: 'The History of Tea in Göteborg',
+        journal: 'Journal of Tea Studies',
+        year: '2020',
+        month: '3',
+        pages: '45–67'
+      }
+    })
+    expect(entries[1].fields).toMatchObject({ title: 'Tea Trade', publisher: 'Leaf & Co.' })
+  })
+
+  it('cleans LaTeX markup', () => {
+    expect(cleanLatex('Erd\\H{o}s and Fran\\c{c}ois --- \\emph{{Tea}}')).toBe('Erdős and François — Tea')
+    expect(cleanLatex('Stra\\ss e')).toBe('Straße')
+  })
+
+  it('reports unbalanced entries with the line', () => {
+    expect(() => parseBibtex('@article{broken,\n  title = {Tea')).toThrow(BibtexParseError)
+    expect(() => parseBibtex('@article{broken,\n  title = {Tea')).toThrow(/line 2/)
+  })
+
+  it('turns entries with a title into reference sources', () => {
+    const sources = bibtexToSources(parseBibtex(BIB))
+
+    expect(sources).toEqual([
+      {
+        kind: 'reference',
+        title: 'The History of Tea in Göteborg',
+        key: 'smith2020',
+        entryType: 'article',
+        authors: 'Smith, John and Lee, Kim',
+        year: '2020',
+        container: 'Journal of Tea Studies',
+        volume: '12',
+        issue: '3',
+        pages: '45–67',
+        doi: '10.1000/tea.12',
+        url: 'https://doi.org/10.1000/tea.12'
+      },
+      { kind: 'reference', title: 'Tea Trade', key: 'doe2019', entryType: 'book', authors: 'Jane Doe', year: '2019', publisher: 'Leaf & Co.' }
+    ])
+  })
+
+  it('writes sources back as BibTeX, with keys for sources without one', () => {
+    const bib = sourcesToBibtex([
+      { kind: 'reference', title: 'Tea & trade', key: 'doe2019', entryType: 'book', authors: 'Jane Doe', year: '2019', pages: '1–9' },
+      { kind: 'note', title: 'Interview notes', text: 'Not exported' }
+    ])
+
+    expect(bib).toBe([
+      '@book{doe2019,',
+      '  author = {Jane Doe},',
+      '  title = {Tea \\& trade},',
+      '  year = {2019},',
+      '  pages = {1--9}',
+      '}',
+      '',
+      '@unpublished{source2,',
+      '  title = {Interview notes}',
+      '}'
+    ].join('\n'))
+    expect(bibtexToSources(parseBibtex(bib))[0]).toMatchObject({ title: 'Tea & trade', key: 'doe2019', pages: '1–9' })
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { buildChatRequest, getSessionId, normalizeChatBody } from '~/utils/chatService'
+import type { ChatServiceConfig } from '~/utils/chatService'
+
+const config = {
+  llm: { defaultModel: 'mock/deterministic', extraModels: '' },
+  public: { siteUrl: 'http://localhost:3000', models: { outline: 'mock/outline' } }
+} as ChatServiceConfig
+
+describe('chatService', () => {
+  it('drops fields of the wrong type from the request body', () => {
+    expect(normalizeChatBody({
+      model: 42,
+      stage: 'unknown',
+      messages: [{ role: 'user', content: 'Hello' }, { role: 'tool', content: 'x' }, 'text'],
+      max_tokens: '100',
+      stream: 'yes',
+      sessionId: 'a b',
+      bypassCache: true
+    })).toEqual({
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: false,
+      bypassCache: true
+    })
+    expect(normalizeChatBody(null)).toEqual({ messages: [], stream: false, bypassCache: false })
+  })
+
+  it('builds the request from the stage default unless a model is given', () => {
+    const messages = [{ role: 'user', content: 'Outline this' }]
+
+    expect(buildChatRequest({ stage: 'outline', messages, stream: true }, config)).toMatchObject({ model: 'mock/outline', messages, stream: true })
+    expect(buildChatRequest({ stage: 'outline', model: 'mock/other', messages }, config).model).toBe('mock/other')
+    expect(buildChatRequest({ messages }, config).model).toBe('mock/deterministic')
+  })
+
+  it('reads only well-formed session ids', () => {
+    expect(getSessionId({ sessionId: 'session-1' })).toBe('session-1')
+    expect(getSessionId({ sessionId: '../etc' })).toBeUndefined()
+    expect(getSessionId(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { formatBibliography, formatBibliographyEntry, formatCitationItem, parseNames, wrapCitation } from '~/utils/citationStyles'
+import type { ResearchSource } from '~/types/research'
+
+const ARTICLE: ResearchSource = {
+  kind: 'reference',
+  title: 'The history of tea',
+  key: 'smith2020',
+  entryType: 'article',
+  authors: 'Smith, John and Kim Lee',
+  year: '2020',
+  container: 'Journal of Tea Studies',
+  volume: '12',
+  issue: '3',
+  pages: '45–67',
+  doi: '10.1000/tea.12'
+}
+
+const BOOK: ResearchSource = { kind: 'reference', title: 'Tea trade', authors: 'Doe, Jane', year: '2019', publisher: 'Leaf Press' }
+
+describe('citationStyles', () => {
+  it('parses BibTeX name lists', () => {
+    expect(parseNames('Smith, John and Kim Lee and others')).toEqual({
+      names: [{ family: 'Smith', given: 'John' }, { family: 'Lee', given: 'Kim' }],
+      others: true
+    })
+    expect(parseNames(undefined)).toEqual({ names: [], others: false })
+  })
+
+  it('formats in-text citations', () => {
+    expect(wrapCitation([formatCitationItem(ARTICLE, 1, 'apa'), formatCitationItem(BOOK, 2, 'apa', 'p. 3')], 'apa'))
+      .toBe('(Smith & Lee, 2020; Doe, 2019, p. 3)')
+    expect(wrapCitation([formatCitationItem(ARTICLE, 1, 'chicago')], 'chicago')).toBe('(Smith and Lee 2020)')
+    expect(wrapCitation([formatCitationItem(ARTICLE, 1, 'ieee'), formatCitationItem(BOOK, 2, 'ieee')], 'ieee')).toBe('[1, 2]')
+    expect(formatCitationItem({ kind: 'reference', title: 'Tea', authors: 'A, B and C, D and E, F' }, 3, 'apa')).toBe('A et al., n.d.')
+    expect(formatCitationItem({ kind: 'note', title: 'Interview notes' }, 4, 'chicago')).toBe('Interview notes n.d.')
+  })
+
+  it('formats APA entries', () => {
+    expect(formatBibliographyEntry(ARTICLE, 'apa', 1)).toBe(
+      'Smith, J., & Lee, K. (2020). The history of tea. *Journal of Tea Studies*, *12*(3), 45–67. https://doi.org/10.1000/tea.12'
+    )
+    expect(formatBibliographyEntry(BOOK, 'apa', 2)).toBe('Doe, J. (2019). *Tea trade.* Leaf Press.')
+  })
+
+  it('formats IEEE entries', () => {
+    expect(formatBibliographyEntry(ARTICLE, 'ieee', 1)).toBe(
+      '[1] J. Smith and K. Lee, "The history of tea," *Journal of Tea Studies*, vol. 12, no. 3, pp. 45–67, 2020. doi: 10.1000/tea.12.'
+    )
+    expect(formatBibliographyEntry({ kind: 'reference', title: 'Tea', url: 'https://example.com' }, 'ieee', 3)).toBe(
+      '[3] "Tea." [Online]. Available: https://example.com'
+    )
+  })
+
+  it('formats Chicago entries', () => {
+    expect(formatBibliographyEntry(ARTICLE, 'chicago', 1)).toBe(
+      'Smith, John, and Kim Lee. 2020. "The history of tea." *Journal of Tea Studies* 12 (3): 45–67. https://doi.org/10.1000/tea.12'
+    )
+    expect(formatBibliographyEntry(BOOK, 'chicago', 2)).toBe('Doe, Jane. 2019. *Tea trade.* Leaf Press.')
+  })
+
+  it('orders author-date bibliographies alphabetically and numbered ones by number', () => {
+    expect(formatBibliography([ARTICLE, BOOK], [1, 2], 'apa').map(entry => entry.substring(0, 5))).toEqual(['Doe, ', 'Smith'])
+    expect(formatBibliography([ARTICLE, BOOK], [1, 2], 'ieee').map(entry => entry.substring(0, 3))).toEqual(['[1]', '[2]'])
+  })
+})
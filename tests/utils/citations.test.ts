@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import {
+  REFERENCES_PER_SLIDE,
+  addPandocBibliography,
+  addPassageSources,
+  appendReferencesSlide,
+  checkCitations,
+  findCitations,
+  formatReference,
+  formatSourceList,
+  formatSourcesForPrompt,
+  formatCitationMarkers,
+  linkCitations,
+  normalizeSources,
+  toPandocCitations
+} from '~/utils/citations'
+import type { ResearchSource } from '~/types/research'
+
+const SOURCES: ResearchSource[] = [
+  { kind: 'reference', title: 'The history of tea', authors: 'Smith, J.', year: '2020', url: 'https://example.com/tea' },
+  { kind: 'note', title: 'Interview notes', text: 'Growers switched to organic farming in 2015.' }
+]
+
+describe('citations', () => {
+  it('normalizes sources and drops entries without a title or text', () => {
+    const sources = normalizeSources([
+      { kind: 'reference', title: '  Tea  trade ', year: 2020, url: 'javascript:alert(1)' },
+      { kind: 'unknown', text: 'Pasted notes about the tea trade in the nineteenth century and later' },
+      { title: ' ' },
+      'not a source'
+    ])
+
+    expect(sources).toEqual([
+      { kind: 'reference', title: 'Tea trade' },
+      { kind: 'note', title: 'Pasted notes about the tea trade in the nineteenth century a...', text: 'Pasted notes about the tea trade in the nineteenth century and later' }
+    ])
+    expect(normalizeSources('nope')).toEqual([])
+  })
+
+  it('formats references', () => {
+    expect(formatReference(SOURCES[0])).toBe('Smith, J. (2020). The history of tea. https://example.com/tea')
+    expect(formatReference({ kind: 'note', title: 'Why?', year: '2021' })).toBe('(2021). Why?')
+  })
+
+  it('numbers sources for the prompts', () => {
+    expect(formatSourcesForPrompt(SOURCES)).toBe(
+      '[1] Smith, J. (2020). The history of tea. https://example.com/tea\n\n[2] Interview notes.\nGrowers switched to organic farming in 2015.'
+    )
+    expect(formatSourcesForPrompt(SOURCES, [2])).toMatch(/^\[2\] Interview notes\./)
+    expect(formatSourceList(SOURCES)).toBe('[1] Smith, J. (2020). The history of tea. https://example.com/tea\n[2] Interview notes.')
+  })
+
+  it('appends passages once, after the existing sources', () => {
+    const passage = { documentId: 'doc', documentName: 'tea.md', chunkIndex: 1, text: 'Assam tea.', score: 2 }
+
+    const sources = addPassageSources(SOURCES, [passage, { ...passage, score: 1 }])
+
+    expect(sources).toHaveLength(3)
+    expect(sources[2]).toEqual({ kind: 'document', title: 'tea.md, part 2', text: 'Assam tea.', documentId: 'doc', chunkIndex: 1 })
+  })
+
+  it('finds citation markers but not links, footnotes or code', () => {
+    const markdown = [
+      'Tea came from China [1]. Farming changed [2, 3] and [4-6].',
+      'See [the site](https://example.com), [text][1], [^1] and `x[7]`.',
+      '```r',
+      'values[8]',
+      '```',
+      '[9]: https://example.com'
+    ].join('\n')
+
+    expect(findCitations(markdown)).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  it('reports markers without a source as errors', () => {
+    expect(checkCitations('Tea [2]. Trade [5], [1] and [2].', SOURCES)).toEqual({
+      cited: [1, 2],
+      unresolved: [5],
+      errors: ['Citation [5] does not match any of the 2 sources']
+    })
+    expect(checkCitations('Tea [1].', []).errors).toEqual(['Citation [1] does not match any source; no sources were provided'])
+  })
+
+  it('links markers to the source list with the reference on hover', () => {
+    const html = linkCitations('Tea [1, 3].', SOURCES)
+
+    expect(html).toContain('<a href="#source-1" class="citation-link" data-reference="Smith, J. (2020). The history of tea. https://example.com/tea">1</a>')
+    expect(html).toContain('<span class="citation-unresolved" data-reference="No source 3 in this research">3</span>')
+  })
+
+  it('appends a References slide with the cited sources', () => {
+    const deck = appendReferencesSlide('# Tea\n\n- Grown in China [2]\n', SOURCES)
+
+    expect(deck).toBe('# Tea\n\n- Grown in China [2]\n\n---\n\n# References\n\n- [2] Interview notes.\n')
+    expect(appendReferencesSlide('# Tea\n', SOURCES)).toBe('# Tea\n')
+  })
+
+  it('continues long reference lists on further slides', () => {
+    const sources = Array.from({ length: REFERENCES_PER_SLIDE + 2 }, (_, i): ResearchSource => ({ kind: 'reference', title: `Source ${i + 1}` }))
+    const markers = sources.map((_, i) => `[${i + 1}]`).join(' ')
+
+    const deck = appendReferencesSlide(`# Tea\n\n${markers}`, sources)
+
+    expect(deck).toContain('# References\n\n- [1] Source 1.')
+    expect(deck).toContain(`# References (continued)\n\n- [${REFERENCES_PER_SLIDE + 1}] Source ${REFERENCES_PER_SLIDE + 1}.`)
+  })
+
+  it('resolves citation keys and reports unknown ones', () => {
+    const sources: ResearchSource[] = [{ ...SOURCES[0], key: 'smith2020' }, SOURCES[1]]
+
+    expect(findCitations('Tea [@smith2020, p. 3; @doe2019] and [2].', sources)).toEqual([1, 2])
+    expect(checkCitations('Tea [@smith2020] and [@doe2019].', sources)).toEqual({
+      cited: [1],
+      unresolved: [],
+      errors: ['Citation [@doe2019] does not match the key of any source']
+    })
+    expect(formatSourceList(sources)).toMatch(/^\[1\] \[@smith2020\] Smith, J\. \(2020\)/)
+  })
+
+  it('writes markers in a citation style', () => {
+    const sources: ResearchSource[] = [{ ...SOURCES[0], key: 'smith2020' }, SOURCES[1]]
+
+    expect(formatCitationMarkers('Tea [@smith2020, p. 3; @smith2020] and [2].', sources, 'apa'))
+      .toBe('Tea (Smith, 2020, p. 3; Smith, 2020) and (Interview notes, n.d.).')
+    expect(formatCitationMarkers('Tea [@smith2020] and [@doe2019].', sources)).toBe('Tea [1] and [@doe2019].')
+    expect(linkCitations('Tea [@smith2020].', sources, 'chicago')).toBe(
+      'Tea <span class="citation">(<a href="#source-1" class="citation-link" data-reference="Smith, J. 2020. The history of tea. https://example.com/tea">Smith 2020</a>)</span>.'
+    )
+  })
+
+  it('appends a bibliography in the citation style', () => {
+    const deck = appendReferencesSlide('# Tea\n\n- Grown in China [2, 1]\n', SOURCES, 'apa')
+
+    expect(deck).toBe([
+      '# Tea\n\n- Grown in China (Interview notes, n.d.; Smith, 2020)\n\n---\n\n# References\n',
+      '- *Interview notes.* (n.d.).',
+      '- Smith, J. (2020). *The history of tea.* https://example.com/tea\n'
+    ].join('\n'))
+  })
+
+  it('prepares R Markdown for citeproc', () => {
+    expect(toPandocCitations('Tea [1, 2], [@smith2020] and [5].', SOURCES)).toBe('Tea [@source1; @source2], [@smith2020] and [5].')
+
+    const document = addPandocBibliography('---\ntitle: Tea\ncsl: old.csl\n---\n\n# Tea [1]', SOURCES, '/tmp/tea.bib', 'apa')
+
+    expect(document).toBe([
+      '---',
+      'title: Tea',
+      'bibliography: "/tmp/tea.bib"',
+      'csl: "https://www.zotero.org/styles/apa"',
+      'link-citations: true',
+      '---',
+      '',
+      '# Tea [@source1]',
+      '',
+      '# References',
+      ''
+    ].join('\n'))
+    expect(addPandocBibliography('# Tea', SOURCES, '/tmp/tea.bib')).toBe('---\nbibliography: "/tmp/tea.bib"\nlink-citations: true\n---\n\n# Tea\n\n# References\n')
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { deflateRawSync } from 'zlib'
+import { DatasetFileError, readDatasetFile, readWorkbook } from '~/utils/datasetFiles'
+import { MAX_DATASET_ROWS } from '~/utils/datasets'
+
+// Packs files into a zip archive; the reader does not check the CRC, so it is left at 0
+const zip = (files: Record<string, string>): Uint8Array => {
+  const parts: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+  for (const [name, text] of Object.entries(files)) {
+    const fileName = Buffer.from(name)
+    const data = deflateRawSync(Buffer.from(text))
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(Buffer.byteLength(text), 22)
+    local.writeUInt16LE(fileName.length, 26)
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(0x02014b50, 0)
+    entry.writeUInt16LE(8, 10)
+    entry.writeUInt32LE(data.length, 20)
+    entry.writeUInt32LE(Buffer.byteLength(text), 24)
+    entry.writeUInt16LE(fileName.length, 28)
+    entry.writeUInt32LE(offset, 42)
+    parts.push(local, fileName, data)
+    directory.push(entry, fileName)
+    offset += 30 + fileName.length + data.length
+  }
+  const central = Buffer.concat(directory)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(directory.length / 2, 8)
+  end.writeUInt16LE(directory.length / 2, 10)
+  end.writeUInt32LE(central.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return new Uint8Array(Buffer.concat([...parts, central, end]))
+}
+
+const WORKBOOK = zip({
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Sales" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/data.xml"/></Relationships>',
+  'xl/sharedStrings.xml': '<sst><si><t>Month</t></si><si><r><t>Sales &amp; </t></r><r><t xml:space="preserve">returns</t></r><rPh><t>x</t></rPh></si></sst>',
+  'xl/styles.xml': '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/></numFmts>' +
+    '<cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+  'xl/worksheets/data.xml': '<worksheet><sheetData>' +
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Open</t></is></c></row>' +
+    '<row r="2"><c r="A2" s="1"><v>45292</v></c><c r="B2"><v>1200.5</v></c><c r="C2" t="b"><v>1</v></c></row>' +
+    '<row r="3"/>' +
+    '<row r="4"><c r="A4" s="2"><v>45323</v></c><c r="C4" t="b"><v>0</v></c><c r="E4" s="1"/></row>' +
+    '</sheetData></worksheet>'
+})
+
+// Overwrites the uncompressed size the central directory gives for the first file
+const declareSize = (archive: Uint8Array, size: number): Uint8Array => {
+  const data = Buffer.from(archive)
+  data.writeUInt32LE(size, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24)
+  return new Uint8Array(data)
+}
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+describe('datasetFiles', () => {
+  it('reads the first sheet of a workbook', () => {
+    expect(readWorkbook(WORKBOOK)).toEqual([
+      ['Month', 'Sales & returns', 'Open'],
+      ['2024-01-01', '1200.5', 'TRUE'],
+      ['2024-02-01', '', 'FALSE']
+    ])
+  })
+
+  it('reads a workbook as a dataset with typed columns', () => {
+    expect(readDatasetFile('Sales 2024.xlsx', WORKBOOK)).toEqual({
+      name: 'sales_2024',
+      title: 'Sales 2024',
+      csv: 'Month,Sales & returns,Open\n2024-01-01,1200.5,TRUE\n2024-02-01,,FALSE\n',
+      provenance: [],
+      fileName: 'Sales 2024.xlsx',
+      columnTypes: ['date', 'number', 'logical']
+    })
+  })
+
+  it('reads CSV and TSV files and names blank columns', () => {
+    const csv = readDatasetFile('exports.csv', encode('\uFEFFyear,,note\r\n2010,120,"a, b"\r\n'))
+    const tsv = readDatasetFile('exports.tsv', encode('year\ttonnes\n2010\t120\n\n'))
+
+    expect(csv).toMatchObject({ name: 'exports', csv: 'year,Column 2,note\n2010,120,"a, b"\n', columnTypes: ['number', 'number', 'text'] })
+    expect(tsv.csv).toBe('year,tonnes\n2010,120\n')
+  })
+
+  it('rejects unsupported, unreadable, empty and oversized files', () => {
+    const rows = Array.from({ length: MAX_DATASET_ROWS + 1 }, (_, index) => `${index}`).join('\n')
+
+    expect(() => readDatasetFile('notes.txt', encode('a'))).toThrow(expect.objectContaining({ status: 415 }))
+    expect(() => readDatasetFile('sales.xlsx', encode('year,tonnes'))).toThrow('not an Excel workbook')
+    expect(() => readDatasetFile('sales.xlsx', zip({ 'xl/workbook.xml': '<workbook/>' }))).toThrow('no sheets')
+    expect(() => readDatasetFile('empty.csv', encode('year,tonnes\n'))).toThrow(DatasetFileError)
+    expect(() => readDatasetFile('big.csv', encode(`n\n${rows}`))).toThrow(expect.objectContaining({ status: 413 }))
+  })
+
+  it('rejects workbook parts that expand beyond their limit', () => {
+    const sheet = zip({ 'xl/worksheets/sheet1.xml': `<worksheet>${' '.repeat(100000)}</worksheet>` })
+
+    expect(() => readWorkbook(declareSize(sheet, 60 * 1024 * 1024))).toThrow(expect.objectContaining({ status: 413 }))
+    expect(() => readWorkbook(declareSize(sheet, 100))).toThrow('damaged')
+  })
+
+  it('rejects cells beyond the last column of a sheet', () => {
+    const sheet = zip({ 'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="ZZZZZZZZ1"><v>1</v></c></row></sheetData></worksheet>' })
+
+    expect(() => readWorkbook(sheet)).toThrow(DatasetFileError)
+    const [row] = readWorkbook(zip({ 'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="XFD1"><v>1</v></c></row></sheetData></worksheet>' }))
+    expect(row).toHaveLength(16384)
+  })
+
+  it('stops reading sheets with too many rows or cells', () => {
+    const sheet = (rows: string[]) => zip({ 'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows.join('')}</sheetData></worksheet>` })
+    const blank = Array.from({ length: 3000 }, (_, index) => `<row r="${index + 2}"><c r="XFD${index + 2}"/></row>`)
+    const wide = Array.from({ length: 100 }, (_, index) => `<row r="${index + 1}"><c r="XFD${index + 1}"><v>1</v></c></row>`)
+    const long = Array.from({ length: MAX_DATASET_ROWS + 2 }, (_, index) => `<row r="${index + 1}"><c r="A${index + 1}"><v>${index}</v></c></row>`)
+
+    expect(readWorkbook(sheet(['<row r="1"><c r="A1"><v>1</v></c></row>', ...blank]))).toEqual([['1']])
+    expect(() => readWorkbook(sheet(wide))).toThrow(expect.objectContaining({ status: 413 }))
+    expect(() => readWorkbook(sheet(long))).toThrow(expect.objectContaining({ status: 413 }))
+    expect(readWorkbook(sheet(long.slice(0, -1)))).toHaveLength(MAX_DATASET_ROWS + 1)
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkDatasetCsv,
+  datasetColumns,
+  datasetPreamble,
+  datasetProblems,
+  formatDatasetsForPrompt,
+  inferColumnType,
+  isDatasetName,
+  normalizeDatasets,
+  parseDatasets,
+  toCsv,
+  toDatasetName,
+  usableDatasets
+} from '~/utils/datasets'
+import { parseCsv } from '~/utils/documentParser'
+import type { ResearchDataset } from '~/types/research'
+
+const RESEARCH = `# Tea trade
+
+Exports rose from 120 tonnes in 2010 to  180 tonnes in 2020.
+Kenya supplied 45% of the market, India 30%.`
+
+const dataset = (name: string, csv: string, id = name): ResearchDataset => ({ id, name, title: '', csv, provenance: [] })
+
+describe('datasets', () => {
+  it('writes CSV that reads back with quoted fields', () => {
+    const rows = [['country', 'note'], ['Kenya', 'large, "growing"'], ['India', 'two\nlines']]
+    const csv = toCsv(rows)
+
+    expect(csv).toBe('country,note\nKenya,"large, ""growing"""\nIndia,"two\nlines"\n')
+    expect(parseCsv(csv)).toEqual(rows)
+  })
+
+  it('checks that the CSV is a table', () => {
+    expect(checkDatasetCsv('year,tonnes\n2010,120\n')).toEqual([])
+    expect(checkDatasetCsv('')).toEqual(['The dataset is empty'])
+    expect(checkDatasetCsv('year,\n2010,120')).toEqual(['Every column needs a name'])
+    expect(checkDatasetCsv('year,tonnes\n2010')).toEqual(['Row 1 has 1 values, the header 2'])
+    expect(checkDatasetCsv('year,tonnes')).toEqual(['The dataset has no rows'])
+  })
+
+  it('turns titles into names R accepts', () => {
+    expect(toDatasetName('Tea exports (tonnes)')).toBe('tea_exports_tonnes')
+    expect(toDatasetName('2020 shares')).toBe('data_2020_shares')
+    expect(toDatasetName('Data')).toBe('data_data')
+    expect(toDatasetName('!!!')).toBe('dataset')
+    expect(isDatasetName('exports')).toBe(true)
+    expect(isDatasetName('if')).toBe(false)
+    expect(isDatasetName('tea exports')).toBe(false)
+  })
+
+  it('keeps only the rows whose quote is in the research', () => {
+    const reply = '```json\n' + JSON.stringify([
+      {
+        name: 'Tea exports',
+        title: 'Tea exports (tonnes)',
+        columns: ['year', 'tonnes'],
+        rows: [
+          { values: [2010, 120], quote: 'Exports rose from 120 tonnes in 2010 to 180 tonnes in 2020.' },
+          { values: [2015, 150], quote: 'Exports were 150 tonnes in 2015.' }
+        ]
+      },
+      { name: 'Tea exports', columns: ['country', 'share'], rows: [{ values: ['Kenya', 45], quote: '"Kenya supplied 45% of the market"' }] },
+      { name: 'made up', columns: ['x'], rows: [{ values: [1], quote: 'Nowhere in the text' }] },
+      { name: 'broken', columns: ['a', 'b'], rows: [{ values: [1], quote: 'India 30%' }] }
+    ]) + '\n```'
+
+    const datasets = parseDatasets(reply, RESEARCH)
+
+    expect(datasets.map(item => item.name)).toEqual(['tea_exports', 'tea_exports_2'])
+    expect(datasets[0]).toMatchObject({
+      title: 'Tea exports (tonnes)',
+      csv: 'year,tonnes\n2010,120\n',
+      provenance: [{ row: 1, quote: 'Exports rose from 120 tonnes in 2010 to  180 tonnes in 2020.' }]
+    })
+    expect(datasets[1]).toMatchObject({ title: 'country and share', provenance: [{ row: 1, quote: 'Kenya supplied 45% of the market' }] })
+  })
+
+  it('throws when the reply has no list of datasets', () => {
+    expect(() => parseDatasets('No numbers here.', RESEARCH)).toThrow('not a list of datasets')
+  })
+
+  it('reports invalid and duplicate names', () => {
+    const datasets = [dataset('exports', 'a\n1', 'one'), dataset('exports', 'a\n1', 'two'), dataset('table', 'a\n1')]
+
+    expect(datasetProblems(datasets[0], datasets)).toEqual(['Another dataset is named exports'])
+    expect(datasetProblems(datasets[2], datasets)[0]).toContain('The name must start with a letter')
+    expect(usableDatasets([dataset('exports', 'a\n1'), dataset('shares', 'a')]).map(item => item.name)).toEqual(['exports'])
+  })
+
+  it('infers column types unless the user set them', () => {
+    expect(inferColumnType(['2010', '-1,200.5', '', '3e2'])).toBe('number')
+    expect(inferColumnType(['2024-01-31', '2024-02-29'])).toBe('date')
+    expect(inferColumnType(['TRUE', 'false'])).toBe('logical')
+    expect(inferColumnType(['Kenya', '45'])).toBe('text')
+    expect(inferColumnType(['', ' '])).toBe('text')
+
+    const csv = 'year,tonnes,note\n2010,120,\n2020,180,rise\n'
+    expect(datasetColumns({ csv })).toEqual([
+      { name: 'year', type: 'number' },
+      { name: 'tonnes', type: 'number' },
+      { name: 'note', type: 'text' }
+    ])
+    expect(datasetColumns({ csv, columnTypes: ['text', 'number', 'text'] })[0].type).toBe('text')
+    // Types that no longer match the columns are ignored
+    expect(datasetColumns({ csv, columnTypes: ['text'] })[0].type).toBe('number')
+  })
+
+  it('keeps datasets that are being edited when normalizing', () => {
+    const datasets = normalizeDatasets([
+      { id: 'a', name: ' exports ', title: 'Exports\n', csv: 'a', provenance: [{ row: 1, quote: 'q' }, { row: 0, quote: 'bad' }] },
+      { id: 'b', name: 'sales', csv: 'a', fileName: 'sales.xlsx', columnTypes: ['date'] },
+      { id: 'c', name: 'costs', csv: 'a', columnTypes: ['money'] },
+      { name: 'missing csv' },
+      'text'
+    ])
+
+    expect(datasets).toEqual([
+      { id: 'a', name: 'exports', title: 'Exports', csv: 'a', provenance: [{ row: 1, quote: 'q' }] },
+      { id: 'b', name: 'sales', title: '', csv: 'a', provenance: [], fileName: 'sales.xlsx', columnTypes: ['date'] },
+      { id: 'c', name: 'costs', title: '', csv: 'a', provenance: [] }
+    ])
+    expect(normalizeDatasets('not a list')).toEqual([])
+  })
+
+  it('lists the usable datasets with their typed columns for the outline prompt', () => {
+    const datasets = [
+      { ...dataset('exports', 'year,tonnes\n2010,120\n2020,180\n'), title: 'Tea exports' },
+      { ...dataset('sales', 'month,region\n2024-01-01,North\n'), title: 'Sales', fileName: 'sales.xlsx' },
+      dataset('shares', 'country,share\nKenya\n')
+    ]
+
+    expect(formatDatasetsForPrompt(datasets)).toBe([
+      '- exports: Tea exports. Columns: year (number), tonnes (number); 2 rows',
+      '- sales: Sales (uploaded as sales.xlsx). Columns: month (date), region (text); 1 row'
+    ].join('\n'))
+    expect(formatDatasetsForPrompt([])).toBe('')
+  })
+
+  it('writes the R code that loads the CSV files with typed columns', () => {
+    const preamble = datasetPreamble([
+      { name: 'exports', path: 'C:\\tmp\\exports.csv', types: ['date', 'number'] },
+      { name: 'bad name', path: '/tmp/x.csv', types: ['text'] }
+    ]).split('\n')
+
+    expect(preamble).toHaveLength(3)
+    expect(preamble[0]).toMatch(/^\.dataset_column <- function\(values, type\)/)
+    expect(preamble.slice(1)).toEqual([
+      'exports <- read.csv("C:/tmp/exports.csv", check.names = FALSE, colClasses = "character", na.strings = "")',
+      'exports[] <- Map(.dataset_column, exports, c("date", "number"))'
+    ])
+    expect(datasetPreamble([])).toBe('')
+  })
+})
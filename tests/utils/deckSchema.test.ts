@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { extractJson, parseDeckJson, validateDeckSpec } from '~/utils/deckSchema'
+
+const deck = {
+  title: 'Tea',
+  subtitle: 'A short history',
+  slides: [
+    { title: 'Origins', bullets: ['China', 'Trade routes'] },
+    { title: 'Exports', table: { headers: ['Year', 'Tonnes'], rows: [['2022', '10'], ['2023', '12']] } },
+    { title: 'Growth', chart: { type: 'line', labels: ['2022', '2023'], values: [10, 12] }, notes: 'Mention the drought' }
+  ]
+}
+
+describe('deckSchema', () => {
+  it('accepts a valid deck', () => {
+    const result = validateDeckSpec(deck)
+
+    expect(result.valid).toBe(true)
+    expect(result.errors).toEqual([])
+    expect(result.deck).toBe(deck)
+  })
+
+  it('reports every problem with its path', () => {
+    const result = validateDeckSpec({
+      title: '',
+      slides: [
+        { title: 'Table', table: { headers: ['A', 'B'], rows: [['1']] } },
+        { title: 'Chart', chart: { type: 'scatter', labels: ['a', 'b'], values: [1, '2'] } },
+        { bullets: 'not a list', color: 'red' }
+      ]
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.deck).toBeUndefined()
+    expect(result.errors).toEqual([
+      'deck.title must be a non-empty string',
+      'slides[0].table.rows[0] has 1 cells but there are 2 headers',
+      'slides[1].chart.type must be one of bar, line, pie',
+      'slides[1].chart.values[1] must be a number',
+      'slides[2].color is not allowed',
+      'slides[2].title must be a non-empty string',
+      'slides[2].bullets must be an array of strings'
+    ])
+  })
+
+  it('requires matching chart labels and values', () => {
+    const result = validateDeckSpec({
+      title: 'Deck',
+      slides: [{ title: 'Chart', chart: { type: 'bar', labels: ['a', 'b', 'c'], values: [1, 2] } }]
+    })
+
+    expect(result.errors).toEqual(['slides[0].chart has 3 labels but 2 values'])
+  })
+
+  it('rejects an empty deck', () => {
+    expect(validateDeckSpec({ title: 'Deck', slides: [] }).errors).toEqual(['deck.slides must contain at least one slide'])
+    expect(validateDeckSpec([]).errors).toEqual(['The deck must be a JSON object'])
+  })
+
+  it('extracts JSON from code fences and surrounding prose', () => {
+    expect(extractJson('```json\n{"title": "A"}\n```')).toBe('{"title": "A"}')
+    expect(extractJson('Here is the deck: {"title": "A"} Enjoy!')).toBe('{"title": "A"}')
+    expect(extractJson('No JSON here')).toBeNull()
+  })
+
+  it('reports syntax errors as validation errors', () => {
+    expect(parseDeckJson(JSON.stringify(deck)).valid).toBe(true)
+
+    const result = parseDeckJson('{"title": "Tea", "slides": [}')
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]).toMatch(/^The reply is not valid JSON/)
+    expect(parseDeckJson('Sorry, I cannot help').errors).toEqual(['The reply does not contain a JSON object'])
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { serializeDeck } from '~/utils/deckSerializer'
+import { splitMarkdownSections } from '~/utils/markdownSections'
+
+describe('deckSerializer', () => {
+  it('serializes a title slide and one slide per entry', () => {
+    const markdown = serializeDeck({
+      title: 'Tea',
+      subtitle: 'A short history',
+      slides: [
+        { title: 'Origins', bullets: ['China', 'Trade\nroutes'], notes: 'Start with a story' },
+        { title: 'Exports', table: { headers: ['Year', 'Note'], rows: [['2023', 'a | b']] } }
+      ]
+    })
+
+    expect(markdown).toBe(`# Tea
+## A short history
+
+---
+
+# Origins
+
+- China
+- Trade routes
+
+<!--
+Start with a story
+-->
+
+---
+
+# Exports
+
+| Year | Note |
+| --- | --- |
+| 2023 | a \\| b |
+`)
+  })
+
+  it('renders charts as ggplot chunks with labels in their original order', () => {
+    const markdown = serializeDeck({
+      title: 'Tea',
+      slides: [{
+        title: 'Growth',
+        chart: { type: 'bar', title: 'Exports "by" year', xLabel: 'Year', labels: ['2023', '2022'], values: [12, 10.5] }
+      }]
+    })
+
+    expect(markdown).toContain('```{r, echo=FALSE}\nlibrary(ggplot2)\n')
+    expect(markdown).toContain('chart_data <- data.frame(label = factor(c("2023", "2022"), levels = c("2023", "2022")), value = c(12, 10.5))')
+    expect(markdown).toContain('geom_col(fill = "steelblue") +\n  labs(title = "Exports \\"by\\" year", x = "Year")')
+    expect(markdown.trimEnd().endsWith('```')).toBe(true)
+  })
+
+  it('draws pie charts without axis labels', () => {
+    const markdown = serializeDeck({
+      title: 'Tea',
+      slides: [{ title: 'Share', chart: { type: 'pie', xLabel: 'ignored', labels: ['Black', 'Green'], values: [70, 30] } }]
+    })
+
+    expect(markdown).toContain('coord_polar(theta = "y")')
+    expect(markdown).not.toContain('ignored')
+  })
+
+  it('is deterministic and keeps slide titles as headings', () => {
+    const deck = { title: 'Tea', slides: [{ title: 'One' }, { title: 'Two', bullets: ['# not a heading'] }] }
+
+    expect(serializeDeck(deck)).toBe(serializeDeck(deck))
+    expect(splitMarkdownSections(serializeDeck(deck)).map(section => section.heading)).toEqual(['Tea', 'One', 'Two'])
+  })
+})
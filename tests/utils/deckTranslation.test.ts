@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { checkTranslation, protectSlide, replaceSlideText, restoreSlide } from '~/utils/deckTranslation'
+import { parseOutline, serializeOutline } from '~/utils/slideAst'
+
+const SLIDE = `<!-- _class: lead -->
+
+# Tea exports [1]
+
+See the [report](https://example.com/tea) and run \`summary(x)\`.
+
+\`\`\`{r}
+plot(x$price <- 2)
+\`\`\`
+
+| Country | Tonnes |
+|---------|--------|
+| China   | 300    |`
+
+const protect = (slide: string) => protectSlide(parseOutline(slide).slides[0])
+
+describe('deckTranslation', () => {
+  it('protects directives, code, links and citations and restores them', () => {
+    const slide = protect(SLIDE)
+
+    expect(slide.text).not.toContain('_class')
+    expect(slide.text).not.toContain('plot(')
+    expect(slide.text).not.toContain('example.com')
+    expect(slide.text).not.toContain('[1]')
+    expect(slide.text).toContain('# Tea exports __KEEP_')
+    expect(slide.text).toContain('See the [report]__KEEP_')
+    expect(slide.text.startsWith('__KEEP_0__\n\n# Tea')).toBe(true)
+    expect(restoreSlide(slide.text, slide.placeholders)).toBe(SLIDE)
+  })
+
+  it('accepts translations that keep the placeholders and the tables', () => {
+    const slide = protect(SLIDE)
+    const translated = slide.text.replace('Tea exports', 'Exportaciones de té').replace('Country', 'País')
+
+    expect(checkTranslation(slide, translated)).toEqual([])
+    expect(restoreSlide(translated, slide.placeholders)).toContain('plot(x$price <- 2)')
+  })
+
+  it('rejects translations that lose placeholders or change a table', () => {
+    const slide = protect(SLIDE)
+    const translated = slide.text.replace('__KEEP_0__', '').replace('| China   | 300    |', '| China | 300 | t |')
+
+    expect(checkTranslation(slide, translated)).toEqual(['1 protected part was lost', 'a table changed shape'])
+    expect(checkTranslation(slide, slide.text.replace('\n\n__KEEP_1__', ' __KEEP_1__'))).toEqual(['1 protected block was moved into the text'])
+    expect(checkTranslation(slide, slide.text.replace('\n\n| Country', '\n\n---\n\n| Country'))).toEqual(['a slide break was added'])
+  })
+
+  it('sends only the text blocks of a slide', () => {
+    const slide = protect('\n<!--\nSpeaker notes -- with a | pipe\n-->\n\n<div class="box">\nBoxed\n</div>\n\n- One\n- Two\n\n')
+
+    expect(slide.text).toBe('__KEEP_0__\n\n__KEEP_1__\n\n- One\n- Two')
+    expect(slide.blocks).toEqual(['__KEEP_0__', '__KEEP_1__'])
+  })
+
+  it('replaces the text of a slide and keeps the front matter, slide breaks and blank lines', () => {
+    const deck = parseOutline('---\ntitle: "Tea"\n---\n\n# One\n---\n# Two\r\n\n')
+    const slides = deck.slides.map(slide => replaceSlideText(slide, protectSlide(slide).text.replace('One', 'Uno').replace('Two', 'Dos')))
+
+    expect(serializeOutline({ ...deck, slides })).toBe('---\ntitle: "Tea"\n---\n\n# Uno\n---\n# Dos\r\n\n')
+    expect(slides[1].blocks[0]).toMatchObject({ type: 'heading', text: 'Dos' })
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { chunkText, createBm25Index, mergePassages, searchBm25, tokenize } from '~/utils/documentIndex'
+import type { RetrievedPassage } from '~/types/documents'
+
+const words = (count: number, prefix = 'w') => Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ')
+
+const passage = (documentId: string, chunkIndex: number, score: number): RetrievedPassage => ({
+  documentId,
+  documentName: `${documentId}.md`,
+  chunkIndex,
+  text: `Text ${chunkIndex}`,
+  score
+})
+
+describe('documentIndex', () => {
+  it('tokenizes into lowercase terms without stopwords', () => {
+    expect(tokenize('The History of Tea, in 2 parts: Café culture')).toEqual(['history', 'tea', 'parts', 'café', 'culture'])
+  })
+
+  it('merges short paragraphs and splits long ones with overlap', () => {
+    const chunks = chunkText(`Short one.\n\nShort two.\n\n${words(25)}`, 10, 2)
+
+    expect(chunks[0]).toEqual({ index: 0, text: 'Short one.\n\nShort two.' })
+    expect(chunks.slice(1).map(chunk => chunk.text)).toEqual([
+      words(10),
+      'w8 w9 w10 w11 w12 w13 w14 w15 w16 w17',
+      'w16 w17 w18 w19 w20 w21 w22 w23 w24'
+    ])
+  })
+
+  it('ranks chunks with the rarer, more frequent query terms first', () => {
+    const index = createBm25Index([
+      { id: 'a', text: 'Tea is grown in Assam. Assam tea is strong.' },
+      { id: 'b', text: 'Tea is grown in many countries.' },
+      { id: 'c', text: 'Coffee is grown in Brazil.' }
+    ])
+
+    const results = searchBm25(index, 'Assam tea')
+
+    expect(results.map(result => result.id)).toEqual(['a', 'b'])
+    expect(results[0].score).toBeGreaterThan(results[1].score)
+    expect(searchBm25(index, 'the of')).toEqual([])
+    expect(searchBm25(index, 'grown', 1)).toHaveLength(1)
+  })
+
+  it('keeps each chunk once with its best score', () => {
+    const merged = mergePassages([passage('a', 0, 1), passage('b', 2, 3), passage('a', 0, 5)])
+
+    expect(merged.map(item => [item.documentId, item.score])).toEqual([['a', 5], ['b', 3]])
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { DocumentParseError, detectDocumentFormat, extractDocumentText, parseCsv } from '~/utils/documentParser'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+describe('documentParser', () => {
+  it('detects the format from the extension, then the MIME type', () => {
+    expect(detectDocumentFormat('notes.MD')).toBe('markdown')
+    expect(detectDocumentFormat('paper.pdf', 'text/plain')).toBe('pdf')
+    expect(detectDocumentFormat('export', 'text/csv; charset=utf-8')).toBe('csv')
+    expect(detectDocumentFormat('slides.pptx', 'application/octet-stream')).toBeNull()
+  })
+
+  it('parses quoted CSV fields with commas, quotes and newlines', () => {
+    expect(parseCsv('name,note\r\n"Tea, green","said ""hi""\nthen left"\n\n')).toEqual([
+      ['name', 'note'],
+      ['Tea, green', 'said "hi"\nthen left']
+    ])
+  })
+
+  it('writes CSV rows as column: value blocks', async () => {
+    const { format, text } = await extractDocumentText('teas.csv', encode('Name,Origin\nSencha,Japan\nAssam,India\n'))
+
+    expect(format).toBe('csv')
+    expect(text).toBe('Columns: Name, Origin\n\nName: Sencha\nOrigin: Japan\n\nName: Assam\nOrigin: India')
+  })
+
+  it('strips scripts, tags and entities from HTML', async () => {
+    const html = '<html><head><style>p{}</style><script>alert(1)</script></head><body><h1>Tea &amp; coffee</h1><p>Grown&nbsp;in <b>Assam</b> &#x2014; India</p></body></html>'
+
+    const { format, text } = await extractDocumentText('page.html', encode(html))
+
+    expect(format).toBe('html')
+    expect(text).toBe('Tea & coffee\n\nGrown in Assam — India')
+  })
+
+  it('keeps paragraph breaks and drops the byte order mark in text files', async () => {
+    const { text } = await extractDocumentText('notes.txt', encode('\uFEFFFirst  line\n\n\n\nSecond\t line  '))
+
+    expect(text).toBe('First line\n\nSecond line')
+  })
+
+  it('rejects unsupported and empty documents', async () => {
+    await expect(extractDocumentText('deck.pptx', encode('x'))).rejects.toMatchObject({ name: 'DocumentParseError', status: 415 })
+    await expect(extractDocumentText('empty.md', encode('  \n\n '))).rejects.toBeInstanceOf(DocumentParseError)
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createStorage } from 'unstorage'
+import { createDocumentStore, DocumentStoreError, MAX_COLLECTION_DOCUMENTS } from '~/utils/documentStore'
+
+const upload = (name: string, text: string) => ({ name, format: 'markdown' as const, size: text.length, text })
+
+describe('documentStore', () => {
+  let store: ReturnType<typeof createDocumentStore>
+
+  beforeEach(() => {
+    store = createDocumentStore(createStorage())
+  })
+
+  it('stores documents with their chunk count per collection', async () => {
+    const document = await store.add('brief-1', upload('tea.md', 'Tea history.\n\nTea farming.'))
+    await store.add('brief-2', upload('coffee.md', 'Coffee.'))
+
+    expect(document).toMatchObject({ collectionId: 'brief-1', name: 'tea.md', chunkCount: 1 })
+    expect(await store.list('brief-1')).toEqual([document])
+  })
+
+  it('searches the chunks of every document in the collection', async () => {
+    await store.add('brief', upload('tea.md', 'Assam tea is grown in India.'))
+    await store.add('brief', upload('coffee.md', 'Coffee is grown in Brazil.'))
+
+    const passages = await store.search('brief', 'Where is Assam tea grown?')
+
+    expect(passages.map(item => item.documentName)).toEqual(['tea.md', 'coffee.md'])
+    expect(passages[0]).toMatchObject({ chunkIndex: 0, text: 'Assam tea is grown in India.' })
+  })
+
+  it('removes documents and reports unknown ones', async () => {
+    const document = await store.add('brief', upload('tea.md', 'Tea.'))
+
+    expect(await store.remove('brief', document.id)).toBe(true)
+    expect(await store.remove('brief', document.id)).toBe(false)
+    expect(await store.list('brief')).toEqual([])
+  })
+
+  it('rejects unsafe collection ids and full collections', async () => {
+    await expect(store.list('../secrets')).rejects.toBeInstanceOf(DocumentStoreError)
+
+    for (let i = 0; i < MAX_COLLECTION_DOCUMENTS; i++) await store.add('full', upload(`${i}.md`, 'Tea.'))
+    await expect(store.add('full', upload('extra.md', 'Tea.'))).rejects.toMatchObject({ status: 409 })
+  })
+})
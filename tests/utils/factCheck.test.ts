@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { annotateClaims, locateQuote, openWarnings, parseVerification, replacePassage } from '~/utils/factCheck'
+import type { VerifiedClaim } from '~/types/research'
+
+const RESEARCH = '# Tea\n\nTea was first grown in India [1].\nGreen tea   has no caffeine.\n'
+
+const REPLY = `Here are the claims:
+\`\`\`json
+[
+  {"claim": "Tea was first grown in India.", "quote": "Tea was first grown in India [1].", "verdict": "Contradicted", "explanation": "It was first grown in China [2].", "sources": [2, "x"]},
+  {"claim": "Green tea has no caffeine.", "quote": "\\"Green tea has no caffeine.\\"", "verdict": "unsupported", "explanation": "Green tea has some caffeine."},
+  {"claim": "Tea is a drink.", "quote": "Tea is popular.", "verdict": "supported"},
+  {"claim": "Made up", "verdict": "maybe"}
+]
+\`\`\``
+
+describe('factCheck', () => {
+  it('parses the checked claims and finds their passages', () => {
+    const claims = parseVerification(REPLY, RESEARCH)
+
+    expect(claims).toEqual([
+      {
+        id: 'claim-1',
+        claim: 'Tea was first grown in India.',
+        quote: 'Tea was first grown in India [1].',
+        verdict: 'contradicted',
+        explanation: 'It was first grown in China [2].',
+        sources: [2],
+        status: 'open'
+      },
+      { id: 'claim-2', claim: 'Green tea has no caffeine.', quote: 'Green tea   has no caffeine.', verdict: 'unsupported', explanation: 'Green tea has some caffeine.', status: 'open' },
+      { id: 'claim-3', claim: 'Tea is a drink.', verdict: 'supported', explanation: '', status: 'open' }
+    ])
+    expect(() => parseVerification('All claims look fine.', RESEARCH)).toThrow('not a list of claims')
+  })
+
+  it('locates quotes despite whitespace differences', () => {
+    expect(locateQuote(RESEARCH, 'Green tea has no caffeine.')).toBe('Green tea   has no caffeine.')
+    expect(locateQuote(RESEARCH, 'Coffee')).toBeUndefined()
+  })
+
+  it('marks open warnings in the research', () => {
+    const claims = parseVerification(REPLY, RESEARCH)
+    claims[1].status = 'accepted'
+
+    const annotated = annotateClaims(RESEARCH, claims)
+
+    expect(openWarnings(claims).map(claim => claim.id)).toEqual(['claim-1'])
+    expect(annotated).toContain(
+      'Tea was first grown in India [1].<a href="#claim-1" class="claim-warning claim-contradicted" title="Contradicted: It was first grown in China &#91;2&#93;.">⚠</a>'
+    )
+    expect(annotated).not.toContain('#claim-2')
+  })
+
+  it('replaces the passage of a claim', () => {
+    const claim: VerifiedClaim = { id: 'claim-1', claim: 'x', quote: 'in India [1]', verdict: 'contradicted', explanation: '', status: 'open' }
+
+    expect(replacePassage(RESEARCH, claim.quote!, ' in China $1 ')).toContain('Tea was first grown in China $1.')
+    expect(replacePassage(RESEARCH, 'missing', 'x')).toBe(RESEARCH)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { createMockProvider } from '~/utils/llmProviders'
+import type { LLMProvider } from '~/utils/llmProviders'
+import { cancelJob, countJobListeners, createJob, getJob, subscribeToJob } from '~/utils/jobManager'
+
+const request = {
+  model: 'mock/deterministic',
+  messages: [{ role: 'user' as const, content: 'Research the history of tea' }]
+}
+
+const collectContent = async (id: string, offset = 0) => {
+  const subscription = subscribeToJob(id, offset)
+  if (!subscription) throw new Error('Unknown job')
+
+  let content = ''
+  for await (const { chunk } of subscription) content += chunk.content
+  return content
+}
+
+describe('jobManager', () => {
+  it('streams a job to completion and keeps its content', async () => {
+    const job = createJob(request, createMockProvider())
+
+    const content = await collectContent(job.id)
+    const expected = await createMockProvider().complete(request)
+
+    expect(content).toBe(expected.content)
+    expect(getJob(job.id)?.status).toBe('completed')
+    expect(getJob(job.id)?.content).toBe(expected.content)
+  })
+
+  it('replays only the chunks after the offset', async () => {
+    const job = createJob(request, createMockProvider())
+    const full = await collectContent(job.id)
+
+    const subscription = subscribeToJob(job.id, 3)
+    const first = await subscription!.next()
+
+    expect(first.value?.index).toBe(3)
+    expect(full.endsWith(await collectContent(job.id, 3))).toBe(true)
+  })
+
+  it('cancels a running job and keeps the partial content', async () => {
+    const job = createJob(request, createMockProvider(5))
+
+    const subscription = subscribeToJob(job.id)!
+    await subscription.next()
+    cancelJob(job.id)
+
+    let received = 0
+    for await (const _ of subscription) received++
+
+    const cancelled = getJob(job.id)
+    expect(cancelled?.status).toBe('cancelled')
+    expect(cancelled?.chunkCount).toBeLessThan(10)
+    expect(received).toBeLessThan(10)
+  })
+
+  it('releases a waiting subscriber when it is aborted', async () => {
+    // Sends nothing until the job is cancelled
+    const stalled: LLMProvider = {
+      id: 'mock',
+      complete: () => createMockProvider().complete(request),
+      stream: async (_request, signal) => (async function* () {
+        await new Promise(resolve => signal?.addEventListener('abort', resolve))
+      })()
+    }
+    const job = createJob(request, stalled)
+    const disconnect = new AbortController()
+
+    const pending = subscribeToJob(job.id, 0, disconnect.signal)!.next()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(countJobListeners(job.id)).toBe(1)
+
+    disconnect.abort()
+
+    expect((await pending).done).toBe(true)
+    expect(countJobListeners(job.id)).toBe(0)
+    expect(getJob(job.id)?.status).toBe('running')
+    cancelJob(job.id)
+  })
+
+  it('returns null for unknown jobs', () => {
+    expect(getJob('missing')).toBeNull()
+    expect(cancelJob('missing')).toBeNull()
+    expect(subscribeToJob('missing')).toBeNull()
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { filterLibrary, libraryFacets, matchesSearchText, parseTags } from '~/utils/library'
+import type { LibraryEntry } from '~/types/research'
+
+const entry = (sessionId: string, fields: Partial<LibraryEntry>): LibraryEntry => ({
+  topic: sessionId,
+  subtopics: [],
+  content: '',
+  sessionId,
+  title: sessionId,
+  tags: [],
+  templates: [],
+  outlineCount: 0,
+  deckCount: 0,
+  timestamp: '2025-01-01T10:00:00.000Z',
+  updatedAt: '2025-01-01T10:00:00.000Z',
+  ...fields
+})
+
+const ENTRIES = [
+  entry('tea', { model: 'model/a', tags: ['drinks'], templates: ['Default'], timestamp: '2025-01-05T10:00:00.000Z', content: 'Assam and Darjeeling' }),
+  entry('coffee', { model: 'model/b', tags: ['drinks', 'trade'], timestamp: '2025-02-01T10:00:00.000Z', subtopics: ['Brazil'] }),
+  entry('cocoa', { timestamp: '2025-03-01T10:00:00.000Z' })
+]
+
+describe('library', () => {
+  it('filters by date range, model, tag and template', () => {
+    const ids = (filters: Parameters<typeof filterLibrary>[1]) => filterLibrary(ENTRIES, filters).map(item => item.sessionId)
+
+    expect(ids({})).toEqual(['tea', 'coffee', 'cocoa'])
+    expect(ids({ from: '2025-01-06', to: '2025-03-01' })).toEqual(['coffee', 'cocoa'])
+    expect(ids({ to: '2025-01-05' })).toEqual(['tea'])
+    expect(ids({ model: 'model/b' })).toEqual(['coffee'])
+    expect(ids({ tag: 'drinks', template: 'Default' })).toEqual(['tea'])
+  })
+
+  it('searches topics, subtopics and content', () => {
+    expect(ENTRIES.filter(item => matchesSearchText(item, 'darjeeling')).map(item => item.sessionId)).toEqual(['tea'])
+    expect(ENTRIES.filter(item => matchesSearchText(item, 'brazil')).map(item => item.sessionId)).toEqual(['coffee'])
+  })
+
+  it('lists the values of the filters', () => {
+    expect(libraryFacets(ENTRIES)).toEqual({ models: ['model/a', 'model/b'], tags: ['drinks', 'trade'], templates: ['Default'] })
+  })
+
+  it('parses comma-separated tags', () => {
+    expect(parseTags(' tea,  green   tea, ,tea ')).toEqual(['tea', 'green tea'])
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createOpenAICompatibleProvider } from '~/utils/llmProviders'
+import {
+  CassetteMissError,
+  createCassetteFetch,
+  createFileCassetteStore,
+  createMemoryCassetteStore,
+  hashRequest
+} from '~/utils/llmCassette'
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1'
+
+const request = {
+  model: 'deepseek/deepseek-chat-v3-0324:free',
+  messages: [{ role: 'user' as const, content: 'Summarize the history of tea in two sentences.' }],
+  max_tokens: 200
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+const sseResponse = (events: string[]) => {
+  const encoder = new TextEncoder()
+  return new Response(new ReadableStream({
+    start(controller) {
+      events.forEach(event => controller.enqueue(encoder.encode(event)))
+      controller.close()
+    }
+  }), { status: 200, headers: { 'content-type': 'text/event-stream' } })
+}
+
+describe('llmCassette', () => {
+  it('hashes equivalent requests the same regardless of key order and whitespace', () => {
+    const a = hashRequest('http://x/chat', { model: 'm', messages: [{ role: 'user', content: 'Hi ' }], temperature: undefined })
+    const b = hashRequest('http://x/chat', { messages: [{ content: 'Hi', role: 'user' }], model: 'm' })
+    const c = hashRequest('http://x/chat', { messages: [{ content: 'Hello', role: 'user' }], model: 'm' })
+
+    expect(a).toBe(b)
+    expect(a).not.toBe(c)
+  })
+
+  it('records raw SSE chunks and replays them byte for byte', async () => {
+    const events = [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n'
+    ]
+    const store = createMemoryCassetteStore()
+    const upstream = vi.fn().mockResolvedValue(sseResponse(events))
+
+    const recorder = createOpenAICompatibleProvider('openrouter', {
+      baseUrl: OPENROUTER_URL,
+      fetch: createCassetteFetch('record', store, {}, upstream)
+    })
+    const recorded = await collect(await recorder.stream(request))
+
+    expect(store.cassettes.size).toBe(1)
+    const [cassette] = [...store.cassettes.values()]
+    expect(cassette.response.chunks.map(chunk => chunk.data)).toEqual(events)
+
+    const player = createOpenAICompatibleProvider('openrouter', {
+      baseUrl: OPENROUTER_URL,
+      fetch: createCassetteFetch('replay', store, { timing: false })
+    })
+    const replayed = await collect(await player.stream(request))
+
+    expect(replayed).toEqual(recorded)
+    expect(upstream).toHaveBeenCalledTimes(1)
+  })
+
+  it('replays recorded error responses', async () => {
+    const store = createMemoryCassetteStore()
+    const upstream = vi.fn().mockResolvedValue(new Response('rate limited', { status: 429, statusText: 'Too Many Requests' }))
+    const options = { baseUrl: OPENROUTER_URL }
+
+    const recorder = createOpenAICompatibleProvider('openrouter', { ...options, fetch: createCassetteFetch('record', store, {}, upstream) })
+    await recorder.complete(request).catch(() => {})
+    // Let the cassette write finish
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    const player = createOpenAICompatibleProvider('openrouter', { ...options, fetch: createCassetteFetch('replay', store, { timing: false }) })
+    const error = await player.complete(request).catch(err => err)
+
+    expect(error.status).toBe(429)
+    expect(error.body).toBe('rate limited')
+  })
+
+  it('fails loudly on a replay miss', async () => {
+    const player = createOpenAICompatibleProvider('openrouter', {
+      baseUrl: OPENROUTER_URL,
+      fetch: createCassetteFetch('replay', createMemoryCassetteStore(), { location: 'memory' })
+    })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const error = await player.complete(request).catch(err => err)
+
+    expect(error).toBeInstanceOf(CassetteMissError)
+    expect(error.message).toContain('deepseek/deepseek-chat-v3-0324:free')
+    expect(error.message).toContain('LLM_CASSETTE_MODE=record')
+  })
+
+  it('replays a recorded OpenRouter stream with keep-alives and split events', async () => {
+    const player = createOpenAICompatibleProvider('openrouter', {
+      baseUrl: OPENROUTER_URL,
+      fetch: createCassetteFetch('replay', createFileCassetteStore('tests/fixtures/cassettes'), { timing: false })
+    })
+
+    const chunks = await collect(await player.stream(request))
+    const content = chunks.map(chunk => chunk.content).join('')
+
+    expect(content).toMatch(/^Tea originated in southwest China/)
+    expect(content).toMatch(/17th century\.$/)
+    expect(chunks[chunks.length - 1].usage?.total_tokens).toBe(57)
+  })
+})
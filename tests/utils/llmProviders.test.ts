@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  buildMockResponse,
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  getLLMProvider,
+  LLMProviderError,
+  parseRetryAfter
+} from '~/utils/llmProviders'
+
+const request = {
+  model: 'test-model',
+  messages: [{ role: 'user' as const, content: 'Research the history of tea' }]
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+describe('llmProviders', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  describe('mock provider', () => {
+    it('returns the same response for the same request', async () => {
+      const provider = createMockProvider()
+
+      const first = await provider.complete(request)
+      const second = await provider.complete(request)
+
+      expect(first.content).toBe(second.content)
+      expect(first.content).toContain('Research the history of tea')
+      expect(first.usage?.total_tokens).toBeGreaterThan(0)
+    })
+
+    it('streams the same text it returns when not streaming', async () => {
+      const provider = createMockProvider()
+
+      const chunks = await collect(await provider.stream(request))
+      const streamed = chunks.map(chunk => chunk.content).join('')
+
+      expect(streamed).toBe(buildMockResponse(request))
+      expect(chunks[chunks.length - 1].usage).toBeDefined()
+    })
+
+    it('returns a slide deck for outline prompts', () => {
+      const content = buildMockResponse({
+        model: 'test-model',
+        messages: [{ role: 'user', content: 'Create a presentation outline for tea' }]
+      })
+
+      expect(content).toContain('\n---\n')
+    })
+  })
+
+  describe('openai-compatible provider', () => {
+    it('posts to the chat completions endpoint of the base URL', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: 'c1', model: 'local', choices: [{ message: { content: 'Hi' } }] })
+      })
+      const provider = createOpenAICompatibleProvider('openai-compatible', { baseUrl: 'http://localhost:8080/v1/' })
+
+      const completion = await provider.complete(request)
+
+      expect(globalThis.fetch).toHaveBeenCalledWith('http://localhost:8080/v1/chat/completions', expect.any(Object))
+      expect(completion.content).toBe('Hi')
+      expect(completion.model).toBe('local')
+    })
+
+    it('parses streamed chunks into normalized content', async () => {
+      const encoder = new TextEncoder()
+      const body = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n'))
+          controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n'))
+          controller.close()
+        }
+      })
+      globalThis.fetch = vi.fn().mockResolvedValue({ ok: true, body })
+      const provider = createOpenAICompatibleProvider('openai-compatible', { baseUrl: 'http://localhost:8080/v1' })
+
+      const chunks = await collect(await provider.stream(request))
+
+      expect(chunks.map(chunk => chunk.content).join('')).toBe('Hello')
+    })
+
+    it('raises LLMProviderError with the upstream status', async () => {
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        text: () => Promise.resolve('rate limited')
+      })
+      const provider = createOpenAICompatibleProvider('openrouter', { baseUrl: 'https://example.test/v1' })
+
+      const error = await provider.complete(request).catch(err => err)
+
+      expect(error).toBeInstanceOf(LLMProviderError)
+      expect(error.status).toBe(429)
+      expect(error.body).toBe('rate limited')
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('accepts seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z')
+
+      expect(parseRetryAfter('3', now)).toBe(3000)
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000)
+      expect(parseRetryAfter('soon', now)).toBeUndefined()
+      expect(parseRetryAfter(null, now)).toBeUndefined()
+    })
+  })
+
+  describe('getLLMProvider', () => {
+    it('selects the provider named in the config', () => {
+      expect(getLLMProvider({ provider: 'mock' }).id).toBe('mock')
+      expect(getLLMProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' }).id).toBe('openai-compatible')
+      expect(getLLMProvider({ provider: 'openrouter' }, 'key').id).toBe('openrouter')
+    })
+
+    it('rejects incomplete configurations', () => {
+      expect(() => getLLMProvider({ provider: 'openai-compatible' })).toThrow('LLM_BASE_URL')
+      expect(() => getLLMProvider({ provider: 'openrouter' })).toThrow('API key')
+      expect(() => getLLMProvider({ provider: 'unknown' })).toThrow('Unknown LLM provider')
+    })
+  })
+})
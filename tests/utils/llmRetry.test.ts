@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LLMProviderError, createMockProvider } from '~/utils/llmProviders'
+import type { LLMProvider } from '~/utils/llmProviders'
+import {
+  buildModelChain,
+  createResilientProvider,
+  getBackoffDelay,
+  isRetryableError,
+  runWithFallback
+} from '~/utils/llmRetry'
+
+const request = {
+  model: 'primary',
+  messages: [{ role: 'user' as const, content: 'Research the history of tea' }]
+}
+
+const policy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 }
+
+describe('llmRetry', () => {
+  it('treats rate limits, server errors and network failures as retryable', () => {
+    expect(isRetryableError(new LLMProviderError('rate limited', 429))).toBe(true)
+    expect(isRetryableError(new LLMProviderError('bad gateway', 502))).toBe(true)
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true)
+    expect(isRetryableError(new LLMProviderError('bad request', 400))).toBe(false)
+    expect(isRetryableError(new Error('Request aborted'))).toBe(false)
+  })
+
+  it('grows the backoff exponentially with jitter and caps it', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 }
+
+    expect(getBackoffDelay(0, policy, () => 0)).toBe(50)
+    expect(getBackoffDelay(0, policy, () => 0.999)).toBeLessThanOrEqual(100)
+    expect(getBackoffDelay(2, policy, () => 0)).toBe(200)
+    expect(getBackoffDelay(10, policy, () => 0.999)).toBeLessThanOrEqual(1000)
+  })
+
+  it('builds a model chain without duplicates', () => {
+    expect(buildModelChain('a', ['b', ' a', '', 'c'])).toEqual(['a', 'b', 'c'])
+  })
+
+  it('retries a transient failure with the same model', async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new LLMProviderError('rate limited', 429))
+      .mockResolvedValueOnce('ok')
+
+    const { result, model } = await runWithFallback(request, attempt, { policy, fallbackModels: ['backup'] })
+
+    expect(result).toBe('ok')
+    expect(model).toBe('primary')
+    expect(attempt).toHaveBeenCalledTimes(2)
+  })
+
+  it('honors Retry-After when it is within the maximum delay', async () => {
+    const onRetry = vi.fn()
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new LLMProviderError('rate limited', 429, '', 5))
+      .mockResolvedValueOnce('ok')
+
+    await runWithFallback(request, attempt, { policy, fallbackModels: [], onRetry })
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 5 }))
+  })
+
+  it('falls back to the next model once retries are exhausted', async () => {
+    const attempt = vi.fn(async (req: { model: string }) => {
+      if (req.model === 'primary') throw new LLMProviderError('unavailable', 503)
+      return `answered by ${req.model}`
+    })
+
+    const { result, model } = await runWithFallback(request, attempt, { policy, fallbackModels: ['backup'] })
+
+    expect(model).toBe('backup')
+    expect(result).toBe('answered by backup')
+    expect(attempt).toHaveBeenCalledTimes(policy.maxRetries + 2)
+  })
+
+  it('stops immediately when the API key is rejected', async () => {
+    const attempt = vi.fn().mockRejectedValue(new LLMProviderError('unauthorized', 401))
+
+    await expect(runWithFallback(request, attempt, { policy, fallbackModels: ['backup'] })).rejects.toThrow('unauthorized')
+    expect(attempt).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports the fallback model on completions and chunks', async () => {
+    const mock = createMockProvider()
+    const flaky: LLMProvider = {
+      id: 'mock',
+      complete: (req, signal) => req.model === 'primary'
+        ? Promise.reject(new LLMProviderError('rate limited', 429))
+        : mock.complete(req, signal),
+      stream: (req, signal) => req.model === 'primary'
+        ? Promise.reject(new LLMProviderError('rate limited', 429))
+        : mock.stream(req, signal)
+    }
+    const provider = createResilientProvider(flaky, { policy, fallbackModels: ['backup'] })
+
+    const completion = await provider.complete(request)
+    const models = new Set<string | undefined>()
+    for await (const chunk of await provider.stream(request)) models.add(chunk.model)
+
+    expect(completion.model).toBe('backup')
+    expect([...models]).toEqual(['backup'])
+  })
+})
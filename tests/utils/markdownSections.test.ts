@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import {
+  appendToMarkdownSection,
+  joinMarkdownSections,
+  replaceMarkdownSection,
+  splitMarkdownSections
+} from '~/utils/markdownSections'
+
+const doc = `Intro text
+
+# Tea
+
+## History
+Tea began in China.
+
+## Trade
+Tea spread along trade routes.
+
+\`\`\`r
+# not a heading
+plot(1:10)
+\`\`\`
+`
+
+describe('markdownSections', () => {
+  it('splits at headings and ignores headings in code blocks', () => {
+    const sections = splitMarkdownSections(doc)
+
+    expect(sections.map(section => section.heading)).toEqual(['', 'Tea', 'History', 'Trade'])
+    expect(sections.map(section => section.level)).toEqual([0, 1, 2, 2])
+    expect(sections[3].content).toContain('# not a heading')
+  })
+
+  it('joins sections back into the original document', () => {
+    expect(joinMarkdownSections(splitMarkdownSections(doc))).toBe(doc)
+  })
+
+  it('replaces a section body and keeps its heading', () => {
+    const updated = replaceMarkdownSection(doc, 2, 'Tea was first recorded in the 3rd century.')
+
+    expect(updated).toContain('## History\nTea was first recorded in the 3rd century.\n\n## Trade')
+    expect(updated).not.toContain('Tea began in China.')
+  })
+
+  it('uses the heading of the replacement when it has one', () => {
+    const updated = replaceMarkdownSection(doc, 2, '## Early History\nTea was first recorded in the 3rd century.')
+
+    expect(updated).toContain('## Early History')
+    expect(updated).not.toContain('## History\n')
+  })
+
+  it('appends to a section or to the end of the document', () => {
+    const inSection = appendToMarkdownSection(doc, 2, 'It was used as medicine.')
+    const atEnd = appendToMarkdownSection(doc, undefined, '## Sources\n- Example')
+
+    expect(inSection).toContain('Tea began in China.\n\nIt was used as medicine.\n\n## Trade')
+    expect(atEnd.trimEnd().endsWith('## Sources\n- Example')).toBe(true)
+    expect(appendToMarkdownSection('', undefined, 'First')).toBe('First\n')
+  })
+})
@@ -85,6 +85,16 @@ describe('marpUtils', () => {
       expect(marpContent).toContain('# Slide 2')
       expect(marpContent).toContain('Content 2')
     })
+
+    it('centers title slides without touching comments in R chunks', () => {
+      const rmdContent = '---\ntitle: Tea\n---\n\n# Tea\n\n```{r}\n# cups per day\nplot(1:3)\n```\n'
+
+      const marpContent = convertRMdToMarp(rmdContent, TEMPLATES[0])
+
+      expect(marpContent).toContain('<!-- _class: lead -->\n# Tea')
+      expect(marpContent).toContain('```{r}\n# cups per day\n')
+      expect(marpContent).not.toContain('title: Tea')
+    })
   })
 
   describe('getContrastColor', () => {
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  clampMaxTokens,
+  DEFAULT_MODEL_ID,
+  estimateCost,
+  formatModelCost,
+  formatUsd,
+  getModelCatalog,
+  getModelInfo,
+  MODEL_CATALOG,
+  resolveStageModel,
+  sumTokenUsage,
+  toTokenUsage
+} from '~/utils/modelCatalog'
+
+describe('modelCatalog', () => {
+  it('contains the default model', () => {
+    expect(getModelInfo(DEFAULT_MODEL_ID)).toBeDefined()
+  })
+
+  describe('getModelCatalog', () => {
+    it('appends unknown extra models with conservative limits', () => {
+      const catalog = getModelCatalog(['local/llama-3', ''])
+
+      expect(catalog).toHaveLength(MODEL_CATALOG.length + 1)
+      expect(getModelInfo('local/llama-3', catalog)?.maxOutput).toBe(4096)
+    })
+
+    it('does not duplicate models already in the catalog', () => {
+      expect(getModelCatalog([DEFAULT_MODEL_ID])).toHaveLength(MODEL_CATALOG.length)
+    })
+  })
+
+  describe('resolveStageModel', () => {
+    const defaults = { research: 'cheap/model', outline: 'strong/model' }
+
+    it('prefers an explicit override', () => {
+      expect(resolveStageModel('research', defaults, 'override/model')).toBe('override/model')
+    })
+
+    it('falls back to the stage default', () => {
+      expect(resolveStageModel('outline', defaults)).toBe('strong/model')
+    })
+
+    it('falls back to the global default for unconfigured stages', () => {
+      expect(resolveStageModel('rewrite', defaults)).toBe(DEFAULT_MODEL_ID)
+    })
+  })
+
+  describe('clampMaxTokens', () => {
+    it('limits requests to the model maximum output', () => {
+      expect(clampMaxTokens('google/gemini-2.0-flash-001', 128000)).toBe(8192)
+      expect(clampMaxTokens('google/gemini-2.0-flash-001', 2000)).toBe(2000)
+    })
+
+    it('leaves unknown models untouched', () => {
+      expect(clampMaxTokens('unknown/model', 128000)).toBe(128000)
+    })
+  })
+
+  describe('formatModelCost', () => {
+    it('labels free models', () => {
+      expect(formatModelCost(getModelInfo(DEFAULT_MODEL_ID)!)).toBe('Free')
+    })
+
+    it('shows prompt and completion prices', () => {
+      expect(formatModelCost(getModelInfo('openai/gpt-4o-mini')!)).toContain('$0.15 / $0.6')
+    })
+  })
+
+  describe('cost accounting', () => {
+    it('prices usage from the catalog', () => {
+      const model = getModelInfo('openai/gpt-4o-mini')!
+      const cost = estimateCost(model.id, { prompt_tokens: 1_000_000, completion_tokens: 1_000_000 })
+
+      expect(cost).toBeCloseTo(model.cost.prompt + model.cost.completion)
+      expect(estimateCost(DEFAULT_MODEL_ID, { prompt_tokens: 5000, completion_tokens: 5000 })).toBe(0)
+      expect(estimateCost('unknown/model', { prompt_tokens: 5000, completion_tokens: 5000 })).toBe(0)
+    })
+
+    it('keeps a cost already computed by the server', () => {
+      const usage = toTokenUsage('openai/gpt-4o-mini', { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, cost: 0.5 })
+
+      expect(usage).toEqual({ model: 'openai/gpt-4o-mini', promptTokens: 10, completionTokens: 5, totalTokens: 15, cost: 0.5 })
+    })
+
+    it('adds up the usage of several calls', () => {
+      const total = sumTokenUsage([
+        { model: 'a', promptTokens: 10, completionTokens: 5, totalTokens: 15, cost: 0.1, cached: true },
+        null,
+        { model: 'b', promptTokens: 20, completionTokens: 10, totalTokens: 30, cost: 0.2, estimated: true }
+      ])
+
+      expect(total).toEqual({ model: 'b', promptTokens: 30, completionTokens: 15, totalTokens: 45, cost: expect.closeTo(0.3), estimated: true })
+      expect(sumTokenUsage([undefined, null])).toBeUndefined()
+    })
+
+    it('formats small amounts with extra precision', () => {
+      expect(formatUsd(0)).toBe('$0.00')
+      expect(formatUsd(0.00123)).toBe('$0.0012')
+      expect(formatUsd(1.5)).toBe('$1.50')
+    })
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { isOutlineVariant, latestVariants, outlineStats, variantInstruction } from '~/utils/outlineVariants'
+import type { PresentationOutline } from '~/types/research'
+
+const outline = (variant: PresentationOutline['variant'], content: string, timestamp: string): PresentationOutline => ({
+  content,
+  format: 'markdown',
+  ...(variant ? { variant } : {}),
+  timestamp
+})
+
+describe('outlineVariants', () => {
+  it('describes the slide budget, vocabulary and charts of a variant', () => {
+    expect(variantInstruction('executive')).toContain('use at most 6 slides')
+    expect(variantInstruction('teaching')).toContain('define each term')
+    expect(variantInstruction(undefined)).toBeUndefined()
+    expect(isOutlineVariant('technical')).toBe(true)
+    expect(isOutlineVariant('marketing')).toBe(false)
+  })
+
+  it('counts slides, charts and words without the front matter and code', () => {
+    const stats = outlineStats('---\ntitle: "Tea"\n---\n\n# Tea trade\n\n| Year | Tonnes |\n|---|---|\n| 1900 | 5 |\n\n---\n\n# Prices\n\n```{r}\nplot(prices, main = "ignored words here")\n```\n\n![Map](map.png)')
+
+    expect(stats).toEqual({ slides: 2, charts: 3, wordsPerSlide: 4 })
+    expect(outlineStats('')).toEqual({ slides: 0, charts: 0, wordsPerSlide: 0 })
+  })
+
+  it('keeps the newest outline of each variant', () => {
+    const history = [
+      outline('teaching', '# Old lecture', '2025-01-01T10:00:00.000Z'),
+      outline(undefined, '# Regular', '2025-01-01T11:00:00.000Z'),
+      outline('executive', '# Summary', '2025-01-01T12:00:00.000Z'),
+      outline('teaching', '# Lecture', '2025-01-01T13:00:00.000Z')
+    ]
+
+    expect(latestVariants(history).map(item => item.content)).toEqual(['# Summary', '# Lecture'])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createPromptRegistry } from '~/utils/promptRegistry'
+import { PromptTemplateError, getBuiltInPrompt } from '~/utils/promptTemplates'
+
+describe('promptRegistry', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'prompts-'))
+  })
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true })
+  })
+
+  it('starts with the built-in version active', async () => {
+    const registry = createPromptRegistry(dir)
+
+    const templates = await registry.list()
+    expect(templates.map(template => template.id)).toEqual(['research', 'plan', 'subquestion', 'synthesis', 'verify', 'revise', 'section', 'extract', 'outline', 'deck', 'translate'])
+    expect(templates[0].activeVersion).toBe(1)
+    expect(await registry.getActive('research')).toEqual(getBuiltInPrompt('research'))
+  })
+
+  it('saves versions as files and activates them', async () => {
+    const registry = createPromptRegistry(dir)
+
+    const saved = await registry.createVersion('research', 'Research {{topic}} briefly.', 'Shorter')
+    expect(saved.version).toBe(2)
+    expect(await fs.promises.readFile(path.join(dir, 'research', 'v2.md'), 'utf-8')).toBe('Research {{topic}} briefly.')
+
+    // New versions are not used until activated
+    expect((await registry.getActive('research')).version).toBe(1)
+
+    const template = await registry.activate('research', 2)
+    expect(template.activeVersion).toBe(2)
+    expect(template.versions.map(version => version.version)).toEqual([1, 2])
+    expect(await createPromptRegistry(dir).getActive('research')).toMatchObject({ version: 2, note: 'Shorter' })
+  })
+
+  it('rejects invalid templates with the validation errors', async () => {
+    const registry = createPromptRegistry(dir)
+
+    const error = await registry.createVersion('research', 'No variables here').catch(e => e)
+
+    expect(error).toBeInstanceOf(PromptTemplateError)
+    expect(error.status).toBe(422)
+    expect(error.errors).toEqual(['Required variable {{topic}} is not used'])
+  })
+
+  it('reports unknown templates and versions as not found', async () => {
+    const registry = createPromptRegistry(dir)
+
+    await expect(registry.get('summary')).rejects.toMatchObject({ status: 404 })
+    await expect(registry.getVersion('research', 7)).rejects.toMatchObject({ status: 404 })
+    await expect(registry.activate('research', 7)).rejects.toMatchObject({ status: 404 })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PROMPT_TEMPLATE_DEFINITIONS,
+  PROMPT_TEMPLATE_IDS,
+  PromptTemplateError,
+  formatPromptVersion,
+  getBuiltInPrompt,
+  renderPrompt,
+  renderPromptTemplate,
+  validatePromptTemplate
+} from '~/utils/promptTemplates'
+import type { PromptVariable } from '~/types/prompts'
+
+const variables: PromptVariable[] = [
+  { name: 'topic', type: 'string', description: 'Topic', required: true },
+  { name: 'subtopics', type: 'string[]', description: 'Subtopics' },
+  { name: 'length', type: 'number', description: 'Length', default: 500 }
+]
+
+describe('promptTemplates', () => {
+  it('renders placeholders, lists and defaults', () => {
+    const text = 'Research {{topic}} covering {{ subtopics }} in {{length}} tokens.'
+
+    expect(renderPromptTemplate(text, variables, { topic: 'Tea', subtopics: ['History', 'Trade'] }))
+      .toBe('Research Tea covering History, Trade in 500 tokens.')
+  })
+
+  it('keeps sections only when their variable has a value', () => {
+    const text = 'Topic: {{topic}}\n{{#subtopics}}\nSubtopics: {{subtopics}}\n{{/subtopics}}\nEnd'
+
+    expect(renderPromptTemplate(text, variables, { topic: 'Tea', subtopics: ['History'] }))
+      .toBe('Topic: Tea\nSubtopics: History\nEnd')
+    expect(renderPromptTemplate(text, variables, { topic: 'Tea', subtopics: [' ', ''] }))
+      .toBe('Topic: Tea\nEnd')
+  })
+
+  it('rejects missing required values and wrong types', () => {
+    expect(() => renderPromptTemplate('{{topic}}', variables, {})).toThrow(PromptTemplateError)
+
+    try {
+      renderPromptTemplate('{{topic}}', variables, { topic: 'Tea', length: 'long' })
+    } catch (error) {
+      expect((error as PromptTemplateError).errors).toEqual(['length must be of type number'])
+    }
+  })
+
+  it('validates templates against their variables', () => {
+    expect(validatePromptTemplate('{{topic}} {{#subtopics}}{{subtopics}}{{/subtopics}}', variables)).toEqual([])
+    expect(validatePromptTemplate('{{audience}} {{#subtopics}}', variables)).toEqual([
+      'Unknown variable {{audience}}',
+      '{{#subtopics}} is never closed',
+      'Required variable {{topic}} is not used'
+    ])
+    expect(validatePromptTemplate('  ', variables)).toEqual(['The template is empty'])
+  })
+
+  it('ships a valid built-in version 1 of every template', () => {
+    for (const id of PROMPT_TEMPLATE_IDS) {
+      const prompt = getBuiltInPrompt(id)
+
+      expect(prompt.version).toBe(1)
+      expect(validatePromptTemplate(prompt.text, PROMPT_TEMPLATE_DEFINITIONS[id].variables)).toEqual([])
+    }
+  })
+
+  it('renders the built-in research prompt with the typos fixed', () => {
+    const { text, version } = renderPrompt(getBuiltInPrompt('research'), { topic: 'Tea', subtopics: ['Trade'], audience: 'students' })
+
+    expect(text).toContain('Conduct a thorough research study. Tea.')
+    expect(text).toContain('Cover the following subtopics: Trade.')
+    expect(text).toContain('Write for students.')
+    expect(text).toContain('less than 1000 tokens')
+    expect(text).toContain('data visualization')
+    expect(text).toContain('acknowledge')
+    expect(formatPromptVersion(version)).toBe('research@v1')
+  })
+
+  it('renders the brief settings into the research and outline prompts', () => {
+    const research = renderPrompt(getBuiltInPrompt('research'), {
+      topic: 'Tea',
+      tone: 'Use a neutral, factual tone and plain words.',
+      language: 'Spanish',
+      mustInclude: ['Opium Wars'],
+      mustAvoid: ['Brands']
+    }).text
+    const outline = renderPrompt(getBuiltInPrompt('outline'), { research: '# Tea', language: 'Spanish', mustAvoid: ['Brands'] }).text
+
+    expect(research).toContain('Make sure to cover: Opium Wars.')
+    expect(research).toContain('Do not include or discuss: Brands.')
+    expect(research).toContain('Write the whole document in Spanish.')
+    expect(research).toContain('Use a neutral, factual tone')
+    expect(research).not.toContain('formal words')
+    expect(renderPrompt(getBuiltInPrompt('research'), { topic: 'Tea' }).text).toContain('Be verbose and use formal words.')
+    expect(outline).toContain('Write all slide text in Spanish.')
+    expect(outline).toContain('Leave out: Brands.')
+    expect(outline).not.toContain('must cover')
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_BRIEF_LENGTH,
+  briefFromQuery,
+  briefPromptValues,
+  briefToQuery,
+  createResearchBrief,
+  describeBrief,
+  loadBriefSources,
+  saveBriefSources
+} from '~/utils/researchBrief'
+import type { ResearchBrief } from '~/types/research'
+
+const brief: ResearchBrief = {
+  topic: 'Tea',
+  subtopics: ['History', 'Trade'],
+  audience: 'students',
+  depth: 'in-depth',
+  tone: 'conversational',
+  length: 2000,
+  language: 'Spanish',
+  mustInclude: ['Opium Wars'],
+  mustAvoid: ['Health claims', 'Brands'],
+  citationStyle: 'apa'
+}
+
+describe('researchBrief', () => {
+  it('cleans untrusted input', () => {
+    expect(createResearchBrief({
+      topic: '  Tea ',
+      subtopics: ['History', ' ', 'History', 'Trade'],
+      audience: '   ',
+      depth: 'bottomless',
+      citationStyle: 'mla',
+      tone: 'neutral',
+      length: '99999',
+      language: ' Spanish ',
+      mustInclude: 'Opium Wars\n\n  Silk Road  ',
+      mustAvoid: []
+    })).toEqual({
+      topic: 'Tea',
+      subtopics: ['History', 'Trade'],
+      tone: 'neutral',
+      length: MAX_BRIEF_LENGTH,
+      language: 'Spanish',
+      mustInclude: ['Opium Wars', 'Silk Road']
+    })
+  })
+
+  it('round-trips through the /research query', () => {
+    const query = briefToQuery(brief)
+
+    expect(query.include).toEqual(['Opium Wars'])
+    expect(query.length).toBe('2000')
+    expect(query.style).toBe('apa')
+    expect(briefFromQuery(query)).toEqual(brief)
+  })
+
+  it('reads single and repeated query parameters and a bare topic', () => {
+    expect(briefFromQuery({ topic: 'Tea', subtopics: 'History', avoid: ['Brands', 'Health claims'] })).toEqual({
+      topic: 'Tea',
+      subtopics: ['History'],
+      mustAvoid: ['Brands', 'Health claims']
+    })
+    expect(briefFromQuery({ topic: 'Tea' })).toEqual({ topic: 'Tea', subtopics: [] })
+  })
+
+  it('turns depth and tone into prompt instructions', () => {
+    const values = briefPromptValues(brief)
+
+    expect(values.depth).toMatch(/^Go in depth/)
+    expect(values.tone).toMatch(/conversational tone/)
+    expect(values.language).toBe('Spanish')
+    expect(values.mustAvoid).toEqual(['Health claims', 'Brands'])
+    expect(briefPromptValues({ topic: 'Tea', subtopics: [], depth: 'standard' }).depth).toBeUndefined()
+  })
+
+  it('describes the settings of a brief', () => {
+    expect(describeBrief(brief)).toEqual([
+      'For students',
+      'In-depth',
+      'Conversational',
+      '~2,000 tokens',
+      'Spanish',
+      'Must include: Opium Wars',
+      'Avoid: Health claims, Brands',
+      'APA (author-date)'
+    ])
+    expect(describeBrief({ topic: 'Tea', subtopics: [], depth: 'standard' })).toEqual([])
+  })
+
+  it('hands the sources over through localStorage', () => {
+    const sources = [{ kind: 'note' as const, title: 'Interview notes', text: 'Organic since 2015.' }]
+
+    saveBriefSources(sources)
+    expect(loadBriefSources()).toEqual(sources)
+    expect(briefToQuery({ topic: 'Tea', subtopics: [], sources })).toEqual({ topic: 'Tea' })
+
+    saveBriefSources([])
+    expect(loadBriefSources()).toEqual([])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { createPlanSteps, formatFindings, parseResearchPlan, runWithConcurrency } from '~/utils/researchPlanner'
+
+describe('researchPlanner', () => {
+  describe('parseResearchPlan', () => {
+    it('reads a JSON array of strings and objects', () => {
+      const reply = 'Here is the plan:\n```json\n[\n  "What is tea?",\n  {"question": "How is tea grown?", "subtopic": "Farming"}\n]\n```'
+
+      expect(parseResearchPlan(reply, 'Tea')).toEqual([
+        { question: 'What is tea?' },
+        { question: 'How is tea grown?', subtopic: 'Farming' }
+      ])
+    })
+
+    it('reads numbered and bulleted lists when the reply is not JSON', () => {
+      const reply = '1. What is tea?\n2) **How is tea grown?**\n- Who drinks tea?\nSome closing remark'
+
+      expect(parseResearchPlan(reply, 'Tea').map(item => item.question)).toEqual([
+        'What is tea?',
+        'How is tea grown?',
+        'Who drinks tea?'
+      ])
+    })
+
+    it('drops duplicates and keeps at most the requested number of questions', () => {
+      const reply = JSON.stringify(['What is tea?', 'what is tea?', 'How is tea grown?', 'Who drinks tea?'])
+
+      expect(parseResearchPlan(reply, 'Tea', [], 2).map(item => item.question)).toEqual(['What is tea?', 'How is tea grown?'])
+    })
+
+    it('falls back to one question per subtopic, or to the topic itself', () => {
+      expect(parseResearchPlan('I cannot help with that.', 'Tea', ['History', 'Farming'])).toEqual([
+        { question: 'What should be known about History in the context of Tea?', subtopic: 'History' },
+        { question: 'What should be known about Farming in the context of Tea?', subtopic: 'Farming' }
+      ])
+      expect(parseResearchPlan('', 'Tea')).toEqual([{ question: 'Tea' }])
+    })
+  })
+
+  it('creates pending steps with stable ids', () => {
+    expect(createPlanSteps([{ question: 'A' }, { question: 'B', subtopic: 'S' }])).toEqual([
+      { id: 'step-1', question: 'A', status: 'pending', content: '' },
+      { id: 'step-2', question: 'B', subtopic: 'S', status: 'pending', content: '' }
+    ])
+  })
+
+  it('never runs more workers than the limit and survives failing workers', async () => {
+    let running = 0
+    let peak = 0
+    const done: number[] = []
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+      if (item === 2) throw new Error('boom')
+      done.push(item)
+    })
+
+    expect(peak).toBe(2)
+    expect(done.sort()).toEqual([1, 3, 4, 5])
+  })
+
+  it('formats only the completed steps as findings', () => {
+    const steps = createPlanSteps([{ question: 'What is tea?', subtopic: 'Basics' }, { question: 'How is tea grown?' }, { question: 'Who drinks tea?' }])
+    steps[0] = { ...steps[0], status: 'completed', content: 'A drink.\n' }
+    steps[1] = { ...steps[1], status: 'failed', error: 'Timeout' }
+    steps[2] = { ...steps[2], status: 'completed', content: 'Everyone.' }
+
+    expect(formatFindings(steps)).toBe(
+      '### Finding 1 (Basics): What is tea?\n\nA drink.\n\n### Finding 2: Who drinks tea?\n\nEveryone.'
+    )
+  })
+})
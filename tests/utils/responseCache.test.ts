@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createStorage } from 'unstorage'
+import { createMockProvider } from '~/utils/llmProviders'
+import { createCachingProvider, createResponseCache, getCacheKey } from '~/utils/responseCache'
+import type { ResponseCache } from '~/utils/responseCache'
+
+const request = {
+  model: 'mock/deterministic',
+  messages: [{ role: 'user' as const, content: 'Research the history of tea' }],
+  max_tokens: 500
+}
+
+const options = { ttlMs: 60_000, maxEntries: 10, maxEntryBytes: 100_000 }
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+describe('responseCache', () => {
+  let cache: ResponseCache
+
+  beforeEach(() => {
+    cache = createResponseCache(createStorage(), options)
+  })
+
+  it('keys on model, messages and parameters but not on streaming', () => {
+    expect(getCacheKey({ ...request, stream: true })).toBe(getCacheKey(request))
+    expect(getCacheKey({ ...request, model: 'other' })).not.toBe(getCacheKey(request))
+    expect(getCacheKey({ ...request, temperature: 0.2 })).not.toBe(getCacheKey(request))
+  })
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers()
+    try {
+      await cache.set(request, { model: 'm', content: 'cached answer' })
+      expect(await cache.get(getCacheKey(request))).not.toBeNull()
+
+      vi.advanceTimersByTime(options.ttlMs + 1)
+      expect(await cache.get(getCacheKey(request))).toBeNull()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('enforces the size limits', async () => {
+    const small = createResponseCache(createStorage(), { ...options, maxEntries: 2, maxEntryBytes: 20 })
+
+    expect(await small.set(request, { model: 'm', content: 'x'.repeat(21) })).toBe(false)
+    for (const topic of ['a', 'b', 'c']) {
+      await small.set({ ...request, messages: [{ role: 'user', content: topic }] }, { model: 'm', content: topic })
+    }
+
+    expect(await small.list()).toHaveLength(2)
+  })
+
+  it('replays a cached completion as a stream identical to the original', async () => {
+    const upstream = createMockProvider()
+    const streamSpy = vi.spyOn(upstream, 'stream')
+    const provider = createCachingProvider(upstream, cache)
+
+    const first = await collect(await provider.stream(request))
+    const second = await collect(await provider.stream(request))
+
+    const text = (chunks: { content: string }[]) => chunks.map(chunk => chunk.content).join('')
+    expect(text(second)).toBe(text(first))
+    expect(second.length).toBeGreaterThan(1)
+    expect(second[second.length - 1].usage?.cached).toBe(true)
+    expect(second[second.length - 1].usage?.cost).toBe(0)
+    expect(streamSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('serves non-streamed requests from entries cached by streams', async () => {
+    const onLookup = vi.fn()
+    const provider = createCachingProvider(createMockProvider(), cache, onLookup)
+
+    await collect(await provider.stream(request))
+    const completion = await provider.complete(request)
+
+    expect(completion.content).toBe((await createMockProvider().complete(request)).content)
+    expect(onLookup.mock.calls.map(call => call[0])).toEqual(['miss', 'hit'])
+    expect((await cache.list())[0].hits).toBe(1)
+  })
+
+  it('does not cache cancelled streams', async () => {
+    const controller = new AbortController()
+    const provider = createCachingProvider(createMockProvider(), cache)
+
+    const stream = await provider.stream(request, controller.signal)
+    for await (const _ of stream) {
+      controller.abort()
+      break
+    }
+
+    expect(await cache.list()).toHaveLength(0)
+  })
+})
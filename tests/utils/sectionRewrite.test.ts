@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { SECTION_ACTIONS, SECTION_PLACEHOLDER, sectionContext, sectionInstruction } from '~/utils/sectionRewrite'
+
+const RESEARCH = 'Intro text.\n\n# Origins\n\nTea comes from China.\n\n# Trade\n\nTea was traded along the Silk Road.\n'
+
+describe('sectionRewrite', () => {
+  it('replaces the section body with a placeholder and keeps its heading', () => {
+    expect(sectionContext(RESEARCH, 1)).toBe(`Intro text.\n\n# Origins\n${SECTION_PLACEHOLDER}\n\n# Trade\n\nTea was traded along the Silk Road.\n`)
+    expect(sectionContext(RESEARCH, 0)).toContain(`${SECTION_PLACEHOLDER}\n\n# Origins`)
+    expect(sectionContext(RESEARCH, 9)).toBe(RESEARCH)
+  })
+
+  it('builds the instruction of each action', () => {
+    expect(sectionInstruction('condense')).toBe(SECTION_ACTIONS.condense.instruction)
+    expect(sectionInstruction('tone', 'conversational')).toBe('Rewrite the section, keeping its content. Use a conversational tone and everyday words.')
+    expect(sectionInstruction('tone')).toBe(SECTION_ACTIONS.tone.instruction)
+  })
+})
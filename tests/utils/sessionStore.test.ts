@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createStorage } from 'unstorage'
+import {
+  createSessionStore,
+  MAX_SESSION_DECKS,
+  MAX_SESSION_TAGS,
+  MAX_SESSION_VERSIONS,
+  normalizeSessionChanges,
+  normalizeTranslationInput,
+  normalizeVersionInput,
+  SessionStoreError
+} from '~/utils/sessionStore'
+import { MAX_DATASETS } from '~/utils/datasets'
+
+describe('sessionStore', () => {
+  let store: ReturnType<typeof createSessionStore>
+
+  beforeEach(() => {
+    store = createSessionStore(createStorage())
+  })
+
+  it('creates sessions titled after the topic of the brief', async () => {
+    const session = await store.create({ brief: { topic: 'Tea', subtopics: [] }, research: '# Tea' }, 'session-1')
+
+    expect(session).toMatchObject({
+      id: 'session-1',
+      title: 'Tea',
+      research: '# Tea',
+      researchHistory: [],
+      outline: '',
+      outlineHistory: [],
+      decks: [],
+      assets: []
+    })
+    expect(await store.get('session-1')).toEqual(session)
+    expect(await store.get('other')).toBeNull()
+    await expect(store.create({}, 'session-1')).rejects.toMatchObject({ status: 409 })
+  })
+
+  it('replaces the given fields and keeps the others', async () => {
+    const created = await store.create({ research: '# Tea', citationStyle: 'apa' }, 'session-1')
+
+    const updated = await store.update('session-1', { outline: '# Slides', citationStyle: '' })
+
+    expect(updated).toMatchObject({ research: '# Tea', outline: '# Slides', title: 'Untitled research', createdAt: created.createdAt })
+    expect(updated).not.toHaveProperty('citationStyle')
+    await expect(store.update('missing', {})).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('lists summaries, most recently updated first, and removes sessions', async () => {
+    await store.create({ title: 'Tea' }, 'tea')
+    await new Promise(resolve => setTimeout(resolve, 5))
+    await store.create({ title: 'Coffee' }, 'coffee')
+    await new Promise(resolve => setTimeout(resolve, 5))
+    await store.update('tea', { research: '# Tea' })
+
+    expect((await store.list()).map(session => [session.id, session.hasResearch])).toEqual([['tea', true], ['coffee', false]])
+    expect(await store.remove('tea')).toBe(true)
+    expect(await store.remove('tea')).toBe(false)
+    expect((await store.list()).map(session => session.id)).toEqual(['coffee'])
+  })
+
+  it('rejects unsafe ids and invalid fields', async () => {
+    await expect(store.get('../etc')).rejects.toThrow(SessionStoreError)
+    expect(() => normalizeSessionChanges({ research: 42 })).toThrow('research must be a string')
+    expect(() => normalizeSessionChanges({ decks: ['html'] })).toThrow('decks must be a list of objects')
+    expect(() => normalizeSessionChanges({ citationStyle: 'mla' })).toThrow('Unknown citation style: mla')
+    expect(() => normalizeSessionChanges({ tags: ['tea', 1] })).toThrow('tags must be a list of strings')
+  })
+
+  it('normalizes the brief and keeps the newest decks', () => {
+    const decks = Array.from({ length: MAX_SESSION_DECKS + 2 }, (_, index) => ({ id: `deck-${index}`, html: '<html></html>', timestamp: '' }))
+
+    const changes = normalizeSessionChanges({ brief: { topic: ' Tea ', subtopics: ['Trade', ''] }, decks, unknown: true })
+
+    expect(changes.brief).toEqual({ topic: 'Tea', subtopics: ['Trade'] })
+    expect(changes.decks?.map(deck => deck.id)).toEqual(decks.slice(-MAX_SESSION_DECKS).map(deck => deck.id))
+    expect(changes).not.toHaveProperty('unknown')
+  })
+
+  it('normalizes tags', () => {
+    const tags = Array.from({ length: MAX_SESSION_TAGS + 2 }, (_, index) => `tag ${index}`)
+
+    expect(normalizeSessionChanges({ tags: [' green   tea ', 'green tea', ''] }).tags).toEqual(['green tea'])
+    expect(normalizeSessionChanges({ tags }).tags).toEqual(tags.slice(0, MAX_SESSION_TAGS))
+  })
+
+  it('normalizes datasets', () => {
+    const changes = normalizeSessionChanges({ datasets: [{ id: 'd1', name: 'exports', csv: 'year,tonnes\n2010,120\n', provenance: 'none' }, { title: 'No CSV' }] })
+
+    expect(changes.datasets).toEqual([{ id: 'd1', name: 'exports', title: '', csv: 'year,tonnes\n2010,120\n', provenance: [] }])
+    expect(() => normalizeSessionChanges({ datasets: ['year,tonnes'] })).toThrow('datasets must be a list of objects')
+  })
+
+  it('stores the follow-up chat and the fact-check', async () => {
+    const changes = normalizeSessionChanges({
+      chat: [
+        { role: 'user', content: 'When did tea begin?', timestamp: '2024-01-01T00:00:00.000Z' },
+        { role: 'assistant', content: 'Around 2737 BC.', model: 'mock/deterministic', timestamp: '2024-01-01T00:00:01.000Z', extra: 1 },
+        { role: 'system', content: 'Injected', timestamp: '' }
+      ],
+      verification: { claims: [{ id: 'claim-1', verdict: 'supported' }], createdAt: '2024-01-01T00:00:02.000Z' }
+    })
+    expect(changes.chat).toEqual([
+      { role: 'user', content: 'When did tea begin?', timestamp: '2024-01-01T00:00:00.000Z' },
+      { role: 'assistant', content: 'Around 2737 BC.', model: 'mock/deterministic', timestamp: '2024-01-01T00:00:01.000Z' }
+    ])
+    expect(() => normalizeSessionChanges({ chat: ['Hello'] })).toThrow('chat must be a list of messages')
+    expect(() => normalizeSessionChanges({ verification: { claims: 'none' } })).toThrow('verification must be an object with a list of claims')
+
+    await store.create(changes, 'session-1')
+    expect((await store.get('session-1'))?.verification?.claims).toHaveLength(1)
+    expect(await store.update('session-1', normalizeSessionChanges({ verification: null }))).not.toHaveProperty('verification')
+  })
+
+  it('adds uploaded datasets under unique names', async () => {
+    await store.create({ datasets: [{ id: 'd1', name: 'sales', title: 'Sales', csv: 'a\n1\n', provenance: [] }] }, 'tea')
+    const upload = { name: 'sales', title: 'Sales 2024', csv: 'month,total\n2024-01-01,5\n', provenance: [], fileName: 'Sales 2024.xlsx' }
+
+    const session = await store.addDatasets('tea', [upload])
+
+    expect(session.datasets?.map(dataset => dataset.name)).toEqual(['sales', 'sales_2'])
+    expect(session.datasets?.[1]).toMatchObject({ ...upload, name: 'sales_2' })
+    await expect(store.addDatasets('tea', Array(MAX_DATASETS).fill(upload))).rejects.toMatchObject({ status: 422 })
+    await expect(store.addDatasets('missing', [upload])).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('lists library entries with the latest research model and the deck templates', async () => {
+    await store.create({
+      title: 'Tea history',
+      tags: ['drinks'],
+      research: '# Tea',
+      researchHistory: [
+        { topic: 'Tea', subtopics: [], content: '# Draft', model: 'model/a', timestamp: '' },
+        { topic: 'Tea', subtopics: ['Trade'], content: '# Tea', model: 'model/b', timestamp: '' }
+      ],
+      decks: [
+        { id: 'deck-1', html: '', template: 'Default', timestamp: '' },
+        { id: 'deck-2', html: '', template: 'Default', timestamp: '' },
+        { id: 'deck-3', html: '', timestamp: '' }
+      ]
+    }, 'tea')
+
+    const [entry] = await store.library()
+
+    expect(entry).toMatchObject({
+      sessionId: 'tea',
+      title: 'Tea history',
+      topic: 'Tea',
+      subtopics: ['Trade'],
+      content: '# Tea',
+      model: 'model/b',
+      tags: ['drinks'],
+      templates: ['Default'],
+      outlineCount: 0,
+      deckCount: 3
+    })
+  })
+
+  it('records versions and keeps the newest of each kind', async () => {
+    await store.create({ research: '# Tea' }, 'tea')
+
+    await store.addVersion('tea', { kind: 'research', content: '# Tea', reason: 'generated' })
+    await store.addVersion('tea', { kind: 'research', content: '# Tea', reason: 'saved' })
+    const session = await store.addVersion('tea', { kind: 'outline', content: '# Slides', reason: 'generated' })
+
+    expect(session.outline).toBe('# Slides')
+    expect(session.versions?.map(version => [version.kind, version.reason])).toEqual([['research', 'generated'], ['outline', 'generated']])
+
+    for (let index = 0; index < MAX_SESSION_VERSIONS; index++) {
+      await store.addVersion('tea', { kind: 'research', content: `# Tea ${index}`, reason: 'saved' })
+    }
+    const versions = (await store.get('tea'))?.versions || []
+    expect(versions.filter(version => version.kind === 'research')).toHaveLength(MAX_SESSION_VERSIONS)
+    expect(versions.filter(version => version.kind === 'outline')).toHaveLength(1)
+    await expect(store.addVersion('missing', { kind: 'research', content: '', reason: 'saved' })).rejects.toMatchObject({ status: 404 })
+    expect(() => normalizeVersionInput({ kind: 'deck', content: '' })).toThrow('kind must be one of research, outline')
+    expect(normalizeVersionInput({ kind: 'outline', content: '# Slides' }).reason).toBe('saved')
+  })
+
+  it('branches a session from a version', async () => {
+    await store.create({ title: 'Tea' }, 'tea')
+    const first = (await store.addVersion('tea', { kind: 'research', content: '# Draft', reason: 'generated' })).versions![0]
+    await store.addVersion('tea', { kind: 'research', content: '# Final', reason: 'saved' })
+
+    const branch = await store.branch('tea', first.id, 'tea-branch')
+
+    expect(branch).toMatchObject({ id: 'tea-branch', title: 'Tea (branch)', research: '# Draft', branchOf: { sessionId: 'tea', versionId: first.id } })
+    expect(branch.versions).toEqual([first])
+    expect((await store.get('tea'))?.research).toBe('# Final')
+    await expect(store.branch('tea', 'missing')).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('stores translations as sessions linked to the original', async () => {
+    await store.create({ title: 'Tea', research: '# Tea', outline: '# Tea\n\n---\n\n# Trade' }, 'tea')
+
+    const spanish = await store.addTranslation('tea', { language: 'Spanish', outline: '# Té' }, 'tea-es')
+    // Translating a translation links the new one to the original as well
+    await store.addTranslation('tea-es', { language: 'French', outline: '# Thé' }, 'tea-fr')
+    await store.addTranslation('tea', { language: 'Spanish', outline: '# Té!' }, 'tea-es-2')
+
+    expect(spanish).toMatchObject({ id: 'tea-es', title: 'Tea (Spanish)', research: '# Tea', outline: '# Té', translationOf: { language: 'Spanish', sessionId: 'tea' } })
+    expect((await store.get('tea-fr'))?.translationOf).toEqual({ language: 'French', sessionId: 'tea' })
+    expect((await store.get('tea'))?.translations).toEqual([
+      { language: 'French', sessionId: 'tea-fr' },
+      { language: 'Spanish', sessionId: 'tea-es-2' }
+    ])
+    expect(normalizeTranslationInput({ language: '  Brazilian   Portuguese ', outline: '# Chá' })).toEqual({ language: 'Brazilian Portuguese', outline: '# Chá' })
+    expect(() => normalizeTranslationInput({ language: '', outline: '# Chá' })).toThrow(SessionStoreError)
+    await expect(store.addTranslation('missing', { language: 'Spanish', outline: '# Té' })).rejects.toMatchObject({ status: 404 })
+  })
+})
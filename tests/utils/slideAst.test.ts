@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOutline,
+  normalizeTables,
+  parseOutline,
+  renderBlock,
+  serializeOutline,
+  slideDirectives,
+  slideHeading,
+  slideNotes,
+  spaceSlides
+} from '~/utils/slideAst'
+
+const OUTLINE = `---
+title: "Tea"
+output: ioslides_presentation
+---
+
+<!-- _class: lead -->
+# Tea
+## A short history
+
+---
+
+# Trade
+
+- China
+- India
+  and Ceylon
+
+| Year | Note | Tonnes |
+|:-----|:----:|-------:|
+| 2023 | a \\| b | 12 |
+
+<!--
+Start with a story
+-->
+
+---
+
+\`\`\`{r trend, echo=FALSE, fig.cap="Exports, by year", fig.width=c(6, 4)}
+plot(1:3)
+# not a heading
+\`\`\`
+
+\`\`\`markdown
+---
+\`\`\`
+Last line`
+
+describe('slideAst', () => {
+  it('writes a parsed outline back unchanged', () => {
+    expect(serializeOutline(parseOutline(OUTLINE))).toBe(OUTLINE)
+    expect(serializeOutline(parseOutline(OUTLINE.replace(/\n/g, '\r\n')))).toBe(OUTLINE.replace(/\n/g, '\r\n'))
+    expect(serializeOutline(parseOutline(''))).toBe('')
+    expect(serializeOutline(parseOutline('# Only\n\n---\n---\n'))).toBe('# Only\n\n---\n---\n')
+  })
+
+  it('reads the front matter and splits slides outside code blocks', () => {
+    const deck = parseOutline(OUTLINE)
+
+    expect(deck.frontMatter?.fields).toEqual({ title: 'Tea', output: 'ioslides_presentation' })
+    expect(deck.slides).toHaveLength(3)
+    expect(deck.slides.map(slide => slideHeading(slide)?.text)).toEqual(['Tea', 'Trade', undefined])
+    expect(parseOutline('Intro\n---\nMore').frontMatter).toBeUndefined()
+  })
+
+  it('types headings, lists, tables, chunks, directives and notes', () => {
+    const [title, trade, chart] = parseOutline(OUTLINE).slides
+    const blocks = trade.blocks.filter(block => block.type !== 'blank')
+    const chartBlocks = chart.blocks.filter(block => block.type !== 'blank')
+
+    expect(title.blocks.filter(block => block.type === 'heading').map(block => block.type === 'heading' && block.depth)).toEqual([1, 2])
+    expect(slideDirectives(title)).toEqual({ _class: 'lead' })
+    expect(blocks[1]).toMatchObject({ type: 'list', ordered: false, items: ['China', 'India\n  and Ceylon'] })
+    expect(blocks[2]).toMatchObject({
+      type: 'table',
+      headers: ['Year', 'Note', 'Tonnes'],
+      align: ['left', 'center', 'right'],
+      rows: [['2023', 'a \\| b', '12']]
+    })
+    expect(slideNotes(trade)).toEqual(['Start with a story'])
+    expect(chartBlocks[0]).toMatchObject({
+      type: 'chunk',
+      engine: 'r',
+      label: 'trend',
+      options: { echo: 'FALSE', 'fig.cap': '"Exports, by year"', 'fig.width': 'c(6, 4)' },
+      code: 'plot(1:3)\n# not a heading'
+    })
+    expect(chartBlocks[1]).toMatchObject({ type: 'code', info: 'markdown', code: '---' })
+    expect(chartBlocks[2]).toMatchObject({ type: 'paragraph', text: 'Last line' })
+  })
+
+  it('reads comments that are not all directives as notes', () => {
+    const [slide] = parseOutline('<!-- paginate: false -->\n<!-- class: mention me -->\n<!-- remember: the demo -->\n').slides
+
+    expect(slideDirectives(slide)).toEqual({ paginate: 'false', class: 'mention me' })
+    expect(slideNotes(slide)).toEqual(['remember: the demo'])
+  })
+
+  it('writes changed and new blocks from their fields', () => {
+    expect(renderBlock({ type: 'table', headers: ['A', 'B'], align: [null, 'right'], rows: [['1', '2']] })).toBe('| A | B |\n| --- | ---: |\n| 1 | 2 |\n')
+    expect(renderBlock({ type: 'chunk', engine: 'r', label: 'plot', options: { echo: 'FALSE' }, code: 'plot(1)' })).toBe('```{r plot, echo=FALSE}\nplot(1)\n```\n')
+    expect(renderBlock({ type: 'directive', directives: { _class: 'lead' } })).toBe('<!-- _class: lead -->\n')
+    expect(renderBlock({ type: 'note', text: 'Say hello' })).toBe('<!--\nSay hello\n-->\n')
+    expect(renderBlock({ type: 'list', ordered: true, items: ['One', 'Two'] })).toBe('1. One\n2. Two\n')
+
+    const deck = parseOutline(OUTLINE)
+    const chunk = deck.slides[2].blocks[1]
+    deck.slides[2].blocks[1] = { ...chunk, raw: undefined }
+    expect(serializeOutline(deck)).toContain('```{r trend, echo=FALSE, fig.cap="Exports, by year", fig.width=c(6, 4)}\nplot(1:3)')
+  })
+
+  it('puts blank lines around slide breaks', () => {
+    expect(serializeOutline(spaceSlides(parseOutline('# One\n---\n# Two')))).toBe('# One\n\n---\n\n# Two')
+    expect(serializeOutline(createOutline([
+      [{ type: 'heading', depth: 1, text: 'One' }],
+      [{ type: 'heading', depth: 1, text: 'Two' }]
+    ]))).toBe('# One\n\n---\n\n# Two\n')
+  })
+
+  it('rewrites tables in a regular layout and keeps the rest', () => {
+    const outline = '# Data\nYear|Tonnes\n:--|--:\n2023|12\nSource: customs\n\n```\na|b\n--|--\n```\n'
+
+    expect(normalizeTables(outline)).toBe('# Data\n\n| Year | Tonnes |\n| :--- | ---: |\n| 2023 | 12 |\n\nSource: customs\n\n```\na|b\n--|--\n```\n')
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { diffSlides, splitSlides } from '~/utils/slideDiff'
+
+const OUTLINE = `---
+title: "Tea"
+output: ioslides_presentation
+---
+
+# Origins
+
+- China
+
+---
+
+# Trade
+
+\`\`\`{r}
+x <- 1
+---
+\`\`\`
+
+---
+
+Closing words`
+
+describe('slideDiff', () => {
+  it('splits an outline into slides', () => {
+    const slides = splitSlides(OUTLINE)
+
+    expect(slides.map(slide => slide.title)).toEqual(['Front matter', 'Origins', 'Trade', 'Closing words'])
+    expect(slides[0].content).toContain('output: ioslides_presentation')
+    expect(slides[2].content).toContain('x <- 1\n---')
+  })
+
+  it('matches slides by title and diffs the changed ones', () => {
+    const before = '# Intro\n\nHello\n\n---\n\n# Origins\n\n- China\n\n---\n\n# Trade'
+    const after = '# Intro\n\nHello\n\n---\n\n# Origins\n\n- China\n- India\n\n---\n\n# Outlook'
+
+    const changes = diffSlides(before, after)
+
+    expect(changes.map(change => [change.type, change.title])).toEqual([
+      ['equal', 'Intro'],
+      ['changed', 'Origins'],
+      ['removed', 'Trade'],
+      ['added', 'Outlook']
+    ])
+    expect(changes[1]).toMatchObject({ oldIndex: 2, newIndex: 2 })
+    expect(changes[1].diff.filter(line => line.type !== 'equal')).toEqual([{ type: 'added', text: '- India', newLine: 4 }])
+    expect(changes[2].diff.map(line => line.type)).toEqual(['removed'])
+  })
+})
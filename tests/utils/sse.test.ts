@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { createSSEStream, encodeSSEData, readSSEData, toOpenAIChunk, toOpenAICompletion, SSE_DONE } from '~/utils/sse'
+
+// Builds a byte stream from string pieces, mimicking network chunking
+const streamFrom = (pieces: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)))
+      controller.close()
+    }
+  })
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+describe('sse', () => {
+  describe('encodeSSEData', () => {
+    it('serializes objects as JSON data events', () => {
+      expect(encodeSSEData({ a: 1 })).toBe('data: {"a":1}\n\n')
+    })
+
+    it('passes strings through unchanged', () => {
+      expect(encodeSSEData(SSE_DONE)).toBe('data: [DONE]\n\n')
+    })
+  })
+
+  describe('toOpenAIChunk', () => {
+    it('wraps content in a delta choice', () => {
+      const chunk = toOpenAIChunk({ content: 'Hi' }, 'id-1', 'model-a')
+
+      expect(chunk.model).toBe('model-a')
+      expect(chunk.choices[0].delta.content).toBe('Hi')
+    })
+
+    it('emits no choices for usage-only chunks', () => {
+      const usage = { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 }
+      const chunk = toOpenAIChunk({ content: '', usage }, 'id-1', 'model-a')
+
+      expect(chunk.choices).toEqual([])
+      expect(chunk.usage).toEqual(usage)
+    })
+  })
+
+  describe('toOpenAICompletion', () => {
+    it('produces an OpenAI chat.completion body', () => {
+      const body = toOpenAICompletion({ id: 'x', model: 'm', content: 'Hello' })
+
+      expect(body.choices[0].message.content).toBe('Hello')
+      expect(body.choices[0].finish_reason).toBe('stop')
+    })
+  })
+
+  describe('readSSEData', () => {
+    it('buffers lines split across network chunks', async () => {
+      const body = streamFrom(['data: {"a"', ':1}\n\ndata: [DO', 'NE]\n\n'])
+
+      expect(await collect(readSSEData(body))).toEqual(['{"a":1}', '[DONE]'])
+    })
+
+    it('ignores comments and other fields', async () => {
+      const body = streamFrom([': keep-alive\n', 'id: 3\ndata: x\n\n'])
+
+      expect(await collect(readSSEData(body))).toEqual(['x'])
+    })
+  })
+
+  describe('createSSEStream', () => {
+    it('round-trips chunks through readSSEData', async () => {
+      async function* chunks() {
+        yield { content: 'Hello ' }
+        yield { content: 'world' }
+      }
+
+      const data = await collect(readSSEData(createSSEStream(chunks(), 'id-1', 'model-a')))
+
+      expect(data[data.length - 1]).toBe(SSE_DONE)
+      const text = data.slice(0, -1).map(item => JSON.parse(item).choices[0].delta.content).join('')
+      expect(text).toBe('Hello world')
+    })
+
+    it('reports errors in-band before closing', async () => {
+      async function* chunks() {
+        yield { content: 'partial' }
+        throw new Error('upstream failed')
+      }
+
+      const data = await collect(readSSEData(createSSEStream(chunks(), 'id-1', 'model-a')))
+
+      expect(JSON.parse(data[1]).error.message).toBe('upstream failed')
+      expect(data[2]).toBe(SSE_DONE)
+    })
+  })
+})
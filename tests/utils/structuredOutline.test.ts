@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createMockProvider } from '~/utils/llmProviders'
+import type { LLMProvider } from '~/utils/llmProviders'
+import { DeckValidationError, buildDeckMessages, generateStructuredOutline } from '~/utils/structuredOutline'
+
+const validDeck = JSON.stringify({ title: 'Tea', slides: [{ title: 'Origins', bullets: ['China'] }] })
+
+const scriptedProvider = (replies: string[]): LLMProvider => {
+  const complete = vi.fn()
+  for (const content of replies) {
+    complete.mockResolvedValueOnce({
+      id: 'x',
+      model: 'scripted',
+      content,
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, cost: 0.001 }
+    })
+  }
+  return { id: 'mock', complete, stream: vi.fn() }
+}
+
+const request = { model: 'scripted', messages: buildDeckMessages('Tea was first drunk in China.') }
+
+describe('structuredOutline', () => {
+  it('publishes the schema in the system prompt', () => {
+    expect(request.messages[0].role).toBe('system')
+    expect(request.messages[0].content).toContain('"$id": "deck.schema.json"')
+    expect(request.messages[1]).toEqual({ role: 'user', content: 'Tea was first drunk in China.' })
+  })
+
+  it('returns the deck and its markdown when the first reply is valid', async () => {
+    const provider = scriptedProvider([validDeck])
+
+    const outline = await generateStructuredOutline(provider, request)
+
+    expect(outline.attempts).toBe(1)
+    expect(outline.model).toBe('scripted')
+    expect(outline.deck.title).toBe('Tea')
+    expect(outline.markdown).toBe('# Tea\n\n---\n\n# Origins\n\n- China\n')
+  })
+
+  it('re-prompts with the validation errors until the reply is valid', async () => {
+    const provider = scriptedProvider(['{"title": "Tea"}', validDeck])
+
+    const outline = await generateStructuredOutline(provider, request)
+
+    expect(outline.attempts).toBe(2)
+    expect(outline.usage).toMatchObject({ prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 })
+    expect(outline.usage?.cost).toBeCloseTo(0.002)
+
+    const repair = vi.mocked(provider.complete).mock.calls[1][0].messages
+    expect(repair).toHaveLength(4)
+    expect(repair[2]).toEqual({ role: 'assistant', content: '{"title": "Tea"}' })
+    expect(repair[3].content).toContain('- deck.slides must be an array of slides')
+  })
+
+  it('gives up after the configured number of repairs', async () => {
+    const provider = scriptedProvider(['not json', 'still not json'])
+
+    const error = await generateStructuredOutline(provider, request, 1).catch(e => e)
+
+    expect(error).toBeInstanceOf(DeckValidationError)
+    expect(error.attempts).toBe(2)
+    expect(error.errors).toEqual(['The reply does not contain a JSON object'])
+    expect(provider.complete).toHaveBeenCalledTimes(2)
+  })
+
+  it('gets a valid deck from the mock provider', async () => {
+    const outline = await generateStructuredOutline(createMockProvider(0), { ...request, model: 'mock-model' })
+
+    expect(outline.attempts).toBe(1)
+    expect(outline.deck.slides.map(slide => slide.title)).toEqual(['Key Findings', 'Data Overview', 'Conclusion'])
+    expect(outline.markdown).toContain('geom_col')
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, getDiffStats, toSideBySide } from '~/utils/textDiff'
+
+describe('textDiff', () => {
+  it('marks added, removed and unchanged lines', () => {
+    const diff = diffLines('one\ntwo\nthree', 'one\n2\nthree\nfour')
+
+    expect(diff).toEqual([
+      { type: 'equal', text: 'one', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'two', oldLine: 2 },
+      { type: 'added', text: '2', newLine: 2 },
+      { type: 'equal', text: 'three', oldLine: 3, newLine: 3 },
+      { type: 'added', text: 'four', newLine: 4 }
+    ])
+    expect(getDiffStats(diff)).toEqual({ added: 2, removed: 1 })
+  })
+
+  it('handles empty texts', () => {
+    expect(diffLines('', '')).toEqual([])
+    expect(diffLines('', 'a\nb').map(line => line.type)).toEqual(['added', 'added'])
+    expect(diffLines('a', '').map(line => line.type)).toEqual(['removed'])
+  })
+
+  it('treats identical texts as unchanged', () => {
+    expect(getDiffStats(diffLines('a\r\nb', 'a\nb'))).toEqual({ added: 0, removed: 0 })
+  })
+
+  it('lays removed lines next to the lines added in their place', () => {
+    const rows = toSideBySide(diffLines('one\ntwo\nthree\nfour', 'one\n2\nthree\nfive\nsix'))
+
+    expect(rows.map(row => [row.left?.text, row.right?.text])).toEqual([
+      ['one', 'one'],
+      ['two', '2'],
+      ['three', 'three'],
+      ['four', 'five'],
+      [undefined, 'six']
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createStorage } from 'unstorage'
+import { createMockProvider } from '~/utils/llmProviders'
+import type { LLMProvider } from '~/utils/llmProviders'
+import { MODEL_CATALOG } from '~/utils/modelCatalog'
+import { createUsageTracker, createUsageTrackingProvider, usageDay } from '~/utils/usageTracker'
+import type { TokenUsage } from '~/types/llm'
+
+const usage = (model: string, cost: number): TokenUsage => ({
+  model,
+  promptTokens: 100,
+  completionTokens: 50,
+  totalTokens: 150,
+  cost
+})
+
+const request = {
+  model: 'openai/gpt-4o-mini',
+  messages: [{ role: 'user' as const, content: 'Research the history of tea' }]
+}
+
+describe('usageTracker', () => {
+  let tracker: ReturnType<typeof createUsageTracker>
+
+  beforeEach(() => {
+    tracker = createUsageTracker(createStorage())
+  })
+
+  it('aggregates usage per day, per session and per model', async () => {
+    await tracker.record(usage('model-a', 0.01), 'session-1')
+    await tracker.record(usage('model-b', 0.02), 'session-1')
+    await tracker.record(usage('model-a', 0.03), 'session-2')
+
+    const today = await tracker.getDay()
+    const session = await tracker.getSession('session-1')
+
+    expect(today.key).toBe(usageDay())
+    expect(today.requests).toBe(3)
+    expect(today.totalTokens).toBe(450)
+    expect(today.cost).toBeCloseTo(0.06)
+    expect(today.byModel['model-a'].requests).toBe(2)
+    expect(session.cost).toBeCloseTo(0.03)
+    expect(await tracker.listSessions()).toHaveLength(2)
+  })
+
+  it('reports an exceeded daily or session budget', async () => {
+    await tracker.record(usage('model-a', 0.5), 'session-1')
+
+    expect(await tracker.checkBudget({ dailyUsd: 0, sessionUsd: 0 }, 'session-1')).toBeNull()
+    expect(await tracker.checkBudget({ dailyUsd: 1, sessionUsd: 0 }, 'session-1')).toBeNull()
+    expect(await tracker.checkBudget({ dailyUsd: 0.5, sessionUsd: 0 })).toContain('Daily budget')
+    expect(await tracker.checkBudget({ dailyUsd: 0, sessionUsd: 0.25 }, 'session-1')).toContain('Session budget')
+    expect(await tracker.checkBudget({ dailyUsd: 0, sessionUsd: 0.25 }, 'session-2')).toBeNull()
+  })
+
+  describe('createUsageTrackingProvider', () => {
+    it('prices non-streamed completions', async () => {
+      const recorded: TokenUsage[] = []
+      const provider = createUsageTrackingProvider(createMockProvider(), MODEL_CATALOG, u => { recorded.push(u) })
+
+      const completion = await provider.complete(request)
+
+      expect(completion.usage?.cost).toBeGreaterThan(0)
+      expect(recorded).toHaveLength(1)
+      expect(recorded[0].model).toBe('openai/gpt-4o-mini')
+      expect(recorded[0].cost).toBe(completion.usage?.cost)
+    })
+
+    it('ends every stream with a priced usage chunk, estimating when none is reported', async () => {
+      const silent: LLMProvider = {
+        id: 'mock',
+        complete: () => Promise.reject(new Error('unused')),
+        stream: async () => (async function* () {
+          yield { content: 'Hello ' }
+          yield { content: 'world' }
+        })()
+      }
+      const recorded: TokenUsage[] = []
+      const provider = createUsageTrackingProvider(silent, MODEL_CATALOG, u => { recorded.push(u) })
+
+      const chunks = []
+      for await (const chunk of await provider.stream(request)) chunks.push(chunk)
+
+      const last = chunks[chunks.length - 1]
+      expect(last.usage?.estimated).toBe(true)
+      expect(last.usage?.completion_tokens).toBeGreaterThan(0)
+      expect(recorded).toHaveLength(1)
+      expect(recorded[0].estimated).toBe(true)
+    })
+
+    it('records partial usage when the consumer stops early', async () => {
+      const recorded: TokenUsage[] = []
+      const provider = createUsageTrackingProvider(createMockProvider(), MODEL_CATALOG, u => { recorded.push(u) })
+
+      for await (const _ of await provider.stream(request)) break
+
+      expect(recorded).toHaveLength(1)
+      expect(recorded[0].completionTokens).toBeGreaterThan(0)
+    })
+  })
+})
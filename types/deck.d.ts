@@ -0,0 +1,135 @@
+/**
+ * Structured slide deck returned by the model in JSON outline mode
+ * The JSON schema in utils/deckSchema.ts describes the same shape
+ */
+
+export interface SlideTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type SlideChartType = 'bar' | 'line' | 'pie';
+
+export interface SlideChart {
+  type: SlideChartType;
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  /** One label per value */
+  labels: string[];
+  values: number[];
+}
+
+export interface SlideSpec {
+  title: string;
+  bullets?: string[];
+  table?: SlideTable;
+  chart?: SlideChart;
+  /** Speaker notes, not shown on the slide */
+  notes?: string;
+}
+
+export interface DeckSpec {
+  title: string;
+  subtitle?: string;
+  slides: SlideSpec[];
+}
+
+/**
+ * An outline parsed into slides and blocks by utils/slideAst.ts
+ * Parsed nodes keep the text they were read from, so serializing an unchanged outline gives
+ * back the same text; nodes without it are written from their fields
+ */
+export interface DeckNode {
+  frontMatter?: FrontMatterNode;
+  slides: SlideNode[];
+}
+
+export interface FrontMatterNode {
+  /** The YAML between the fences */
+  yaml: string;
+  /** The top-level scalar fields, unquoted */
+  fields: Record<string, string>;
+  raw?: string;
+}
+
+export interface SlideNode {
+  /** The --- line before the slide as written; unset for the first slide and for new slides */
+  separator?: string;
+  blocks: BlockNode[];
+}
+
+interface BaseBlockNode {
+  /** The lines the block was read from, line endings included */
+  raw?: string;
+}
+
+export interface BlankNode extends BaseBlockNode {
+  type: 'blank';
+}
+
+export interface HeadingNode extends BaseBlockNode {
+  type: 'heading';
+  depth: number;
+  text: string;
+}
+
+export interface ParagraphNode extends BaseBlockNode {
+  type: 'paragraph';
+  text: string;
+}
+
+export interface ListNode extends BaseBlockNode {
+  type: 'list';
+  ordered: boolean;
+  /** The text of each item; nested lines are kept as written */
+  items: string[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface TableNode extends BaseBlockNode {
+  type: 'table';
+  /** Cells as written, with escaped pipes (\|) */
+  headers: string[];
+  align: TableAlign[];
+  rows: string[][];
+}
+
+export interface CodeNode extends BaseBlockNode {
+  type: 'code';
+  /** ``` or ~~~ */
+  fence: string;
+  info: string;
+  code: string;
+}
+
+/** A code chunk R Markdown runs, e.g. ```{r trend, echo=FALSE} */
+export interface ChunkNode extends BaseBlockNode {
+  type: 'chunk';
+  /** r, python, ... */
+  engine: string;
+  label?: string;
+  /** Chunk options with their values as written, e.g. { echo: 'FALSE', 'fig.cap': '"Trend"' } */
+  options: Record<string, string>;
+  code: string;
+}
+
+/** Marp directives in an HTML comment, e.g. <!-- _class: lead -->; an underscore scopes them to the slide */
+export interface DirectiveNode extends BaseBlockNode {
+  type: 'directive';
+  directives: Record<string, string>;
+}
+
+/** Any other HTML comment; Marp shows them as speaker notes */
+export interface NoteNode extends BaseBlockNode {
+  type: 'note';
+  text: string;
+}
+
+export interface HtmlNode extends BaseBlockNode {
+  type: 'html';
+  html: string;
+}
+
+export type BlockNode = BlankNode | HeadingNode | ParagraphNode | ListNode | TableNode | CodeNode | ChunkNode | DirectiveNode | NoteNode | HtmlNode;
@@ -0,0 +1,33 @@
+/**
+ * Type definitions for uploaded documents used as grounding context
+ */
+
+export type DocumentFormat = 'markdown' | 'text' | 'csv' | 'html' | 'pdf';
+
+/** An uploaded document; its text is stored as chunks for retrieval */
+export interface StoredDocument {
+  id: string;
+  /** The document collection (one per research brief) the document belongs to */
+  collectionId: string;
+  name: string;
+  format: DocumentFormat;
+  /** Size of the uploaded file in bytes */
+  size: number;
+  chunkCount: number;
+  createdAt: string;
+}
+
+export interface DocumentChunk {
+  /** Position of the chunk in the document, from 0 */
+  index: number;
+  text: string;
+}
+
+/** A chunk returned by a search, with its BM25 score */
+export interface RetrievedPassage {
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  text: string;
+  score: number;
+}
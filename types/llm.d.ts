@@ -0,0 +1,102 @@
+/**
+ * Type definitions for LLM chat requests and provider responses
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  stream?: boolean;
+}
+
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  /** Estimated cost in USD, added by the server from the model catalog */
+  cost?: number;
+  /** True when the provider did not report usage and it was estimated from the text */
+  estimated?: boolean;
+  /** True when the answer came from the response cache and nothing was billed */
+  cached?: boolean;
+}
+
+/**
+ * A single normalized piece of a streamed completion
+ */
+export interface ChatCompletionChunk {
+  content: string;
+  model?: string;
+  usage?: ChatUsage;
+}
+
+/**
+ * A normalized, non-streamed completion
+ */
+export interface ChatCompletion {
+  id: string;
+  model: string;
+  content: string;
+  finishReason?: string;
+  usage?: ChatUsage;
+}
+
+/**
+ * Pipeline stages that can each be routed to a different model
+ */
+export type ModelStage = 'research' | 'verification' | 'extraction' | 'outline' | 'rewrite';
+
+export type ModelCapability = 'streaming' | 'json' | 'tools' | 'reasoning';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextWindow: number;
+  maxOutput: number;
+  /** USD per million tokens */
+  cost: {
+    prompt: number;
+    completion: number;
+  };
+  capabilities: ModelCapability[];
+}
+
+/**
+ * Token usage and estimated cost of a single model call
+ */
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Estimated cost in USD */
+  cost: number;
+  estimated?: boolean;
+  cached?: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * Usage aggregated over a day or a research session
+ */
+export interface UsageAggregate extends UsageTotals {
+  /** The day (YYYY-MM-DD) or the session id */
+  key: string;
+  byModel: Record<string, UsageTotals>;
+  updatedAt: string;
+}
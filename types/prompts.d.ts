@@ -0,0 +1,49 @@
+/**
+ * Type definitions for the prompt template registry
+ */
+
+export type PromptTemplateId = 'research' | 'plan' | 'subquestion' | 'synthesis' | 'verify' | 'revise' | 'section' | 'extract' | 'outline' | 'deck' | 'translate';
+
+/** 'text' is a long multi-line value such as the research document */
+export type PromptVariableType = 'string' | 'string[]' | 'number' | 'text';
+
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  description: string;
+  /** Required variables must be provided and must appear in every version */
+  required?: boolean;
+  /** Used when the caller does not provide a value */
+  default?: string | number | string[];
+}
+
+export type PromptValues = Record<string, string | number | string[] | undefined>;
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  description: string;
+  variables: PromptVariable[];
+}
+
+export interface PromptVersionInfo {
+  version: number;
+  /** What changed in this version */
+  note?: string;
+  createdAt: string;
+}
+
+export interface PromptVersion extends PromptVersionInfo {
+  templateId: PromptTemplateId;
+  text: string;
+}
+
+/** Identifies the prompt version a result was generated with */
+export interface PromptVersionRef {
+  templateId: PromptTemplateId;
+  version: number;
+}
+
+export interface PromptTemplateSummary extends PromptTemplateDefinition {
+  activeVersion: number;
+  versions: PromptVersionInfo[];
+}
@@ -2,24 +2,329 @@
  * Type definitions for research-related data structures
  */
 
+import type { TokenUsage } from './llm';
+import type { DeckSpec } from './deck';
+import type { PromptVersionRef } from './prompts';
+import type { RetrievedPassage } from './documents';
+
 export interface ResearchTopic {
   topic: string;
   subtopics: string[];
 }
 
+export type ResearchDepth = 'overview' | 'standard' | 'in-depth';
+
+export type ResearchTone = 'formal' | 'neutral' | 'conversational' | 'persuasive';
+
+export type ResearchSourceKind = 'note' | 'reference' | 'document';
+
+/**
+ * A source the research and the outline may cite; sources are numbered by their position
+ * in the list, so [2] cites the second source
+ */
+export interface ResearchSource {
+  /** Pasted notes, a bibliographic entry, or a passage of an uploaded document */
+  kind: ResearchSourceKind;
+  title: string;
+  /** The notes or the passage text */
+  text?: string;
+  authors?: string;
+  year?: string;
+  url?: string;
+  /** The uploaded document and chunk a passage comes from */
+  documentId?: string;
+  chunkIndex?: number;
+  /** Citation key, e.g. smith2020 for [@smith2020]; set for imported BibTeX entries */
+  key?: string;
+  /** BibTeX entry type, e.g. article or book */
+  entryType?: string;
+  /** Journal, book or proceedings the work appeared in */
+  container?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  publisher?: string;
+  doi?: string;
+}
+
+export type CitationStyle = 'apa' | 'ieee' | 'chicago';
+
+/** Everything the research and the outline are written to, captured before the research starts */
+export interface ResearchBrief extends ResearchTopic {
+  /** Who the research and the presentation are for */
+  audience?: string;
+  depth?: ResearchDepth;
+  tone?: ResearchTone;
+  /** Target length of the research in tokens */
+  length?: number;
+  /** Output language, e.g. 'Spanish'; the model's default when unset */
+  language?: string;
+  /** Points the research must cover */
+  mustInclude?: string[];
+  /** Points the research must leave out */
+  mustAvoid?: string[];
+  /** Collection of uploaded documents the research is grounded in */
+  documentCollection?: string;
+  /** Notes and bibliographic entries the research cites */
+  sources?: ResearchSource[];
+  /** Style of the citations and the bibliography; plain numbered references when unset */
+  citationStyle?: CitationStyle;
+}
+
+/** The brief without the topic and subtopics */
+export type ResearchBriefSettings = Omit<ResearchBrief, 'topic' | 'subtopics'>;
+
 export interface ResearchResult {
   topic: string;
   subtopics: string[];
   content: string;
+  /** Model that produced the research */
+  model?: string;
+  /** Tokens used and estimated cost of the research call */
+  usage?: TokenUsage;
+  /** Research session the result belongs to */
+  sessionId?: string;
+  /** Prompt template version that produced the research */
+  promptVersion?: PromptVersionRef;
+  /** The plan of a deep research run; the content is the synthesis of its steps */
+  plan?: ResearchPlan;
+  /** The brief the research was written to; outlines of the research reuse it */
+  brief?: ResearchBrief;
+  /** Passages of the uploaded documents the research was grounded in */
+  passages?: RetrievedPassage[];
+  /** The sources of the brief followed by the passages; citation markers refer to this list */
+  sources?: ResearchSource[];
   timestamp: string;
 }
 
+export type ResearchStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/** One sub-question of a deep research plan, researched in its own call */
+export interface ResearchPlanStep {
+  id: string;
+  question: string;
+  /** The subtopic the question belongs to */
+  subtopic?: string;
+  status: ResearchStepStatus;
+  content: string;
+  model?: string;
+  usage?: TokenUsage;
+  /** Passages of the uploaded documents the answer was grounded in */
+  passages?: RetrievedPassage[];
+  error?: string;
+}
+
+export interface ResearchPlan {
+  topic: string;
+  subtopics: string[];
+  steps: ResearchPlanStep[];
+  /** The sources of the brief followed by the passages retrieved for the steps */
+  sources?: ResearchSource[];
+  createdAt: string;
+}
+
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+/** What the user did about a flagged claim */
+export type ClaimStatus = 'open' | 'accepted' | 'edited' | 'rewritten';
+
+/** A claim of the research, checked against the sources or the checking model's knowledge */
+export interface VerifiedClaim {
+  id: string;
+  claim: string;
+  /** The passage of the research that makes the claim; unset when it could not be found */
+  quote?: string;
+  verdict: ClaimVerdict;
+  /** Why the claim is or is not supported */
+  explanation: string;
+  /** Numbers of the sources the verdict is based on */
+  sources?: number[];
+  status: ClaimStatus;
+}
+
+/** Result of the fact-check pass over a research document */
+export interface ResearchVerification {
+  claims: VerifiedClaim[];
+  /** Model that checked the claims */
+  model?: string;
+  usage?: TokenUsage;
+  promptVersion?: PromptVersionRef;
+  createdAt: string;
+}
+
+/** A turn of the follow-up conversation about the research */
+export interface FollowUpMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  /** Model that wrote an assistant reply */
+  model?: string;
+  timestamp: string;
+}
+
+/** Decks derived from the same research for different audiences */
+export type OutlineVariant = 'executive' | 'technical' | 'teaching';
+
 export interface PresentationOutline {
   content: string;
   format: 'rmarkdown' | 'markdown';
+  /** The audience variant the outline was written as; unset for the regular outline */
+  variant?: OutlineVariant;
+  /** The validated deck, for outlines generated in JSON mode */
+  deck?: DeckSpec;
+  /** Model that produced the outline */
+  model?: string;
+  /** Tokens used and estimated cost of the outline call */
+  usage?: TokenUsage;
+  /** Research session the outline belongs to */
+  sessionId?: string;
+  /** Prompt template version that produced the outline */
+  promptVersion?: PromptVersionRef;
+  /** The brief the outline was written to */
+  brief?: ResearchBrief;
+  /** The sources the citation markers of the outline refer to */
+  sources?: ResearchSource[];
   timestamp: string;
 }
 
+/** Slides generated from the outline of a research session */
+export interface SessionDeck {
+  id: string;
+  /** The complete HTML document of the slides */
+  html: string;
+  /** Name of the slide template */
+  template?: string;
+  timestamp: string;
+}
+
+/** A file the slides of a session refer to, e.g. a chart rendered by R */
+export interface SessionAsset {
+  url: string;
+  contentType?: string;
+  timestamp: string;
+}
+
+/** The documents of a session that are versioned */
+export type SessionVersionKind = 'research' | 'outline';
+
+/** Why a version was recorded: a model generated the text, the user saved it, or restored an older version */
+export type SessionVersionReason = 'generated' | 'saved' | 'restored';
+
+/** A snapshot of the research or the outline of a session */
+export interface SessionVersion {
+  id: string;
+  kind: SessionVersionKind;
+  content: string;
+  reason: SessionVersionReason;
+  timestamp: string;
+}
+
+/** The sentence of the research a row of a dataset was taken from */
+export interface DatasetProvenance {
+  /** The data row, from 1 */
+  row: number;
+  quote: string;
+}
+
+/** How the values of a dataset column are read in R */
+export type DatasetColumnType = 'number' | 'text' | 'date' | 'logical';
+
+/**
+ * A table that R chunks of the outline can plot: numbers stated in the research, or a
+ * file the user uploaded
+ */
+export interface ResearchDataset {
+  id: string;
+  /** Name of the data frame in R, e.g. tea_exports */
+  name: string;
+  title: string;
+  /** The table as CSV with a header row */
+  csv: string;
+  /** The rows taken from the research; empty for uploaded datasets */
+  provenance: DatasetProvenance[];
+  /** The file the dataset was uploaded from */
+  fileName?: string;
+  /** The type of each column; inferred from the values when unset */
+  columnTypes?: DatasetColumnType[];
+}
+
+/** A translation of the outline of a session, kept as a session of its own */
+export interface SessionTranslation {
+  language: string;
+  sessionId: string;
+}
+
+/** A research session kept in server storage and addressable as /research/:id and /outline/:id */
+export interface ResearchSession {
+  /** The session id; usage is keyed by it as well */
+  id: string;
+  title: string;
+  /** Labels the user gave the session on /library */
+  tags?: string[];
+  brief?: ResearchBrief;
+  /** The current research document, with the user's edits */
+  research: string;
+  /** The sources the citation markers of the research refer to */
+  sources?: ResearchSource[];
+  passages?: RetrievedPassage[];
+  researchHistory: ResearchResult[];
+  /** The current outline, with the user's edits */
+  outline: string;
+  outlineHistory: PresentationOutline[];
+  citationStyle?: CitationStyle;
+  decks: SessionDeck[];
+  assets: SessionAsset[];
+  /** Tables of the numbers in the research, loaded as data frames when R chunks run */
+  datasets?: ResearchDataset[];
+  /** The follow-up questions about the research and their answers, oldest first */
+  chat?: FollowUpMessage[];
+  /** The fact-check of the research */
+  verification?: ResearchVerification;
+  /** Snapshots of the research and the outline, oldest first; added with POST /api/sessions/:id/versions */
+  versions?: SessionVersion[];
+  /** The session and version this session was branched from */
+  branchOf?: { sessionId: string; versionId: string };
+  /** The sessions holding translations of the outline, one per language */
+  translations?: SessionTranslation[];
+  /** The session whose outline was translated into this one, and the language it was translated into */
+  translationOf?: SessionTranslation;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A session as listed by GET /api/sessions */
+export interface ResearchSessionSummary {
+  id: string;
+  title: string;
+  topic?: string;
+  hasResearch: boolean;
+  outlineCount: number;
+  deckCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A session as listed on /library; the topic, subtopics, model and usage are those of its
+ * latest research result and the content is the current research
+ */
+export interface LibraryEntry extends ResearchResult {
+  sessionId: string;
+  title: string;
+  tags: string[];
+  /** Slide templates of the decks generated in the session */
+  templates: string[];
+  outlineCount: number;
+  deckCount: number;
+  updatedAt: string;
+}
+
+/** Fields of a session that can be set on creation or changed with PATCH; an empty citation style clears it */
+export type ResearchSessionChanges = Partial<Omit<ResearchSession, 'id' | 'createdAt' | 'updatedAt' | 'citationStyle' | 'verification' | 'versions' | 'branchOf' | 'translations' | 'translationOf'>> & {
+  citationStyle?: CitationStyle | '';
+  /** null discards the fact-check */
+  verification?: ResearchVerification | null;
+};
+
 export interface MarpTemplate {
   name: string;
   theme: string;
@@ -0,0 +1,251 @@
+/**
+ * Reading and writing BibTeX: .bib files imported into a session become reference sources
+ * that can be cited by key ([@smith2020]); the sources are written back as BibTeX for
+ * pandoc when an outline is rendered with R Markdown
+ */
+
+import type { ResearchSource } from '~/types/research'
+
+/**
+ * Thrown for BibTeX that cannot be read
+ */
+export class BibtexParseError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message)
+    this.name = 'BibtexParseError'
+  }
+}
+
+export interface BibtexEntry {
+  /** Entry type in lowercase, e.g. article */
+  type: string
+  key: string
+  /** Field values with LaTeX markup removed; names in lowercase */
+  fields: Record<string, string>
+}
+
+// Accent commands and the combining characters they stand for
+const ACCENTS: Record<string, string> = {
+  '`': '\u0300',
+  "'": '\u0301',
+  '^': '\u0302',
+  '~': '\u0303',
+  '=': '\u0304',
+  u: '\u0306',
+  '.': '\u0307',
+  '"': '\u0308',
+  H: '\u030B',
+  v: '\u030C',
+  c: '\u0327'
+}
+
+const LETTERS: Record<string, string> = { ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı' }
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/**
+ * Turns LaTeX markup in a field value into plain text: accents, escaped characters,
+ * dashes and grouping braces
+ * @param value The raw value
+ * @returns The text
+ */
+export const cleanLatex = (value: string): string => {
+  return value
+    .replace(/\\([`'^~=."])\s*\{?\s*([A-Za-z])\s*\}?/g, (_match, accent: string, letter: string) => letter + ACCENTS[accent])
+    .replace(/\\([uvHc])(?:\s+|\{)([A-Za-z])\}?/g, (_match, accent: string, letter: string) => letter + ACCENTS[accent])
+    .replace(/\\(ss|ae|AE|aa|AA|[oOlLi])(?![A-Za-z])\s*/g, (_match, name: string) => LETTERS[name])
+    .replace(/\\(?:textit|textbf|emph|textsc|texttt|mathrm)\s*/g, '')
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC')
+}
+
+/**
+ * Parses BibTeX text; @comment and @preamble blocks are skipped and @string macros are expanded
+ * @param text The contents of a .bib file
+ * @returns The entries in file order
+ * @throws BibtexParseError for unbalanced braces or entries without a key
+ */
+export const parseBibtex = (text: string): BibtexEntry[] => {
+  const entries: BibtexEntry[] = []
+  const macros: Record<string, string> = Object.fromEntries(MONTHS.map((month, index) => [month, String(index + 1)]))
+  let position = 0
+
+  const fail = (message: string): never => {
+    const line = text.substring(0, position).split('\n').length
+    throw new BibtexParseError(`${message} (line ${line})`)
+  }
+
+  const skipWhitespace = () => {
+    while (position < text.length && /\s/.test(text[position])) position++
+  }
+
+  // Reads a {...} group, or a "..." string that may contain braces; returns the inner text
+  const readDelimited = (): string => {
+    const open = text[position]
+    const close = open === '{' ? '}' : '"'
+    const start = ++position
+    let depth = 0
+    while (position < text.length) {
+      const char = text[position]
+      if (char === '\\') {
+        position += 2
+        continue
+      }
+      if (char === '{') depth++
+      else if (char === '}' && depth > 0 && !(close === '}' && depth === 0)) depth--
+      else if (char === close && depth === 0) return text.substring(start, position++)
+      position++
+    }
+    return fail('Unbalanced braces')
+  }
+
+  // Reads a value: braced or quoted parts, numbers and macros joined with #
+  const readValue = (): string => {
+    const parts: string[] = []
+    while (true) {
+      skipWhitespace()
+      const char = text[position]
+      if (char === '{' || char === '"') {
+        parts.push(readDelimited())
+      } else {
+        const word = text.substring(position).match(/^[^\s,#})]+/)?.[0]
+        if (!word) fail('Missing value')
+        position += word!.length
+        parts.push(/^\d+$/.test(word!) ? word! : macros[word!.toLowerCase()] ?? word!)
+      }
+      skipWhitespace()
+      if (text[position] !== '#') return parts.join('')
+      position++
+    }
+  }
+
+  while (true) {
+    const at = text.indexOf('@', position)
+    if (at === -1) break
+    position = at + 1
+    const type = text.substring(position).match(/^\s*([A-Za-z]+)\s*/)
+    if (!type) continue
+    position += type[0].length
+    const open = text[position]
+    if (open !== '{' && open !== '(') continue
+    const close = open === '{' ? '}' : ')'
+    const kind = type[1].toLowerCase()
+
+    if (kind === 'comment' || kind === 'preamble') {
+      if (open === '{') readDelimited()
+      continue
+    }
+
+    position++
+    if (kind === 'string') {
+      skipWhitespace()
+      const name = text.substring(position).match(/^[^\s=]+/)?.[0] || fail('Missing @string name')
+      position += name.length
+      skipWhitespace()
+      if (text[position] !== '=') fail('Missing = in @string')
+      position++
+      macros[name.toLowerCase()] = readValue()
+      skipWhitespace()
+      if (text[position] === close) position++
+      continue
+    }
+
+    skipWhitespace()
+    const key = text.substring(position).match(/^[^\s,]+/)?.[0]
+    if (!key || key.startsWith(close)) fail(`@${kind} entry without a key`)
+    position += key!.length
+    skipWhitespace()
+
+    const fields: Record<string, string> = {}
+    while (text[position] === ',') {
+      position++
+      skipWhitespace()
+      if (text[position] === close) break
+      const name = text.substring(position).match(/^[A-Za-z][\w-]*/)?.[0] || fail(`Missing field name in ${key}`)
+      position += name.length
+      skipWhitespace()
+      if (text[position] !== '=') fail(`Missing = after ${name} in ${key}`)
+      position++
+      fields[name.toLowerCase()] = name.toLowerCase() === 'url' || name.toLowerCase() === 'doi'
+        ? readValue().trim()
+        : cleanLatex(readValue())
+      skipWhitespace()
+    }
+    if (text[position] !== close) fail(`Unterminated entry ${key}`)
+    position++
+    entries.push({ type: kind, key: key!, fields })
+  }
+
+  return entries
+}
+
+/**
+ * Turns BibTeX entries into reference sources; entries without a title are skipped
+ * @param entries The entries
+ * @returns The sources
+ */
+export const bibtexToSources = (entries: BibtexEntry[]): ResearchSource[] => {
+  return entries
+    .filter(entry => entry.fields.title)
+    .map(({ type, key, fields }) => {
+      const source: ResearchSource = { kind: 'reference', title: fields.title, key, entryType: type }
+      const authors = fields.author || fields.editor
+      if (authors) source.authors = authors
+      const year = fields.year || fields.date?.match(/\d{4}/)?.[0]
+      if (year) source.year = year
+      const container = fields.journal || fields.journaltitle || fields.booktitle
+      if (container) source.container = container
+      if (fields.volume) source.volume = fields.volume
+      if (fields.number || fields.issue) source.issue = fields.number || fields.issue
+      if (fields.pages) source.pages = fields.pages.replace(/-+/g, '–')
+      const publisher = fields.publisher || fields.institution || fields.school || fields.organization
+      if (publisher) source.publisher = publisher
+      if (fields.doi) source.doi = fields.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
+      const url = fields.url || (source.doi ? `https://doi.org/${source.doi}` : undefined)
+      if (url) source.url = url
+      return source
+    })
+}
+
+/**
+ * The citation key of a source; sources without one get source1, source2, ... by number
+ * @param source The source
+ * @param number The source number
+ */
+export const sourceKey = (source: ResearchSource, number: number): string => source.key || `source${number}`
+
+const escapeBibtex = (value: string) => value.replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '')
+
+/**
+ * Writes sources as BibTeX, e.g. for pandoc's citeproc
+ * @param sources The sources
+ * @returns The .bib contents
+ */
+export const sourcesToBibtex = (sources: ResearchSource[]): string => {
+  return sources.map((source, index) => {
+    const type = source.entryType || (source.kind === 'reference' ? 'misc' : 'unpublished')
+    const fields: [string, string | undefined][] = [
+      ['author', source.authors],
+      ['title', source.title],
+      [type === 'article' ? 'journal' : 'booktitle', source.container],
+      ['year', source.year],
+      ['volume', source.volume],
+      ['number', source.issue],
+      ['pages', source.pages?.replace(/–/g, '--')],
+      ['publisher', source.publisher],
+      ['doi', source.doi],
+      ['url', source.url]
+    ]
+    const body = fields
+      .filter((field): field is [string, string] => !!field[1])
+      .map(([name, value]) => `  ${name} = {${name === 'url' || name === 'doi' ? value : escapeBibtex(value)}}`)
+      .join(',\n')
+    return `@${type}{${sourceKey(source, index + 1)},\n${body}\n}`
+  }).join('\n\n')
+}
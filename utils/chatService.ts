@@ -0,0 +1,264 @@
+/**
+ * Server-side chat service shared by the /api/chat proxy and background jobs
+ * Resolves the model and provider for a request and maps provider failures to HTTP errors
+ */
+
+import { createError } from 'h3'
+import type { Storage } from 'unstorage'
+import { getLLMProvider, LLMProviderError } from './llmProviders'
+import type { LLMConfig, LLMProvider } from './llmProviders'
+import { MODEL_STAGES, clampMaxTokens, getModelCatalog, resolveStageModel } from './modelCatalog'
+import { createResilientProvider } from './llmRetry'
+import { createCassetteFetch, createFileCassetteStore } from './llmCassette'
+import { createUsageTracker, createUsageTrackingProvider } from './usageTracker'
+import type { UsageBudget, UsageTracker } from './usageTracker'
+import { createCachingProvider, createResponseCache } from './responseCache'
+import type { ResponseCache } from './responseCache'
+import type { ChatCompletionRequest, ChatMessage, ChatRole, ModelStage } from '~/types/llm'
+
+export interface ChatServiceConfig {
+  openrouterApiKey?: string
+  llm: LLMConfig & {
+    defaultModel: string
+    extraModels: string
+    fallbackModels: string
+    maxRetries: number
+    retryBaseDelayMs: number
+    retryMaxDelayMs: number
+    dailyBudgetUsd: number
+    sessionBudgetUsd: number
+    cassetteMode: string
+    cassetteDir: string
+    cassetteTiming: boolean
+    cacheEnabled: boolean
+    cacheTtlSeconds: number
+    cacheMaxEntries: number
+    cacheMaxEntryBytes: number
+  }
+  public: {
+    siteUrl: string
+    models: Partial<Record<ModelStage, string>>
+  }
+}
+
+/** The fields of a chat request body the service reads */
+export interface ChatRequestBody {
+  model?: string
+  stage?: ModelStage
+  messages: ChatMessage[]
+  max_tokens?: number
+  temperature?: number
+  stream: boolean
+  sessionId?: string
+  bypassCache: boolean
+}
+
+const CHAT_ROLES: ChatRole[] = ['system', 'user', 'assistant']
+
+/**
+ * Normalizes an untrusted request body; fields of the wrong type are dropped
+ * @param value The parsed request body
+ * @returns The body
+ */
+export const normalizeChatBody = (value: unknown): ChatRequestBody => {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {}
+  const messages = Array.isArray(input.messages)
+    ? input.messages.filter((message): message is ChatMessage => !!message && typeof message === 'object' &&
+      CHAT_ROLES.includes((message as ChatMessage).role) && typeof (message as ChatMessage).content === 'string')
+    : []
+
+  const body: ChatRequestBody = { messages, stream: input.stream === true, bypassCache: input.bypassCache === true }
+  if (typeof input.model === 'string' && input.model) body.model = input.model
+  if (MODEL_STAGES.some(({ stage }) => stage === input.stage)) body.stage = input.stage as ModelStage
+  if (typeof input.max_tokens === 'number' && input.max_tokens > 0) body.max_tokens = input.max_tokens
+  if (typeof input.temperature === 'number') body.temperature = input.temperature
+  if (typeof input.sessionId === 'string' && /^[\w-]{1,64}$/.test(input.sessionId)) body.sessionId = input.sessionId
+  return body
+}
+
+/**
+ * Builds a normalized chat request from an incoming request body
+ * An explicit model wins, then the stage default, then the global default
+ * @param value The request body (model, stage, messages, max_tokens, temperature, stream)
+ * @param config The runtime config
+ * @returns The normalized request
+ */
+export const buildChatRequest = (value: unknown, config: ChatServiceConfig): ChatCompletionRequest => {
+  const body = normalizeChatBody(value)
+  const catalog = getModelCatalog(config.llm.extraModels.split(','))
+  const model = body.stage
+    ? resolveStageModel(body.stage, config.public.models, body.model)
+    : body.model || config.llm.defaultModel
+
+  return {
+    model,
+    messages: body.messages,
+    max_tokens: clampMaxTokens(model, body.max_tokens, catalog),
+    temperature: body.temperature,
+    stream: body.stream
+  }
+}
+
+/**
+ * Builds the fetch used for upstream calls when cassette mode is on
+ * @param config The runtime config
+ * @returns The recording or replaying fetch, or undefined to use the global fetch
+ */
+const getCassetteFetch = (config: ChatServiceConfig): typeof fetch | undefined => {
+  const mode = config.llm.cassetteMode
+  if (mode !== 'record' && mode !== 'replay') return undefined
+
+  const store = createFileCassetteStore(config.llm.cassetteDir)
+  return createCassetteFetch(mode, store, { timing: config.llm.cassetteTiming, location: store.location })
+}
+
+/**
+ * Resolves the configured provider, converting configuration problems to a 500 error
+ * The provider retries transient failures and falls back along LLM_FALLBACK_MODELS
+ * @param config The runtime config
+ * @returns The provider
+ */
+export const getConfiguredProvider = (config: ChatServiceConfig): LLMProvider => {
+  try {
+    // Replaying never reaches OpenRouter, so an API key is not required
+    const apiKey = config.openrouterApiKey || (config.llm.cassetteMode === 'replay' ? 'cassette-replay' : undefined)
+    const provider = getLLMProvider(config.llm, apiKey, config.public.siteUrl, getCassetteFetch(config))
+    const catalog = getModelCatalog(config.llm.extraModels.split(','))
+
+    return createResilientProvider(provider, {
+      policy: {
+        maxRetries: config.llm.maxRetries,
+        baseDelayMs: config.llm.retryBaseDelayMs,
+        maxDelayMs: config.llm.retryMaxDelayMs
+      },
+      fallbackModels: config.llm.fallbackModels.split(','),
+      prepareRequest: (request, model) => ({
+        ...request,
+        max_tokens: clampMaxTokens(model, request.max_tokens, catalog)
+      }),
+      onRetry: ({ model, attempt, delayMs, error }) => {
+        console.warn(`Retrying ${model} (attempt ${attempt}) in ${delayMs}ms:`, error instanceof Error ? error.message : error)
+      },
+      onFallback: ({ from, to, error }) => {
+        console.warn(`Falling back from ${from} to ${to}:`, error instanceof Error ? error.message : error)
+      }
+    })
+  } catch (error) {
+    console.error('LLM provider configuration error:', error)
+    throw createError({
+      statusCode: 500,
+      statusMessage: error instanceof Error ? error.message : 'LLM provider configuration is invalid'
+    })
+  }
+}
+
+/**
+ * Reads the research session id sent by the client, used to aggregate usage
+ * @param body The request body
+ * @returns The session id, or undefined if missing or malformed
+ */
+export const getSessionId = (body: unknown): string | undefined => normalizeChatBody(body).sessionId
+
+/**
+ * Reads the configured spending limits
+ * @param config The runtime config
+ * @returns The budget
+ */
+export const getUsageBudget = (config: ChatServiceConfig): UsageBudget => ({
+  dailyUsd: config.llm.dailyBudgetUsd || 0,
+  sessionUsd: config.llm.sessionBudgetUsd || 0
+})
+
+/**
+ * Rejects the request with 402 when the daily or session budget is spent
+ * @param tracker The usage tracker
+ * @param config The runtime config
+ * @param sessionId The research session making the request
+ */
+export const assertWithinBudget = async (tracker: UsageTracker, config: ChatServiceConfig, sessionId?: string) => {
+  const exceeded = await tracker.checkBudget(getUsageBudget(config), sessionId)
+  if (exceeded) {
+    throw createError({ statusCode: 402, statusMessage: exceeded })
+  }
+}
+
+/**
+ * Wraps a provider so each call's usage is priced and recorded
+ * @param provider The provider
+ * @param config The runtime config
+ * @param tracker The usage tracker
+ * @param sessionId The research session making the request
+ * @returns The wrapped provider
+ */
+export const withUsageTracking = (
+  provider: LLMProvider,
+  config: ChatServiceConfig,
+  tracker: UsageTracker,
+  sessionId?: string
+): LLMProvider => {
+  const catalog = getModelCatalog(config.llm.extraModels.split(','))
+  return createUsageTrackingProvider(provider, catalog, usage => tracker.record(usage, sessionId))
+}
+
+/**
+ * Creates the response cache with the configured limits
+ * @param config The runtime config
+ * @param storage Nitro storage
+ * @returns The cache
+ */
+export const getResponseCache = (config: ChatServiceConfig, storage: Storage): ResponseCache => {
+  return createResponseCache(storage, {
+    ttlMs: config.llm.cacheTtlSeconds * 1000,
+    maxEntries: config.llm.cacheMaxEntries,
+    maxEntryBytes: config.llm.cacheMaxEntryBytes
+  })
+}
+
+/**
+ * Builds the provider that serves a chat request: response cache (when enabled and not
+ * bypassed), then usage tracking, then retries and fallback around the configured provider
+ * Rejects the request first if the budget is spent
+ * @param config The runtime config
+ * @param storage Nitro storage for usage and the cache
+ * @param value The request body (sessionId, bypassCache)
+ * @param onCacheLookup Called with the cache result, e.g. to set an X-Cache header
+ * @returns The provider
+ */
+export const createChatProvider = async (
+  config: ChatServiceConfig,
+  storage: Storage,
+  value: unknown,
+  onCacheLookup?: (result: 'hit' | 'miss') => void
+): Promise<LLMProvider> => {
+  const body = normalizeChatBody(value)
+  const sessionId = body.sessionId
+  const tracker = createUsageTracker(storage)
+  await assertWithinBudget(tracker, config, sessionId)
+
+  const provider = withUsageTracking(getConfiguredProvider(config), config, tracker, sessionId)
+  if (!config.llm.cacheEnabled || body.bypassCache) {
+    return provider
+  }
+  return createCachingProvider(provider, getResponseCache(config, storage), onCacheLookup)
+}
+
+/**
+ * Converts a provider failure into an h3 error, keeping the upstream status when known
+ * @param error The error thrown by the provider
+ * @param providerId The provider that failed
+ * @returns The h3 error to throw
+ */
+export const toChatHttpError = (error: unknown, providerId: string) => {
+  if (error instanceof LLMProviderError) {
+    return createError({
+      statusCode: error.status,
+      statusMessage: error.message,
+      data: error.body
+    })
+  }
+  return createError({
+    statusCode: 500,
+    statusMessage: `Failed to communicate with the ${providerId} provider`,
+    data: error
+  })
+}
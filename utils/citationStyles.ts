@@ -0,0 +1,194 @@
+/**
+ * Citation styles: in-text citations and bibliography entries in APA, IEEE and Chicago
+ * (author-date), and the CSL styles pandoc uses for the same styles in the R Markdown render
+ */
+
+import type { CitationStyle, ResearchSource } from '~/types/research'
+
+export const CITATION_STYLES: Record<CitationStyle, { label: string, csl?: string }> = {
+  apa: { label: 'APA (author-date)', csl: 'https://www.zotero.org/styles/apa' },
+  ieee: { label: 'IEEE (numbered)', csl: 'https://www.zotero.org/styles/ieee' },
+  // Chicago author-date is pandoc's default style and needs no CSL file
+  chicago: { label: 'Chicago (author-date)' }
+}
+
+export const isCitationStyle = (value: unknown): value is CitationStyle => {
+  return typeof value === 'string' && Object.keys(CITATION_STYLES).includes(value)
+}
+
+export interface PersonName {
+  family: string
+  given: string
+}
+
+/**
+ * Splits a BibTeX author list ("Smith, John and Kim Lee") into names; "others" becomes et al.
+ * @param authors The authors
+ * @returns The names, and whether the list was cut short with "and others"
+ */
+export const parseNames = (authors?: string): { names: PersonName[], others: boolean } => {
+  const parts = (authors || '').split(/\s+and\s+/i).map(part => part.trim()).filter(Boolean)
+  const others = parts.length > 0 && /^others$/i.test(parts[parts.length - 1])
+  const names = parts.filter(part => !/^others$/i.test(part)).map((part) => {
+    const comma = part.indexOf(',')
+    if (comma !== -1) return { family: part.substring(0, comma).trim(), given: part.substring(comma + 1).trim() }
+    const words = part.split(/\s+/)
+    return { family: words.pop() || '', given: words.join(' ') }
+  })
+  return { names, others }
+}
+
+// "John Ronald" -> "J. R.", "Jean-Paul" -> "J.-P."
+const initials = (given: string): string => {
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.split('-').map(part => `${part[0]}.`).join('-'))
+    .join(' ')
+}
+
+const joinNames = (names: string[], conjunction: string, serialComma = true): string => {
+  if (names.length <= 1) return names.join('')
+  if (names.length === 2) return `${names[0]} ${conjunction} ${names[1]}`
+  return `${names.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${conjunction} ${names[names.length - 1]}`
+}
+
+// Adds a full stop unless the text already ends with punctuation
+const sentence = (text: string): string => /[.?!]$/.test(text) ? text : `${text}.`
+
+const citedName = (source: ResearchSource, style: CitationStyle): string => {
+  const { names, others } = parseNames(source.authors)
+  if (!names.length) return source.title
+  const families = names.map(name => name.family)
+  const max = style === 'apa' ? 2 : 3
+  if (others || families.length > max) return `${families[0]} et al.`
+  return joinNames(families, style === 'apa' ? '&' : 'and', style !== 'apa' || families.length > 2)
+}
+
+/**
+ * Formats one cited source for an in-text citation, without the brackets
+ * @param source The source
+ * @param number The source number
+ * @param style The citation style
+ * @param locator A page or section, e.g. "p. 3"
+ * @returns E.g. "Smith & Lee, 2020" (APA), "Smith and Lee 2020" (Chicago) or "1" (IEEE)
+ */
+export const formatCitationItem = (source: ResearchSource, number: number, style: CitationStyle, locator?: string): string => {
+  const suffix = locator ? `, ${locator}` : ''
+  if (style === 'ieee') return `${number}${suffix}`
+  const year = source.year || 'n.d.'
+  return style === 'apa'
+    ? `${citedName(source, style)}, ${year}${suffix}`
+    : `${citedName(source, style)} ${year}${suffix}`
+}
+
+/**
+ * Wraps formatted citation items in the brackets of a style
+ * @param items The items from formatCitationItem
+ * @param style The citation style; numbered when omitted
+ * @returns E.g. "(Smith, 2020; Lee, 2019)" or "[1, 3]"
+ */
+export const wrapCitation = (items: string[], style?: CitationStyle): string => {
+  return !style || style === 'ieee' ? `[${items.join(', ')}]` : `(${items.join('; ')})`
+}
+
+const link = (source: ResearchSource): string | undefined => source.doi ? `https://doi.org/${source.doi}` : source.url
+
+const apaEntry = (source: ResearchSource): string => {
+  const { names, others } = parseNames(source.authors)
+  const authors = names.map(name => [name.family, initials(name.given)].filter(Boolean).join(', '))
+  const title = sentence(source.title)
+  const date = `(${source.year || 'n.d.'}).`
+  // APA puts a comma before the ampersand even for two authors: "Smith, J., & Lee, K."
+  const authorList = others
+    ? `${authors.join(', ')}, et al.`
+    : authors.length > 1 ? `${authors.slice(0, -1).join(', ')}, & ${authors[authors.length - 1]}` : authors[0]
+  const parts = authors.length
+    ? [`${authorList} ${date}`, source.container ? title : `*${title}*`]
+    : [source.container ? title : `*${title}*`, date]
+
+  if (source.container) {
+    const volume = source.volume ? `, *${source.volume}*${source.issue ? `(${source.issue})` : ''}` : ''
+    parts.push(`*${source.container}*${volume}${source.pages ? `, ${source.pages}` : ''}.`)
+  } else if (source.publisher) {
+    parts.push(sentence(source.publisher))
+  }
+  return [...parts, link(source)].filter(Boolean).join(' ')
+}
+
+const ieeeEntry = (source: ResearchSource, number: number): string => {
+  const { names, others } = parseNames(source.authors)
+  const authors = names.map(name => [initials(name.given), name.family].filter(Boolean).join(' '))
+  const head = authors.length
+    ? `${others || authors.length > 6 ? `${authors[0]} et al.` : joinNames(authors, 'and', authors.length > 2)}, `
+    : ''
+  const quoted = (text: string) => /[.?!]$/.test(text) ? `"${text}"` : `"${text},"`
+
+  let entry: string
+  if (source.container) {
+    const details = [
+      source.volume && `vol. ${source.volume}`,
+      source.issue && `no. ${source.issue}`,
+      source.pages && `pp. ${source.pages}`,
+      source.year
+    ].filter(Boolean)
+    entry = `${head}${quoted(source.title)} *${source.container}*${details.length ? `, ${details.join(', ')}` : ''}.`
+  } else if (source.publisher) {
+    entry = `${head}*${sentence(source.title)}* ${source.publisher}${source.year ? `, ${source.year}` : ''}.`
+  } else {
+    entry = source.year ? `${head}${quoted(source.title)} ${source.year}.` : `${head}"${sentence(source.title)}"`
+  }
+
+  if (source.doi) entry += ` doi: ${source.doi}.`
+  else if (source.url) entry += ` [Online]. Available: ${source.url}`
+  return `[${number}] ${entry}`
+}
+
+const chicagoEntry = (source: ResearchSource): string => {
+  const { names, others } = parseNames(source.authors)
+  const authors = names.map((name, index) => index === 0
+    ? [name.family, name.given].filter(Boolean).join(', ')
+    : [name.given, name.family].filter(Boolean).join(' '))
+  const year = `${source.year || 'n.d.'}.`
+  const title = source.container ? `"${sentence(source.title)}"` : `*${sentence(source.title)}*`
+  const parts = authors.length
+    ? [sentence(others ? `${authors[0]}, et al` : authors.length === 2 ? `${authors[0]}, and ${authors[1]}` : joinNames(authors, 'and')), year, title]
+    : [title, year]
+
+  if (source.container) {
+    const volume = source.volume ? ` ${source.volume}${source.issue ? ` (${source.issue})` : ''}` : ''
+    parts.push(`*${source.container}*${volume}${source.pages ? `: ${source.pages}` : ''}.`)
+  } else if (source.publisher) {
+    parts.push(sentence(source.publisher))
+  }
+  return [...parts, link(source)].filter(Boolean).join(' ')
+}
+
+/**
+ * Formats a source as a bibliography entry in Markdown (titles in italics)
+ * @param source The source
+ * @param style The citation style
+ * @param number The source number, shown by numbered styles
+ * @returns The entry
+ */
+export const formatBibliographyEntry = (source: ResearchSource, style: CitationStyle, number: number): string => {
+  if (style === 'ieee') return ieeeEntry(source, number)
+  return style === 'apa' ? apaEntry(source) : chicagoEntry(source)
+}
+
+/**
+ * Formats the bibliography of the cited sources: numbered styles list them by number,
+ * author-date styles alphabetically
+ * @param sources All sources of the session
+ * @param numbers The cited source numbers
+ * @param style The citation style
+ * @returns One entry per cited source
+ */
+export const formatBibliography = (sources: ResearchSource[], numbers: number[], style: CitationStyle): string[] => {
+  const entries = numbers
+    .filter(number => sources[number - 1])
+    .map(number => formatBibliographyEntry(sources[number - 1], style, number))
+  if (style === 'ieee') return entries
+  const sortKey = (entry: string) => entry.replace(/[*"]/g, '').toLowerCase()
+  return entries.sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+}
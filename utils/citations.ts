@@ -0,0 +1,369 @@
+/**
+ * Citations: the sources of a research session, the [n] and [@key] markers the research and
+ * outline prompts ask for, checking the markers against the sources, footnotes for the
+ * /research view and the References slide of the deck
+ */
+
+import { sourceKey } from './bibtex'
+import { CITATION_STYLES, formatBibliography, formatBibliographyEntry, formatCitationItem, wrapCitation } from './citationStyles'
+import type { RetrievedPassage } from '~/types/documents'
+import type { CitationStyle, ResearchSource, ResearchSourceKind } from '~/types/research'
+
+/** Largest number of sources a brief may carry */
+export const MAX_SOURCES = 30
+/** Longest note text kept per source, in characters */
+export const MAX_SOURCE_TEXT = 4000
+/** References listed per slide before the References slide is continued */
+export const REFERENCES_PER_SLIDE = 8
+
+const SOURCE_KINDS: ResearchSourceKind[] = ['note', 'reference', 'document']
+
+// [1], [1, 3] and [2-4], or citation keys as in pandoc: [@smith2020], [@smith2020, p. 3] and
+// [@smith2020; @lee2019]; not links ([1](url)), reference links ([text][1]), link definitions
+// ([1]: url), images or footnotes ([^1])
+const MARKER = /(?<![\]!\\])\[(?:(\d{1,3}(?:\s*[,–-]\s*\d{1,3})*)|(@\w[\w:.#$%&+?<>~/-]*(?:,[^\][;@]*)?(?:\s*;\s*@\w[\w:.#$%&+?<>~/-]*(?:,[^\][;@]*)?)*))\](?![(\[:])/g
+// Fenced code blocks and inline code, where brackets are not citations
+const CODE = /(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`)/
+
+export interface CitationCheck {
+  /** Source numbers that are cited and exist, in ascending order */
+  cited: number[]
+  /** Cited numbers without a source, in ascending order */
+  unresolved: number[]
+  /** One message per unresolved number */
+  errors: string[]
+}
+
+const cleanText = (value: unknown, maxLength = 500): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim().substring(0, maxLength) : undefined
+}
+
+/**
+ * Builds the sources of a brief from untrusted input; entries without a title or text are dropped
+ * @param value The sources, e.g. from a request body
+ * @returns The sources
+ */
+export const normalizeSources = (value: unknown): ResearchSource[] => {
+  if (!Array.isArray(value)) return []
+
+  const sources: ResearchSource[] = []
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue
+    const input = item as Record<string, unknown>
+    const kind = SOURCE_KINDS.includes(input.kind as ResearchSourceKind) ? input.kind as ResearchSourceKind : 'note'
+    const text = cleanText(input.text, MAX_SOURCE_TEXT)
+    const title = cleanText(input.title)?.replace(/\s+/g, ' ') || (text && `${text.replace(/\s+/g, ' ').substring(0, 60)}...`)
+    if (!title) continue
+
+    const source: ResearchSource = { kind, title }
+    if (text) source.text = text
+    const authors = cleanText(input.authors)
+    if (authors) source.authors = authors
+    const year = cleanText(input.year, 20)
+    if (year) source.year = year
+    const url = cleanText(input.url, 2000)
+    if (url && /^https?:\/\//i.test(url)) source.url = url
+    if (typeof input.documentId === 'string') source.documentId = input.documentId
+    if (Number.isInteger(input.chunkIndex)) source.chunkIndex = input.chunkIndex as number
+    const key = cleanText(input.key, 100)
+    if (key && /^\w[\w:.#$%&+?<>~/-]*$/.test(key)) source.key = key
+    for (const field of ['entryType', 'container', 'volume', 'issue', 'pages', 'publisher', 'doi'] as const) {
+      const value = cleanText(input[field])
+      if (value) source[field] = value
+    }
+    sources.push(source)
+    if (sources.length >= MAX_SOURCES) break
+  }
+  return sources
+}
+
+/**
+ * Turns a retrieved passage into a citable source
+ * @param passage The passage
+ * @returns The source
+ */
+export const passageToSource = (passage: RetrievedPassage): ResearchSource => ({
+  kind: 'document',
+  title: `${passage.documentName}, part ${passage.chunkIndex + 1}`,
+  text: passage.text,
+  documentId: passage.documentId,
+  chunkIndex: passage.chunkIndex
+})
+
+/**
+ * Appends passages to a source list, skipping passages that are already in it
+ * @param sources The sources
+ * @param passages The passages
+ * @returns The combined sources; existing sources keep their numbers
+ */
+export const addPassageSources = (sources: ResearchSource[], passages: RetrievedPassage[]): ResearchSource[] => {
+  const combined = [...sources]
+  for (const passage of passages) {
+    const known = combined.some(source => source.documentId === passage.documentId && source.chunkIndex === passage.chunkIndex)
+    if (!known) combined.push(passageToSource(passage))
+  }
+  return combined
+}
+
+/**
+ * Formats a source as a reference, e.g. "Smith, J. (2020). Tea. https://example.com"
+ * @param source The source
+ * @returns The reference text
+ */
+export const formatReference = (source: ResearchSource): string => {
+  const authors = source.authors && source.year
+    ? `${source.authors} (${source.year}).`
+    : source.authors ? `${source.authors}.` : source.year ? `(${source.year}).` : ''
+  const title = /[.?!]$/.test(source.title) ? source.title : `${source.title}.`
+  return [authors, title, source.url].filter(Boolean).join(' ')
+}
+
+// "[1]", or "[1] [@smith2020]" for sources with a citation key
+const sourceLabel = (source: ResearchSource, number: number): string => {
+  return source.key ? `[${number}] [@${source.key}]` : `[${number}]`
+}
+
+/**
+ * Formats sources with their text for the research prompts
+ * @param sources All sources of the session; their numbers are their positions
+ * @param numbers The numbers to include, all when omitted
+ * @returns The numbered sources, or an empty string if there are none
+ */
+export const formatSourcesForPrompt = (sources: ResearchSource[], numbers?: number[]): string => {
+  return sources
+    .map((source, index) => ({ source, number: index + 1 }))
+    .filter(({ number }) => !numbers || numbers.includes(number))
+    .map(({ source, number }) => `${sourceLabel(source, number)} ${formatReference(source)}${source.text ? `\n${source.text}` : ''}`)
+    .join('\n\n')
+}
+
+/**
+ * Formats sources as a numbered list without their text, for the synthesis and outline prompts
+ * @param sources The sources
+ * @returns One line per source, or an empty string if there are none
+ */
+export const formatSourceList = (sources: ResearchSource[]): string => {
+  return sources.map((source, index) => `${sourceLabel(source, index + 1)} ${formatReference(source)}`).join('\n')
+}
+
+const parseNumbers = (marker: string): number[] => {
+  const numbers: number[] = []
+  for (const part of marker.split(',')) {
+    const [start, end] = part.split(/[–-]/).map(value => parseInt(value.trim(), 10))
+    if (end === undefined) {
+      numbers.push(start)
+    } else {
+      // Ranges are expanded up to a sane size; [1-999] is not a citation
+      for (let number = start; number <= end && number - start < 20; number++) numbers.push(number)
+    }
+  }
+  return numbers
+}
+
+interface CitationItem {
+  /** The cited number, for [n] markers */
+  number?: number
+  /** The cited key, for [@key] markers */
+  key?: string
+  /** A page or section after the key, e.g. "p. 3" */
+  locator?: string
+}
+
+const parseMarker = (numbers: string | undefined, keys: string | undefined): CitationItem[] => {
+  if (numbers) return parseNumbers(numbers).map(number => ({ number }))
+  return (keys || '').split(';').map((part) => {
+    const [key, ...locator] = part.trim().substring(1).split(',')
+    return { key: key.trim(), locator: locator.join(',').trim() || undefined }
+  })
+}
+
+// The number of the cited source, if it exists
+const resolveItem = (item: CitationItem, sources: ResearchSource[]): number | undefined => {
+  if (item.key) {
+    const index = sources.findIndex(source => source.key === item.key)
+    return index === -1 ? undefined : index + 1
+  }
+  return item.number !== undefined && item.number >= 1 && item.number <= sources.length ? item.number : undefined
+}
+
+/**
+ * Applies a function to the parts of a Markdown document that are not code
+ */
+const mapOutsideCode = (markdown: string, transform: (text: string) => string): string => {
+  return markdown
+    .split(CODE)
+    .map((part, index) => index % 2 === 1 ? part : transform(part))
+    .join('')
+}
+
+const findItems = (markdown: string): CitationItem[] => {
+  const items: CitationItem[] = []
+  mapOutsideCode(markdown, (text) => {
+    for (const match of text.matchAll(MARKER)) items.push(...parseMarker(match[1], match[2]))
+    return text
+  })
+  return items
+}
+
+/**
+ * Finds the source numbers cited in a Markdown document, ignoring code
+ * @param markdown The document
+ * @param sources The sources [@key] markers are looked up in; unknown keys are skipped
+ * @returns The cited numbers in order of appearance, with repeats
+ */
+export const findCitations = (markdown: string, sources: ResearchSource[] = []): number[] => {
+  return findItems(markdown)
+    .map(item => item.key ? resolveItem(item, sources) : item.number)
+    .filter((number): number is number => number !== undefined)
+}
+
+/**
+ * Checks the citation markers of a document against the sources
+ * Markers that do not match a source were made up by the model and are reported as errors
+ * @param markdown The document
+ * @param sources The sources
+ * @returns The cited and unresolved numbers and the errors
+ */
+export const checkCitations = (markdown: string, sources: ResearchSource[]): CitationCheck => {
+  const numbers = [...new Set(findCitations(markdown, sources))].sort((a, b) => a - b)
+  const cited = numbers.filter(number => number >= 1 && number <= sources.length)
+  const unresolved = numbers.filter(number => !cited.includes(number))
+  const unknownKeys = [...new Set(findItems(markdown)
+    .filter(item => item.key && !resolveItem(item, sources))
+    .map(item => item.key as string))]
+
+  return {
+    cited,
+    unresolved,
+    errors: [
+      ...unresolved.map(number => sources.length
+        ? `Citation [${number}] does not match any of the ${sources.length} sources`
+        : `Citation [${number}] does not match any source; no sources were provided`),
+      ...unknownKeys.map(key => `Citation [@${key}] does not match the key of any source`)
+    ]
+  }
+}
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// The in-text form of one resolved item: its number, or its author and year in author-date styles
+const itemText = (source: ResearchSource, number: number, item: CitationItem, style?: CitationStyle): string => {
+  return style ? formatCitationItem(source, number, style, item.locator) : `${number}${item.locator ? `, ${item.locator}` : ''}`
+}
+
+/**
+ * Turns citation markers into footnote links to the source list (#source-n) that show the
+ * reference on hover; unresolved numbers and keys are marked as errors
+ * @param markdown The document
+ * @param sources The sources
+ * @param style The citation style; plain numbers when omitted
+ * @returns The document with HTML footnotes, to be rendered with renderMarkdown
+ */
+export const linkCitations = (markdown: string, sources: ResearchSource[], style?: CitationStyle): string => {
+  return mapOutsideCode(markdown, text => text.replace(MARKER, (_marker, numbers?: string, keys?: string) => {
+    const links = parseMarker(numbers, keys).map((item) => {
+      const number = resolveItem(item, sources)
+      if (number === undefined) {
+        const label = item.key ? `@${item.key}` : String(item.number)
+        const reason = item.key ? `No source with the key ${item.key} in this research` : `No source ${item.number} in this research`
+        return `<span class="citation-unresolved" data-reference="${escapeHtml(reason)}">${escapeHtml(label)}</span>`
+      }
+      const source = sources[number - 1]
+      const reference = style ? formatBibliographyEntry(source, style, number).replace(/\*/g, '') : formatReference(source)
+      return `<a href="#source-${number}" class="citation-link" data-reference="${escapeHtml(reference)}">${escapeHtml(itemText(source, number, item, style))}</a>`
+    })
+    return !style || style === 'ieee'
+      ? `<sup class="citation">${wrapCitation(links, style)}</sup>`
+      : `<span class="citation">${wrapCitation(links, style)}</span>`
+  }))
+}
+
+/**
+ * Rewrites citation markers in a citation style, e.g. [@smith2020] as (Smith, 2020) in APA
+ * or as [1] in IEEE; markers citing an unknown source are left as they are
+ * @param markdown The document
+ * @param sources The sources
+ * @param style The citation style; [@key] markers become numbers when omitted
+ * @returns The document
+ */
+export const formatCitationMarkers = (markdown: string, sources: ResearchSource[], style?: CitationStyle): string => {
+  return mapOutsideCode(markdown, text => text.replace(MARKER, (marker: string, numbers?: string, keys?: string) => {
+    const items = parseMarker(numbers, keys)
+    const resolved = items.map(item => resolveItem(item, sources))
+    if (resolved.some(number => number === undefined)) return marker
+    return wrapCitation(items.map((item, index) => itemText(sources[resolved[index]! - 1], resolved[index]!, item, style)), style)
+  }))
+}
+
+/**
+ * Rewrites numbered markers as pandoc citations, e.g. [1, 2] as [@smith2020; @source2], for
+ * rendering with citeproc against sourcesToBibtex; unresolved numbers are left as they are
+ * @param markdown The document
+ * @param sources The sources
+ * @returns The document
+ */
+export const toPandocCitations = (markdown: string, sources: ResearchSource[]): string => {
+  return mapOutsideCode(markdown, text => text.replace(MARKER, (marker: string, numbers?: string) => {
+    if (!numbers) return marker
+    const items = parseNumbers(numbers)
+    if (items.some(number => !sources[number - 1])) return marker
+    return `[${items.map(number => `@${sourceKey(sources[number - 1], number)}`).join('; ')}]`
+  }))
+}
+
+/**
+ * Appends a References slide listing the cited sources to a Marp deck, with the citation
+ * markers written in the chosen style; long lists continue on further slides
+ * @param markdown The deck
+ * @param sources The sources
+ * @param style The citation style; numbered markers and plain references when omitted
+ * @returns The deck, unchanged when it cites no source
+ */
+export const appendReferencesSlide = (markdown: string, sources: ResearchSource[], style?: CitationStyle): string => {
+  const { cited } = checkCitations(markdown, sources)
+  if (!cited.length) return markdown
+
+  const references = style
+    ? formatBibliography(sources, cited, style)
+    : cited.map(number => `[${number}] ${formatReference(sources[number - 1])}`)
+  const slides: string[] = []
+  for (let start = 0; start < references.length; start += REFERENCES_PER_SLIDE) {
+    const heading = start ? '# References (continued)' : '# References'
+    const entries = references.slice(start, start + REFERENCES_PER_SLIDE).map(reference => `- ${reference}`)
+    slides.push(`${heading}\n\n${entries.join('\n')}`)
+  }
+
+  const deck = formatCitationMarkers(markdown, sources, style)
+  return `${deck.trimEnd()}\n\n---\n\n${slides.join('\n\n---\n\n')}\n`
+}
+
+/**
+ * Prepares an R Markdown document for pandoc's citeproc: numbered markers become citation
+ * keys, and the front matter points at the BibTeX file and the CSL style of the citation style
+ * @param markdown The document
+ * @param sources The sources written to the BibTeX file with sourcesToBibtex
+ * @param bibliographyPath Path of the BibTeX file
+ * @param style The citation style; pandoc's default (Chicago author-date) when omitted
+ * @returns The document, ending with a References heading for the bibliography
+ */
+export const addPandocBibliography = (markdown: string, sources: ResearchSource[], bibliographyPath: string, style?: CitationStyle): string => {
+  const csl = style && CITATION_STYLES[style].csl
+  const fields = [
+    `bibliography: "${bibliographyPath.replace(/\\/g, '/')}"`,
+    csl && `csl: "${csl}"`,
+    'link-citations: true'
+  ].filter(Boolean).join('\n')
+
+  const body = toPandocCitations(markdown, sources).trimEnd()
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n/)
+  const document = frontMatter
+    ? `---\n${[frontMatter[1].replace(/^(bibliography|csl|link-citations):.*\n?/gm, '').trimEnd(), fields].filter(Boolean).join('\n')}\n---\n${body.substring(frontMatter[0].length)}`
+    : `---\n${fields}\n---\n\n${body}`
+  return `${document}\n\n# References\n`
+}
@@ -0,0 +1,252 @@
+/**
+ * Reads the datasets the user uploads: CSV, TSV and Excel workbooks (.xlsx)
+ * A workbook is a zip archive of XML parts; the values of its first sheet are read, dates
+ * written as YYYY-MM-DD, and formulas are not evaluated
+ */
+
+import { inflateRawSync } from 'zlib'
+import { MAX_DATASET_ROWS, inferColumnType, toCsv, toDatasetName } from './datasets'
+import { parseCsv } from './documentParser'
+import type { ResearchDataset } from '~/types/research'
+
+/**
+ * Thrown for unsupported, unreadable or empty dataset files
+ */
+export class DatasetFileError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message)
+    this.name = 'DatasetFileError'
+  }
+}
+
+/** Largest dataset file that can be uploaded */
+export const MAX_DATASET_FILE_BYTES = 5 * 1024 * 1024
+
+/** Largest upload request, all of its files together */
+export const MAX_DATASET_UPLOAD_BYTES = 20 * 1024 * 1024
+
+// Largest part of a workbook that is decompressed; a small zip can expand far beyond the upload limit
+const MAX_WORKBOOK_PART_BYTES = 50 * 1024 * 1024
+
+// Excel sheets end at column XFD
+const MAX_COLUMNS = 16384
+
+// Cells kept from a sheet, counting the blank ones left of the last value of each row
+const MAX_SHEET_CELLS = 1000000
+
+type DatasetFileFormat = 'csv' | 'tsv' | 'xlsx'
+
+const FORMATS: Record<string, DatasetFileFormat> = { csv: 'csv', tsv: 'tsv', tab: 'tsv', xlsx: 'xlsx' }
+
+/**
+ * Lists the files of a zip archive; each is decompressed when it is read
+ */
+const readZip = (data: Uint8Array): Map<string, () => string> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const decoder = new TextDecoder('utf-8')
+
+  // The end of central directory record follows the central directory, before a comment of up to 64 KB
+  let end = -1
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset
+      break
+    }
+  }
+  if (end < 0) throw new DatasetFileError('The file is not an Excel workbook')
+
+  const files = new Map<string, () => string>()
+  let offset = view.getUint32(end + 16, true)
+  for (let count = view.getUint16(end + 10, true); count > 0; count--) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new DatasetFileError('The workbook is damaged')
+    const method = view.getUint16(offset + 10, true)
+    const size = view.getUint32(offset + 20, true)
+    const uncompressedSize = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const header = view.getUint32(offset + 42, true)
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength))
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true)
+    if (uncompressedSize > MAX_WORKBOOK_PART_BYTES) throw new DatasetFileError(`The workbook is too large to read (${name})`, 413)
+
+    files.set(name, () => {
+      const content = data.subarray(start, start + size)
+      if (method === 0) return decoder.decode(content)
+      if (method !== 8) throw new DatasetFileError(`The workbook uses an unsupported compression (${method})`)
+      try {
+        // A part that expands beyond the size it declares is cut off and rejected
+        return decoder.decode(inflateRawSync(content, { maxOutputLength: Math.max(uncompressedSize, 1) }))
+      } catch (error) {
+        if (error instanceof RangeError) throw new DatasetFileError(`The workbook is damaged (${name})`)
+        throw error
+      }
+    })
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true)
+  }
+  return files
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+const decodeXml = (text: string): string => {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10)
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+    }
+    return XML_ENTITIES[code] ?? entity
+  })
+}
+
+const attribute = (tag: string, name: string): string | undefined => {
+  return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1]
+}
+
+// The text of a shared or inline string, joining its rich-text runs and leaving out phonetic hints
+const stringText = (xml: string): string => {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+    .map(match => decodeXml(match[1]))
+    .join('')
+}
+
+// Built-in number formats that show dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+/**
+ * Finds the cell styles that show numbers as dates
+ * @returns The indexes of the styles, as referenced by the s attribute of cells
+ */
+const dateStyles = (styles: string): Set<number> => {
+  const dateFormats = new Set(DATE_FORMAT_IDS)
+  for (const [tag] of styles.matchAll(/<numFmt\b[^>]*>/g)) {
+    // Quoted text and [colors] are not part of the pattern; m alone is minutes in a time
+    const code = decodeXml(attribute(tag, 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')
+    if (/[dy]/i.test(code) || (/m/i.test(code) && !/[hs]/i.test(code))) dateFormats.add(Number(attribute(tag, 'numFmtId')))
+  }
+
+  const cellFormats = styles.match(/<cellXfs\b[\s\S]*?<\/cellXfs>/)?.[0] || ''
+  const dates = new Set<number>()
+  ;[...cellFormats.matchAll(/<xf\b[^>]*>/g)].forEach(([tag], index) => {
+    if (dateFormats.has(Number(attribute(tag, 'numFmtId')))) dates.add(index)
+  })
+  return dates
+}
+
+// Excel counts days from 30 December 1899
+const serialToDate = (serial: number): string => {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000).toISOString().substring(0, 10)
+}
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/)?.[0] || ''
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/**
+ * Reads the values of the first sheet of a workbook
+ * @param data The .xlsx file
+ * @returns The rows with values, each as wide as its last value
+ * @throws DatasetFileError if the workbook cannot be read or has too many rows or cells
+ */
+export const readWorkbook = (data: Uint8Array): string[][] => {
+  const files = readZip(data)
+  const read = (name: string): string => files.get(name)?.() || ''
+
+  const sheet = read('xl/workbook.xml').match(/<sheet\b[^>]*>/)?.[0]
+  const relationId = sheet && attribute(sheet, 'r:id')
+  const relation = [...read('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b[^>]*>/g)]
+    .map(match => match[0])
+    .find(tag => attribute(tag, 'Id') === relationId)
+  const target = relation && attribute(relation, 'Target')
+  const sheetPath = !target ? 'xl/worksheets/sheet1.xml' : target.startsWith('/') ? target.substring(1) : `xl/${target}`
+  if (!files.has(sheetPath)) throw new DatasetFileError('The workbook has no sheets')
+
+  const sharedStrings = [...read('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => stringText(match[1]))
+  const dates = dateStyles(read('xl/styles.xml'))
+
+  // Rows without values are skipped and blank cells are only filled in left of a row's last
+  // value, so the size of the rows is bounded by the limits below, not by the sheet's markup
+  const rows: string[][] = []
+  let cellCount = 0
+  for (const [, rowXml = ''] of read(sheetPath).matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const values = new Map<number, string>()
+    let next = 0
+    for (const [, tag, content = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(tag, 'r')
+      const type = attribute(tag, 't')
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      const index = reference ? columnIndex(reference) : next
+      if (index >= MAX_COLUMNS) throw new DatasetFileError(`The workbook has a cell beyond the last column (${reference})`)
+      next = index + 1
+
+      let text = ''
+      if (type === 's') text = sharedStrings[Number(value)] ?? ''
+      else if (type === 'inlineStr') text = stringText(content)
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE'
+      else if (value !== undefined) text = decodeXml(value)
+      if ((!type || type === 'n') && text && dates.has(Number(attribute(tag, 's')))) text = serialToDate(Number(text))
+      if (text.trim()) values.set(index, text)
+    }
+    if (!values.size) continue
+
+    // The header and at most MAX_DATASET_ROWS rows of values
+    if (rows.length > MAX_DATASET_ROWS) {
+      throw new DatasetFileError(`The sheet has more than ${MAX_DATASET_ROWS} rows; a dataset can have at most ${MAX_DATASET_ROWS}`, 413)
+    }
+    const width = Math.max(...values.keys()) + 1
+    cellCount += width
+    if (cellCount > MAX_SHEET_CELLS) throw new DatasetFileError('The sheet has too many cells to read', 413)
+    rows.push(Array.from({ length: width }, (_, index) => values.get(index) ?? ''))
+  }
+  return rows
+}
+
+/**
+ * Reads an uploaded file as a dataset named after the file; the types of its columns are inferred
+ * @param name The file name
+ * @param data The file contents
+ * @returns The dataset, without an id
+ * @throws DatasetFileError if the format is not supported, the file cannot be read or has no data
+ */
+export const readDatasetFile = (name: string, data: Uint8Array): Omit<ResearchDataset, 'id'> => {
+  const format = FORMATS[name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || '']
+  if (!format) {
+    throw new DatasetFileError(`${name} is not a supported dataset; use ${Object.keys(FORMATS).map(ext => `.${ext}`).join(', ')}`, 415)
+  }
+
+  let rows: string[][]
+  if (format === 'xlsx') {
+    try {
+      rows = readWorkbook(data)
+    } catch (error) {
+      if (error instanceof DatasetFileError) throw error
+      throw new DatasetFileError(`Could not read ${name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  } else {
+    const text = new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '')
+    rows = format === 'csv' ? parseCsv(text) : text.split(/\r?\n/).map(line => line.split('\t'))
+  }
+
+  const [header, ...values] = rows
+    .map(row => row.map(value => value.trim()))
+    .filter(row => row.some(Boolean))
+  if (!header || !values.length) throw new DatasetFileError(`${name} has no data rows`)
+  if (values.length > MAX_DATASET_ROWS) {
+    throw new DatasetFileError(`${name} has ${values.length} rows; a dataset can have at most ${MAX_DATASET_ROWS}`, 413)
+  }
+
+  // Columns that are blank in every row, e.g. formatted but empty cells, are left out
+  const width = Math.max(...[header, ...values].map(row => row.findLastIndex(Boolean) + 1))
+  const columns = Array.from({ length: width }, (_, index) => header[index] || `Column ${index + 1}`)
+  const table = values.map(row => Array.from({ length: width }, (_, index) => row[index] || ''))
+  const title = name.replace(/\.[^.]+$/, '')
+
+  return {
+    name: toDatasetName(title),
+    title,
+    csv: toCsv([columns, ...table]),
+    provenance: [],
+    fileName: name,
+    columnTypes: columns.map((_, index) => inferColumnType(table.map(row => row[index])))
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Datasets the R chunks of the outline plot: the numbers stated in the research and the files
+ * the user uploaded. Parsing the extraction reply, CSV helpers, column types, validation of
+ * untrusted datasets, and the R code that loads them as data frames
+ */
+
+import { locateQuote } from './factCheck'
+import { parseCsv } from './documentParser'
+import type { DatasetColumnType, DatasetProvenance, ResearchDataset } from '~/types/research'
+
+/** Largest number of datasets per research */
+export const MAX_DATASETS = 10
+/** Largest number of data rows per dataset */
+export const MAX_DATASET_ROWS = 2000
+
+export const DATASET_COLUMN_TYPES: DatasetColumnType[] = ['number', 'text', 'date', 'logical']
+
+/** The files that can be uploaded as datasets; Excel workbooks are read from their first sheet */
+export const DATASET_FILE_EXTENSIONS = ['csv', 'tsv', 'tab', 'xlsx']
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/
+// Names that cannot be assigned to in R, or would hide functions the chunks are likely to call
+const RESERVED_NAMES = new Set([
+  'if', 'else', 'repeat', 'while', 'function', 'for', 'next', 'break', 'in',
+  'TRUE', 'FALSE', 'NULL', 'Inf', 'NaN', 'NA', 'T', 'F', 'c', 'data', 'df', 'plot', 'table'
+])
+
+const cleanText = (value: unknown): string => typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : ''
+
+const createId = (): string => {
+  return globalThis.crypto?.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`
+}
+
+/**
+ * Whether a name can be used for the data frame of a dataset in R
+ * @param name The name
+ */
+export const isDatasetName = (name: string): boolean => NAME_PATTERN.test(name) && !RESERVED_NAMES.has(name)
+
+/**
+ * Turns a title into a dataset name, e.g. 'Tea exports (tonnes)' into tea_exports_tonnes
+ * @param text The title or the name suggested by the model
+ * @returns A valid name; 'dataset' when nothing usable is left
+ */
+export const toDatasetName = (text: string): string => {
+  const name = text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 40).replace(/_+$/, '')
+  if (!name) return 'dataset'
+  const prefixed = /^[a-z]/.test(name) ? name : `data_${name}`.substring(0, 40)
+  return isDatasetName(prefixed) ? prefixed : `${prefixed}_data`
+}
+
+/**
+ * Makes the name of a dataset unique by appending _2, _3, ...
+ * @param name The name
+ * @param taken The names in use; the returned name is added
+ */
+export const uniqueDatasetName = (name: string, taken: Set<string>): string => {
+  let candidate = name
+  for (let index = 2; taken.has(candidate); index++) candidate = `${name.substring(0, 36)}_${index}`
+  taken.add(candidate)
+  return candidate
+}
+
+export const isDatasetColumnType = (value: unknown): value is DatasetColumnType => {
+  return DATASET_COLUMN_TYPES.includes(value as DatasetColumnType)
+}
+
+/**
+ * Guesses the type of a column from its values; blank values are ignored
+ * @param values The values
+ * @returns number, date (YYYY-MM-DD), logical (TRUE/FALSE) or text
+ */
+export const inferColumnType = (values: string[]): DatasetColumnType => {
+  const filled = values.map(value => value.trim()).filter(Boolean)
+  if (!filled.length) return 'text'
+  if (filled.every(value => /^[-+]?(\d[\d,]*)?\.?\d+(e[-+]?\d+)?$/i.test(value))) return 'number'
+  if (filled.every(value => /^\d{4}-\d{2}-\d{2}$/.test(value))) return 'date'
+  if (filled.every(value => /^(true|false)$/i.test(value))) return 'logical'
+  return 'text'
+}
+
+/**
+ * The columns of a dataset with their types: the ones the user set, or else the inferred ones
+ * @param dataset The dataset
+ */
+export const datasetColumns = (dataset: Pick<ResearchDataset, 'csv' | 'columnTypes'>): { name: string, type: DatasetColumnType }[] => {
+  const [header = [], ...rows] = parseCsv(dataset.csv)
+  // Types set before columns were added or removed no longer line up
+  const types = dataset.columnTypes?.length === header.length ? dataset.columnTypes : undefined
+  return header.map((name, index) => ({
+    name,
+    type: types?.[index] || inferColumnType(rows.map(row => row[index] || ''))
+  }))
+}
+
+const csvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Writes rows as CSV
+ * @param rows The rows, the header first
+ */
+export const toCsv = (rows: unknown[][]): string => rows.map(row => row.map(csvField).join(',')).join('\n') + '\n'
+
+/**
+ * Finds what is wrong with the CSV of a dataset
+ * @param csv The CSV
+ * @returns The problems, empty when R can read it as a data frame
+ */
+export const checkDatasetCsv = (csv: string): string[] => {
+  const [header, ...rows] = parseCsv(csv)
+  if (!header) return ['The dataset is empty']
+  const problems: string[] = []
+  if (header.some(column => !column.trim())) problems.push('Every column needs a name')
+  if (!rows.length) problems.push('The dataset has no rows')
+  const uneven = rows.findIndex(row => row.length !== header.length)
+  if (uneven >= 0) problems.push(`Row ${uneven + 1} has ${rows[uneven].length} values, the header ${header.length}`)
+  if (rows.length > MAX_DATASET_ROWS) problems.push(`A dataset can have at most ${MAX_DATASET_ROWS} rows`)
+  return problems
+}
+
+/**
+ * Parses the datasets from the model's reply: a JSON array, possibly in a code fence, of
+ * { name, title, columns, rows: [{ values, quote }] }. Rows whose quote cannot be found in the
+ * research are dropped, so every value can be traced to the sentence it came from
+ * @param reply The model's reply
+ * @param research The research the numbers were taken from
+ * @returns The datasets that have rows left
+ * @throws Error if the reply has no JSON array of datasets
+ */
+export const parseDatasets = (reply: string, research: string): ResearchDataset[] => {
+  const fenced = reply.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/)
+  const candidate = fenced ? fenced[1] : reply
+  const start = candidate.indexOf('[')
+  const end = candidate.lastIndexOf(']')
+
+  let items: unknown
+  try {
+    items = start >= 0 && end > start ? JSON.parse(candidate.substring(start, end + 1)) : null
+  } catch {
+    items = null
+  }
+  if (!Array.isArray(items)) throw new Error('The extraction reply is not a list of datasets')
+
+  const datasets: ResearchDataset[] = []
+  const names = new Set<string>()
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue
+    const input = item as Record<string, unknown>
+    const columns = Array.isArray(input.columns) ? input.columns.map(cleanText) : []
+    if (!columns.length || columns.some(column => !column) || !Array.isArray(input.rows)) continue
+
+    const rows: unknown[][] = []
+    const provenance: DatasetProvenance[] = []
+    for (const row of input.rows) {
+      const values = row && typeof row === 'object' ? (row as Record<string, unknown>).values : undefined
+      const quote = row && typeof row === 'object' ? (row as Record<string, unknown>).quote : undefined
+      if (!Array.isArray(values) || values.length !== columns.length || typeof quote !== 'string') continue
+      const located = locateQuote(research, quote)
+      if (!located) continue
+      rows.push(values)
+      provenance.push({ row: rows.length, quote: located })
+      if (rows.length >= MAX_DATASET_ROWS) break
+    }
+    if (!rows.length) continue
+
+    const title = cleanText(input.title) || columns.join(' and ')
+    datasets.push({
+      id: createId(),
+      name: uniqueDatasetName(toDatasetName(cleanText(input.name) || title), names),
+      title,
+      csv: toCsv([columns, ...rows]),
+      provenance
+    })
+    if (datasets.length >= MAX_DATASETS) break
+  }
+  return datasets
+}
+
+/**
+ * Finds what keeps a dataset from being loaded in R: an invalid or duplicate name, or CSV
+ * that is not a table
+ * @param dataset The dataset
+ * @param datasets All datasets of the research, to check that the name is unique
+ * @returns The problems, empty when the dataset can be used
+ */
+export const datasetProblems = (dataset: ResearchDataset, datasets: ResearchDataset[] = []): string[] => {
+  const problems: string[] = []
+  if (!isDatasetName(dataset.name)) {
+    problems.push('The name must start with a letter, have only letters, digits and _, and not be an R keyword or a common function such as data')
+  } else if (datasets.some(other => other.id !== dataset.id && other.name === dataset.name)) {
+    problems.push(`Another dataset is named ${dataset.name}`)
+  }
+  return [...problems, ...checkDatasetCsv(dataset.csv)]
+}
+
+/**
+ * The datasets that can be loaded in R and offered to the outline
+ * @param datasets The datasets
+ */
+export const usableDatasets = (datasets: ResearchDataset[]): ResearchDataset[] => {
+  return datasets.filter(dataset => !datasetProblems(dataset, datasets).length)
+}
+
+/**
+ * Validates datasets from untrusted input; items without a name or CSV are dropped. Datasets
+ * that are being edited are kept even when they cannot be used yet (see usableDatasets)
+ * @param input A list of datasets
+ * @returns The datasets
+ */
+export const normalizeDatasets = (input: unknown): ResearchDataset[] => {
+  if (!Array.isArray(input)) return []
+  const datasets: ResearchDataset[] = []
+  for (const item of input) {
+    if (!item || typeof item !== 'object') continue
+    const dataset = item as Record<string, unknown>
+    if (typeof dataset.name !== 'string' || typeof dataset.csv !== 'string') continue
+    const provenance = Array.isArray(dataset.provenance)
+      ? dataset.provenance.filter((entry): entry is DatasetProvenance => (
+        !!entry && Number.isInteger(entry.row) && entry.row > 0 && typeof entry.quote === 'string'
+      )).map(entry => ({ row: entry.row, quote: entry.quote }))
+      : []
+    const fileName = cleanText(dataset.fileName)
+    const columnTypes = Array.isArray(dataset.columnTypes) && dataset.columnTypes.every(isDatasetColumnType)
+      ? dataset.columnTypes
+      : undefined
+    datasets.push({
+      id: typeof dataset.id === 'string' && dataset.id ? dataset.id : createId(),
+      name: dataset.name.trim(),
+      title: cleanText(dataset.title),
+      csv: dataset.csv,
+      provenance,
+      ...(fileName ? { fileName } : {}),
+      ...(columnTypes ? { columnTypes: [...columnTypes] } : {})
+    })
+    if (datasets.length >= MAX_DATASETS) break
+  }
+  return datasets
+}
+
+/**
+ * Lists the datasets that can be used for the outline prompt
+ * @param datasets The datasets
+ * @returns One line per dataset with its name, title, typed columns and number of rows; empty without datasets
+ */
+export const formatDatasetsForPrompt = (datasets: ResearchDataset[]): string => {
+  return usableDatasets(datasets).map((dataset) => {
+    const rows = parseCsv(dataset.csv).length - 1
+    const columns = datasetColumns(dataset).map(column => `${column.name} (${column.type})`).join(', ')
+    const origin = dataset.fileName ? ` (uploaded as ${dataset.fileName})` : ''
+    return `- ${dataset.name}: ${dataset.title || dataset.name}${origin}. Columns: ${columns}; ${rows} ${rows === 1 ? 'row' : 'rows'}`
+  }).join('\n')
+}
+
+// Converts a column read as text to its type; values that do not convert become NA
+const R_COLUMN_CONVERTER = '.dataset_column <- function(values, type) switch(type, ' +
+  'number = suppressWarnings(as.numeric(gsub(",", "", values, fixed = TRUE))), ' +
+  'date = as.Date(values, optional = TRUE), logical = as.logical(values), values)'
+
+/**
+ * The R code that loads the datasets, written to CSV files, as data frames with typed columns
+ * @param files The name of each dataset, the path of its CSV file and the types of its columns
+ * @returns The R code, empty without datasets
+ */
+export const datasetPreamble = (files: { name: string, path: string, types: DatasetColumnType[] }[]): string => {
+  const loaded = files.filter(file => isDatasetName(file.name))
+  if (!loaded.length) return ''
+  return [R_COLUMN_CONVERTER, ...loaded.flatMap(file => [
+    `${file.name} <- read.csv("${file.path.replace(/\\/g, '/').replace(/"/g, '\\"')}", check.names = FALSE, colClasses = "character", na.strings = "")`,
+    `${file.name}[] <- Map(.dataset_column, ${file.name}, c(${file.types.filter(isDatasetColumnType).map(type => `"${type}"`).join(', ')}))`
+  ])].join('\n')
+}
@@ -0,0 +1,223 @@
+/**
+ * JSON schema and validation for structured deck outlines
+ * The schema is sent to the model and published at /api/outline/schema; the validator
+ * checks the same rules without a JSON schema library and reports readable errors
+ */
+
+import type { DeckSpec, SlideChart } from '~/types/deck'
+
+export const MAX_SLIDES = 40
+export const CHART_TYPES = ['bar', 'line', 'pie'] as const
+
+export const DECK_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'deck.schema.json',
+  title: 'Deck',
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'slides'],
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    subtitle: { type: 'string' },
+    slides: {
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_SLIDES,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['title'],
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          bullets: { type: 'array', items: { type: 'string' } },
+          table: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['headers', 'rows'],
+            properties: {
+              headers: { type: 'array', minItems: 1, items: { type: 'string' } },
+              rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+            }
+          },
+          chart: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['type', 'labels', 'values'],
+            properties: {
+              type: { enum: [...CHART_TYPES] },
+              title: { type: 'string' },
+              xLabel: { type: 'string' },
+              yLabel: { type: 'string' },
+              labels: { type: 'array', minItems: 1, items: { type: 'string' } },
+              values: { type: 'array', minItems: 1, items: { type: 'number' } }
+            }
+          },
+          notes: { type: 'string' }
+        }
+      }
+    }
+  }
+} as const
+
+export interface DeckValidationResult {
+  valid: boolean
+  /** One message per problem, with a JSON path such as slides[2].chart.values */
+  errors: string[]
+  deck?: DeckSpec
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0
+
+const checkKeys = (value: Record<string, unknown>, allowed: string[], path: string, errors: string[]) => {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) errors.push(`${path}.${key} is not allowed`)
+  }
+}
+
+const checkStringArray = (value: unknown, path: string, errors: string[]): value is string[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array of strings`)
+    return false
+  }
+  const before = errors.length
+  value.forEach((item, index) => {
+    if (typeof item !== 'string') errors.push(`${path}[${index}] must be a string`)
+  })
+  return errors.length === before
+}
+
+const validateTable = (table: unknown, path: string, errors: string[]) => {
+  if (!isObject(table)) {
+    errors.push(`${path} must be an object with headers and rows`)
+    return
+  }
+  checkKeys(table, ['headers', 'rows'], path, errors)
+  const headersOk = checkStringArray(table.headers, `${path}.headers`, errors)
+  if (headersOk && (table.headers as string[]).length === 0) {
+    errors.push(`${path}.headers must not be empty`)
+  }
+  if (!Array.isArray(table.rows)) {
+    errors.push(`${path}.rows must be an array of rows`)
+    return
+  }
+  const width = headersOk ? (table.headers as string[]).length : undefined
+  table.rows.forEach((row, index) => {
+    if (!checkStringArray(row, `${path}.rows[${index}]`, errors)) return
+    if (width !== undefined && (row as string[]).length !== width) {
+      errors.push(`${path}.rows[${index}] has ${(row as string[]).length} cells but there are ${width} headers`)
+    }
+  })
+}
+
+const validateChart = (chart: unknown, path: string, errors: string[]) => {
+  if (!isObject(chart)) {
+    errors.push(`${path} must be an object with type, labels and values`)
+    return
+  }
+  checkKeys(chart, ['type', 'title', 'xLabel', 'yLabel', 'labels', 'values'], path, errors)
+  if (!CHART_TYPES.includes(chart.type as SlideChart['type'])) {
+    errors.push(`${path}.type must be one of ${CHART_TYPES.join(', ')}`)
+  }
+  for (const key of ['title', 'xLabel', 'yLabel']) {
+    if (chart[key] !== undefined && typeof chart[key] !== 'string') errors.push(`${path}.${key} must be a string`)
+  }
+
+  const labelsOk = checkStringArray(chart.labels, `${path}.labels`, errors)
+  let valuesOk = Array.isArray(chart.values)
+  if (!valuesOk) {
+    errors.push(`${path}.values must be an array of numbers`)
+  } else {
+    (chart.values as unknown[]).forEach((value, index) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path}.values[${index}] must be a number`)
+        valuesOk = false
+      }
+    })
+  }
+
+  if (labelsOk && valuesOk) {
+    const labels = chart.labels as string[]
+    const values = chart.values as number[]
+    if (labels.length === 0) errors.push(`${path}.labels must not be empty`)
+    if (labels.length !== values.length) {
+      errors.push(`${path} has ${labels.length} labels but ${values.length} values`)
+    }
+  }
+}
+
+const validateSlide = (slide: unknown, path: string, errors: string[]) => {
+  if (!isObject(slide)) {
+    errors.push(`${path} must be an object`)
+    return
+  }
+  checkKeys(slide, ['title', 'bullets', 'table', 'chart', 'notes'], path, errors)
+  if (!isNonEmptyString(slide.title)) errors.push(`${path}.title must be a non-empty string`)
+  if (slide.bullets !== undefined) checkStringArray(slide.bullets, `${path}.bullets`, errors)
+  if (slide.table !== undefined) validateTable(slide.table, `${path}.table`, errors)
+  if (slide.chart !== undefined) validateChart(slide.chart, `${path}.chart`, errors)
+  if (slide.notes !== undefined && typeof slide.notes !== 'string') errors.push(`${path}.notes must be a string`)
+}
+
+/**
+ * Validates a parsed value against the deck schema
+ * @param value The parsed JSON
+ * @returns The result; deck is set only when the value is valid
+ */
+export const validateDeckSpec = (value: unknown): DeckValidationResult => {
+  const errors: string[] = []
+
+  if (!isObject(value)) {
+    return { valid: false, errors: ['The deck must be a JSON object'] }
+  }
+
+  checkKeys(value, ['title', 'subtitle', 'slides'], 'deck', errors)
+  if (!isNonEmptyString(value.title)) errors.push('deck.title must be a non-empty string')
+  if (value.subtitle !== undefined && typeof value.subtitle !== 'string') errors.push('deck.subtitle must be a string')
+
+  if (!Array.isArray(value.slides)) {
+    errors.push('deck.slides must be an array of slides')
+  } else {
+    if (value.slides.length === 0) errors.push('deck.slides must contain at least one slide')
+    if (value.slides.length > MAX_SLIDES) errors.push(`deck.slides must contain at most ${MAX_SLIDES} slides`)
+    value.slides.forEach((slide, index) => validateSlide(slide, `slides[${index}]`, errors))
+  }
+
+  return errors.length
+    ? { valid: false, errors }
+    : { valid: true, errors, deck: value as unknown as DeckSpec }
+}
+
+/**
+ * Extracts the JSON object from a model reply, tolerating code fences and surrounding prose
+ * @param text The model reply
+ * @returns The JSON text, or null if there is no object in the reply
+ */
+export const extractJson = (text: string): string | null => {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/)
+  const candidate = fenced ? fenced[1] : text
+  const start = candidate.indexOf('{')
+  const end = candidate.lastIndexOf('}')
+  return start >= 0 && end > start ? candidate.substring(start, end + 1) : null
+}
+
+/**
+ * Parses and validates a model reply
+ * @param text The model reply
+ * @returns The validation result; JSON syntax errors are reported as validation errors
+ */
+export const parseDeckJson = (text: string): DeckValidationResult => {
+  const json = extractJson(text)
+  if (!json) {
+    return { valid: false, errors: ['The reply does not contain a JSON object'] }
+  }
+
+  try {
+    return validateDeckSpec(JSON.parse(json))
+  } catch (error) {
+    return { valid: false, errors: [`The reply is not valid JSON: ${(error as Error).message}`] }
+  }
+}
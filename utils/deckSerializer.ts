@@ -0,0 +1,79 @@
+/**
+ * Serializes a validated deck into the R Markdown outline the rest of the pipeline consumes
+ * The output is deterministic: the same deck always produces the same text
+ */
+
+import { createOutline, serializeOutline } from './slideAst'
+import type { BlockNode, ChunkNode, DeckSpec, SlideChart, SlideSpec, SlideTable, TableNode } from '~/types/deck'
+
+/** Keeps text on one line so it cannot start a new heading, list item or table row */
+const inline = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim()
+
+const escapeCell = (text: string) => inline(text).replace(/\|/g, '\\|')
+
+const rString = (text: string) => `"${inline(text).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+const rVector = (items: string[]) => `c(${items.join(', ')})`
+
+const tableNode = (table: SlideTable): TableNode => ({
+  type: 'table',
+  headers: table.headers.map(escapeCell),
+  align: table.headers.map(() => null),
+  rows: table.rows.map(row => row.map(escapeCell))
+})
+
+/**
+ * Renders a chart as a ggplot2 chunk; labels keep their order on the axis
+ */
+const chartNode = (chart: SlideChart): ChunkNode => {
+  const labels = chart.labels.map(rString)
+  const values = chart.values.map(value => String(value))
+  const labs = [
+    chart.title ? `title = ${rString(chart.title)}` : '',
+    chart.type !== 'pie' && chart.xLabel ? `x = ${rString(chart.xLabel)}` : '',
+    chart.type !== 'pie' && chart.yLabel ? `y = ${rString(chart.yLabel)}` : ''
+  ].filter(Boolean)
+
+  const plot = {
+    bar: 'ggplot(chart_data, aes(x = label, y = value)) +\n  geom_col(fill = "steelblue")',
+    line: 'ggplot(chart_data, aes(x = label, y = value, group = 1)) +\n  geom_line(color = "steelblue") +\n  geom_point(color = "steelblue")',
+    pie: 'ggplot(chart_data, aes(x = "", y = value, fill = label)) +\n  geom_col(width = 1) +\n  coord_polar(theta = "y") +\n  theme_void()'
+  }[chart.type]
+
+  return {
+    type: 'chunk',
+    engine: 'r',
+    options: { echo: 'FALSE' },
+    code: [
+      'library(ggplot2)',
+      `chart_data <- data.frame(label = factor(${rVector(labels)}, levels = ${rVector(labels)}), value = ${rVector(values)})`,
+      labs.length ? `${plot} +\n  labs(${labs.join(', ')})` : plot
+    ].join('\n')
+  }
+}
+
+/** The blocks of a slide with a blank line between them */
+const slideBlocks = (slide: SlideSpec): BlockNode[] => {
+  const parts: BlockNode[] = [{ type: 'heading', depth: 1, text: inline(slide.title) }]
+  if (slide.bullets?.length) {
+    parts.push({ type: 'list', ordered: false, items: slide.bullets.map(inline) })
+  }
+  if (slide.table) parts.push(tableNode(slide.table))
+  if (slide.chart) parts.push(chartNode(slide.chart))
+  if (slide.notes?.trim()) {
+    // Marp reads HTML comments as speaker notes
+    parts.push({ type: 'note', text: slide.notes.trim().replace(/-->/g, '-- >') })
+  }
+  return parts.flatMap((part, index): BlockNode[] => index ? [{ type: 'blank' }, part] : [part])
+}
+
+/**
+ * Serializes a deck: a title slide, then one slide per entry separated by ---
+ * @param deck A deck that passed validateDeckSpec
+ * @returns The R Markdown outline
+ */
+export const serializeDeck = (deck: DeckSpec): string => {
+  const titleSlide: BlockNode[] = [{ type: 'heading', depth: 1, text: inline(deck.title) }]
+  if (deck.subtitle?.trim()) titleSlide.push({ type: 'heading', depth: 2, text: inline(deck.subtitle) })
+  return serializeOutline(createOutline([titleSlide, ...deck.slides.map(slideBlocks)]))
+}
@@ -0,0 +1,127 @@
+/**
+ * Slide-by-slide translation of outlines. Code blocks, R chunks, Marp directives, speaker
+ * notes and HTML are found by their node type in the slide AST; with the links, inline code
+ * and citation markers inside the text they are swapped for placeholders before the text goes
+ * to the model, and put back afterwards
+ */
+
+import { parseOutline, serializeBlocks } from './slideAst'
+import type { BlockNode, SlideNode } from '~/types/deck'
+
+// Blocks that are never translated
+const KEPT_BLOCKS = new Set<BlockNode['type']>(['code', 'chunk', 'directive', 'note', 'html'])
+
+/** Parts of the text that are never translated, longest first */
+const PROTECTED = [
+  /<[^>]+>/g,
+  /`[^`\n]+`/g,
+  // Link and image targets; the link text is translated
+  /(?<=\])\([^)\s]+(?:\s+"[^"]*")?\)/g,
+  // Citation markers: [1], [2, 3], [@smith2020]
+  /\[(?:@[\w:.-]+|\d+)(?:[;,]\s*(?:@[\w:.-]+|\d+))*\]/g
+]
+
+const placeholder = (index: number) => `__KEEP_${index}__`
+
+export interface ProtectedSlide {
+  /** The text of the slide with placeholders, without its surrounding blank lines */
+  text: string
+  /** The original text of each placeholder */
+  placeholders: Record<string, string>
+  /** The placeholders that stand for whole blocks and must stay on a line of their own */
+  blocks: string[]
+}
+
+// The blocks of a slide between its leading and trailing blank lines
+const bodyRange = (slide: SlideNode): [number, number] => {
+  let start = 0
+  let end = slide.blocks.length
+  while (start < end && slide.blocks[start].type === 'blank') start++
+  while (end > start && slide.blocks[end - 1].type === 'blank') end--
+  return [start, end]
+}
+
+/**
+ * Replaces the parts of a slide that must not be translated with placeholders
+ * @param slide The slide
+ * @returns The slide text with placeholders and what they stand for
+ */
+export const protectSlide = (slide: SlideNode): ProtectedSlide => {
+  const placeholders: Record<string, string> = {}
+  const keep = (original: string) => {
+    const key = placeholder(Object.keys(placeholders).length)
+    placeholders[key] = original
+    return key
+  }
+
+  const [start, end] = bodyRange(slide)
+  const blocks: string[] = []
+  let text = slide.blocks.slice(start, end).map((block) => {
+    const source = serializeBlocks([block])
+    if (!KEPT_BLOCKS.has(block.type)) return source
+    const key = keep(source.replace(/\r?\n$/, ''))
+    blocks.push(key)
+    return source.endsWith('\n') ? `${key}\n` : key
+  }).join('').replace(/\r?\n$/, '')
+
+  for (const pattern of PROTECTED) text = text.replace(pattern, keep)
+  return { text, placeholders, blocks }
+}
+
+/**
+ * Puts the protected parts back; placeholders are restored in reverse order because a later
+ * one can hold an earlier one
+ * @param text The translated slide
+ * @param placeholders The placeholders of the slide
+ * @returns The slide with the original code, directives, links and citations
+ */
+export const restoreSlide = (text: string, placeholders: Record<string, string>): string => {
+  return Object.entries(placeholders)
+    .reverse()
+    .reduce((restored, [key, original]) => restored.split(key).join(original), text)
+}
+
+// The number of cells in the header and each row of every table
+const tableShape = (text: string): number[] => parseOutline(text).slides
+  .flatMap(slide => slide.blocks)
+  .flatMap(block => block.type === 'table' ? [block.headers.length, ...block.rows.map(row => row.length)] : [])
+
+/**
+ * Checks a translated slide against the original: every placeholder must still be there
+ * exactly once, kept blocks on lines of their own, no slide break may be added, and the
+ * tables must keep their rows and columns
+ * @param protectedSlide The slide that was sent
+ * @param translated The translation, still with placeholders
+ * @returns The problems, empty when the translation can be used
+ */
+export const checkTranslation = (protectedSlide: ProtectedSlide, translated: string): string[] => {
+  const problems: string[] = []
+  const missing = Object.keys(protectedSlide.placeholders).filter(key => translated.split(key).length !== 2)
+  if (missing.length) problems.push(`${missing.length} protected ${missing.length === 1 ? 'part was' : 'parts were'} lost`)
+  const lines = translated.split('\n').map(line => line.trim())
+  const moved = protectedSlide.blocks.filter(key => !missing.includes(key) && !lines.includes(key))
+  if (moved.length) problems.push(`${moved.length} protected ${moved.length === 1 ? 'block was' : 'blocks were'} moved into the text`)
+  if (parseOutline(translated).slides.length > 1) problems.push('a slide break was added')
+  if (tableShape(protectedSlide.text).join() !== tableShape(translated).join()) problems.push('a table changed shape')
+  return problems
+}
+
+/**
+ * Replaces the text of a slide, keeping its slide break and the blank lines around the text
+ * @param slide The slide
+ * @param text The new text, e.g. the restored translation
+ * @returns The slide with the blocks parsed from the text
+ */
+export const replaceSlideText = (slide: SlideNode, text: string): SlideNode => {
+  const [start, end] = bodyRange(slide)
+  const body = serializeBlocks(slide.blocks.slice(start, end))
+  const lineBreak = body.match(/\r?\n$/)?.[0] || ''
+  return {
+    ...slide,
+    blocks: [
+      ...slide.blocks.slice(0, start),
+      ...parseOutline(text + lineBreak).slides.flatMap(parsed => parsed.blocks),
+      ...slide.blocks.slice(end)
+    ]
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Local lexical retrieval over uploaded documents: paragraph-aware chunking and a BM25
+ * index. Everything runs in memory; the index is rebuilt from the stored chunks per search
+ */
+
+import type { DocumentChunk, RetrievedPassage } from '~/types/documents'
+
+/** Target chunk size in words */
+export const CHUNK_WORDS = 200
+/** Words repeated from the end of the previous chunk when a paragraph has to be split */
+export const CHUNK_OVERLAP_WORDS = 40
+export const DEFAULT_PASSAGE_LIMIT = 5
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2
+const B = 0.75
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'what', 'which', 'with'
+])
+
+/**
+ * Splits text into lowercase terms, dropping stopwords and single characters
+ * @param text The text
+ * @returns The terms
+ */
+export const tokenize = (text: string): string[] => {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+/**
+ * Splits a document into chunks of about `maxWords` words
+ * Paragraphs are kept together where possible; longer paragraphs are split with overlap
+ * @param text The document text
+ * @param maxWords Target chunk size in words
+ * @param overlapWords Overlap between the pieces of a split paragraph
+ * @returns The chunks
+ */
+export const chunkText = (text: string, maxWords = CHUNK_WORDS, overlapWords = CHUNK_OVERLAP_WORDS): DocumentChunk[] => {
+  const pieces: string[] = []
+
+  for (const paragraph of text.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean)) {
+    const words = paragraph.split(/\s+/)
+    if (words.length <= maxWords) {
+      pieces.push(paragraph)
+      continue
+    }
+    const step = Math.max(1, maxWords - overlapWords)
+    for (let start = 0; start < words.length; start += step) {
+      pieces.push(words.slice(start, start + maxWords).join(' '))
+      if (start + maxWords >= words.length) break
+    }
+  }
+
+  // Merge small neighbouring paragraphs up to the target size
+  const chunks: string[] = []
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1]
+    if (last !== undefined && countWords(last) + countWords(piece) <= maxWords) {
+      chunks[chunks.length - 1] = `${last}\n\n${piece}`
+    } else {
+      chunks.push(piece)
+    }
+  }
+
+  return chunks.map((chunk, index) => ({ index, text: chunk }))
+}
+
+export interface Bm25Document {
+  id: string
+  text: string
+}
+
+export interface Bm25Index {
+  documents: { id: string, length: number, terms: Map<string, number> }[]
+  documentFrequency: Map<string, number>
+  averageLength: number
+}
+
+/**
+ * Builds a BM25 index
+ * @param documents The documents (here: chunks) to index
+ * @returns The index
+ */
+export const createBm25Index = (documents: Bm25Document[]): Bm25Index => {
+  const documentFrequency = new Map<string, number>()
+  const indexed = documents.map(({ id, text }) => {
+    const terms = new Map<string, number>()
+    const tokens = tokenize(text)
+    for (const term of tokens) terms.set(term, (terms.get(term) || 0) + 1)
+    for (const term of terms.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    return { id, length: tokens.length, terms }
+  })
+
+  return {
+    documents: indexed,
+    documentFrequency,
+    averageLength: indexed.reduce((sum, doc) => sum + doc.length, 0) / (indexed.length || 1)
+  }
+}
+
+/**
+ * Ranks the indexed documents against a query
+ * @param index The index
+ * @param query The query text
+ * @param limit Maximum number of results
+ * @returns Ids and scores of the matching documents, best first; documents without any query term are left out
+ */
+export const searchBm25 = (index: Bm25Index, query: string, limit = DEFAULT_PASSAGE_LIMIT): { id: string, score: number }[] => {
+  const total = index.documents.length
+  const queryTerms = [...new Set(tokenize(query))]
+  if (!total || !queryTerms.length) return []
+
+  return index.documents
+    .map((doc) => {
+      let score = 0
+      for (const term of queryTerms) {
+        const frequency = doc.terms.get(term)
+        if (!frequency) continue
+        const df = index.documentFrequency.get(term) || 0
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5))
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / (index.averageLength || 1)))
+      }
+      return { id: doc.id, score }
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+/**
+ * Merges passages retrieved by several searches, keeping each chunk once with its best score
+ * @param passages The passages
+ * @returns The unique passages, best first
+ */
+export const mergePassages = (passages: RetrievedPassage[]): RetrievedPassage[] => {
+  const best = new Map<string, RetrievedPassage>()
+  for (const passage of passages) {
+    const key = `${passage.documentId}#${passage.chunkIndex}`
+    const current = best.get(key)
+    if (!current || passage.score > current.score) best.set(key, passage)
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score)
+}
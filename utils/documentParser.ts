@@ -0,0 +1,185 @@
+/**
+ * Extracts plain text from uploaded documents: Markdown, plain text, CSV, HTML and PDF
+ * CSV rows are written as "column: value" lines so each row can be retrieved on its own
+ */
+
+import type { DocumentFormat } from '~/types/documents'
+
+/**
+ * Thrown for unsupported, unreadable or empty documents
+ */
+export class DocumentParseError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message)
+    this.name = 'DocumentParseError'
+  }
+}
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  rmd: 'markdown',
+  txt: 'text',
+  text: 'text',
+  csv: 'csv',
+  html: 'html',
+  htm: 'html',
+  pdf: 'pdf'
+}
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'text/markdown': 'markdown',
+  'text/plain': 'text',
+  'text/csv': 'csv',
+  'text/html': 'html',
+  'application/pdf': 'pdf'
+}
+
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSIONS)
+
+/**
+ * Detects the format from the file extension, falling back to the MIME type
+ * @param name The file name
+ * @param mimeType The MIME type sent with the upload
+ * @returns The format or null if it is not supported
+ */
+export const detectDocumentFormat = (name: string, mimeType?: string): DocumentFormat | null => {
+  const extension = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1]
+  if (extension && EXTENSIONS[extension]) return EXTENSIONS[extension]
+  return (mimeType && MIME_TYPES[mimeType.split(';')[0].trim().toLowerCase()]) || null
+}
+
+/**
+ * Splits CSV text into rows of fields; quoted fields may contain commas, quotes and newlines
+ * @param text The CSV text
+ * @returns The rows
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+const csvToText = (text: string): string => {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return ''
+  const columns = header.map((column, index) => column.trim() || `Column ${index + 1}`)
+
+  // A blank line between rows lets the chunker keep rows intact
+  return [
+    `Columns: ${columns.join(', ')}`,
+    ...rows.map(cells => columns
+      .map((column, index) => `${column}: ${(cells[index] || '').trim()}`)
+      .join('\n'))
+  ].join('\n\n')
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+const htmlToText = (html: string): string => {
+  return html
+    .replace(/<(script|style|noscript|template)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|li|ul|ol|h[1-6]|tr|table|blockquote|pre)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10)
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity
+    })
+}
+
+const pdfToText = async (data: Uint8Array): Promise<string> => {
+  try {
+    // Loaded on demand; pdf.js is large and only needed for PDF uploads
+    const { extractText, getDocumentProxy } = await import('unpdf')
+    const pdf = await getDocumentProxy(new Uint8Array(data))
+    const { text } = await extractText(pdf, { mergePages: false })
+    return text.join('\n\n')
+  } catch (error) {
+    throw new DocumentParseError(`Could not read the PDF: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Collapses runs of spaces and blank lines while keeping paragraph breaks
+ */
+const normalizeWhitespace = (text: string): string => {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Extracts the text of an uploaded document
+ * @param name The file name
+ * @param data The file contents
+ * @param mimeType The MIME type sent with the upload
+ * @returns The format and the extracted text
+ * @throws DocumentParseError if the format is not supported or no text could be extracted
+ */
+export const extractDocumentText = async (
+  name: string,
+  data: Uint8Array,
+  mimeType?: string
+): Promise<{ format: DocumentFormat, text: string }> => {
+  const format = detectDocumentFormat(name, mimeType)
+  if (!format) {
+    throw new DocumentParseError(`${name} is not a supported document; use ${SUPPORTED_EXTENSIONS.map(ext => `.${ext}`).join(', ')}`, 415)
+  }
+
+  let text: string
+  if (format === 'pdf') {
+    text = await pdfToText(data)
+  } else {
+    const decoded = new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '')
+    text = format === 'csv' ? csvToText(decoded) : format === 'html' ? htmlToText(decoded) : decoded
+  }
+
+  text = normalizeWhitespace(text)
+  if (!text) {
+    throw new DocumentParseError(`No text could be extracted from ${name}`)
+  }
+  return { format, text }
+}
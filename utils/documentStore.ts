@@ -0,0 +1,154 @@
+/**
+ * Uploaded documents in Nitro storage, grouped in collections (one per research brief)
+ * Each document is stored with its chunks; searches rank every chunk of the collection with BM25
+ */
+
+import { randomUUID } from 'crypto'
+import { createError } from 'h3'
+import type { Storage } from 'unstorage'
+import { DocumentParseError } from './documentParser'
+import { chunkText, createBm25Index, searchBm25, DEFAULT_PASSAGE_LIMIT } from './documentIndex'
+import type { DocumentChunk, DocumentFormat, RetrievedPassage, StoredDocument } from '~/types/documents'
+
+/** Largest accepted upload per file */
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024
+/** Largest number of documents per collection */
+export const MAX_COLLECTION_DOCUMENTS = 20
+
+const PREFIX = 'documents'
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+interface StoredEntry {
+  document: StoredDocument
+  chunks: DocumentChunk[]
+}
+
+/**
+ * Thrown for invalid collections, missing documents and full collections
+ */
+export class DocumentStoreError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = 'DocumentStoreError'
+  }
+}
+
+/**
+ * Collection ids are created by the client; they become storage keys, so only a safe
+ * alphabet is accepted
+ */
+export const isValidCollectionId = (id: string): boolean => ID_PATTERN.test(id)
+
+/**
+ * Creates a document store on top of Nitro storage
+ * @param storage Nitro storage, e.g. useStorage('data')
+ * @returns The store
+ */
+export const createDocumentStore = (storage: Storage) => {
+  const collectionKey = (collectionId: string) => {
+    if (!isValidCollectionId(collectionId)) {
+      throw new DocumentStoreError(`Invalid document collection id: ${collectionId}`)
+    }
+    return `${PREFIX}:${collectionId}`
+  }
+
+  const readEntries = async (collectionId: string): Promise<StoredEntry[]> => {
+    const keys = await storage.getKeys(collectionKey(collectionId))
+    const entries = await Promise.all(keys.map(key => storage.getItem<StoredEntry>(key)))
+    return entries
+      .filter((entry): entry is StoredEntry => !!entry)
+      .sort((a, b) => a.document.createdAt.localeCompare(b.document.createdAt))
+  }
+
+  /**
+   * Lists the documents of a collection, oldest first
+   */
+  const list = async (collectionId: string): Promise<StoredDocument[]> => {
+    return (await readEntries(collectionId)).map(entry => entry.document)
+  }
+
+  /**
+   * Chunks and stores the text of an uploaded document
+   * @param collectionId The collection
+   * @param upload The file name, format, size and extracted text
+   * @returns The stored document
+   */
+  const add = async (
+    collectionId: string,
+    upload: { name: string, format: DocumentFormat, size: number, text: string }
+  ): Promise<StoredDocument> => {
+    const key = collectionKey(collectionId)
+    const existing = await storage.getKeys(key)
+    if (existing.length >= MAX_COLLECTION_DOCUMENTS) {
+      throw new DocumentStoreError(`A collection holds at most ${MAX_COLLECTION_DOCUMENTS} documents`, 409)
+    }
+
+    const chunks = chunkText(upload.text)
+    const document: StoredDocument = {
+      id: randomUUID(),
+      collectionId,
+      name: upload.name,
+      format: upload.format,
+      size: upload.size,
+      chunkCount: chunks.length,
+      createdAt: new Date().toISOString()
+    }
+    await storage.setItem(`${key}:${document.id}`, { document, chunks })
+    return document
+  }
+
+  /**
+   * Removes a document
+   * @returns Whether the document existed
+   */
+  const remove = async (collectionId: string, documentId: string): Promise<boolean> => {
+    const key = `${collectionKey(collectionId)}:${documentId}`
+    if (!ID_PATTERN.test(documentId) || !(await storage.hasItem(key))) return false
+    await storage.removeItem(key)
+    return true
+  }
+
+  /**
+   * Finds the chunks of a collection that best match the query
+   * @param collectionId The collection
+   * @param query The query, e.g. the topic and subtopics
+   * @param limit Maximum number of passages
+   * @returns The passages, best first
+   */
+  const search = async (collectionId: string, query: string, limit = DEFAULT_PASSAGE_LIMIT): Promise<RetrievedPassage[]> => {
+    const entries = await readEntries(collectionId)
+    const passages = new Map<string, Omit<RetrievedPassage, 'score'>>()
+    for (const { document, chunks } of entries) {
+      for (const chunk of chunks) {
+        passages.set(`${document.id}#${chunk.index}`, {
+          documentId: document.id,
+          documentName: document.name,
+          chunkIndex: chunk.index,
+          text: chunk.text
+        })
+      }
+    }
+
+    const index = createBm25Index([...passages].map(([id, passage]) => ({ id, text: passage.text })))
+    return searchBm25(index, query, limit).map(({ id, score }) => ({ ...passages.get(id)!, score }))
+  }
+
+  return {
+    list,
+    add,
+    remove,
+    search
+  }
+}
+
+/**
+ * Maps store and parser errors to HTTP errors
+ * @param error The error
+ * @returns The HTTP error to throw
+ */
+export const toDocumentHttpError = (error: unknown) => {
+  if (error instanceof DocumentStoreError || error instanceof DocumentParseError) {
+    return createError({ statusCode: error.status, statusMessage: error.message })
+  }
+  return createError({ statusCode: 500, statusMessage: 'Failed to access the documents', data: error })
+}
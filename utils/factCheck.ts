@@ -0,0 +1,122 @@
+/**
+ * Helpers for the fact-check pass: parsing the checked claims from the model's reply,
+ * finding them in the research and marking flagged claims with inline warnings
+ */
+
+import type { ClaimVerdict, VerifiedClaim } from '~/types/research'
+
+/** Largest number of claims kept from a reply */
+export const MAX_CLAIMS = 20
+
+export const CLAIM_VERDICTS: Record<ClaimVerdict, { label: string }> = {
+  supported: { label: 'Supported' },
+  unsupported: { label: 'Unsupported' },
+  contradicted: { label: 'Contradicted' }
+}
+
+const cleanText = (value: unknown): string => typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : ''
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Finds a passage in a document, tolerating differences in whitespace and surrounding quotes
+ * @param markdown The document
+ * @param quote The passage as quoted by the model
+ * @returns The passage as it appears in the document, or undefined if it is not there
+ */
+export const locateQuote = (markdown: string, quote: string): string | undefined => {
+  const text = quote.trim().replace(/^["“']+|["”']+$/g, '').trim()
+  if (!text) return undefined
+  if (markdown.includes(text)) return text
+
+  const pattern = new RegExp(text.split(/\s+/).map(escapeRegExp).join('\\s+'))
+  return markdown.match(pattern)?.[0]
+}
+
+/**
+ * Parses the checked claims from the model's reply: a JSON array, possibly in a code fence
+ * Items with an unknown verdict are dropped; quotes that cannot be found in the research are unset
+ * @param reply The model's reply
+ * @param research The research document that was checked
+ * @returns The claims, all open
+ * @throws Error if the reply has no JSON array of claims
+ */
+export const parseVerification = (reply: string, research: string): VerifiedClaim[] => {
+  const fenced = reply.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/)
+  const candidate = fenced ? fenced[1] : reply
+  const start = candidate.indexOf('[')
+  const end = candidate.lastIndexOf(']')
+
+  let items: unknown
+  try {
+    items = start >= 0 && end > start ? JSON.parse(candidate.substring(start, end + 1)) : null
+  } catch {
+    items = null
+  }
+  if (!Array.isArray(items)) throw new Error('The fact-check reply is not a list of claims')
+
+  const claims: VerifiedClaim[] = []
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue
+    const input = item as Record<string, unknown>
+    const claim = cleanText(input.claim)
+    const verdict = cleanText(input.verdict).toLowerCase() as ClaimVerdict
+    if (!claim || !Object.keys(CLAIM_VERDICTS).includes(verdict)) continue
+
+    const quote = typeof input.quote === 'string' ? locateQuote(research, input.quote) : undefined
+    const sources = Array.isArray(input.sources) ? input.sources.filter((number): number is number => Number.isInteger(number) && number > 0) : []
+    claims.push({
+      id: `claim-${claims.length + 1}`,
+      claim,
+      ...(quote ? { quote } : {}),
+      verdict,
+      explanation: cleanText(input.explanation),
+      ...(sources.length ? { sources } : {}),
+      status: 'open'
+    })
+    if (claims.length >= MAX_CLAIMS) break
+  }
+  return claims
+}
+
+/**
+ * Claims that still need the user's attention: unsupported or contradicted and not yet handled
+ * @param claims The claims
+ */
+export const openWarnings = (claims: VerifiedClaim[]): VerifiedClaim[] => {
+  return claims.filter(claim => claim.verdict !== 'supported' && claim.status === 'open')
+}
+
+/**
+ * Marks the passages of open warnings with an inline warning linking to the claim (#claim-n)
+ * @param markdown The research document
+ * @param claims The checked claims
+ * @returns The document with HTML warnings, to be rendered with renderMarkdown
+ */
+export const annotateClaims = (markdown: string, claims: VerifiedClaim[]): string => {
+  let annotated = markdown
+  for (const claim of openWarnings(claims)) {
+    if (!claim.quote || !annotated.includes(claim.quote)) continue
+    // Brackets are escaped so citation markers in the explanation are not linked inside the attribute
+    const title = `${CLAIM_VERDICTS[claim.verdict].label}: ${claim.explanation || claim.claim}`
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/\[/g, '&#91;')
+      .replace(/\]/g, '&#93;')
+    const warning = `<a href="#${claim.id}" class="claim-warning claim-${claim.verdict}" title="${title}">⚠</a>`
+    annotated = annotated.replace(claim.quote, () => `${claim.quote}${warning}`)
+  }
+  return annotated
+}
+
+/**
+ * Replaces the passage of a claim in the research
+ * @param markdown The research document
+ * @param quote The passage
+ * @param replacement The new text
+ * @returns The document, unchanged if the passage is no longer in it
+ */
+export const replacePassage = (markdown: string, quote: string, replacement: string): string => {
+  return markdown.includes(quote) ? markdown.replace(quote, () => replacement.trim()) : markdown
+}
@@ -0,0 +1,206 @@
+/**
+ * In-memory registry of background generation jobs
+ * A job streams a completion from the provider independently of any browser tab;
+ * clients attach to it over SSE, replay from an offset and can cancel it
+ */
+
+import { randomUUID } from 'crypto'
+import type { LLMProvider } from './llmProviders'
+import type { ChatCompletionChunk, ChatCompletionRequest } from '~/types/llm'
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface JobSummary {
+  id: string
+  status: JobStatus
+  model: string
+  content: string
+  chunkCount: number
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+interface Job {
+  id: string
+  status: JobStatus
+  request: ChatCompletionRequest
+  /** The model that is answering; differs from the request when a fallback was used */
+  model: string
+  chunks: ChatCompletionChunk[]
+  content: string
+  error?: string
+  createdAt: string
+  updatedAt: string
+  controller: AbortController
+  listeners: Set<() => void>
+}
+
+// Finished jobs are kept this long so reloaded tabs can still replay them
+const JOB_TTL_MS = 60 * 60 * 1000
+
+const jobs = new Map<string, Job>()
+
+const isFinished = (job: Job) => job.status !== 'running'
+
+const notify = (job: Job) => {
+  job.updatedAt = new Date().toISOString()
+  const listeners = [...job.listeners]
+  job.listeners.clear()
+  listeners.forEach(listener => listener())
+}
+
+// Resolves on the job's next update, or as soon as the signal aborts, releasing the listener
+const waitForUpdate = (job: Job, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve()
+    const listener = () => {
+      signal?.removeEventListener('abort', abort)
+      resolve()
+    }
+    const abort = () => {
+      job.listeners.delete(listener)
+      resolve()
+    }
+    job.listeners.add(listener)
+    signal?.addEventListener('abort', abort, { once: true })
+  })
+}
+
+const purgeExpiredJobs = () => {
+  const now = Date.now()
+  for (const [id, job] of jobs) {
+    if (isFinished(job) && now - new Date(job.updatedAt).getTime() > JOB_TTL_MS) {
+      jobs.delete(id)
+    }
+  }
+}
+
+const runJob = async (job: Job, provider: LLMProvider) => {
+  try {
+    const stream = await provider.stream(job.request, job.controller.signal)
+    for await (const chunk of stream) {
+      if (job.status !== 'running') break
+      if (chunk.model) job.model = chunk.model
+      job.chunks.push(chunk)
+      job.content += chunk.content
+      notify(job)
+    }
+    if (job.status === 'running') {
+      job.status = 'completed'
+    }
+  } catch (error) {
+    if (job.status === 'running') {
+      console.error(`Job ${job.id} failed:`, error)
+      job.status = 'failed'
+      job.error = error instanceof Error ? error.message : String(error)
+    }
+  } finally {
+    notify(job)
+  }
+}
+
+/**
+ * Summarizes a job for API responses
+ * @param job The job
+ * @returns The public view of the job
+ */
+const toSummary = (job: Job): JobSummary => ({
+  id: job.id,
+  status: job.status,
+  model: job.model,
+  content: job.content,
+  chunkCount: job.chunks.length,
+  error: job.error,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt
+})
+
+/**
+ * Creates a job and starts streaming it in the background
+ * @param request The chat request to run
+ * @param provider The provider to run it with
+ * @returns The new job
+ */
+export const createJob = (request: ChatCompletionRequest, provider: LLMProvider): JobSummary => {
+  purgeExpiredJobs()
+
+  const now = new Date().toISOString()
+  const job: Job = {
+    id: randomUUID(),
+    status: 'running',
+    request: { ...request, stream: true },
+    model: request.model,
+    chunks: [],
+    content: '',
+    createdAt: now,
+    updatedAt: now,
+    controller: new AbortController(),
+    listeners: new Set()
+  }
+  jobs.set(job.id, job)
+
+  // Not awaited: the job outlives the request that created it
+  runJob(job, provider)
+
+  return toSummary(job)
+}
+
+/**
+ * Gets a job summary
+ * @param id The job id
+ * @returns The job summary or null if unknown
+ */
+export const getJob = (id: string): JobSummary | null => {
+  const job = jobs.get(id)
+  return job ? toSummary(job) : null
+}
+
+/**
+ * Cancels a running job and aborts its upstream request
+ * @param id The job id
+ * @returns The job summary or null if unknown
+ */
+export const cancelJob = (id: string): JobSummary | null => {
+  const job = jobs.get(id)
+  if (!job) return null
+
+  if (job.status === 'running') {
+    job.status = 'cancelled'
+    job.controller.abort()
+    notify(job)
+  }
+  return toSummary(job)
+}
+
+/**
+ * Replays a job's chunks from an offset, then follows new chunks until the job finishes
+ * @param id The job id
+ * @param offset Number of chunks the client already has
+ * @param signal Ends the subscription when aborted, e.g. when the client disconnects,
+ * without waiting for the job's next update
+ * @returns An async generator of chunks with their index, or null if the job is unknown
+ */
+export const subscribeToJob = (id: string, offset = 0, signal?: AbortSignal) => {
+  const job = jobs.get(id)
+  if (!job) return null
+
+  return (async function* () {
+    let index = Math.max(0, offset)
+    while (!signal?.aborted) {
+      while (index < job.chunks.length) {
+        yield { index, chunk: job.chunks[index] }
+        index++
+      }
+      if (isFinished(job)) return
+      await waitForUpdate(job, signal)
+    }
+  })()
+}
+
+/**
+ * Counts the subscribers waiting for a job's next update
+ * @param id The job id
+ * @returns The number of waiting subscribers, 0 for unknown jobs
+ */
+export const countJobListeners = (id: string): number => jobs.get(id)?.listeners.size ?? 0
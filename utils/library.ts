@@ -0,0 +1,82 @@
+/**
+ * Helpers for the research library: filtering the saved sessions by date, model, tag and
+ * slide template, and the values the filters offer
+ */
+
+import type { LibraryEntry, ResearchResult } from '~/types/research'
+
+export interface LibraryFilters {
+  /** First day, as YYYY-MM-DD */
+  from?: string
+  /** Last day, as YYYY-MM-DD, included */
+  to?: string
+  model?: string
+  tag?: string
+  template?: string
+}
+
+/** Fields the library can be sorted by */
+export const LIBRARY_SORT_FIELDS: { value: keyof LibraryEntry, label: string }[] = [
+  { value: 'timestamp', label: 'Created' },
+  { value: 'updatedAt', label: 'Updated' },
+  { value: 'title', label: 'Title' },
+  { value: 'topic', label: 'Topic' },
+  { value: 'model', label: 'Model' },
+  { value: 'outlineCount', label: 'Outlines' },
+  { value: 'deckCount', label: 'Decks' }
+]
+
+/**
+ * Whether a research result matches the search text: its topic, subtopics or content
+ * contain it, ignoring case
+ * @param result The research result or library entry
+ * @param text The search text
+ */
+export const matchesSearchText = (result: ResearchResult, text: string): boolean => {
+  const query = text.toLowerCase()
+  return (
+    result.topic.toLowerCase().includes(query) ||
+    result.content.toLowerCase().includes(query) ||
+    result.subtopics.some(subtopic => subtopic.toLowerCase().includes(query))
+  )
+}
+
+/**
+ * Keeps the entries that match every filter that is set
+ * Dates are compared with the day the session was created
+ * @param entries The library entries
+ * @param filters The filters
+ * @returns The matching entries, in the same order
+ */
+export const filterLibrary = (entries: LibraryEntry[], filters: LibraryFilters): LibraryEntry[] => {
+  return entries.filter((entry) => {
+    const day = entry.timestamp.substring(0, 10)
+    if (filters.from && day < filters.from) return false
+    if (filters.to && day > filters.to) return false
+    if (filters.model && entry.model !== filters.model) return false
+    if (filters.tag && !entry.tags.includes(filters.tag)) return false
+    if (filters.template && !entry.templates.includes(filters.template)) return false
+    return true
+  })
+}
+
+/**
+ * Lists the models, tags and templates used in the library, sorted, for the filter menus
+ * @param entries The library entries
+ */
+export const libraryFacets = (entries: LibraryEntry[]): { models: string[], tags: string[], templates: string[] } => {
+  const unique = (values: (string | undefined)[]) => [...new Set(values.filter((value): value is string => !!value))].sort()
+  return {
+    models: unique(entries.map(entry => entry.model)),
+    tags: unique(entries.flatMap(entry => entry.tags)),
+    templates: unique(entries.flatMap(entry => entry.templates))
+  }
+}
+
+/**
+ * Parses the comma-separated tags typed by the user
+ * @param text The tags, e.g. "tea, history"
+ */
+export const parseTags = (text: string): string[] => {
+  return [...new Set(text.split(',').map(tag => tag.replace(/\s+/g, ' ').trim()).filter(Boolean))]
+}
@@ -0,0 +1,267 @@
+/**
+ * Record/replay ("cassette") mode for upstream LLM calls
+ * In record mode every upstream request and its raw response bytes, including the
+ * SSE chunks and their timing, are saved to a cassette keyed by a hash of the
+ * normalized request. In replay mode responses are served from cassettes only,
+ * so odd model outputs can be reproduced exactly and the app demoed offline
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { LLMProviderError, sleep } from './llmProviders'
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export interface CassetteChunk {
+  /** Milliseconds since the request was sent */
+  atMs: number
+  /** Raw response text, e.g. one or more SSE events */
+  data: string
+}
+
+export interface Cassette {
+  key: string
+  recordedAt: string
+  request: {
+    url: string
+    body: unknown
+  }
+  response: {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    chunks: CassetteChunk[]
+  }
+}
+
+export interface CassetteStore {
+  read(key: string): Promise<Cassette | null>
+  write(cassette: Cassette): Promise<void>
+}
+
+/**
+ * Raised in replay mode when no cassette matches a request
+ */
+export class CassetteMissError extends LLMProviderError {
+  key: string
+
+  constructor(key: string, model: string, location: string) {
+    super(
+      `No cassette recorded for request ${key} (model ${model}) in ${location}. ` +
+      'Record it with LLM_CASSETTE_MODE=record',
+      404
+    )
+    this.name = 'CassetteMissError'
+    this.key = key
+  }
+}
+
+/**
+ * Normalizes a request body so equivalent requests hash the same
+ * Keys are sorted, empty values dropped and message text trimmed
+ * @param body The request body sent upstream
+ * @returns The normalized body
+ */
+export const normalizeRequestBody = (body: unknown): unknown => {
+  if (Array.isArray(body)) {
+    return body.map(normalizeRequestBody)
+  }
+  if (body && typeof body === 'object') {
+    return Object.keys(body as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((normalized, key) => {
+        const value = (body as Record<string, unknown>)[key]
+        if (value !== undefined && value !== null) {
+          normalized[key] = normalizeRequestBody(value)
+        }
+        return normalized
+      }, {})
+  }
+  return typeof body === 'string' ? body.trim() : body
+}
+
+/**
+ * Hashes a request for use as a cassette key
+ * @param url The upstream URL
+ * @param body The request body
+ * @returns A short hex digest
+ */
+export const hashRequest = (url: string, body: unknown): string => {
+  return createHash('sha256')
+    .update(JSON.stringify({ url, body: normalizeRequestBody(body) }))
+    .digest('hex')
+    .substring(0, 16)
+}
+
+/**
+ * Stores cassettes as pretty-printed JSON files, one per request
+ * @param dir The cassette directory
+ * @returns The store
+ */
+export const createFileCassetteStore = (dir: string): CassetteStore & { location: string } => ({
+  location: dir,
+
+  async read(key) {
+    try {
+      const text = await fs.promises.readFile(path.join(dir, `${key}.json`), 'utf-8')
+      return JSON.parse(text)
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return null
+      throw error
+    }
+  },
+
+  async write(cassette) {
+    await fs.promises.mkdir(dir, { recursive: true })
+    await fs.promises.writeFile(path.join(dir, `${cassette.key}.json`), JSON.stringify(cassette, null, 2) + '\n')
+  }
+})
+
+/**
+ * Keeps cassettes in memory, for tests
+ * @returns The store
+ */
+export const createMemoryCassetteStore = (): CassetteStore & { cassettes: Map<string, Cassette> } => {
+  const cassettes = new Map<string, Cassette>()
+  return {
+    cassettes,
+    async read(key) {
+      return cassettes.get(key) || null
+    },
+    async write(cassette) {
+      cassettes.set(cassette.key, cassette)
+    }
+  }
+}
+
+const parseBody = (body: unknown): unknown => {
+  if (typeof body !== 'string') return body ?? null
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+/**
+ * Builds a response that plays back a cassette
+ * @param cassette The cassette
+ * @param timing Whether to reproduce the recorded delays between chunks
+ * @param signal Optional abort signal
+ * @returns The response
+ */
+const replayResponse = (cassette: Cassette, timing: boolean, signal?: AbortSignal | null): Response => {
+  const encoder = new TextEncoder()
+  const { chunks } = cassette.response
+  let index = 0
+  let previousAtMs = 0
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= chunks.length) {
+        controller.close()
+        return
+      }
+      const chunk = chunks[index++]
+      if (timing && chunk.atMs > previousAtMs) {
+        await sleep(chunk.atMs - previousAtMs, signal || undefined)
+      }
+      previousAtMs = chunk.atMs
+      controller.enqueue(encoder.encode(chunk.data))
+    }
+  })
+
+  return new Response(body, {
+    status: cassette.response.status,
+    statusText: cassette.response.statusText,
+    headers: cassette.response.headers
+  })
+}
+
+/**
+ * Records a response while passing it through unchanged
+ * @returns The response to hand to the provider
+ */
+const recordResponse = (
+  response: Response,
+  cassette: Omit<Cassette, 'response'>,
+  startedAt: number,
+  store: CassetteStore
+): Response => {
+  const chunks: CassetteChunk[] = []
+  const decoder = new TextDecoder('utf-8')
+  const headers: Record<string, string> = {}
+  response.headers.forEach((value, name) => {
+    headers[name] = value
+  })
+
+  const save = () => store.write({
+    ...cassette,
+    response: { status: response.status, statusText: response.statusText, headers, chunks }
+  }).catch(error => console.error(`Failed to write cassette ${cassette.key}:`, error))
+
+  if (!response.body) {
+    save()
+    return response
+  }
+
+  const recorder = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      chunks.push({ atMs: Date.now() - startedAt, data: decoder.decode(chunk, { stream: true }) })
+      controller.enqueue(chunk)
+    },
+    async flush() {
+      const rest = decoder.decode()
+      if (rest) chunks.push({ atMs: Date.now() - startedAt, data: rest })
+      await save()
+    }
+  })
+
+  return new Response(response.body.pipeThrough(recorder), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+}
+
+/**
+ * Wraps fetch with record or replay behaviour
+ * @param mode 'record' to save every upstream exchange, 'replay' to serve only from cassettes
+ * @param store Where cassettes are kept
+ * @param options `timing` reproduces recorded delays on replay; `location` names the store in errors
+ * @param baseFetch The real fetch, used in record mode
+ * @returns A fetch-compatible function
+ */
+export const createCassetteFetch = (
+  mode: Exclude<CassetteMode, 'off'>,
+  store: CassetteStore,
+  options: { timing?: boolean, location?: string } = {},
+  baseFetch: typeof fetch = fetch
+): typeof fetch => {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const body = parseBody(init?.body)
+    const key = hashRequest(url, body)
+
+    if (mode === 'replay') {
+      const cassette = await store.read(key)
+      if (!cassette) {
+        const model = (body as { model?: string } | null)?.model || 'unknown'
+        const error = new CassetteMissError(key, model, options.location || 'the cassette store')
+        console.error(error.message)
+        throw error
+      }
+      return replayResponse(cassette, options.timing ?? true, init?.signal)
+    }
+
+    const startedAt = Date.now()
+    const response = await baseFetch(input, init)
+    return recordResponse(
+      response,
+      { key, recordedAt: new Date(startedAt).toISOString(), request: { url, body: normalizeRequestBody(body) } },
+      startedAt,
+      store
+    )
+  }
+}
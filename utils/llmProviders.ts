@@ -0,0 +1,433 @@
+/**
+ * LLM provider abstraction used by the /api/chat proxy
+ * Supports OpenRouter, any OpenAI-compatible server (llama.cpp, Ollama, vLLM...)
+ * and a deterministic mock provider for offline development and CI
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { readSSEData, SSE_DONE } from './sse'
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionRequest, ChatUsage } from '~/types/llm'
+
+export type LLMProviderId = 'openrouter' | 'openai-compatible' | 'mock'
+
+export interface LLMProvider {
+  id: LLMProviderId
+  /**
+   * Requests a complete, non-streamed response
+   */
+  complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion>
+  /**
+   * Opens a streamed response. The promise only resolves once the upstream
+   * accepted the request, so HTTP errors surface before any chunk is sent
+   */
+  stream(request: ChatCompletionRequest, signal?: AbortSignal): Promise<AsyncIterable<ChatCompletionChunk>>
+}
+
+export interface LLMConfig {
+  provider?: string
+  baseUrl?: string
+  apiKey?: string
+  mockDelayMs?: number
+}
+
+/**
+ * Error raised when an upstream provider rejects a request
+ */
+export class LLMProviderError extends Error {
+  status: number
+  body: string
+  /** Delay requested by the upstream Retry-After header, in milliseconds */
+  retryAfterMs?: number
+
+  constructor(message: string, status: number, body = '', retryAfterMs?: number) {
+    super(message)
+    this.name = 'LLMProviderError'
+    this.status = status
+    this.body = body
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date
+ * @param value The header value
+ * @param now The current time in milliseconds
+ * @returns The delay in milliseconds, or undefined if absent or invalid
+ */
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Roughly estimates the number of tokens in a string (about four characters per token)
+ * @param text The text to measure
+ * @returns The estimated token count
+ */
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4)
+
+/**
+ * Estimates usage from the request and response text, for providers that report none
+ * @param request The chat request
+ * @param content The generated text
+ * @returns The estimated usage
+ */
+export const estimateUsage = (request: ChatCompletionRequest, content: string): ChatUsage => {
+  const promptTokens = estimateTokens(request.messages.map(message => message.content).join('\n'))
+  const completionTokens = estimateTokens(content)
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens
+  }
+}
+
+interface OpenAICompatibleOptions {
+  baseUrl: string
+  apiKey?: string
+  headers?: Record<string, string>
+  /** Replaces the global fetch, e.g. with the cassette recorder */
+  fetch?: typeof fetch
+}
+
+/**
+ * Creates a provider for any server implementing the OpenAI chat completions API
+ * @param id The provider id reported in logs and errors
+ * @param options Base URL, API key and extra headers
+ * @returns The provider
+ */
+export const createOpenAICompatibleProvider = (id: LLMProviderId, options: OpenAICompatibleOptions): LLMProvider => {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  const send = async (request: ChatCompletionRequest, stream: boolean, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers
+    }
+    if (options.apiKey) {
+      headers.Authorization = `Bearer ${options.apiKey}`
+    }
+
+    const response = await (options.fetch || fetch)(endpoint, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        stream,
+        // Ask for a final usage chunk; streams otherwise carry no token counts
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new LLMProviderError(
+        `${id} API error: ${response.status} ${response.statusText}`,
+        response.status,
+        errorText,
+        parseRetryAfter(response.headers?.get('retry-after'))
+      )
+    }
+
+    return response
+  }
+
+  return {
+    id,
+
+    async complete(request, signal) {
+      const response = await send(request, false, signal)
+      const data = await response.json()
+      const content = data.choices?.[0]?.message?.content
+      if (typeof content !== 'string') {
+        throw new LLMProviderError(`${id} API returned an invalid response format`, 502, JSON.stringify(data))
+      }
+
+      return {
+        id: data.id || randomUUID(),
+        model: data.model || request.model,
+        content,
+        finishReason: data.choices[0].finish_reason,
+        usage: data.usage
+      }
+    },
+
+    async stream(request, signal) {
+      const response = await send(request, true, signal)
+      if (!response.body) {
+        throw new LLMProviderError(`${id} API returned an empty stream`, 502)
+      }
+      const body = response.body
+
+      return (async function* () {
+        for await (const data of readSSEData(body)) {
+          if (data === SSE_DONE) return
+          if (!data) continue
+
+          let parsed
+          try {
+            parsed = JSON.parse(data)
+          } catch (e) {
+            // Some servers interleave keep-alive comments or partial payloads; skip them
+            continue
+          }
+
+          if (parsed.error) {
+            throw new LLMProviderError(parsed.error.message || `${id} stream error`, 502, data)
+          }
+
+          const content = parsed.choices?.[0]?.delta?.content || ''
+          if (content || parsed.usage) {
+            yield { content, model: parsed.model, usage: parsed.usage || undefined }
+          }
+        }
+      })()
+    }
+  }
+}
+
+/**
+ * Creates the OpenRouter provider
+ * @param apiKey The OpenRouter API key
+ * @param siteUrl The site URL sent as HTTP-Referer for OpenRouter rankings
+ * @param fetchImpl Optional replacement for the global fetch
+ * @returns The provider
+ */
+export const createOpenRouterProvider = (apiKey: string, siteUrl: string, fetchImpl?: typeof fetch): LLMProvider => {
+  return createOpenAICompatibleProvider('openrouter', {
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey,
+    fetch: fetchImpl,
+    headers: {
+      'HTTP-Referer': siteUrl,
+      'X-Title': 'Research Assistant'
+    }
+  })
+}
+
+/**
+ * Produces a short deterministic fingerprint for a request
+ */
+const fingerprint = (request: ChatCompletionRequest): string => {
+  return createHash('sha256')
+    .update(JSON.stringify(request.messages))
+    .digest('hex')
+    .substring(0, 12)
+}
+
+/**
+ * Extracts a readable title from the last user message of a request
+ */
+const mockTitle = (request: ChatCompletionRequest): string => {
+  const lastUser = [...request.messages].reverse().find(message => message.role === 'user')
+  const firstLine = (lastUser?.content || 'Untitled request')
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line.length > 0) || 'Untitled request'
+  return firstLine.length > 80 ? `${firstLine.substring(0, 77)}...` : firstLine
+}
+
+/**
+ * Builds the deterministic markdown returned by the mock provider
+ * Research plan prompts get a JSON list of sub-questions, deck schema prompts get a
+ * JSON deck, outline prompts get a slide deck, everything else gets a research document
+ * @param request The chat request
+ * @returns The mock completion text
+ */
+export const buildMockResponse = (request: ChatCompletionRequest): string => {
+  const prompt = request.messages.map(message => message.content).join('\n')
+  const title = mockTitle(request)
+  const id = fingerprint(request)
+
+  if (/JSON array of sub-questions/i.test(prompt)) {
+    return JSON.stringify([
+      { question: 'What is the background of the topic?', subtopic: 'Background' },
+      { question: 'What does the data from 2021 to 2023 show?', subtopic: 'Data' },
+      { question: 'Which questions remain open?', subtopic: 'Outlook' }
+    ], null, 2)
+  }
+
+  if (/deck\.schema\.json/.test(prompt)) {
+    return JSON.stringify({
+      title,
+      subtitle: 'Mock presentation outline',
+      slides: [
+        {
+          title: 'Key Findings',
+          bullets: [
+            'Finding one supported by the mock dataset',
+            'Finding two with a short explanation',
+            'Finding three with a highlighted result'
+          ]
+        },
+        {
+          title: 'Data Overview',
+          table: {
+            headers: ['Year', 'Value', 'Change'],
+            rows: [['2021', '120', '+4%'], ['2022', '132', '+10%'], ['2023', '141', '+7%']]
+          },
+          chart: { type: 'bar', title: 'Value by year', xLabel: 'Year', yLabel: 'Value', labels: ['2021', '2022', '2023'], values: [120, 132, 141] }
+        },
+        {
+          title: 'Conclusion',
+          bullets: ['Summary of the mock research'],
+          notes: `Request fingerprint: ${id}`
+        }
+      ]
+    }, null, 2)
+  }
+
+  if (/presentation outline/i.test(prompt)) {
+    return `# ${title}
+## Mock presentation outline
+
+---
+
+# Key Findings
+- Finding one supported by the mock dataset
+- Finding two with a *short* explanation
+- Finding three with a **highlighted** result
+
+---
+
+# Data Overview
+| Year | Value | Change |
+| ---- | ----- | ------ |
+| 2021 | 120   | +4%    |
+| 2022 | 132   | +10%   |
+| 2023 | 141   | +7%    |
+
+---
+
+# Conclusion
+- Summary of the mock research
+- Request fingerprint: ${id}`
+  }
+
+  return `# ${title}
+
+## Overview
+This response was generated by the mock LLM provider for offline development. It is deterministic: the same request always produces the same text (fingerprint ${id}).
+
+## Key Findings
+- The first finding describes the topic at a high level.
+- The second finding introduces supporting data from 2021 to 2023.
+- The third finding outlines open questions for further research.
+
+## Data
+| Year | Value | Change |
+| ---- | ----- | ------ |
+| 2021 | 120   | +4%    |
+| 2022 | 132   | +10%   |
+| 2023 | 141   | +7%    |
+
+## Conclusion
+The mock provider allows the full research-to-slides flow to run without network access.`
+}
+
+/**
+ * Splits text into small pieces so mock streams resemble real token streams
+ */
+const splitIntoChunks = (text: string): string[] => text.match(/\S+\s*|\s+/g) || []
+
+/**
+ * Waits for a delay, rejecting early if the signal is aborted
+ * @param ms The delay in milliseconds
+ * @param signal Optional abort signal
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new Error('Request aborted'))
+    }, { once: true })
+  })
+}
+
+/**
+ * Creates a deterministic provider that never touches the network
+ * @param delayMs Delay between streamed chunks, to mimic a real model
+ * @returns The provider
+ */
+export const createMockProvider = (delayMs = 0): LLMProvider => ({
+  id: 'mock',
+
+  async complete(request) {
+    const content = buildMockResponse(request)
+    return {
+      id: `mock-${fingerprint(request)}`,
+      model: request.model,
+      content,
+      finishReason: 'stop',
+      usage: estimateUsage(request, content)
+    }
+  },
+
+  async stream(request, signal) {
+    const content = buildMockResponse(request)
+
+    return (async function* () {
+      for (const piece of splitIntoChunks(content)) {
+        if (delayMs > 0) {
+          await sleep(delayMs, signal)
+        } else if (signal?.aborted) {
+          throw new Error('Request aborted')
+        }
+        yield { content: piece, model: request.model }
+      }
+      yield { content: '', model: request.model, usage: estimateUsage(request, content) }
+    })()
+  }
+})
+
+/**
+ * Resolves the provider configured in runtimeConfig
+ * @param config The `llm` section of the runtime config
+ * @param openrouterApiKey The OpenRouter API key
+ * @param siteUrl The public site URL
+ * @param fetchImpl Optional replacement for the global fetch, used by cassette mode
+ * @returns The configured provider
+ */
+export const getLLMProvider = (config: LLMConfig, openrouterApiKey?: string, siteUrl = '', fetchImpl?: typeof fetch): LLMProvider => {
+  const provider = config.provider || 'openrouter'
+
+  switch (provider) {
+    case 'mock':
+      return createMockProvider(Number(config.mockDelayMs) || 0)
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('LLM_BASE_URL must be set when using the openai-compatible provider')
+      }
+      return createOpenAICompatibleProvider('openai-compatible', {
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        fetch: fetchImpl
+      })
+
+    case 'openrouter':
+      if (!openrouterApiKey) {
+        throw new Error('OpenRouter API key is missing')
+      }
+      return createOpenRouterProvider(openrouterApiKey, siteUrl, fetchImpl)
+
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`)
+  }
+}
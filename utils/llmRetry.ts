@@ -0,0 +1,178 @@
+/**
+ * Retry with exponential backoff and an ordered fallback chain of models
+ * Wraps any LLM provider; free-tier models often answer 429 or 5xx, so each model
+ * is retried a few times before the next model in the chain is tried
+ */
+
+import { LLMProviderError, sleep } from './llmProviders'
+import { CassetteMissError } from './llmCassette'
+import type { LLMProvider } from './llmProviders'
+import type { ChatCompletionRequest } from '~/types/llm'
+
+export interface RetryPolicy {
+  /** Retries per model after the first attempt */
+  maxRetries: number
+  /** Delay before the first retry; doubled on every further retry */
+  baseDelayMs: number
+  /** Upper bound for a single delay, including Retry-After */
+  maxDelayMs: number
+}
+
+export interface FallbackOptions {
+  policy: RetryPolicy
+  /** Models tried in order after the requested model has failed */
+  fallbackModels: string[]
+  /** Adjusts the request for another model, e.g. to clamp max_tokens */
+  prepareRequest?: (request: ChatCompletionRequest, model: string) => ChatCompletionRequest
+  /** Called before every retry of the same model, mainly for logging */
+  onRetry?: (info: { model: string, attempt: number, delayMs: number, error: unknown }) => void
+  /** Called when the chain moves on to the next model */
+  onFallback?: (info: { from: string, to: string, error: unknown }) => void
+  /** Replaceable for tests */
+  random?: () => number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+}
+
+/**
+ * Whether an error is worth retrying with the same model
+ * Rate limits, timeouts, server errors and network failures are transient
+ * @param error The error thrown by the provider
+ * @returns True if the request may succeed when repeated
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof LLMProviderError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500
+  }
+  if (error instanceof Error && (error.name === 'AbortError' || error.message === 'Request aborted')) {
+    return false
+  }
+  // fetch throws a TypeError for network failures
+  return error instanceof TypeError
+}
+
+/**
+ * Whether trying another model cannot help, e.g. because the API key is rejected
+ * @param error The error thrown by the provider
+ * @returns True if the whole chain should stop
+ */
+const isFatalError = (error: unknown): boolean => {
+  // A replay miss means the cassettes are incomplete; trying other models would hide that
+  if (error instanceof CassetteMissError) return true
+  if (error instanceof LLMProviderError) {
+    return error.status === 401 || error.status === 403
+  }
+  return error instanceof Error && (error.name === 'AbortError' || error.message === 'Request aborted')
+}
+
+/**
+ * Computes the delay before a retry: exponential backoff with jitter
+ * @param attempt The retry number, starting at 0
+ * @param policy The retry policy
+ * @param random Random source in [0, 1)
+ * @returns The delay in milliseconds
+ */
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  // Keep at least half the delay so bursts of clients still spread out
+  return Math.round(exponential / 2 + random() * exponential / 2)
+}
+
+/**
+ * Builds the ordered list of models to try, without duplicates
+ * @param model The requested model
+ * @param fallbackModels The configured fallback models
+ * @returns The model chain
+ */
+export const buildModelChain = (model: string, fallbackModels: string[]): string[] => {
+  return [...new Set([model, ...fallbackModels.map(id => id.trim()).filter(Boolean)])]
+}
+
+/**
+ * Runs an attempt against each model of the chain until one succeeds
+ * @param request The original request
+ * @param attempt The call to make with a request for one model
+ * @param options Retry policy and fallback models
+ * @param signal Optional abort signal; aborting stops retries immediately
+ * @returns The result and the model that produced it
+ */
+export const runWithFallback = async <T>(
+  request: ChatCompletionRequest,
+  attempt: (request: ChatCompletionRequest) => Promise<T>,
+  options: FallbackOptions,
+  signal?: AbortSignal
+): Promise<{ result: T, model: string }> => {
+  const chain = buildModelChain(request.model, options.fallbackModels)
+  let lastError: unknown
+
+  for (const [modelIndex, model] of chain.entries()) {
+    const modelRequest = options.prepareRequest
+      ? options.prepareRequest({ ...request, model }, model)
+      : { ...request, model }
+
+    for (let retry = 0; retry <= options.policy.maxRetries; retry++) {
+      try {
+        return { result: await attempt(modelRequest), model }
+      } catch (error) {
+        lastError = error
+        if (isFatalError(error) || signal?.aborted) throw error
+        if (!isRetryableError(error) || retry === options.policy.maxRetries) break
+
+        const retryAfter = error instanceof LLMProviderError ? error.retryAfterMs : undefined
+        // A Retry-After longer than we are willing to wait means: move on to the next model
+        if (retryAfter !== undefined && retryAfter > options.policy.maxDelayMs) break
+
+        const delayMs = retryAfter ?? getBackoffDelay(retry, options.policy, options.random)
+        options.onRetry?.({ model, attempt: retry + 1, delayMs, error })
+        await sleep(delayMs, signal)
+      }
+    }
+
+    if (modelIndex < chain.length - 1) {
+      options.onFallback?.({ from: model, to: chain[modelIndex + 1], error: lastError })
+    }
+  }
+
+  throw lastError
+}
+
+/**
+ * Wraps a provider with retries and the fallback chain
+ * Completions and chunks report the model that actually answered. Streams are only
+ * retried while opening; once chunks have been sent a failure is final
+ * @param provider The provider to wrap
+ * @param options Retry policy and fallback models
+ * @returns The wrapped provider
+ */
+export const createResilientProvider = (provider: LLMProvider, options: FallbackOptions): LLMProvider => ({
+  id: provider.id,
+
+  async complete(request, signal) {
+    const { result, model } = await runWithFallback(
+      request,
+      modelRequest => provider.complete(modelRequest, signal),
+      options,
+      signal
+    )
+    return { ...result, model }
+  },
+
+  async stream(request, signal) {
+    const { result, model } = await runWithFallback(
+      request,
+      modelRequest => provider.stream(modelRequest, signal),
+      options,
+      signal
+    )
+
+    return (async function* () {
+      for await (const chunk of result) {
+        yield { ...chunk, model }
+      }
+    })()
+  }
+})
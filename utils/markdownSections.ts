@@ -0,0 +1,100 @@
+/**
+ * Splits a markdown document into heading-delimited sections and edits them in place
+ * Used to apply follow-up answers and regenerated text to one part of the research
+ */
+
+export interface MarkdownSection {
+  /** Position of the section in the document */
+  index: number
+  /** Heading text without the leading #, or '' for text before the first heading */
+  heading: string
+  /** Heading level (1-6), 0 for text before the first heading */
+  level: number
+  /** The full section text, heading line included */
+  content: string
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+
+/**
+ * Splits markdown at every heading; headings inside fenced code blocks are ignored
+ * Joining the sections' content gives back the original document
+ * @param markdown The markdown document
+ * @returns The sections in document order
+ */
+export const splitMarkdownSections = (markdown: string): MarkdownSection[] => {
+  const sections: MarkdownSection[] = []
+  let current: MarkdownSection = { index: 0, heading: '', level: 0, content: '' }
+  let inFence = false
+
+  const lines = markdown.split(/(?<=\n)/)
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+    }
+
+    const match = !inFence ? line.match(HEADING) : null
+    if (match) {
+      if (current.content || current.level > 0) sections.push(current)
+      current = { index: sections.length, heading: match[2], level: match[1].length, content: line }
+    } else {
+      current.content += line
+    }
+  }
+
+  if (current.content || current.level > 0) sections.push(current)
+  return sections.map((section, index) => ({ ...section, index }))
+}
+
+/**
+ * Joins sections back into a document
+ * @param sections The sections
+ * @returns The markdown document
+ */
+export const joinMarkdownSections = (sections: MarkdownSection[]): string => {
+  return sections.map(section => section.content).join('')
+}
+
+const ensureTrailingNewline = (text: string) => (text.endsWith('\n') ? text : `${text}\n`)
+
+/**
+ * Replaces the body of a section, keeping its heading unless the new text brings its own
+ * @param markdown The markdown document
+ * @param index The section index
+ * @param text The replacement text
+ * @returns The updated document
+ */
+export const replaceMarkdownSection = (markdown: string, index: number, text: string): string => {
+  const sections = splitMarkdownSections(markdown)
+  const section = sections[index]
+  if (!section) return markdown
+
+  const headingLine = section.level > 0 ? section.content.split('\n')[0] + '\n' : ''
+  const bringsHeading = HEADING.test(text.trimStart().split('\n')[0])
+  const isLast = index === sections.length - 1
+  const body = ensureTrailingNewline(text.trim()) + (isLast ? '' : '\n')
+
+  sections[index] = { ...section, content: bringsHeading ? body : headingLine + body }
+  return joinMarkdownSections(sections)
+}
+
+/**
+ * Appends text to the end of a section, or to the end of the document if no section is given
+ * @param markdown The markdown document
+ * @param index The section index, or undefined for the end of the document
+ * @param text The text to append
+ * @returns The updated document
+ */
+export const appendToMarkdownSection = (markdown: string, index: number | undefined, text: string): string => {
+  const sections = splitMarkdownSections(markdown)
+  const target = index === undefined ? sections.length - 1 : index
+  const section = sections[target]
+  if (!section) {
+    return markdown ? `${ensureTrailingNewline(markdown)}\n${text.trim()}\n` : `${text.trim()}\n`
+  }
+
+  const isLast = target === sections.length - 1
+  const existing = section.content.replace(/\s+$/, '')
+  sections[target] = { ...section, content: `${existing}\n\n${text.trim()}\n${isLast ? '' : '\n'}` }
+  return joinMarkdownSections(sections)
+}
@@ -2,6 +2,8 @@
  * Utilities for MARP slide generation and template management
  */
 
+import { parseOutline, serializeOutline } from './slideAst'
+import type { BlockNode } from '~/types/deck'
 import type { MarpTemplate } from '~/types/research'
 
 /**
@@ -154,29 +156,23 @@ export function getRandomTemplates(count = 5): MarpTemplate[] {
  * @returns MARP-formatted markdown
  */
 export const convertRMdToMarp = (rmdContent: string, template: MarpTemplate): string => {
-  let cleanedContent = rmdContent;
-
-  // Remove any existing frontmatter
-  cleanedContent = cleanedContent.replace(/^---[\s\S]*?^---/m, '');
-
-  // Process R code chunks - these will be handled by the R integration
-  // Just preserve them for now
-  cleanedContent = cleanedContent.replace(/```{r.*?}\n([\s\S]*?)\n```/g, (match, codeContent) => {
-    return match; // Keep the original R code chunk
-  });
-
-  // Add Marp-specific directives for slides that need special treatment
-  cleanedContent = cleanedContent.replace(/^# (.*?)$/gm, (match, title) => {
-    return `<!-- _class: lead -->\n# ${title}`;
-  });
-
-  // Handle background images and colors
-  cleanedContent = cleanedContent.replace(/!\[(.*?)\]\((.*?)\)/g, (match, alt, src) => {
-    if (alt.toLowerCase().includes('background')) {
-      return `![bg ${alt.includes('cover') ? 'cover' : 'contain'}](${src})`;
-    }
-    return match;
-  });
+  // The front matter is replaced by Marp's below; R code chunks are kept for the R integration
+  const deck = parseOutline(rmdContent)
+  const slides = deck.slides.map(slide => ({
+    ...slide,
+    blocks: slide.blocks.flatMap((block): BlockNode[] => {
+      // Title slides are centered
+      if (block.type === 'heading' && block.depth === 1) return [{ type: 'directive', directives: { _class: 'lead' } }, block]
+      if (block.type !== 'paragraph') return [block]
+
+      // Images whose alt text asks for a background become Marp backgrounds
+      const text = block.text.replace(/!\[(.*?)\]\((.*?)\)/g, (match, alt: string, src: string) => {
+        return alt.toLowerCase().includes('background') ? `![bg ${alt.includes('cover') ? 'cover' : 'contain'}](${src})` : match
+      })
+      return [text === block.text ? block : { type: 'paragraph', text }]
+    })
+  }))
+  const cleanedContent = serializeOutline({ slides })
 
   // Add Marpit frontmatter with theme settings
   const marpContent = `---
@@ -0,0 +1,219 @@
+/**
+ * Catalog of known models and per-stage model routing
+ * Shared by the /api/chat proxy (limits, defaults) and the model selector UI
+ */
+
+import type { ChatUsage, ModelInfo, ModelStage, TokenUsage } from '~/types/llm'
+
+export const MODEL_STAGES: { stage: ModelStage; label: string; description: string }[] = [
+  { stage: 'research', label: 'Research', description: 'Drafts the research document' },
+  { stage: 'verification', label: 'Fact-check', description: 'Checks the claims of the research against the sources' },
+  { stage: 'extraction', label: 'Data extraction', description: 'Pulls the numbers of the research into datasets for charts' },
+  { stage: 'outline', label: 'Outline', description: 'Turns research into a slide outline' },
+  { stage: 'rewrite', label: 'Rewriting', description: 'Answers follow-up questions and rewrites sections on request' }
+]
+
+export const DEFAULT_MODEL_ID = 'deepseek/deepseek-chat-v3-0324:free'
+
+/**
+ * Known models with their limits and OpenRouter list prices
+ */
+export const MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: 'deepseek/deepseek-chat-v3-0324:free',
+    name: 'DeepSeek V3 0324 (free)',
+    contextWindow: 163840,
+    maxOutput: 16384,
+    cost: { prompt: 0, completion: 0 },
+    capabilities: ['streaming', 'json']
+  },
+  {
+    id: 'deepseek/deepseek-chat-v3-0324',
+    name: 'DeepSeek V3 0324',
+    contextWindow: 163840,
+    maxOutput: 16384,
+    cost: { prompt: 0.27, completion: 1.1 },
+    capabilities: ['streaming', 'json', 'tools']
+  },
+  {
+    id: 'deepseek/deepseek-r1:free',
+    name: 'DeepSeek R1 (free)',
+    contextWindow: 163840,
+    maxOutput: 16384,
+    cost: { prompt: 0, completion: 0 },
+    capabilities: ['streaming', 'reasoning']
+  },
+  {
+    id: 'google/gemini-2.0-flash-001',
+    name: 'Gemini 2.0 Flash',
+    contextWindow: 1048576,
+    maxOutput: 8192,
+    cost: { prompt: 0.1, completion: 0.4 },
+    capabilities: ['streaming', 'json', 'tools']
+  },
+  {
+    id: 'openai/gpt-4o-mini',
+    name: 'GPT-4o mini',
+    contextWindow: 128000,
+    maxOutput: 16384,
+    cost: { prompt: 0.15, completion: 0.6 },
+    capabilities: ['streaming', 'json', 'tools']
+  },
+  {
+    id: 'anthropic/claude-3.5-sonnet',
+    name: 'Claude 3.5 Sonnet',
+    contextWindow: 200000,
+    maxOutput: 8192,
+    cost: { prompt: 3, completion: 15 },
+    capabilities: ['streaming', 'tools']
+  },
+  {
+    id: 'meta-llama/llama-3.3-70b-instruct',
+    name: 'Llama 3.3 70B Instruct',
+    contextWindow: 131072,
+    maxOutput: 8192,
+    cost: { prompt: 0.12, completion: 0.3 },
+    capabilities: ['streaming', 'json', 'tools']
+  },
+  {
+    id: 'mock/deterministic',
+    name: 'Mock (offline)',
+    contextWindow: 32768,
+    maxOutput: 8192,
+    cost: { prompt: 0, completion: 0 },
+    capabilities: ['streaming', 'json']
+  }
+]
+
+/**
+ * Builds the catalog including models that are only known by id,
+ * such as whatever a local llama.cpp or Ollama server exposes
+ * @param extraModelIds Additional model ids (e.g. from LLM_EXTRA_MODELS)
+ * @returns The full catalog
+ */
+export const getModelCatalog = (extraModelIds: string[] = []): ModelInfo[] => {
+  const extras = extraModelIds
+    .map(id => id.trim())
+    .filter(id => id && !MODEL_CATALOG.some(model => model.id === id))
+    .map(id => ({
+      id,
+      name: id,
+      contextWindow: 8192,
+      maxOutput: 4096,
+      cost: { prompt: 0, completion: 0 },
+      capabilities: ['streaming']
+    } as ModelInfo))
+
+  return [...MODEL_CATALOG, ...extras]
+}
+
+/**
+ * Looks up a model in the catalog
+ * @param id The model id
+ * @param catalog The catalog to search
+ * @returns The model info or undefined for unknown models
+ */
+export const getModelInfo = (id: string, catalog: ModelInfo[] = MODEL_CATALOG): ModelInfo | undefined => {
+  return catalog.find(model => model.id === id)
+}
+
+/**
+ * Resolves the model for a stage: explicit override, then the stage default, then the global default
+ * @param stage The pipeline stage
+ * @param stageDefaults Configured default model per stage
+ * @param override A model requested for this call
+ * @returns The model id to use
+ */
+export const resolveStageModel = (
+  stage: ModelStage | undefined,
+  stageDefaults: Partial<Record<ModelStage, string>> = {},
+  override?: string
+): string => {
+  if (override) return override
+  if (stage && stageDefaults[stage]) return stageDefaults[stage] as string
+  return DEFAULT_MODEL_ID
+}
+
+/**
+ * Limits a requested max_tokens value to what the model can produce
+ * @param modelId The model id
+ * @param requested The requested number of tokens
+ * @param catalog The catalog to search
+ * @returns The clamped value, or the request unchanged for unknown models
+ */
+export const clampMaxTokens = (modelId: string, requested: number | undefined, catalog: ModelInfo[] = MODEL_CATALOG): number | undefined => {
+  const model = getModelInfo(modelId, catalog)
+  if (!model) return requested
+  if (!requested) return model.maxOutput
+  return Math.min(requested, model.maxOutput)
+}
+
+/**
+ * Formats a per-million-token price for display
+ * @param model The model
+ * @returns A short price description
+ */
+export const formatModelCost = (model: ModelInfo): string => {
+  if (model.cost.prompt === 0 && model.cost.completion === 0) return 'Free'
+  return `$${model.cost.prompt} / $${model.cost.completion} per 1M tokens`
+}
+
+/**
+ * Estimates the cost of a call from the catalog prices
+ * @param modelId The model id
+ * @param usage The token usage reported by the provider
+ * @param catalog The catalog to search
+ * @returns The cost in USD, 0 for free or unknown models
+ */
+export const estimateCost = (modelId: string, usage: Pick<ChatUsage, 'prompt_tokens' | 'completion_tokens'>, catalog: ModelInfo[] = MODEL_CATALOG): number => {
+  const model = getModelInfo(modelId, catalog)
+  if (!model) return 0
+  return (usage.prompt_tokens * model.cost.prompt + usage.completion_tokens * model.cost.completion) / 1_000_000
+}
+
+/**
+ * Converts provider usage into a usage record, pricing it if the server has not already
+ * @param modelId The model that answered
+ * @param usage The token usage reported by the provider
+ * @param catalog The catalog to search
+ * @returns The usage record
+ */
+export const toTokenUsage = (modelId: string, usage: ChatUsage, catalog: ModelInfo[] = MODEL_CATALOG): TokenUsage => ({
+  model: modelId,
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  totalTokens: usage.total_tokens ?? usage.prompt_tokens + usage.completion_tokens,
+  cost: usage.cost ?? estimateCost(modelId, usage, catalog),
+  ...(usage.estimated ? { estimated: true } : {}),
+  ...(usage.cached ? { cached: true } : {})
+})
+
+/**
+ * Adds up the usage of several calls, e.g. every step of a deep research run
+ * The model of the last call is kept; the total is estimated if any part is, and cached only if every part is
+ * @param usages The usage records
+ * @returns The total, or undefined if there is none
+ */
+export const sumTokenUsage = (usages: (TokenUsage | null | undefined)[]): TokenUsage | undefined => {
+  const present = usages.filter((usage): usage is TokenUsage => !!usage)
+  if (!present.length) return undefined
+  return {
+    model: present[present.length - 1].model,
+    promptTokens: present.reduce((sum, usage) => sum + usage.promptTokens, 0),
+    completionTokens: present.reduce((sum, usage) => sum + usage.completionTokens, 0),
+    totalTokens: present.reduce((sum, usage) => sum + usage.totalTokens, 0),
+    cost: present.reduce((sum, usage) => sum + usage.cost, 0),
+    ...(present.some(usage => usage.estimated) ? { estimated: true } : {}),
+    ...(present.every(usage => usage.cached) ? { cached: true } : {})
+  }
+}
+
+/**
+ * Formats a USD amount, keeping enough precision for fractions of a cent
+ * @param cost The amount in USD
+ * @returns The formatted amount
+ */
+export const formatUsd = (cost: number): string => {
+  if (cost === 0) return '$0.00'
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
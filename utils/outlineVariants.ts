@@ -0,0 +1,104 @@
+/**
+ * Audience variants of an outline: decks derived from the same research for executives,
+ * engineers or students, each with its own slide budget, vocabulary and chart density
+ */
+
+import { hasContent, parseOutline } from './slideAst'
+import type { OutlineVariant, PresentationOutline } from '~/types/research'
+
+export interface OutlineVariantOption {
+  value: OutlineVariant
+  label: string
+  /** Who the deck is for; used as the audience unless one is given */
+  audience: string
+  /** Maximum number of slides */
+  slides: number
+  vocabulary: string
+  charts: string
+}
+
+export const OUTLINE_VARIANTS: OutlineVariantOption[] = [
+  {
+    value: 'executive',
+    label: 'Executive summary',
+    audience: 'executives and decision makers',
+    slides: 6,
+    vocabulary: 'Lead with the conclusions and recommendations, and use plain business language without jargon.',
+    charts: 'Use at most one chart, for the number that matters most, even where more would fit.'
+  },
+  {
+    value: 'technical',
+    label: 'Technical deep-dive',
+    audience: 'engineers and technical specialists',
+    slides: 15,
+    vocabulary: 'Cover methods, data, architecture and trade-offs, and use precise technical terms.',
+    charts: 'Add a chart or a table wherever the research has numbers that belong together.'
+  },
+  {
+    value: 'teaching',
+    label: 'Lecture',
+    audience: 'students',
+    slides: 12,
+    vocabulary: 'Start with learning objectives, define each term when it first appears, build up from the basics with examples, and end with a summary and questions for discussion.',
+    charts: 'Use a few simple charts that explain a concept rather than dense data.'
+  }
+]
+
+export const isOutlineVariant = (value: unknown): value is OutlineVariant => {
+  return OUTLINE_VARIANTS.some(option => option.value === value)
+}
+
+export const getOutlineVariant = (variant?: OutlineVariant): OutlineVariantOption | undefined => {
+  return OUTLINE_VARIANTS.find(option => option.value === variant)
+}
+
+/**
+ * The prompt instruction for a variant
+ * @param variant The variant
+ * @returns The slide budget, vocabulary and chart density, or undefined for the regular outline
+ */
+export const variantInstruction = (variant?: OutlineVariant): string | undefined => {
+  const option = getOutlineVariant(variant)
+  if (!option) return undefined
+  return `This is the ${option.label.toLowerCase()} version of the deck: use at most ${option.slides} slides. ${option.vocabulary} ${option.charts}`
+}
+
+export interface OutlineStats {
+  slides: number
+  /** R chunks, tables and images */
+  charts: number
+  /** Average number of words of text on a slide, code and speaker notes excluded */
+  wordsPerSlide: number
+}
+
+/**
+ * Counts the slides, charts and words of an outline, for comparing variants
+ * @param outline The outline
+ */
+export const outlineStats = (outline: string): OutlineStats => {
+  const slides = parseOutline(outline).slides.filter(hasContent)
+  let charts = 0
+  let words = 0
+  for (const block of slides.flatMap(slide => slide.blocks)) {
+    const text = block.type === 'heading' || block.type === 'paragraph' ? block.text
+      : block.type === 'list' ? block.items.join('\n')
+      : block.type === 'table' ? [...block.headers, ...block.rows.flat()].join(' ')
+      : block.type === 'html' ? block.html
+      : ''
+    if (block.type === 'chunk' && block.engine.toLowerCase() === 'r') charts++
+    if (block.type === 'table') charts++
+    charts += (text.match(/!\[[^\]]*\]\(/g) || []).length
+    words += (text.match(/[^\W\d_][\w'-]*/g) || []).length
+  }
+  return { slides: slides.length, charts, wordsPerSlide: slides.length ? Math.round(words / slides.length) : 0 }
+}
+
+/**
+ * The newest outline of each variant, in the order of OUTLINE_VARIANTS
+ * @param history The outlines of the research, oldest first
+ */
+export const latestVariants = (history: PresentationOutline[]): PresentationOutline[] => {
+  return OUTLINE_VARIANTS
+    .map(option => [...history].reverse().find(outline => outline.variant === option.value))
+    .filter((outline): outline is PresentationOutline => !!outline)
+}
@@ -0,0 +1,158 @@
+/**
+ * Versioned prompt templates stored as files
+ * Each template has a directory with one v<N>.md file per version and an index.json
+ * recording the versions and which one is active. Version 1 is the built-in template
+ * and is never written to disk
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { createError } from 'h3'
+import {
+  PROMPT_TEMPLATE_DEFINITIONS,
+  PROMPT_TEMPLATE_IDS,
+  PromptTemplateError,
+  getBuiltInPrompt,
+  isPromptTemplateId,
+  validatePromptTemplate
+} from './promptTemplates'
+import type { PromptTemplateId, PromptTemplateSummary, PromptVersion, PromptVersionInfo } from '~/types/prompts'
+
+interface PromptIndex {
+  active: number
+  versions: PromptVersionInfo[]
+}
+
+const builtInInfo = (templateId: PromptTemplateId): PromptVersionInfo => {
+  const { version, note, createdAt } = getBuiltInPrompt(templateId)
+  return { version, note, createdAt }
+}
+
+/**
+ * Creates the registry on top of a directory
+ * @param dir The prompts directory, e.g. runtimeConfig.promptsDir
+ * @returns The registry
+ */
+export const createPromptRegistry = (dir: string) => {
+  const templateDir = (templateId: PromptTemplateId) => path.join(dir, templateId)
+
+  const assertTemplate = (templateId: string): PromptTemplateId => {
+    if (!isPromptTemplateId(templateId)) {
+      throw new PromptTemplateError(`Unknown prompt template ${templateId}`, 404)
+    }
+    return templateId
+  }
+
+  const readIndex = async (templateId: PromptTemplateId): Promise<PromptIndex> => {
+    try {
+      const text = await fs.promises.readFile(path.join(templateDir(templateId), 'index.json'), 'utf-8')
+      return JSON.parse(text)
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return { active: 1, versions: [builtInInfo(templateId)] }
+      }
+      throw error
+    }
+  }
+
+  const writeIndex = async (templateId: PromptTemplateId, index: PromptIndex) => {
+    await fs.promises.mkdir(templateDir(templateId), { recursive: true })
+    await fs.promises.writeFile(path.join(templateDir(templateId), 'index.json'), JSON.stringify(index, null, 2) + '\n')
+  }
+
+  const summarize = async (templateId: PromptTemplateId): Promise<PromptTemplateSummary> => {
+    const index = await readIndex(templateId)
+    return { ...PROMPT_TEMPLATE_DEFINITIONS[templateId], activeVersion: index.active, versions: index.versions }
+  }
+
+  const getVersion = async (id: string, version: number): Promise<PromptVersion> => {
+    const templateId = assertTemplate(id)
+    if (version === 1) return getBuiltInPrompt(templateId)
+
+    const info = (await readIndex(templateId)).versions.find(entry => entry.version === version)
+    if (!info) {
+      throw new PromptTemplateError(`Prompt ${templateId} has no version ${version}`, 404)
+    }
+    const text = await fs.promises.readFile(path.join(templateDir(templateId), `v${version}.md`), 'utf-8')
+    return { ...info, templateId, text }
+  }
+
+  return {
+    location: dir,
+
+    list(): Promise<PromptTemplateSummary[]> {
+      return Promise.all(PROMPT_TEMPLATE_IDS.map(summarize))
+    },
+
+    async get(id: string): Promise<PromptTemplateSummary> {
+      return summarize(assertTemplate(id))
+    },
+
+    getVersion,
+
+    /**
+     * Returns the version currently used to generate content
+     */
+    async getActive(id: string): Promise<PromptVersion> {
+      const templateId = assertTemplate(id)
+      return getVersion(templateId, (await readIndex(templateId)).active)
+    },
+
+    /**
+     * Saves a new version; it is not used until activated
+     * @throws PromptTemplateError with the validation errors if the template is invalid
+     */
+    async createVersion(id: string, text: string, note?: string): Promise<PromptVersion> {
+      const templateId = assertTemplate(id)
+      const errors = validatePromptTemplate(text, PROMPT_TEMPLATE_DEFINITIONS[templateId].variables)
+      if (errors.length) {
+        throw new PromptTemplateError('The template is invalid', 422, errors)
+      }
+
+      const index = await readIndex(templateId)
+      const version = Math.max(...index.versions.map(entry => entry.version)) + 1
+      const info: PromptVersionInfo = { version, ...(note?.trim() ? { note: note.trim() } : {}), createdAt: new Date().toISOString() }
+
+      await fs.promises.mkdir(templateDir(templateId), { recursive: true })
+      await fs.promises.writeFile(path.join(templateDir(templateId), `v${version}.md`), text)
+      await writeIndex(templateId, { ...index, versions: [...index.versions, info] })
+      return { ...info, templateId, text }
+    },
+
+    /**
+     * Makes a version the one used to generate content
+     */
+    async activate(id: string, version: number): Promise<PromptTemplateSummary> {
+      const templateId = assertTemplate(id)
+      const index = await readIndex(templateId)
+      if (!index.versions.some(entry => entry.version === version)) {
+        throw new PromptTemplateError(`Prompt ${templateId} has no version ${version}`, 404)
+      }
+      await writeIndex(templateId, { ...index, active: version })
+      return summarize(templateId)
+    }
+  }
+}
+
+export type PromptRegistry = ReturnType<typeof createPromptRegistry>
+
+/**
+ * Creates the registry for the configured prompts directory
+ * @param config The runtime config
+ * @returns The registry
+ */
+export const getPromptRegistry = (config: { promptsDir: string }): PromptRegistry => {
+  return createPromptRegistry(config.promptsDir)
+}
+
+/**
+ * Converts a registry failure into an h3 error, with validation errors in data
+ * @param error The error thrown by the registry
+ * @returns The h3 error to throw
+ */
+export const toPromptHttpError = (error: unknown) => {
+  if (error instanceof PromptTemplateError) {
+    return createError({ statusCode: error.status, statusMessage: error.message, data: { errors: error.errors } })
+  }
+  return createError({ statusCode: 500, statusMessage: 'Failed to access the prompt templates', data: error })
+}
@@ -0,0 +1,575 @@
+/**
+ * Prompt templates with typed variables
+ * Templates use {{name}} placeholders and {{#name}}...{{/name}} sections that are kept only
+ * when the variable has a value. Version 1 of each template is built in; newer versions
+ * are stored by the prompt registry (utils/promptRegistry.ts)
+ */
+
+import type {
+  PromptTemplateDefinition,
+  PromptTemplateId,
+  PromptValues,
+  PromptVariable,
+  PromptVersion,
+  PromptVersionRef
+} from '~/types/prompts'
+
+/**
+ * Thrown for invalid templates, missing values and unknown templates or versions
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string, public status = 400, public errors: string[] = []) {
+    super(message)
+    this.name = 'PromptTemplateError'
+  }
+}
+
+// Brief settings shared by the research and outline templates (see utils/researchBrief.ts)
+const DEPTH_VARIABLE: PromptVariable = { name: 'depth', type: 'string', description: 'Instruction for how deep the research goes' }
+const TONE_VARIABLE: PromptVariable = { name: 'tone', type: 'string', description: 'Instruction for the writing style', default: 'Be verbose and use formal words.' }
+const LANGUAGE_VARIABLE: PromptVariable = { name: 'language', type: 'string', description: 'Output language' }
+const MUST_INCLUDE_VARIABLE: PromptVariable = { name: 'mustInclude', type: 'string[]', description: 'Points that must be covered' }
+const MUST_AVOID_VARIABLE: PromptVariable = { name: 'mustAvoid', type: 'string[]', description: 'Points that must be left out' }
+const SOURCES_VARIABLE: PromptVariable = { name: 'sources', type: 'text', description: 'Numbered sources with their text: notes, references and passages of the uploaded documents' }
+const VARIANT_VARIABLE: PromptVariable = { name: 'variant', type: 'string', description: 'Instruction for the slide budget, vocabulary and chart density of an audience variant' }
+const SOURCE_LIST_VARIABLE: PromptVariable = { name: 'sources', type: 'text', description: 'Numbered list of the sources the research cites' }
+
+export const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  research: {
+    id: 'research',
+    description: 'Research document generated from the topic',
+    variables: [
+      { name: 'topic', type: 'string', description: 'The research topic', required: true },
+      { name: 'subtopics', type: 'string[]', description: 'Subtopics the research should cover' },
+      { name: 'audience', type: 'string', description: 'Who the research is written for' },
+      { name: 'length', type: 'number', description: 'Target length in tokens', default: 1000 },
+      DEPTH_VARIABLE,
+      TONE_VARIABLE,
+      LANGUAGE_VARIABLE,
+      MUST_INCLUDE_VARIABLE,
+      MUST_AVOID_VARIABLE,
+      SOURCES_VARIABLE
+    ]
+  },
+  plan: {
+    id: 'plan',
+    description: 'Deep research: splits the topic into sub-questions',
+    variables: [
+      { name: 'topic', type: 'string', description: 'The research topic', required: true },
+      { name: 'subtopics', type: 'string[]', description: 'Subtopics the plan must cover' },
+      { name: 'count', type: 'number', description: 'Maximum number of sub-questions', default: 5 },
+      MUST_INCLUDE_VARIABLE,
+      MUST_AVOID_VARIABLE
+    ]
+  },
+  subquestion: {
+    id: 'subquestion',
+    description: 'Deep research: researches one sub-question of the plan',
+    variables: [
+      { name: 'topic', type: 'string', description: 'The research topic', required: true },
+      { name: 'question', type: 'string', description: 'The sub-question', required: true },
+      { name: 'subtopic', type: 'string', description: 'The subtopic the question belongs to' },
+      { name: 'length', type: 'number', description: 'Target length in tokens', default: 600 },
+      SOURCES_VARIABLE
+    ]
+  },
+  synthesis: {
+    id: 'synthesis',
+    description: 'Deep research: writes the final document from the sub-question answers',
+    variables: [
+      { name: 'topic', type: 'string', description: 'The research topic', required: true },
+      { name: 'findings', type: 'text', description: 'The answers to the sub-questions', required: true },
+      { name: 'audience', type: 'string', description: 'Who the research is written for' },
+      { name: 'length', type: 'number', description: 'Target length in tokens', default: 2000 },
+      DEPTH_VARIABLE,
+      TONE_VARIABLE,
+      LANGUAGE_VARIABLE,
+      MUST_INCLUDE_VARIABLE,
+      MUST_AVOID_VARIABLE,
+      SOURCE_LIST_VARIABLE
+    ]
+  },
+  verify: {
+    id: 'verify',
+    description: 'Fact-check: lists the claims of the research and checks each one',
+    variables: [
+      { name: 'research', type: 'text', description: 'The research document', required: true },
+      { name: 'count', type: 'number', description: 'Maximum number of claims checked', default: 15 },
+      LANGUAGE_VARIABLE,
+      SOURCES_VARIABLE
+    ]
+  },
+  revise: {
+    id: 'revise',
+    description: 'Fact-check: rewrites a passage whose claim was flagged',
+    variables: [
+      { name: 'passage', type: 'text', description: 'The passage of the research that makes the claim', required: true },
+      { name: 'claim', type: 'string', description: 'The flagged claim', required: true },
+      { name: 'explanation', type: 'string', description: 'Why the claim was flagged' },
+      LANGUAGE_VARIABLE,
+      SOURCES_VARIABLE
+    ]
+  },
+  section: {
+    id: 'section',
+    description: 'Rewrites one section of the research with the rest of the document as context',
+    variables: [
+      { name: 'document', type: 'text', description: 'The research document with the section replaced by a placeholder', required: true },
+      { name: 'section', type: 'text', description: 'The section to rewrite, heading included', required: true },
+      { name: 'instruction', type: 'string', description: 'What to do with the section, e.g. condense it', required: true },
+      LANGUAGE_VARIABLE,
+      SOURCE_LIST_VARIABLE
+    ]
+  },
+  extract: {
+    id: 'extract',
+    description: 'Data extraction: pulls the numbers stated in the research into datasets for charts',
+    variables: [
+      { name: 'research', type: 'text', description: 'The research document', required: true },
+      { name: 'count', type: 'number', description: 'Maximum number of datasets', default: 5 }
+    ]
+  },
+  outline: {
+    id: 'outline',
+    description: 'Free-form R Markdown presentation outline',
+    variables: [
+      { name: 'research', type: 'text', description: 'The research document', required: true },
+      { name: 'audience', type: 'string', description: 'Who the presentation is for' },
+      VARIANT_VARIABLE,
+      LANGUAGE_VARIABLE,
+      MUST_INCLUDE_VARIABLE,
+      MUST_AVOID_VARIABLE,
+      SOURCE_LIST_VARIABLE,
+      { name: 'datasets', type: 'text', description: 'The datasets loaded as data frames in the R chunks, one per line with their typed columns' }
+    ]
+  },
+  deck: {
+    id: 'deck',
+    description: 'System prompt for structured (JSON) outlines; the research is sent as the user message',
+    variables: [
+      { name: 'schema', type: 'text', description: 'The deck JSON schema', required: true },
+      { name: 'audience', type: 'string', description: 'Who the presentation is for' },
+      VARIANT_VARIABLE,
+      LANGUAGE_VARIABLE,
+      MUST_INCLUDE_VARIABLE,
+      MUST_AVOID_VARIABLE,
+      SOURCE_LIST_VARIABLE
+    ]
+  },
+  translate: {
+    id: 'translate',
+    description: 'Translates one slide of an outline; code, directives and links are replaced by placeholders',
+    variables: [
+      { name: 'slide', type: 'text', description: 'The slide text with placeholders', required: true },
+      { name: 'language', type: 'string', description: 'The language to translate into', required: true }
+    ]
+  }
+}
+
+const BUILT_IN_TEXT: Record<PromptTemplateId, string> = {
+  research: `Conduct a thorough research study. {{topic}}.
+{{#subtopics}}
+Cover the following subtopics: {{subtopics}}.
+{{/subtopics}}
+{{#mustInclude}}
+Make sure to cover: {{mustInclude}}.
+{{/mustInclude}}
+{{#mustAvoid}}
+Do not include or discuss: {{mustAvoid}}.
+{{/mustAvoid}}
+
+Provide comprehensive information with academic rigor. Include relevant facts, theories, and current developments. Add data visualization such as charts, flowcharts and number plots. Organize the information into logical sections with appropriate headings.
+{{#depth}}
+{{depth}}
+{{/depth}}
+{{#audience}}
+Write for {{audience}}.
+{{/audience}}
+{{#language}}
+Write the whole document in {{language}}.
+{{/language}}
+
+{{tone}} Do not ask the user any questions or clarifications. There is also no need to acknowledge the request.
+
+Try to keep the output less than {{length}} tokens.
+{{#sources}}
+
+Ground the research in the following sources from the user. Prefer them over general knowledge and point out where they disagree with other sources. Cite them by number in square brackets right after the statements they support, e.g. [1] or [2, 3]; sources listed with a key may also be cited by it, e.g. [@smith2020]. Only cite these numbers and keys and never invent a source.
+
+{{sources}}
+{{/sources}}
+`,
+
+  plan: `You are planning a deep research report.
+Topic: {{topic}}
+{{#subtopics}}
+Subtopics: {{subtopics}}
+{{/subtopics}}
+
+Break the topic into at most {{count}} focused sub-questions that together cover it{{#subtopics}}, with at least one per subtopic{{/subtopics}}. Each question must be answerable on its own.
+{{#mustInclude}}
+The questions must cover: {{mustInclude}}.
+{{/mustInclude}}
+{{#mustAvoid}}
+Do not ask about: {{mustAvoid}}.
+{{/mustAvoid}}
+Reply with a JSON array of sub-questions and nothing else, for example:
+[{"question": "How has the topic evolved since 2000?", "subtopic": "History"}]`,
+
+  subquestion: `You are researching one part of a larger report on {{topic}}.
+Question: {{question}}
+{{#subtopic}}
+Subtopic: {{subtopic}}
+{{/subtopic}}
+
+Answer the question with academic rigor: include relevant facts, figures, theories, and current developments. Use markdown with ### headings and bullet points where they help. Do not write an introduction or conclusion for the whole report, and do not ask the user any questions.
+
+Try to keep the answer less than {{length}} tokens.
+{{#sources}}
+
+Base the answer on the following sources from the user where they are relevant. Cite them by number in square brackets right after the statements they support, e.g. [1] or [2, 3]; sources listed with a key may also be cited by it, e.g. [@smith2020]. Only cite these numbers and keys and never invent a source.
+
+{{sources}}
+{{/sources}}
+`,
+
+  synthesis: `Write a comprehensive research document on {{topic}} using the findings below. Each finding answers one sub-question of the research plan.
+
+Organize the document into logical sections with # and ## headings rather than following the order of the questions. Merge overlapping findings, keep the facts and figures, and point out where findings disagree. Add data visualization such as charts, flowcharts and number plots where the data supports it.
+{{#mustInclude}}
+Make sure to cover: {{mustInclude}}.
+{{/mustInclude}}
+{{#mustAvoid}}
+Do not include or discuss: {{mustAvoid}}.
+{{/mustAvoid}}
+{{#depth}}
+{{depth}}
+{{/depth}}
+{{#audience}}
+Write for {{audience}}.
+{{/audience}}
+{{#language}}
+Write the whole document in {{language}}.
+{{/language}}
+
+{{tone}} Do not ask the user any questions or clarifications, and do not acknowledge the request.
+
+Try to keep the output less than {{length}} tokens.
+{{#sources}}
+
+The findings cite the sources below by number or key. Keep the citation markers, e.g. [2] or [@smith2020], with the statements they support; do not cite any other number or key and do not add a reference list.
+
+{{sources}}
+{{/sources}}
+
+Findings:
+
+{{findings}}
+`,
+
+  verify: `You are fact-checking a research document. List its most important factual claims, at most {{count}}, and check each one{{#sources}} against the sources below and{{/sources}} against your own knowledge.
+
+Mark a claim as:
+- "supported" when it is correct,
+- "unsupported" when nothing confirms it, or it overstates what is known,
+- "contradicted" when it is wrong.
+
+Reply with a JSON array and nothing else, for example:
+[{"claim": "Tea was first grown in India.", "quote": "Tea was first grown in India [2].", "verdict": "contradicted", "explanation": "Tea was first grown in China.", "sources": [1]}]
+
+"quote" must be copied word for word from the document, so the claim can be found in it. "sources" lists the numbers of the sources the verdict is based on and may be empty.{{#language}} Write the explanations in {{language}}.{{/language}}
+{{#sources}}
+
+Sources:
+
+{{sources}}
+{{/sources}}
+
+Document:
+
+{{research}}
+`,
+
+  revise: `A fact-check flagged the following passage of a research document.
+
+Passage: {{passage}}
+Claim: {{claim}}
+{{#explanation}}
+Finding: {{explanation}}
+{{/explanation}}
+
+Rewrite the passage so that it is accurate: correct the claim, qualify it, or leave it out. Keep the style, the Markdown formatting and any citation markers such as [1] that still apply.{{#language}} Write in {{language}}.{{/language}} Reply with the new passage only, without quotes or any introduction.
+{{#sources}}
+
+Sources:
+
+{{sources}}
+{{/sources}}
+`,
+
+  section: `Below is a research document in which one section has been replaced by [SECTION TO REWRITE], followed by that section.
+
+{{instruction}} The section must still fit the rest of the document: do not repeat what other sections already say. Keep the Markdown formatting and any citation markers such as [1] or [@smith2020] that still apply; do not cite any other number or key.{{#language}} Write in {{language}}.{{/language}} Reply with the body of the section only, without its heading, quotes or any introduction.
+{{#sources}}
+
+The document cites these sources:
+
+{{sources}}
+{{/sources}}
+
+Document:
+
+{{document}}
+
+Section to rewrite:
+
+{{section}}
+`,
+
+  extract: `Find the numbers stated in the research document below that could be plotted or tabulated: series over time, comparisons between groups, shares of a whole. Group them into at most {{count}} datasets.
+
+Reply with a JSON array and nothing else, for example:
+[{"name": "tea_exports", "title": "Tea exports by country, 2020 (tonnes)", "columns": ["country", "tonnes"], "rows": [{"values": ["China", 350000], "quote": "China exported 350,000 tonnes of tea in 2020."}]}]
+
+"name" is a short snake_case name. Each row has one value per column: numbers as JSON numbers without units or thousands separators, labels as strings. "quote" is the sentence the values come from, copied word for word from the document. Only use numbers the document states; do not estimate, interpolate or add any. Reply with an empty array if there are none.
+
+Document:
+
+{{research}}
+`,
+
+  outline: `Based on the following research, create a comprehensive presentation outline using R Markdown format. As much as possible, add plots or charts and graphs for data visualization. Return only what is being asked and do not provide any intro or outro:
+
+{{research}}
+
+{{#audience}}
+The presentation is for {{audience}}.
+
+{{/audience}}
+{{#variant}}
+{{variant}}
+
+{{/variant}}
+{{#language}}
+Write all slide text in {{language}}.
+
+{{/language}}
+{{#mustInclude}}
+The slides must cover: {{mustInclude}}.
+
+{{/mustInclude}}
+{{#mustAvoid}}
+Leave out: {{mustAvoid}}.
+
+{{/mustAvoid}}
+{{#sources}}
+The research cites the sources below by number or key. Keep the citation markers, e.g. [2] or [@smith2020], on the slides that use the cited statements. Do not cite any other number or key and do not add a references slide; it is added automatically.
+
+{{sources}}
+
+{{/sources}}
+{{#datasets}}
+The following datasets, taken from the numbers in the research or uploaded by the user, are loaded as data frames in the R code chunks, with the columns and types listed. Plot and tabulate them by name and column instead of typing in data, and do not invent other figures for charts:
+
+{{datasets}}
+
+{{/datasets}}
+Format the outline as follows:
+1. Start with a clear title and subtitle using # and ## headings.
+2. Organize content into logical sections with clear headings.
+3. Use "---" on a separate line to indicate slide breaks between main topics.
+4. For each slide:
+   - Use # for slide titles
+   - Use ## for section headings
+   - Use ### for subsections
+   - Keep content concise
+5. For tables, use proper markdown table syntax with headers:
+   \`\`\`
+   | Header 1 | Header 2 | Header 3 |
+   | -------- | -------- | -------- |
+   | Cell 1   | Cell 2   | Cell 3   |
+   \`\`\`
+6. Use bullet points for lists:
+   - Main point
+     - Sub point
+7. For emphasis, use **bold** or *italic* text.
+8. Include image placeholders if relevant: ![alt text](image-url)
+9. You can include R code chunks for generating graphs and charts using the following syntax:
+   \`\`\`{r}
+   # R code for generating a chart
+   library(ggplot2)
+   ggplot(data, aes(x=x, y=y)) + geom_point()
+   \`\`\`
+10. For diagrams and flowcharts, use simple text descriptions or ASCII art.
+11. IMPORTANT: Ensure each slide has a clear purpose and doesn't contain too much text that would cause overflow.`,
+
+  deck: `You turn research into presentation slides.
+Reply with a single JSON object that matches this JSON schema, and nothing else: no prose, no code fences.
+
+{{schema}}
+
+Guidelines:
+- Start with the main findings; end with a conclusion slide.
+- Keep each slide short: at most 6 bullets of one line each.
+- Use a table for comparisons and a chart when the research has numbers that belong together; chart labels and values must have the same length.
+- Put details the presenter should say, but not show, in notes.
+{{#audience}}
+- Write for {{audience}}.
+{{/audience}}
+{{#variant}}
+- {{variant}}
+{{/variant}}
+{{#language}}
+- Write all slide text in {{language}}; keep the JSON keys in English.
+{{/language}}
+{{#mustInclude}}
+- The slides must cover: {{mustInclude}}.
+{{/mustInclude}}
+{{#mustAvoid}}
+- Leave out: {{mustAvoid}}.
+{{/mustAvoid}}
+{{#sources}}
+- The research cites the sources below by number or key. Keep the citation markers, e.g. [2] or [@smith2020], in the bullets that use the cited statements. Do not cite any other number or key and do not add a references slide; it is added automatically.
+{{sources}}
+{{/sources}}`,
+
+  translate: `Translate the presentation slide below into {{language}}.
+
+Keep the Markdown formatting: the same headings, list items and emphasis, and tables with the same rows and columns. Leave every placeholder such as __KEEP_0__ exactly as it is and where it belongs in the sentence; they stand for code, links, citations and slide directives. Reply with the translated slide only, without any introduction.
+
+{{slide}}
+`
+}
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateId[]
+
+export const isPromptTemplateId = (id: string): id is PromptTemplateId => id in PROMPT_TEMPLATE_DEFINITIONS
+
+/**
+ * Returns the built-in version 1 of a template
+ * @param templateId The template id
+ * @returns The built-in version
+ */
+export const getBuiltInPrompt = (templateId: PromptTemplateId): PromptVersion => ({
+  templateId,
+  version: 1,
+  text: BUILT_IN_TEXT[templateId],
+  note: 'Built-in template',
+  createdAt: '1970-01-01T00:00:00.000Z'
+})
+
+/**
+ * Formats a version reference for display, e.g. research@v2
+ */
+export const formatPromptVersion = (ref: PromptVersionRef): string => `${ref.templateId}@v${ref.version}`
+
+const SECTION = /\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g
+const TAG = /\{\{\s*([#/]?)(\w+)\s*\}\}/g
+
+/**
+ * Checks a template against its variables: unknown or missing required variables
+ * and unbalanced sections are errors
+ * @param text The template text
+ * @param variables The template's variables
+ * @returns The errors, empty when the template is valid
+ */
+export const validatePromptTemplate = (text: string, variables: PromptVariable[]): string[] => {
+  const errors: string[] = []
+  const known = new Set(variables.map(variable => variable.name))
+  const used = new Set<string>()
+  const open: string[] = []
+
+  if (!text.trim()) return ['The template is empty']
+
+  for (const [, kind, name] of text.matchAll(TAG)) {
+    if (!known.has(name)) {
+      errors.push(`Unknown variable {{${name}}}`)
+      continue
+    }
+    used.add(name)
+    if (kind === '#') {
+      open.push(name)
+    } else if (kind === '/') {
+      const last = open.pop()
+      if (last !== name) errors.push(`{{/${name}}} does not close ${last ? `{{#${last}}}` : 'any section'}`)
+    }
+  }
+
+  for (const name of open) errors.push(`{{#${name}}} is never closed`)
+  for (const variable of variables) {
+    if (variable.required && !used.has(variable.name)) errors.push(`Required variable {{${variable.name}}} is not used`)
+  }
+  return [...new Set(errors)]
+}
+
+const isEmpty = (value: PromptValues[string]) => {
+  if (value === undefined || value === null) return true
+  if (Array.isArray(value)) return value.length === 0
+  return typeof value === 'string' && value.trim() === ''
+}
+
+const formatValue = (value: PromptValues[string]): string => {
+  if (value === undefined || value === null) return ''
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
+/**
+ * Checks values against the variable types and fills in defaults
+ */
+const resolveValues = (variables: PromptVariable[], values: PromptValues): PromptValues => {
+  const resolved: PromptValues = {}
+  const errors: string[] = []
+
+  for (const variable of variables) {
+    let value = values[variable.name]
+    if (Array.isArray(value)) value = value.map(item => item.trim()).filter(Boolean)
+    if (isEmpty(value)) value = variable.default
+
+    if (isEmpty(value)) {
+      if (variable.required) errors.push(`${variable.name} is required`)
+      continue
+    }
+
+    const valid = variable.type === 'string[]'
+      ? Array.isArray(value) && value.every(item => typeof item === 'string')
+      : variable.type === 'number'
+        ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === 'string'
+    if (!valid) {
+      errors.push(`${variable.name} must be of type ${variable.type}`)
+      continue
+    }
+    resolved[variable.name] = value
+  }
+
+  if (errors.length) {
+    throw new PromptTemplateError(`Invalid prompt values: ${errors.join(', ')}`, 400, errors)
+  }
+  return resolved
+}
+
+/**
+ * Renders a template
+ * @param text The template text
+ * @param variables The template's variables
+ * @param values The values; missing optional values fall back to the variable default
+ * @returns The prompt
+ */
+export const renderPromptTemplate = (text: string, variables: PromptVariable[], values: PromptValues): string => {
+  const resolved = resolveValues(variables, values)
+  return text
+    .replace(SECTION, (_, name: string, body: string) => (isEmpty(resolved[name]) ? '' : body))
+    .replace(PLACEHOLDER, (_, name: string) => formatValue(resolved[name]))
+}
+
+/**
+ * Renders a stored or built-in version of a template
+ * @param prompt The version to render
+ * @param values The values
+ * @returns The prompt and the version it was rendered from
+ */
+export const renderPrompt = (prompt: PromptVersion, values: PromptValues): { text: string, version: PromptVersionRef } => ({
+  text: renderPromptTemplate(prompt.text, PROMPT_TEMPLATE_DEFINITIONS[prompt.templateId].variables, values),
+  version: { templateId: prompt.templateId, version: prompt.version }
+})
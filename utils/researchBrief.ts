@@ -0,0 +1,203 @@
+/**
+ * Helpers for the research brief: normalizing user input, carrying the brief in the
+ * /research URL and turning it into prompt template values
+ */
+
+import { normalizeSources } from './citations'
+import { CITATION_STYLES, isCitationStyle } from './citationStyles'
+import type { PromptValues } from '~/types/prompts'
+import type { ResearchBrief, ResearchDepth, ResearchSource, ResearchTone } from '~/types/research'
+
+/** localStorage key handing the sources of a brief to /research */
+const BRIEF_SOURCES_KEY = 'researchSources'
+
+export const MIN_BRIEF_LENGTH = 200
+/** The research call is capped at 4000 tokens, so longer targets cannot be met */
+export const MAX_BRIEF_LENGTH = 4000
+
+export const DEPTH_OPTIONS: { value: ResearchDepth, label: string, instruction?: string }[] = [
+  { value: 'overview', label: 'Overview', instruction: 'Give a concise overview of the essentials rather than an exhaustive study.' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'in-depth', label: 'In-depth', instruction: 'Go in depth: cover methods, evidence, open debates and technical detail.' }
+]
+
+export const TONE_OPTIONS: { value: ResearchTone, label: string, instruction: string }[] = [
+  { value: 'formal', label: 'Formal', instruction: 'Be verbose and use formal words.' },
+  { value: 'neutral', label: 'Neutral', instruction: 'Use a neutral, factual tone and plain words.' },
+  { value: 'conversational', label: 'Conversational', instruction: 'Use a conversational tone and everyday words.' },
+  { value: 'persuasive', label: 'Persuasive', instruction: 'Use a persuasive tone that argues for the key conclusions.' }
+]
+
+export const LENGTH_OPTIONS: { value: number, label: string }[] = [
+  { value: 1000, label: 'Short (~1,000 tokens)' },
+  { value: 2000, label: 'Medium (~2,000 tokens)' },
+  { value: 3500, label: 'Long (~3,500 tokens)' }
+]
+
+const cleanText = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.replace(/\s+/g, ' ').trim() : undefined
+}
+
+const cleanList = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : []
+  return [...new Set(items.map(cleanText).filter((item): item is string => !!item))]
+}
+
+/**
+ * Builds a brief from untrusted input: text is trimmed, empty fields are dropped and
+ * unknown depths or tones are ignored
+ * @param input The brief fields, e.g. a request body or form state
+ * @returns The brief
+ */
+export const createResearchBrief = (input: Record<string, unknown>): ResearchBrief => {
+  const brief: ResearchBrief = {
+    topic: typeof input.topic === 'string' ? input.topic.trim() : '',
+    subtopics: cleanList(input.subtopics)
+  }
+
+  const audience = cleanText(input.audience)
+  if (audience) brief.audience = audience
+  if (DEPTH_OPTIONS.some(option => option.value === input.depth)) brief.depth = input.depth as ResearchDepth
+  if (TONE_OPTIONS.some(option => option.value === input.tone)) brief.tone = input.tone as ResearchTone
+
+  const length = Number(input.length)
+  if (input.length !== undefined && input.length !== '' && Number.isFinite(length) && length > 0) {
+    brief.length = Math.min(Math.max(Math.round(length), MIN_BRIEF_LENGTH), MAX_BRIEF_LENGTH)
+  }
+
+  const language = cleanText(input.language)
+  if (language) brief.language = language
+
+  const mustInclude = cleanList(input.mustInclude)
+  if (mustInclude.length) brief.mustInclude = mustInclude
+  const mustAvoid = cleanList(input.mustAvoid)
+  if (mustAvoid.length) brief.mustAvoid = mustAvoid
+
+  if (typeof input.documentCollection === 'string' && /^[\w-]{1,64}$/.test(input.documentCollection)) {
+    brief.documentCollection = input.documentCollection
+  }
+
+  const sources = normalizeSources(input.sources)
+  if (sources.length) brief.sources = sources
+  if (isCitationStyle(input.citationStyle)) brief.citationStyle = input.citationStyle
+
+  return brief
+}
+
+/**
+ * Encodes a brief as /research query parameters
+ * Sources are too long for a URL and are handed over separately (see saveBriefSources)
+ * @param brief The brief
+ * @returns The query
+ */
+export const briefToQuery = (brief: ResearchBrief): Record<string, string | string[]> => {
+  const query: Record<string, string | string[]> = { topic: brief.topic }
+  if (brief.subtopics.length) query.subtopics = brief.subtopics
+  if (brief.audience) query.audience = brief.audience
+  if (brief.depth) query.depth = brief.depth
+  if (brief.tone) query.tone = brief.tone
+  if (brief.length) query.length = String(brief.length)
+  if (brief.language) query.language = brief.language
+  if (brief.mustInclude?.length) query.include = brief.mustInclude
+  if (brief.mustAvoid?.length) query.avoid = brief.mustAvoid
+  if (brief.documentCollection) query.documents = brief.documentCollection
+  if (brief.citationStyle) query.style = brief.citationStyle
+  return query
+}
+
+/**
+ * Reads a brief from /research query parameters; a bare ?topic= gives a brief with only the topic
+ * @param query The route query
+ * @returns The brief
+ */
+export const briefFromQuery = (query: Record<string, unknown>): ResearchBrief => {
+  // Repeated parameters arrive as arrays, single ones as strings
+  const list = (value: unknown) => ([] as unknown[]).concat(value ?? []).filter(item => typeof item === 'string')
+  const text = (value: unknown) => list(value)[0]
+
+  return createResearchBrief({
+    topic: text(query.topic),
+    subtopics: list(query.subtopics),
+    audience: text(query.audience),
+    depth: text(query.depth),
+    tone: text(query.tone),
+    length: text(query.length),
+    language: text(query.language),
+    mustInclude: list(query.include),
+    mustAvoid: list(query.avoid),
+    documentCollection: text(query.documents),
+    citationStyle: text(query.style)
+  })
+}
+
+/**
+ * Stores the sources of a brief for /research, or clears them when there are none
+ * @param sources The sources
+ */
+export const saveBriefSources = (sources?: ResearchSource[]): void => {
+  if (typeof window === 'undefined') return
+  if (sources?.length) {
+    localStorage.setItem(BRIEF_SOURCES_KEY, JSON.stringify(sources))
+  } else {
+    localStorage.removeItem(BRIEF_SOURCES_KEY)
+  }
+}
+
+/**
+ * Reads the sources stored by saveBriefSources
+ * @returns The sources, empty if there are none or they cannot be read
+ */
+export const loadBriefSources = (): ResearchSource[] => {
+  if (typeof window === 'undefined') return []
+  try {
+    return normalizeSources(JSON.parse(localStorage.getItem(BRIEF_SOURCES_KEY) || '[]'))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Turns a brief into values for the research, outline and deep research templates
+ * Depth and tone become instructions; templates ignore the values they do not declare
+ * @param brief The brief
+ * @returns The prompt values
+ */
+export const briefPromptValues = (brief: ResearchBrief): PromptValues => ({
+  topic: brief.topic,
+  subtopics: brief.subtopics,
+  audience: brief.audience,
+  depth: DEPTH_OPTIONS.find(option => option.value === brief.depth)?.instruction,
+  tone: TONE_OPTIONS.find(option => option.value === brief.tone)?.instruction,
+  length: brief.length,
+  language: brief.language,
+  mustInclude: brief.mustInclude,
+  mustAvoid: brief.mustAvoid
+})
+
+/**
+ * The query used to retrieve passages of the uploaded documents for a brief
+ * @param brief The brief
+ * @returns The topic, subtopics and must-include points
+ */
+export const briefRetrievalQuery = (brief: ResearchBrief): string => {
+  return [brief.topic, ...brief.subtopics, ...(brief.mustInclude || [])].join('\n')
+}
+
+/**
+ * Short labels for the non-default settings of a brief, for display next to the results
+ * @param brief The brief
+ * @returns The labels, e.g. ['For students', 'In-depth', 'Spanish']
+ */
+export const describeBrief = (brief: ResearchBrief): string[] => {
+  return [
+    brief.audience && `For ${brief.audience}`,
+    brief.depth && brief.depth !== 'standard' && DEPTH_OPTIONS.find(option => option.value === brief.depth)?.label,
+    brief.tone && TONE_OPTIONS.find(option => option.value === brief.tone)?.label,
+    brief.length && `~${brief.length.toLocaleString()} tokens`,
+    brief.language,
+    brief.mustInclude?.length && `Must include: ${brief.mustInclude.join(', ')}`,
+    brief.mustAvoid?.length && `Avoid: ${brief.mustAvoid.join(', ')}`,
+    brief.sources?.length && `${brief.sources.length} ${brief.sources.length === 1 ? 'source' : 'sources'}`,
+    brief.citationStyle && CITATION_STYLES[brief.citationStyle].label
+  ].filter((label): label is string => typeof label === 'string' && label.length > 0)
+}
@@ -0,0 +1,137 @@
+/**
+ * Helpers for deep research: parsing the model's plan, running the sub-questions with a
+ * concurrency limit and assembling the findings for the synthesis prompt
+ */
+
+import type { ResearchPlanStep } from '~/types/research'
+
+export const DEFAULT_MAX_QUESTIONS = 5
+export const DEFAULT_CONCURRENCY = 2
+
+export interface PlannedQuestion {
+  question: string
+  subtopic?: string
+}
+
+const cleanQuestion = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+/**
+ * Reads a JSON array of questions; items may be strings or { question, subtopic } objects
+ */
+const parseJsonPlan = (text: string): PlannedQuestion[] | null => {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/)
+  const candidate = fenced ? fenced[1] : text
+  const start = candidate.indexOf('[')
+  const end = candidate.lastIndexOf(']')
+  if (start < 0 || end <= start) return null
+
+  try {
+    const items = JSON.parse(candidate.substring(start, end + 1))
+    if (!Array.isArray(items)) return null
+    return items
+      .map((item): PlannedQuestion | null => {
+        if (typeof item === 'string') return { question: cleanQuestion(item) }
+        if (item && typeof item.question === 'string') {
+          const subtopic = typeof item.subtopic === 'string' && item.subtopic.trim() ? cleanQuestion(item.subtopic) : undefined
+          return { question: cleanQuestion(item.question), ...(subtopic ? { subtopic } : {}) }
+        }
+        return null
+      })
+      .filter((item): item is PlannedQuestion => !!item && item.question.length > 0)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads numbered or bulleted lines, for models that ignore the JSON instruction
+ */
+const parseListPlan = (text: string): PlannedQuestion[] => {
+  return text
+    .split('\n')
+    .map(line => line.match(/^\s*(?:\d+[.)]|[-*•])\s+(.+)$/)?.[1])
+    .filter((line): line is string => !!line)
+    .map(line => ({ question: cleanQuestion(line.replace(/\*\*/g, '')) }))
+}
+
+/**
+ * Parses the planner's reply into sub-questions
+ * Falls back to one question per subtopic (or one for the topic) when nothing can be parsed
+ * @param text The planner's reply
+ * @param topic The research topic
+ * @param subtopics The subtopics
+ * @param maxQuestions Maximum number of questions kept
+ * @returns The planned questions
+ */
+export const parseResearchPlan = (
+  text: string,
+  topic: string,
+  subtopics: string[] = [],
+  maxQuestions = DEFAULT_MAX_QUESTIONS
+): PlannedQuestion[] => {
+  const parsed = parseJsonPlan(text) || parseListPlan(text)
+  const seen = new Set<string>()
+  const questions = parsed.filter(({ question }) => {
+    const key = question.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  if (questions.length) return questions.slice(0, maxQuestions)
+  if (subtopics.length) {
+    return subtopics.slice(0, maxQuestions).map(subtopic => ({ question: `What should be known about ${subtopic} in the context of ${topic}?`, subtopic }))
+  }
+  return [{ question: topic }]
+}
+
+/**
+ * Creates pending plan steps from planned questions
+ * @param questions The planned questions
+ * @returns The steps
+ */
+export const createPlanSteps = (questions: PlannedQuestion[]): ResearchPlanStep[] => {
+  return questions.map((question, index) => ({
+    id: `step-${index + 1}`,
+    ...question,
+    status: 'pending',
+    content: ''
+  }))
+}
+
+/**
+ * Runs a worker over every item with at most `limit` workers running at once
+ * A failing worker does not stop the others; handle failures inside the worker
+ * @param items The items
+ * @param limit Maximum number of concurrent workers
+ * @param worker The worker
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let next = 0
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++
+      await worker(items[index], index).catch(() => undefined)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane))
+}
+
+/**
+ * Formats the answered steps for the synthesis prompt
+ * @param steps The plan steps
+ * @returns The findings, one block per completed step
+ */
+export const formatFindings = (steps: ResearchPlanStep[]): string => {
+  return steps
+    .filter(step => step.status === 'completed' && step.content.trim())
+    .map((step, index) => {
+      const subtopic = step.subtopic ? ` (${step.subtopic})` : ''
+      return `### Finding ${index + 1}${subtopic}: ${step.question}\n\n${step.content.trim()}`
+    })
+    .join('\n\n')
+}
@@ -0,0 +1,240 @@
+/**
+ * Opt-in cache for identical chat requests
+ * Completions are stored in Nitro storage keyed on model, messages and parameters,
+ * and cached answers are replayed as a stream so clients cannot tell the difference
+ */
+
+import type { Storage } from 'unstorage'
+import { createHash } from 'crypto'
+import { normalizeRequestBody } from './llmCassette'
+import type { LLMProvider } from './llmProviders'
+import type { ChatCompletionChunk, ChatCompletionRequest, ChatUsage } from '~/types/llm'
+
+export interface ResponseCacheOptions {
+  /** How long an entry stays valid */
+  ttlMs: number
+  /** Maximum number of entries; the oldest are evicted first */
+  maxEntries: number
+  /** Responses larger than this are not cached */
+  maxEntryBytes: number
+}
+
+export interface CachedResponse {
+  key: string
+  /** The model that produced the response */
+  model: string
+  /** The model the request asked for */
+  requestedModel: string
+  /** Start of the last user message, for the admin list */
+  preview: string
+  content: string
+  usage?: ChatUsage
+  size: number
+  hits: number
+  createdAt: string
+  expiresAt: string
+}
+
+export type CachedResponseSummary = Omit<CachedResponse, 'content'>
+
+const PREFIX = 'llm-cache'
+
+/**
+ * Computes the cache key of a request; streaming does not change the key
+ * @param request The chat request
+ * @returns The cache key
+ */
+export const getCacheKey = (request: ChatCompletionRequest): string => {
+  const { model, messages, max_tokens, temperature } = request
+  return createHash('sha256')
+    .update(JSON.stringify(normalizeRequestBody({ model, messages, max_tokens, temperature })))
+    .digest('hex')
+    .substring(0, 24)
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length
+
+const summarize = ({ content, ...summary }: CachedResponse): CachedResponseSummary => summary
+
+/**
+ * Creates a response cache on top of Nitro storage
+ * @param storage Nitro storage, e.g. useStorage('data')
+ * @param options TTL and size limits
+ * @returns The cache
+ */
+export const createResponseCache = (storage: Storage, options: ResponseCacheOptions) => {
+  const itemKey = (key: string) => `${PREFIX}:${key}`
+
+  const readAll = async (): Promise<CachedResponse[]> => {
+    const keys = await storage.getKeys(PREFIX)
+    const entries = await Promise.all(keys.map(key => storage.getItem<CachedResponse>(key)))
+    return entries.filter((entry): entry is CachedResponse => !!entry)
+  }
+
+  const isExpired = (entry: CachedResponse) => new Date(entry.expiresAt).getTime() <= Date.now()
+
+  return {
+    options,
+
+    /**
+     * Returns a live entry and counts the hit; expired entries are removed
+     */
+    async get(key: string): Promise<CachedResponse | null> {
+      const entry = await storage.getItem<CachedResponse>(itemKey(key))
+      if (!entry) return null
+      if (isExpired(entry)) {
+        await storage.removeItem(itemKey(key))
+        return null
+      }
+      const hit = { ...entry, hits: entry.hits + 1 }
+      await storage.setItem(itemKey(key), hit)
+      return hit
+    },
+
+    /**
+     * Stores a response, evicting the oldest entries beyond the size limit
+     * @returns Whether the response was cached
+     */
+    async set(request: ChatCompletionRequest, response: { model: string, content: string, usage?: ChatUsage }): Promise<boolean> {
+      const size = byteLength(response.content)
+      if (!response.content || size > options.maxEntryBytes) return false
+
+      const key = getCacheKey(request)
+      const lastUser = [...request.messages].reverse().find(message => message.role === 'user')
+      const now = Date.now()
+      await storage.setItem(itemKey(key), {
+        key,
+        model: response.model,
+        requestedModel: request.model,
+        preview: (lastUser?.content || '').substring(0, 120),
+        content: response.content,
+        usage: response.usage,
+        size,
+        hits: 0,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + options.ttlMs).toISOString()
+      } satisfies CachedResponse)
+
+      const entries = await readAll()
+      const excess = entries.length - options.maxEntries
+      if (excess > 0) {
+        const oldest = entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt)).slice(0, excess)
+        await Promise.all(oldest.map(entry => storage.removeItem(itemKey(entry.key))))
+      }
+      return true
+    },
+
+    /**
+     * Lists live entries, newest first, and removes expired ones
+     */
+    async list(): Promise<CachedResponseSummary[]> {
+      const entries = await readAll()
+      const expired = entries.filter(isExpired)
+      await Promise.all(expired.map(entry => storage.removeItem(itemKey(entry.key))))
+      return entries
+        .filter(entry => !isExpired(entry))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(summarize)
+    },
+
+    /**
+     * Returns an entry without counting a hit
+     */
+    inspect(key: string): Promise<CachedResponse | null> {
+      return storage.getItem<CachedResponse>(itemKey(key))
+    },
+
+    async remove(key: string): Promise<boolean> {
+      if (!(await storage.hasItem(itemKey(key)))) return false
+      await storage.removeItem(itemKey(key))
+      return true
+    },
+
+    /**
+     * Removes every entry
+     * @returns The number of entries removed
+     */
+    async purge(): Promise<number> {
+      const keys = await storage.getKeys(PREFIX)
+      await Promise.all(keys.map(key => storage.removeItem(key)))
+      return keys.length
+    }
+  }
+}
+
+export type ResponseCache = ReturnType<typeof createResponseCache>
+
+/**
+ * Usage reported for a cached answer: same tokens, nothing billed
+ */
+const cachedUsage = (usage?: ChatUsage): ChatUsage | undefined => {
+  return usage ? { ...usage, cost: 0, cached: true } : undefined
+}
+
+/**
+ * Splits cached text into word-sized pieces so a replay looks like a live stream
+ */
+const toReplayChunks = (entry: CachedResponse): ChatCompletionChunk[] => {
+  const pieces = entry.content.match(/\S+\s*|\s+/g) || []
+  return [
+    ...pieces.map(content => ({ content, model: entry.model })),
+    { content: '', model: entry.model, usage: cachedUsage(entry.usage) }
+  ]
+}
+
+/**
+ * Wraps a provider with the response cache
+ * Streams are only cached when they finish; cancelled or failed streams are not
+ * @param provider The provider to wrap
+ * @param cache The response cache
+ * @param onLookup Called with 'hit' or 'miss' for each request, e.g. to set a header
+ * @returns The wrapped provider
+ */
+export const createCachingProvider = (
+  provider: LLMProvider,
+  cache: ResponseCache,
+  onLookup?: (result: 'hit' | 'miss') => void
+): LLMProvider => ({
+  id: provider.id,
+
+  async complete(request, signal) {
+    const key = getCacheKey(request)
+    const cached = await cache.get(key)
+    onLookup?.(cached ? 'hit' : 'miss')
+    if (cached) {
+      return { id: `cache-${key}`, model: cached.model, content: cached.content, finishReason: 'stop', usage: cachedUsage(cached.usage) }
+    }
+
+    const completion = await provider.complete(request, signal)
+    await cache.set(request, completion)
+    return completion
+  },
+
+  async stream(request, signal) {
+    const cached = await cache.get(getCacheKey(request))
+    onLookup?.(cached ? 'hit' : 'miss')
+    if (cached) {
+      return (async function* () {
+        yield* toReplayChunks(cached)
+      })()
+    }
+
+    const chunks = await provider.stream(request, signal)
+    return (async function* () {
+      let content = ''
+      let model = request.model
+      let usage: ChatUsage | undefined
+
+      for await (const chunk of chunks) {
+        content += chunk.content
+        if (chunk.model) model = chunk.model
+        if (chunk.usage) usage = chunk.usage
+        yield chunk
+      }
+
+      if (!signal?.aborted) {
+        await cache.set(request, { model, content, usage })
+      }
+    })()
+  }
+})
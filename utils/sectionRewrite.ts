@@ -0,0 +1,65 @@
+/**
+ * Rewriting one section of the research: what each action asks of the model, and the
+ * document the model sees around the section
+ */
+
+import { TONE_OPTIONS } from './researchBrief'
+import { splitMarkdownSections } from './markdownSections'
+import type { ResearchTone } from '~/types/research'
+
+export type SectionAction = 'regenerate' | 'expand' | 'condense' | 'addData' | 'tone'
+
+/** Stands in for the section in the document sent with the prompt */
+export const SECTION_PLACEHOLDER = '[SECTION TO REWRITE]'
+
+export const SECTION_ACTIONS: Record<SectionAction, { label: string, instruction: string }> = {
+  regenerate: {
+    label: 'Regenerate',
+    instruction: 'Write the section again from scratch, covering the same subject more clearly and accurately.'
+  },
+  expand: {
+    label: 'Expand',
+    instruction: 'Expand the section to about twice its length with more detail, examples and explanation.'
+  },
+  condense: {
+    label: 'Condense',
+    instruction: 'Condense the section to about half its length, keeping the key facts and figures.'
+  },
+  addData: {
+    label: 'Add data',
+    instruction: 'Add concrete data to the section: figures, statistics and dates, and a Markdown table where it helps.'
+  },
+  tone: {
+    label: 'Change tone',
+    instruction: 'Rewrite the section in a different tone, keeping its content.'
+  }
+}
+
+/**
+ * The instruction for an action
+ * @param action The action
+ * @param tone The new tone, for the tone action
+ */
+export const sectionInstruction = (action: SectionAction, tone?: ResearchTone): string => {
+  const toneInstruction = action === 'tone' ? TONE_OPTIONS.find(option => option.value === tone)?.instruction : undefined
+  return toneInstruction
+    ? `Rewrite the section, keeping its content. ${toneInstruction}`
+    : SECTION_ACTIONS[action].instruction
+}
+
+/**
+ * The document with a section replaced by SECTION_PLACEHOLDER; its heading is kept so
+ * the model sees where the section sits
+ * @param markdown The research document
+ * @param index The section index
+ * @returns The document, or the unchanged document if there is no such section
+ */
+export const sectionContext = (markdown: string, index: number): string => {
+  const sections = splitMarkdownSections(markdown)
+  const section = sections[index]
+  if (!section) return markdown
+
+  const heading = section.level > 0 ? section.content.split('\n')[0] + '\n' : ''
+  sections[index] = { ...section, content: `${heading}${SECTION_PLACEHOLDER}\n\n` }
+  return sections.map(item => item.content).join('')
+}
@@ -0,0 +1,507 @@
+/**
+ * Research sessions in Nitro storage: the brief, the research, the outlines and the decks
+ * generated from them, so a session survives reloads and can be opened on other devices
+ */
+
+import { randomUUID } from 'crypto'
+import { createError } from 'h3'
+import type { Storage } from 'unstorage'
+import { createResearchBrief } from './researchBrief'
+import { isCitationStyle } from './citationStyles'
+import { MAX_DATASETS, normalizeDatasets, uniqueDatasetName } from './datasets'
+import type {
+  FollowUpMessage,
+  LibraryEntry,
+  ResearchDataset,
+  ResearchSession,
+  ResearchSessionChanges,
+  ResearchSessionSummary,
+  ResearchVerification,
+  SessionTranslation,
+  SessionVersion,
+  SessionVersionKind,
+  SessionVersionReason
+} from '~/types/research'
+
+/** Largest stored session; decks embed their styles, so a few of them take most of it */
+export const MAX_SESSION_BYTES = 5 * 1024 * 1024
+/** Number of decks kept per session, newest last */
+export const MAX_SESSION_DECKS = 5
+/** Largest number of tags per session */
+export const MAX_SESSION_TAGS = 10
+/** Versions kept per session of each of the research and the outline; the oldest go first */
+export const MAX_SESSION_VERSIONS = 20
+
+const PREFIX = 'sessions'
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+const DEFAULT_TITLE = 'Untitled research'
+
+const TEXT_FIELDS = ['title', 'research', 'outline'] as const
+const LIST_FIELDS = ['sources', 'passages', 'researchHistory', 'outlineHistory', 'decks', 'assets'] as const
+const CHAT_ROLES: FollowUpMessage['role'][] = ['user', 'assistant']
+const VERSION_KINDS: SessionVersionKind[] = ['research', 'outline']
+const VERSION_REASONS: SessionVersionReason[] = ['generated', 'saved', 'restored']
+
+/**
+ * Thrown for invalid session ids and changes, missing sessions and sessions that are too large
+ */
+export class SessionStoreError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = 'SessionStoreError'
+  }
+}
+
+/**
+ * Session ids are created by the client; they become storage keys, so only a safe
+ * alphabet is accepted
+ */
+export const isValidSessionId = (id: string): boolean => ID_PATTERN.test(id)
+
+/**
+ * Keeps the messages of a follow-up conversation that have a role, text and a timestamp
+ */
+const normalizeChat = (items: Record<string, unknown>[]): FollowUpMessage[] => {
+  return items.flatMap((item): FollowUpMessage[] => {
+    const role = item.role as FollowUpMessage['role']
+    if (!CHAT_ROLES.includes(role) || typeof item.content !== 'string' || typeof item.timestamp !== 'string') return []
+    return [{ role, content: item.content, ...(typeof item.model === 'string' ? { model: item.model } : {}), timestamp: item.timestamp }]
+  })
+}
+
+/**
+ * Validates the fields of a session from untrusted input; unknown fields are dropped
+ * @param input A request body
+ * @returns The changes
+ * @throws SessionStoreError if a field has the wrong type
+ */
+export const normalizeSessionChanges = (input: unknown): ResearchSessionChanges => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new SessionStoreError('The session must be an object')
+  }
+  const body = input as Record<string, unknown>
+  const changes: ResearchSessionChanges = {}
+
+  for (const field of TEXT_FIELDS) {
+    if (body[field] === undefined) continue
+    if (typeof body[field] !== 'string') throw new SessionStoreError(`${field} must be a string`)
+    changes[field] = body[field] as string
+  }
+
+  for (const field of LIST_FIELDS) {
+    if (body[field] === undefined) continue
+    const items = body[field]
+    if (!Array.isArray(items) || items.some(item => !item || typeof item !== 'object')) {
+      throw new SessionStoreError(`${field} must be a list of objects`)
+    }
+    // The list types differ per field; their items are stored as sent
+    ;(changes as Record<string, unknown>)[field] = items
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some(tag => typeof tag !== 'string')) {
+      throw new SessionStoreError('tags must be a list of strings')
+    }
+    const tags = body.tags.map((tag: string) => tag.replace(/\s+/g, ' ').trim()).filter(Boolean)
+    changes.tags = [...new Set(tags)].slice(0, MAX_SESSION_TAGS)
+  }
+
+  if (body.brief !== undefined) {
+    if (!body.brief || typeof body.brief !== 'object') throw new SessionStoreError('brief must be an object')
+    changes.brief = createResearchBrief(body.brief as Record<string, unknown>)
+  }
+
+  if (body.datasets !== undefined) {
+    if (!Array.isArray(body.datasets) || body.datasets.some(item => !item || typeof item !== 'object')) {
+      throw new SessionStoreError('datasets must be a list of objects')
+    }
+    changes.datasets = normalizeDatasets(body.datasets)
+  }
+
+  if (body.chat !== undefined) {
+    if (!Array.isArray(body.chat) || body.chat.some(item => !item || typeof item !== 'object')) {
+      throw new SessionStoreError('chat must be a list of messages')
+    }
+    changes.chat = normalizeChat(body.chat)
+  }
+
+  if (body.verification !== undefined) {
+    const verification = body.verification as Record<string, unknown> | null
+    if (verification !== null && (typeof verification !== 'object' || !Array.isArray(verification.claims) ||
+      verification.claims.some(claim => !claim || typeof claim !== 'object'))) {
+      throw new SessionStoreError('verification must be an object with a list of claims')
+    }
+    // The claims are stored as sent, like the other lists
+    changes.verification = verification as ResearchVerification | null
+  }
+
+  if (body.citationStyle !== undefined) {
+    if (body.citationStyle !== null && body.citationStyle !== '' && !isCitationStyle(body.citationStyle)) {
+      throw new SessionStoreError(`Unknown citation style: ${body.citationStyle}`)
+    }
+    changes.citationStyle = isCitationStyle(body.citationStyle) ? body.citationStyle : ''
+  }
+
+  if (changes.decks) changes.decks = changes.decks.slice(-MAX_SESSION_DECKS)
+  return changes
+}
+
+/**
+ * Validates a version to record from untrusted input
+ * @param input A request body with the kind, the content and the reason
+ * @returns The version fields
+ * @throws SessionStoreError if a field is missing or unknown
+ */
+export const normalizeVersionInput = (input: unknown): Pick<SessionVersion, 'kind' | 'content' | 'reason'> => {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  if (!VERSION_KINDS.includes(body.kind as SessionVersionKind)) {
+    throw new SessionStoreError(`kind must be one of ${VERSION_KINDS.join(', ')}`)
+  }
+  if (typeof body.content !== 'string') throw new SessionStoreError('content must be a string')
+  const reason = body.reason ?? 'saved'
+  if (!VERSION_REASONS.includes(reason as SessionVersionReason)) {
+    throw new SessionStoreError(`reason must be one of ${VERSION_REASONS.join(', ')}`)
+  }
+  return { kind: body.kind as SessionVersionKind, content: body.content, reason: reason as SessionVersionReason }
+}
+
+/**
+ * Validates a translation to store from untrusted input
+ * @param input A request body with the language and the translated outline
+ * @returns The language and the outline
+ * @throws SessionStoreError if a field is missing
+ */
+export const normalizeTranslationInput = (input: unknown): { language: string, outline: string } => {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const language = typeof body.language === 'string' ? body.language.replace(/\s+/g, ' ').trim() : ''
+  if (!language || language.length > 50) throw new SessionStoreError('language must be a name of at most 50 characters')
+  if (typeof body.outline !== 'string' || !body.outline.trim()) throw new SessionStoreError('outline must be a non-empty string')
+  return { language, outline: body.outline }
+}
+
+/**
+ * Adds a version and drops the oldest ones of its kind beyond MAX_SESSION_VERSIONS
+ * @param versions The versions, oldest first
+ * @param version The new version
+ */
+const appendVersion = (versions: SessionVersion[], version: SessionVersion): SessionVersion[] => {
+  const appended = [...versions, version]
+  const ofKind = appended.filter(item => item.kind === version.kind)
+  const dropped = new Set(ofKind.slice(0, Math.max(0, ofKind.length - MAX_SESSION_VERSIONS)))
+  return appended.filter(item => !dropped.has(item))
+}
+
+/**
+ * Applies changes to a session; the id and the creation time never change
+ * @param session The session
+ * @param changes The changes
+ * @returns The changed session
+ */
+const applyChanges = (session: ResearchSession, changes: ResearchSessionChanges): ResearchSession => {
+  const { citationStyle, verification, ...fields } = changes
+  const changed: ResearchSession = {
+    ...session,
+    ...fields,
+    id: session.id,
+    title: fields.title || session.title,
+    createdAt: session.createdAt,
+    updatedAt: new Date().toISOString()
+  }
+  if (citationStyle) changed.citationStyle = citationStyle
+  else if (citationStyle === '') delete changed.citationStyle
+  if (verification) changed.verification = verification
+  else if (verification === null) delete changed.verification
+  return changed
+}
+
+/**
+ * Summarizes a session for the session list
+ * @param session The session
+ */
+export const summarizeSession = (session: ResearchSession): ResearchSessionSummary => ({
+  id: session.id,
+  title: session.title,
+  ...(session.brief?.topic ? { topic: session.brief.topic } : {}),
+  hasResearch: !!session.research,
+  outlineCount: session.outlineHistory.length,
+  deckCount: session.decks.length,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt
+})
+
+/**
+ * Turns a session into a /library entry
+ * @param session The session
+ */
+export const toLibraryEntry = (session: ResearchSession): LibraryEntry => {
+  const latest = session.researchHistory[session.researchHistory.length - 1]
+  return {
+    topic: latest?.topic || session.brief?.topic || session.title,
+    subtopics: latest?.subtopics || session.brief?.subtopics || [],
+    content: session.research,
+    ...(latest?.model ? { model: latest.model } : {}),
+    ...(latest?.usage ? { usage: latest.usage } : {}),
+    sessionId: session.id,
+    title: session.title,
+    tags: session.tags || [],
+    templates: [...new Set(session.decks.map(deck => deck.template).filter((template): template is string => !!template))],
+    outlineCount: session.outlineHistory.length,
+    deckCount: session.decks.length,
+    timestamp: session.createdAt,
+    updatedAt: session.updatedAt
+  }
+}
+
+/**
+ * Creates a session store on top of Nitro storage
+ * @param storage Nitro storage, e.g. useStorage('data')
+ * @returns The store
+ */
+export const createSessionStore = (storage: Storage) => {
+  const sessionKey = (id: string) => {
+    if (!isValidSessionId(id)) {
+      throw new SessionStoreError(`Invalid session id: ${id}`)
+    }
+    return `${PREFIX}:${id}`
+  }
+
+  const write = async (session: ResearchSession): Promise<ResearchSession> => {
+    if (JSON.stringify(session).length > MAX_SESSION_BYTES) {
+      throw new SessionStoreError(`A session holds at most ${MAX_SESSION_BYTES / 1024 / 1024} MB`, 413)
+    }
+    await storage.setItem(sessionKey(session.id), session)
+    return session
+  }
+
+  const readSessions = async (): Promise<ResearchSession[]> => {
+    const keys = await storage.getKeys(PREFIX)
+    const sessions = await Promise.all(keys.map(key => storage.getItem<ResearchSession>(key)))
+    return sessions
+      .filter((session): session is ResearchSession => !!session)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  /**
+   * Lists the sessions, most recently updated first
+   */
+  const list = async (): Promise<ResearchSessionSummary[]> => {
+    return (await readSessions()).map(summarizeSession)
+  }
+
+  /**
+   * Lists the sessions with their research for /library, most recently updated first
+   */
+  const library = async (): Promise<LibraryEntry[]> => {
+    return (await readSessions()).map(toLibraryEntry)
+  }
+
+  /**
+   * Returns a session, or null if there is none with this id
+   */
+  const get = async (id: string): Promise<ResearchSession | null> => {
+    return await storage.getItem<ResearchSession>(sessionKey(id))
+  }
+
+  /**
+   * Creates a session
+   * @param changes The initial fields
+   * @param id The session id; a new one when omitted
+   * @returns The session
+   * @throws SessionStoreError (409) if the id is taken
+   */
+  const create = async (changes: ResearchSessionChanges = {}, id: string = randomUUID()): Promise<ResearchSession> => {
+    if (await storage.hasItem(sessionKey(id))) {
+      throw new SessionStoreError(`Session ${id} already exists`, 409)
+    }
+
+    const now = new Date().toISOString()
+    return await write(applyChanges({
+      id,
+      title: changes.brief?.topic || DEFAULT_TITLE,
+      research: '',
+      researchHistory: [],
+      outline: '',
+      outlineHistory: [],
+      decks: [],
+      assets: [],
+      createdAt: now,
+      updatedAt: now
+    }, changes))
+  }
+
+  /**
+   * Replaces the given fields of a session
+   * @param id The session id
+   * @param changes The fields to replace; lists are replaced as a whole
+   * @returns The updated session
+   * @throws SessionStoreError (404) if the session does not exist
+   */
+  const update = async (id: string, changes: ResearchSessionChanges): Promise<ResearchSession> => {
+    const session = await get(id)
+    if (!session) throw new SessionStoreError(`Session ${id} not found`, 404)
+
+    return await write(applyChanges(session, changes))
+  }
+
+  /**
+   * Records a version of the research or the outline and makes it the current text
+   * Nothing is recorded when the text is the same as the latest version of its kind
+   * @param id The session id
+   * @param input The kind, the content and why it is recorded
+   * @returns The updated session
+   * @throws SessionStoreError (404) if the session does not exist
+   */
+  const addVersion = async (id: string, input: Pick<SessionVersion, 'kind' | 'content' | 'reason'>): Promise<ResearchSession> => {
+    const session = await get(id)
+    if (!session) throw new SessionStoreError(`Session ${id} not found`, 404)
+
+    const versions = session.versions || []
+    const latest = versions.filter(version => version.kind === input.kind).pop()
+    const changed = applyChanges(session, { [input.kind]: input.content })
+    if (latest?.content !== input.content) {
+      changed.versions = appendVersion(versions, { id: randomUUID(), ...input, timestamp: changed.updatedAt })
+    }
+    return await write(changed)
+  }
+
+  /**
+   * Creates a new session from a version of another one: the version becomes the current
+   * text and the versions recorded after it are left out
+   * @param id The session to branch from
+   * @param versionId The version to branch from
+   * @param branchId The id of the new session; a new one when omitted
+   * @returns The new session
+   * @throws SessionStoreError (404) if the session or the version does not exist
+   */
+  const branch = async (id: string, versionId: string, branchId: string = randomUUID()): Promise<ResearchSession> => {
+    const session = await get(id)
+    if (!session) throw new SessionStoreError(`Session ${id} not found`, 404)
+    const versions = session.versions || []
+    const index = versions.findIndex(version => version.id === versionId)
+    if (index === -1) throw new SessionStoreError(`Version ${versionId} not found`, 404)
+    if (await storage.hasItem(sessionKey(branchId))) {
+      throw new SessionStoreError(`Session ${branchId} already exists`, 409)
+    }
+
+    const version = versions[index]
+    const now = new Date().toISOString()
+    return await write({
+      ...session,
+      id: branchId,
+      title: `${session.title} (branch)`,
+      [version.kind]: version.content,
+      versions: versions.slice(0, index + 1),
+      branchOf: { sessionId: session.id, versionId },
+      createdAt: now,
+      updatedAt: now
+    })
+  }
+
+  /**
+   * Stores a translation of the outline of a session as a new session with the same research
+   * Translations are linked to the original session, also when a translation is translated
+   * again; a new translation into a language replaces the link to the previous one
+   * @param id The session whose outline was translated
+   * @param input The language and the translated outline
+   * @param translationId The id of the new session; a new one when omitted
+   * @returns The new session
+   * @throws SessionStoreError (404) if the session does not exist
+   */
+  const addTranslation = async (
+    id: string,
+    input: { language: string, outline: string },
+    translationId: string = randomUUID()
+  ): Promise<ResearchSession> => {
+    const session = await get(id)
+    if (!session) throw new SessionStoreError(`Session ${id} not found`, 404)
+    const original = (session.translationOf && await get(session.translationOf.sessionId)) || session
+    if (await storage.hasItem(sessionKey(translationId))) {
+      throw new SessionStoreError(`Session ${translationId} already exists`, 409)
+    }
+
+    const link: SessionTranslation = { language: input.language, sessionId: translationId }
+    const now = new Date().toISOString()
+    const translation = await write({
+      id: translationId,
+      title: `${original.title} (${input.language})`,
+      ...(session.tags ? { tags: session.tags } : {}),
+      ...(session.brief ? { brief: session.brief } : {}),
+      research: session.research,
+      ...(session.sources ? { sources: session.sources } : {}),
+      ...(session.passages ? { passages: session.passages } : {}),
+      researchHistory: session.researchHistory,
+      // The R chunks of the translated outline still plot the datasets
+      ...(session.datasets ? { datasets: session.datasets } : {}),
+      outline: input.outline,
+      outlineHistory: [],
+      ...(session.citationStyle ? { citationStyle: session.citationStyle } : {}),
+      decks: [],
+      assets: [],
+      translationOf: { language: input.language, sessionId: original.id },
+      createdAt: now,
+      updatedAt: now
+    })
+    await write({
+      ...original,
+      translations: [...(original.translations || []).filter(item => item.language !== input.language), link],
+      updatedAt: now
+    })
+    return translation
+  }
+
+  /**
+   * Adds uploaded datasets to a session; a name that is taken gets a suffix
+   * @param id The session id
+   * @param datasets The datasets
+   * @returns The updated session
+   * @throws SessionStoreError (404) if the session does not exist, (422) if it would have too many datasets
+   */
+  const addDatasets = async (id: string, datasets: Omit<ResearchDataset, 'id'>[]): Promise<ResearchSession> => {
+    const session = await get(id)
+    if (!session) throw new SessionStoreError(`Session ${id} not found`, 404)
+
+    const existing = session.datasets || []
+    if (existing.length + datasets.length > MAX_DATASETS) {
+      throw new SessionStoreError(`A session can have at most ${MAX_DATASETS} datasets`, 422)
+    }
+    const names = new Set(existing.map(dataset => dataset.name))
+    const added = datasets.map(dataset => ({ ...dataset, id: randomUUID(), name: uniqueDatasetName(dataset.name, names) }))
+    return await write(applyChanges(session, { datasets: [...existing, ...added] }))
+  }
+
+  /**
+   * Removes a session
+   * @returns Whether the session existed
+   */
+  const remove = async (id: string): Promise<boolean> => {
+    const key = sessionKey(id)
+    if (!(await storage.hasItem(key))) return false
+    await storage.removeItem(key)
+    return true
+  }
+
+  return {
+    list,
+    library,
+    get,
+    create,
+    update,
+    addVersion,
+    branch,
+    addTranslation,
+    addDatasets,
+    remove
+  }
+}
+
+/**
+ * Maps store errors to HTTP errors
+ * @param error The error
+ * @returns The HTTP error to throw
+ */
+export const toSessionHttpError = (error: unknown) => {
+  if (error instanceof SessionStoreError) {
+    return createError({ statusCode: error.status, statusMessage: error.message })
+  }
+  return createError({ statusCode: 500, statusMessage: 'Failed to access the sessions', data: error })
+}
@@ -0,0 +1,397 @@
+/**
+ * Parses R Markdown / Marp outlines into a deck of slides and typed blocks, and writes them back
+ * Slides are split at --- lines outside code blocks; a leading YAML block is the front matter.
+ * Parsed nodes keep the lines they were read from, so serializeOutline(parseOutline(text))
+ * returns the text unchanged; changed or new nodes are written from their fields
+ */
+
+import type {
+  BlockNode,
+  ChunkNode,
+  DeckNode,
+  FrontMatterNode,
+  HeadingNode,
+  SlideNode,
+  TableAlign,
+  TableNode
+} from '~/types/deck'
+
+// Directives Marp reads from HTML comments; other comments are speaker notes
+const MARP_DIRECTIVES = new Set([
+  'marp', 'theme', 'style', 'headingDivider', 'lang', 'math', 'size', 'title', 'description', 'author',
+  'image', 'keywords', 'url', 'paginate', 'header', 'footer', 'class', 'backgroundColor',
+  'backgroundImage', 'backgroundPosition', 'backgroundRepeat', 'backgroundSize', 'color'
+])
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})(.*)$/
+const HEADING = /^(#{1,6})[ \t]+(.+?)\s*$/
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])[ \t]+(.*)$/
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+const HTML_START = /^\s{0,3}<\/?[A-Za-z]/
+
+/** The text of a line without its line ending */
+const text = (line: string): string => line.replace(/\r?\n$/, '')
+
+const isBlank = (line: string): boolean => !text(line).trim()
+
+const isSeparator = (line: string): boolean => text(line).trim() === '---'
+
+const isTableStart = (lines: string[], index: number): boolean => {
+  return text(lines[index]).includes('|') && index + 1 < lines.length && text(lines[index + 1]).includes('|') &&
+    TABLE_DELIMITER.test(text(lines[index + 1]))
+}
+
+// Whether a line ends a paragraph or list by starting a block of another kind
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = text(lines[index])
+  return isSeparator(lines[index]) || FENCE.test(line) || HEADING.test(line) || line.trimStart().startsWith('<!--') ||
+    isTableStart(lines, index)
+}
+
+/**
+ * Splits a table row into its cells; escaped pipes (\|) stay in the cell
+ */
+const tableCells = (row: string): string[] => {
+  const trimmed = row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim())
+}
+
+const tableAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':')
+  const right = cell.endsWith(':')
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null
+}
+
+/**
+ * Splits chunk options at the commas outside quotes and brackets
+ */
+const splitOptions = (options: string): string[] => {
+  const parts: string[] = []
+  let current = ''
+  let quote = ''
+  let depth = 0
+  for (const char of options) {
+    if (quote) {
+      if (char === quote) quote = ''
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '(' || char === '[') {
+      depth++
+    } else if (char === ')' || char === ']') {
+      depth--
+    } else if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.map(part => part.trim()).filter(Boolean)
+}
+
+/**
+ * Reads the header of an R Markdown chunk, e.g. {r trend, echo=FALSE, fig.cap="Trend"}
+ * @returns The engine, label and options, or undefined for a plain code block
+ */
+const parseChunkHeader = (info: string): Pick<ChunkNode, 'engine' | 'label' | 'options'> | undefined => {
+  const match = info.match(/^\{\s*([A-Za-z][\w.-]*)([\s\S]*)\}$/)
+  if (!match) return undefined
+
+  const options: Record<string, string> = {}
+  let label: string | undefined
+  splitOptions(match[2]).forEach((part, index) => {
+    const equals = part.indexOf('=')
+    if (equals > 0) options[part.substring(0, equals).trim()] = part.substring(equals + 1).trim()
+    else if (index === 0) label = part
+  })
+  return { engine: match[1], ...(label ? { label } : {}), options }
+}
+
+const parseComment = (body: string): BlockNode => {
+  const lines = body.split('\n').filter(line => line.trim())
+  const directives: Record<string, string> = {}
+  const isDirectives = lines.length > 0 && lines.every((line) => {
+    const match = line.match(/^\s*(_?)([A-Za-z]+)\s*:\s*(.*?)\s*$/)
+    if (!match || !MARP_DIRECTIVES.has(match[2])) return false
+    directives[match[1] + match[2]] = match[3]
+    return true
+  })
+  return isDirectives ? { type: 'directive', directives } : { type: 'note', text: body.trim() }
+}
+
+/**
+ * Reads the block that starts at a line
+ * @returns The block, with the lines it was read from, and the index of the line after it
+ */
+const readBlock = (lines: string[], start: number): [BlockNode, number] => {
+  const line = text(lines[start])
+  let end = start + 1
+  const raw = () => lines.slice(start, end).join('')
+
+  if (isBlank(lines[start])) {
+    while (end < lines.length && isBlank(lines[end])) end++
+    return [{ type: 'blank', raw: raw() }, end]
+  }
+
+  const fence = line.match(FENCE)
+  if (fence) {
+    const closing = new RegExp(`^\\s{0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`)
+    while (end < lines.length && !closing.test(text(lines[end]))) end++
+    const code = lines.slice(start + 1, end).map(text).join('\n')
+    end = Math.min(end + 1, lines.length)
+    const info = fence[2].trim()
+    const chunk = parseChunkHeader(info)
+    return [chunk ? { type: 'chunk', ...chunk, code, raw: raw() } : { type: 'code', fence: fence[1], info, code, raw: raw() }, end]
+  }
+
+  if (line.trimStart().startsWith('<!--')) {
+    let closing = start
+    while (closing < lines.length && !text(lines[closing]).includes('-->')) closing++
+    end = Math.min(closing + 1, lines.length)
+    const source = lines.slice(start, end).map(text).join('\n')
+    const after = source.substring(source.indexOf('-->') + 3)
+    // A comment followed by text on its closing line is left as HTML
+    if (closing < lines.length && !after.trim()) {
+      const body = source.substring(source.indexOf('<!--') + 4, source.indexOf('-->'))
+      return [{ ...parseComment(body), raw: raw() }, end]
+    }
+  }
+
+  const heading = line.match(HEADING)
+  if (heading) return [{ type: 'heading', depth: heading[1].length, text: heading[2], raw: raw() }, end]
+
+  if (isTableStart(lines, start)) {
+    end = start + 2
+    while (end < lines.length && !isBlank(lines[end]) && text(lines[end]).includes('|') && !startsBlock(lines, end)) end++
+    return [{
+      type: 'table',
+      headers: tableCells(line),
+      align: tableCells(text(lines[start + 1])).map(tableAlign),
+      rows: lines.slice(start + 2, end).map(row => tableCells(text(row))),
+      raw: raw()
+    }, end]
+  }
+
+  const item = line.match(LIST_ITEM)
+  if (item && !/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    const indent = item[1].length
+    const items = [item[3]]
+    while (end < lines.length && !isBlank(lines[end]) && !startsBlock(lines, end)) {
+      const next = text(lines[end]).match(LIST_ITEM)
+      if (next && next[1].length <= indent) items.push(next[3])
+      else items[items.length - 1] += `\n${text(lines[end])}`
+      end++
+    }
+    return [{ type: 'list', ordered: /\d/.test(item[2]), items, raw: raw() }, end]
+  }
+
+  if (HTML_START.test(line) || line.trimStart().startsWith('<!--')) {
+    while (end < lines.length && !isBlank(lines[end])) end++
+    return [{ type: 'html', html: lines.slice(start, end).map(text).join('\n'), raw: raw() }, end]
+  }
+
+  while (end < lines.length && !isBlank(lines[end]) && !startsBlock(lines, end) && !LIST_ITEM.test(text(lines[end]))) end++
+  return [{ type: 'paragraph', text: lines.slice(start, end).map(text).join('\n'), raw: raw() }, end]
+}
+
+const parseFields = (yaml: string): Record<string, string> => {
+  const fields: Record<string, string> = {}
+  for (const line of yaml.split('\n')) {
+    const match = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*?)\s*$/)
+    if (match) fields[match[1]] = match[2].replace(/^(["'])(.*)\1$/, '$2')
+  }
+  return fields
+}
+
+/**
+ * Parses an outline into its front matter and slides
+ * @param outline The R Markdown or Marp outline
+ * @returns The deck; an outline without slide breaks is one slide
+ */
+export const parseOutline = (outline: string): DeckNode => {
+  const lines: string[] = outline.match(/[^\n]*\n|[^\n]+$/g) || []
+  let index = 0
+
+  let frontMatter: FrontMatterNode | undefined
+  if (lines.length && isSeparator(lines[0])) {
+    const closing = lines.findIndex((line, position) => position > 0 && /^(---|\.\.\.)$/.test(text(line).trim()))
+    if (closing > 0) {
+      const yaml = lines.slice(1, closing).map(text).join('\n')
+      frontMatter = { yaml, fields: parseFields(yaml), raw: lines.slice(0, closing + 1).join('') }
+      index = closing + 1
+    }
+  }
+
+  const slides: SlideNode[] = [{ blocks: [] }]
+  while (index < lines.length) {
+    if (isSeparator(lines[index])) {
+      slides.push({ separator: lines[index], blocks: [] })
+      index++
+      continue
+    }
+    const [block, next] = readBlock(lines, index)
+    slides[slides.length - 1].blocks.push(block)
+    index = next
+  }
+  return { ...(frontMatter ? { frontMatter } : {}), slides }
+}
+
+const ALIGN_DELIMITERS: Record<string, string> = { left: ':---', center: ':---:', right: '---:', null: '---' }
+
+/**
+ * Writes a table in a regular layout: | cell | cell |, one row per line
+ */
+const renderTable = (table: TableNode): string => {
+  const row = (cells: string[]) => `| ${cells.join(' | ')} |`
+  return [
+    row(table.headers),
+    row(table.headers.map((_, index) => ALIGN_DELIMITERS[String(table.align[index] ?? null)])),
+    ...table.rows.map(row)
+  ].join('\n')
+}
+
+const renderChunkHeader = (chunk: ChunkNode): string => {
+  const options = Object.entries(chunk.options).map(([name, value]) => `${name}=${value}`)
+  return `{${[chunk.engine + (chunk.label ? ` ${chunk.label}` : ''), ...options].join(', ')}}`
+}
+
+/**
+ * Writes a block from its fields
+ * @param block The block
+ * @returns The Markdown, ending with a line break
+ */
+export const renderBlock = (block: BlockNode): string => {
+  switch (block.type) {
+    case 'blank':
+      return '\n'
+    case 'heading':
+      return `${'#'.repeat(block.depth)} ${block.text}\n`
+    case 'paragraph':
+      return `${block.text}\n`
+    case 'list':
+      return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item}\n`).join('')
+    case 'table':
+      return `${renderTable(block)}\n`
+    case 'code':
+      return `${block.fence}${block.info}\n${block.code ? `${block.code}\n` : ''}${block.fence}\n`
+    case 'chunk':
+      return `\`\`\`${renderChunkHeader(block)}\n${block.code ? `${block.code}\n` : ''}\`\`\`\n`
+    case 'directive': {
+      const entries = Object.entries(block.directives).map(([name, value]) => `${name}: ${value}`)
+      return entries.length === 1 ? `<!-- ${entries[0]} -->\n` : `<!--\n${entries.join('\n')}\n-->\n`
+    }
+    case 'note':
+      return `<!--\n${block.text}\n-->\n`
+    case 'html':
+      return `${block.html}\n`
+  }
+}
+
+/**
+ * Writes the blocks of a slide; parsed blocks are written as they were read
+ * @param blocks The blocks
+ */
+export const serializeBlocks = (blocks: BlockNode[]): string => blocks.map(block => block.raw ?? renderBlock(block)).join('')
+
+/**
+ * Writes the front matter with its fences
+ * @param frontMatter The front matter
+ */
+export const serializeFrontMatter = (frontMatter: FrontMatterNode): string => frontMatter.raw ?? `---\n${frontMatter.yaml}\n---\n`
+
+/**
+ * Writes a deck as an outline; an outline that was parsed and not changed is returned as it was
+ * @param deck The deck
+ * @returns The outline
+ */
+export const serializeOutline = (deck: DeckNode): string => {
+  const slides = deck.slides.map((slide, index) => (index > 0 ? slide.separator ?? '---\n' : '') + serializeBlocks(slide.blocks))
+  return (deck.frontMatter ? serializeFrontMatter(deck.frontMatter) : '') + slides.join('')
+}
+
+const BLANK: BlockNode = { type: 'blank' }
+
+const endsWithLineBreak = (blocks: BlockNode[]): boolean => {
+  const last = blocks[blocks.length - 1]
+  return !last || (last.raw ?? renderBlock(last)).endsWith('\n')
+}
+
+/**
+ * Puts a blank line before and after every slide break, as Marp needs: text right above a
+ * --- line would otherwise be read as a heading
+ * @param deck The deck
+ * @returns A deck with the same blocks and the blank lines added
+ */
+export const spaceSlides = (deck: DeckNode): DeckNode => {
+  const slides = deck.slides.map((slide, index) => {
+    let blocks = slide.blocks
+    if (index > 0 && blocks[0]?.type !== 'blank') blocks = [BLANK, ...blocks]
+    if (index < deck.slides.length - 1) {
+      // A last line without a line break would run into the --- line
+      if (!endsWithLineBreak(blocks)) blocks = [...blocks, BLANK]
+      if (blocks[blocks.length - 1]?.type !== 'blank') blocks = [...blocks, BLANK]
+    }
+    return { ...slide, blocks }
+  })
+  return { ...deck, slides }
+}
+
+/**
+ * Builds a deck from the blocks of each slide, with blank lines around the slide breaks
+ * @param slides The blocks of each slide
+ * @param frontMatter The front matter, if any
+ */
+export const createOutline = (slides: BlockNode[][], frontMatter?: FrontMatterNode): DeckNode => {
+  return spaceSlides({ ...(frontMatter ? { frontMatter } : {}), slides: slides.map(blocks => ({ blocks })) })
+}
+
+/**
+ * The first heading of a slide
+ * @param slide The slide
+ */
+export const slideHeading = (slide: SlideNode): HeadingNode | undefined => {
+  return slide.blocks.find((block): block is HeadingNode => block.type === 'heading')
+}
+
+/**
+ * Whether a slide has anything besides blank lines
+ * @param slide The slide
+ */
+export const hasContent = (slide: SlideNode): boolean => slide.blocks.some(block => block.type !== 'blank')
+
+/**
+ * The directives of a slide, in the order they are written; later ones win
+ * @param slide The slide
+ */
+export const slideDirectives = (slide: SlideNode): Record<string, string> => {
+  return Object.assign({}, ...slide.blocks.map(block => block.type === 'directive' ? block.directives : {}))
+}
+
+/**
+ * The speaker notes of a slide
+ * @param slide The slide
+ */
+export const slideNotes = (slide: SlideNode): string[] => {
+  return slide.blocks.flatMap(block => block.type === 'note' ? [block.text] : [])
+}
+
+/**
+ * Rewrites the tables of an outline in a regular layout, with blank lines around them
+ * @param outline The outline
+ * @returns The outline; everything but the tables is kept as it was
+ */
+export const normalizeTables = (outline: string): string => {
+  const deck = parseOutline(outline)
+  const slides = deck.slides.map(slide => ({
+    ...slide,
+    blocks: slide.blocks.flatMap((block, index): BlockNode[] => {
+      if (block.type !== 'table') return [block]
+      const table: TableNode = { type: 'table', headers: block.headers, align: block.align, rows: block.rows }
+      const before = index > 0 && slide.blocks[index - 1].type !== 'blank' ? [BLANK] : []
+      const after = index < slide.blocks.length - 1 && slide.blocks[index + 1].type !== 'blank' ? [BLANK] : []
+      return [...before, table, ...after]
+    })
+  }))
+  return serializeOutline({ ...deck, slides })
+}
@@ -0,0 +1,78 @@
+/**
+ * Slide-level diff of presentation outlines: slides are matched by title, and the slides
+ * kept in both outlines are compared line by line
+ */
+
+import { hasContent, parseOutline, serializeBlocks, serializeFrontMatter, slideHeading } from './slideAst'
+import { diffLines } from './textDiff'
+import type { DiffLine } from './textDiff'
+import type { SlideNode } from '~/types/deck'
+
+export interface OutlineSlide {
+  /** The first heading of the slide, or its first line when it has none */
+  title: string
+  content: string
+}
+
+export type SlideChangeType = 'equal' | 'changed' | 'added' | 'removed'
+
+export interface SlideChange {
+  type: SlideChangeType
+  title: string
+  /** Position of the slide in the old outline, from 1 */
+  oldIndex?: number
+  /** Position of the slide in the new outline, from 1 */
+  newIndex?: number
+  /** Line diff of the slide; removed and added slides have only removed or added lines */
+  diff: DiffLine[]
+}
+
+// The content is trimmed, so its first line is not blank
+const slideTitle = (slide: SlideNode, content: string): string => {
+  return (slideHeading(slide)?.text || content.split('\n')[0].trim()).substring(0, 120)
+}
+
+/**
+ * Splits an outline into slides at the --- separators; a leading YAML front matter block
+ * is kept as a slide of its own, and separators inside code blocks are ignored
+ * @param outline The outline
+ * @returns The non-empty slides
+ */
+export const splitSlides = (outline: string): OutlineSlide[] => {
+  const deck = parseOutline(outline.replace(/\r\n/g, '\n'))
+  const slides = deck.slides
+    .filter(hasContent)
+    .map((slide) => {
+      const content = serializeBlocks(slide.blocks).trim()
+      return { title: slideTitle(slide, content), content }
+    })
+  return deck.frontMatter
+    ? [{ title: 'Front matter', content: serializeFrontMatter(deck.frontMatter).trim() }, ...slides]
+    : slides
+}
+
+/**
+ * Diffs two outlines slide by slide
+ * @param oldOutline The previous outline
+ * @param newOutline The new outline
+ * @returns The slides of both outlines in order, with what changed in each
+ */
+export const diffSlides = (oldOutline: string, newOutline: string): SlideChange[] => {
+  const oldSlides = splitSlides(oldOutline)
+  const newSlides = splitSlides(newOutline)
+  // Titles are one line each, so the line diff of the title lists matches the slides
+  const titles = diffLines(
+    oldSlides.map(slide => slide.title).join('\n'),
+    newSlides.map(slide => slide.title).join('\n')
+  )
+
+  return titles.map((line): SlideChange => {
+    const before = line.oldLine ? oldSlides[line.oldLine - 1] : undefined
+    const after = line.newLine ? newSlides[line.newLine - 1] : undefined
+    const diff = diffLines(before?.content || '', after?.content || '')
+    const type = line.type === 'equal'
+      ? (before!.content === after!.content ? 'equal' : 'changed')
+      : line.type
+    return { type, title: line.text, oldIndex: line.oldLine, newIndex: line.newLine, diff }
+  })
+}
@@ -0,0 +1,128 @@
+/**
+ * Utilities for encoding and decoding the Server-Sent Events stream used by /api/chat
+ * Every provider is normalized to the OpenAI `chat.completion.chunk` shape so the
+ * client only ever has to parse one format
+ */
+
+import type { ChatCompletion, ChatCompletionChunk } from '~/types/llm'
+
+export const SSE_DONE = '[DONE]'
+
+/**
+ * Encodes a payload as a single SSE `data:` event
+ * @param payload The payload to send, serialized as JSON unless it is already a string
+ * @param id Optional event id, used by job streams so clients can resume from an offset
+ * @returns The encoded event
+ */
+export const encodeSSEData = (payload: unknown, id?: number | string): string => {
+  const data = typeof payload === 'string' ? payload : JSON.stringify(payload)
+  return `${id !== undefined ? `id: ${id}\n` : ''}data: ${data}\n\n`
+}
+
+/**
+ * Converts a normalized chunk into an OpenAI-compatible streaming chunk
+ * @param chunk The normalized chunk
+ * @param id The completion id shared by every chunk of a response
+ * @param model The model that produced the chunk
+ * @returns An OpenAI `chat.completion.chunk` object
+ */
+export const toOpenAIChunk = (chunk: ChatCompletionChunk, id: string, model: string) => ({
+  id,
+  object: 'chat.completion.chunk',
+  model: chunk.model || model,
+  choices: chunk.content ? [{ index: 0, delta: { content: chunk.content }, finish_reason: null }] : [],
+  ...(chunk.usage ? { usage: chunk.usage } : {})
+})
+
+/**
+ * Converts a normalized completion into an OpenAI-compatible response body
+ * @param completion The normalized completion
+ * @returns An OpenAI `chat.completion` object
+ */
+export const toOpenAICompletion = (completion: ChatCompletion) => ({
+  id: completion.id,
+  object: 'chat.completion',
+  model: completion.model,
+  choices: [{
+    index: 0,
+    message: { role: 'assistant', content: completion.content },
+    finish_reason: completion.finishReason || 'stop'
+  }],
+  usage: completion.usage
+})
+
+/**
+ * Builds a byte stream of SSE events from normalized chunks, terminated by `[DONE]`
+ * @param chunks The normalized chunks to send
+ * @param id The completion id
+ * @param model The model used for the completion
+ * @returns A readable stream suitable for h3's sendStream
+ */
+export const createSSEStream = (
+  chunks: AsyncIterable<ChatCompletionChunk>,
+  id: string,
+  model: string
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder()
+  const iterator = chunks[Symbol.asyncIterator]()
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next()
+        if (done) {
+          controller.enqueue(encoder.encode(encodeSSEData(SSE_DONE)))
+          controller.close()
+          return
+        }
+        controller.enqueue(encoder.encode(encodeSSEData(toOpenAIChunk(value, id, model))))
+      } catch (error) {
+        // Headers are already sent, so report the failure in-band before closing
+        const message = error instanceof Error ? error.message : String(error)
+        controller.enqueue(encoder.encode(encodeSSEData({ error: { message } })))
+        controller.enqueue(encoder.encode(encodeSSEData(SSE_DONE)))
+        controller.close()
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    }
+  })
+}
+
+/**
+ * Reads the `data:` payloads from an SSE byte stream
+ * Lines split across network chunks are buffered until complete
+ * @param body The response body to read
+ * @returns An async generator of raw data payloads (including `[DONE]`)
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder('utf-8')
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim()
+        }
+      }
+    }
+
+    const trimmed = buffer.trim()
+    if (trimmed.startsWith('data:')) {
+      yield trimmed.slice(5).trim()
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Structured outline generation: the model returns a deck as JSON, the server validates it
+ * and re-prompts with the validation errors until the JSON is valid or the repairs run out
+ */
+
+import { DECK_JSON_SCHEMA, parseDeckJson } from './deckSchema'
+import { serializeDeck } from './deckSerializer'
+import { getBuiltInPrompt, renderPrompt } from './promptTemplates'
+import type { LLMProvider } from './llmProviders'
+import type { DeckSpec } from '~/types/deck'
+import type { ChatCompletionRequest, ChatMessage, ChatUsage } from '~/types/llm'
+import type { PromptValues, PromptVersion, PromptVersionRef } from '~/types/prompts'
+
+export const DEFAULT_MAX_REPAIRS = 2
+
+export interface StructuredOutline {
+  deck: DeckSpec
+  /** The deck serialized to R Markdown */
+  markdown: string
+  /** Number of model calls, 1 when the first reply was valid */
+  attempts: number
+  model: string
+  /** Usage summed over every attempt */
+  usage?: ChatUsage
+  /** The deck prompt version used, set by /api/outline */
+  promptVersion?: PromptVersionRef
+}
+
+/**
+ * Thrown when the model's JSON is still invalid after every repair attempt
+ */
+export class DeckValidationError extends Error {
+  constructor(
+    message: string,
+    public errors: string[],
+    public attempts: number,
+    public lastReply: string
+  ) {
+    super(message)
+    this.name = 'DeckValidationError'
+  }
+}
+
+/**
+ * Builds the messages asking for a deck as JSON
+ * @param research The research document the deck is based on
+ * @param prompt The deck prompt version, the built-in one by default
+ * @param values Optional prompt values such as the audience
+ * @returns The system and user messages
+ */
+export const buildDeckMessages = (
+  research: string,
+  prompt: PromptVersion = getBuiltInPrompt('deck'),
+  values: PromptValues = {}
+): ChatMessage[] => [
+  { role: 'system', content: renderPrompt(prompt, { ...values, schema: JSON.stringify(DECK_JSON_SCHEMA, null, 2) }).text },
+  { role: 'user', content: research }
+]
+
+/**
+ * Builds the follow-up turn asking the model to fix an invalid reply
+ * @param errors The validation errors
+ * @returns The user message
+ */
+export const buildRepairMessage = (errors: string[]): ChatMessage => ({
+  role: 'user',
+  content: `Your reply does not match the schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with the complete, corrected JSON object only.`
+})
+
+const addUsage = (total: ChatUsage | undefined, usage: ChatUsage | undefined): ChatUsage | undefined => {
+  if (!usage) return total
+  if (!total) return { ...usage }
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+    ...(total.cost !== undefined || usage.cost !== undefined ? { cost: (total.cost || 0) + (usage.cost || 0) } : {}),
+    ...(total.estimated || usage.estimated ? { estimated: true } : {}),
+    ...(total.cached && usage.cached ? { cached: true } : {})
+  }
+}
+
+/**
+ * Asks for a deck as JSON and repairs invalid replies by re-prompting with the errors
+ * @param provider The provider
+ * @param request The request to send; its messages come from buildDeckMessages
+ * @param maxRepairs Maximum number of repair re-prompts after the first attempt
+ * @param signal Optional abort signal
+ * @returns The validated deck and its R Markdown
+ */
+export const generateStructuredOutline = async (
+  provider: LLMProvider,
+  request: ChatCompletionRequest,
+  maxRepairs = DEFAULT_MAX_REPAIRS,
+  signal?: AbortSignal
+): Promise<StructuredOutline> => {
+  const messages = [...request.messages]
+  let usage: ChatUsage | undefined
+  let lastReply = ''
+  let errors: string[] = []
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const completion = await provider.complete({ ...request, messages, stream: false }, signal)
+    usage = addUsage(usage, completion.usage)
+    lastReply = completion.content
+
+    const result = parseDeckJson(completion.content)
+    if (result.valid && result.deck) {
+      return {
+        deck: result.deck,
+        markdown: serializeDeck(result.deck),
+        attempts: attempt,
+        model: completion.model,
+        usage
+      }
+    }
+
+    errors = result.errors
+    messages.push({ role: 'assistant', content: completion.content }, buildRepairMessage(errors))
+  }
+
+  throw new DeckValidationError(
+    `The model did not return a valid deck after ${maxRepairs + 1} attempts`,
+    errors,
+    maxRepairs + 1,
+    lastReply
+  )
+}
@@ -0,0 +1,110 @@
+/**
+ * Line-based text diff for comparing prompt, document, research and outline versions
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  /** Line number in the old text, for equal and removed lines */
+  oldLine?: number
+  /** Line number in the new text, for equal and added lines */
+  newLine?: number
+}
+
+/** A row of a side-by-side diff; a side is unset where the other side has no counterpart */
+export interface DiffRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+export interface DiffStats {
+  added: number
+  removed: number
+}
+
+const toLines = (text: string) => (text ? text.replace(/\r\n/g, '\n').split('\n') : [])
+
+/**
+ * Diffs two texts line by line using the longest common subsequence
+ * Removed lines come before the lines added in their place
+ * @param oldText The previous text
+ * @param newText The new text
+ * @returns The diff in document order
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = toLines(oldText)
+  const b = toLines(newText)
+
+  // lcs[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const diff: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 })
+      i++
+      j++
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      diff.push({ type: 'removed', text: a[i], oldLine: i + 1 })
+      i++
+    } else {
+      diff.push({ type: 'added', text: b[j], newLine: j + 1 })
+      j++
+    }
+  }
+  return diff
+}
+
+/**
+ * Counts the added and removed lines of a diff
+ * @param diff The diff
+ * @returns The counts
+ */
+export const getDiffStats = (diff: DiffLine[]): DiffStats => ({
+  added: diff.filter(line => line.type === 'added').length,
+  removed: diff.filter(line => line.type === 'removed').length
+})
+
+/**
+ * Lays a diff out in two columns: equal lines side by side, and removed lines next to
+ * the lines added in their place
+ * @param diff The diff
+ * @returns The rows in document order
+ */
+export const toSideBySide = (diff: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of diff) {
+    if (line.type === 'removed') {
+      // A removed line after added ones starts a new change
+      if (added.length) flush()
+      removed.push(line)
+    } else if (line.type === 'added') {
+      added.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  }
+  flush()
+  return rows
+}
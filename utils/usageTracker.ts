@@ -0,0 +1,213 @@
+/**
+ * Token usage and cost accounting for LLM calls
+ * Usage is aggregated per day and per research session in Nitro storage, and
+ * providers are wrapped so both streamed and non-streamed calls are recorded
+ */
+
+import type { Storage } from 'unstorage'
+import { estimateUsage } from './llmProviders'
+import type { LLMProvider } from './llmProviders'
+import { estimateCost, toTokenUsage } from './modelCatalog'
+import type { ChatUsage, ModelInfo, TokenUsage, UsageAggregate, UsageTotals } from '~/types/llm'
+
+export interface UsageBudget {
+  /** Maximum spend per day in USD; 0 disables the limit */
+  dailyUsd: number
+  /** Maximum spend per research session in USD; 0 disables the limit */
+  sessionUsd: number
+}
+
+const DAY_PREFIX = 'usage:days'
+const SESSION_PREFIX = 'usage:sessions'
+
+// Writes are read-modify-write, so they are serialized across all trackers
+let writeQueue: Promise<void> = Promise.resolve()
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0
+})
+
+const addUsage = (totals: UsageTotals, usage: TokenUsage): UsageTotals => ({
+  requests: totals.requests + 1,
+  promptTokens: totals.promptTokens + usage.promptTokens,
+  completionTokens: totals.completionTokens + usage.completionTokens,
+  totalTokens: totals.totalTokens + usage.totalTokens,
+  cost: totals.cost + usage.cost
+})
+
+/**
+ * Returns the UTC day used as the daily aggregation key
+ * @param date The date
+ * @returns The day as YYYY-MM-DD
+ */
+export const usageDay = (date = new Date()): string => date.toISOString().substring(0, 10)
+
+/**
+ * Creates a tracker that aggregates usage in the given storage
+ * @param storage Nitro storage, e.g. useStorage('data')
+ * @returns The tracker
+ */
+export const createUsageTracker = (storage: Storage) => {
+  const readAggregate = async (key: string, id: string): Promise<UsageAggregate> => {
+    const saved = await storage.getItem<UsageAggregate>(key)
+    return saved || { key: id, ...emptyTotals(), byModel: {}, updatedAt: new Date().toISOString() }
+  }
+
+  const addToAggregate = async (key: string, id: string, usage: TokenUsage) => {
+    const aggregate = await readAggregate(key, id)
+    await storage.setItem(key, {
+      ...aggregate,
+      ...addUsage(aggregate, usage),
+      byModel: {
+        ...aggregate.byModel,
+        [usage.model]: addUsage(aggregate.byModel[usage.model] || emptyTotals(), usage)
+      },
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  const listAggregates = async (prefix: string, limit: number): Promise<UsageAggregate[]> => {
+    const keys = await storage.getKeys(prefix)
+    const aggregates = await Promise.all(keys.map(key => storage.getItem<UsageAggregate>(key)))
+    return aggregates
+      .filter((aggregate): aggregate is UsageAggregate => !!aggregate)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit)
+  }
+
+  return {
+    /**
+     * Adds a call to today's totals and to its session's totals
+     */
+    record(usage: TokenUsage, sessionId?: string): Promise<void> {
+      const day = usageDay()
+      writeQueue = writeQueue
+        .then(async () => {
+          await addToAggregate(`${DAY_PREFIX}:${day}`, day, usage)
+          if (sessionId) {
+            await addToAggregate(`${SESSION_PREFIX}:${sessionId}`, sessionId, usage)
+          }
+        })
+        .catch(error => console.error('Failed to record token usage:', error))
+      return writeQueue
+    },
+
+    getDay(day = usageDay()): Promise<UsageAggregate> {
+      return readAggregate(`${DAY_PREFIX}:${day}`, day)
+    },
+
+    getSession(sessionId: string): Promise<UsageAggregate> {
+      return readAggregate(`${SESSION_PREFIX}:${sessionId}`, sessionId)
+    },
+
+    listDays(limit = 30): Promise<UsageAggregate[]> {
+      return listAggregates(DAY_PREFIX, limit)
+    },
+
+    listSessions(limit = 20): Promise<UsageAggregate[]> {
+      return listAggregates(SESSION_PREFIX, limit)
+    },
+
+    /**
+     * Checks the configured budget before a call is made
+     * @returns A message describing the exceeded budget, or null if the call may proceed
+     */
+    async checkBudget(budget: UsageBudget, sessionId?: string): Promise<string | null> {
+      if (budget.dailyUsd > 0) {
+        const today = await this.getDay()
+        if (today.cost >= budget.dailyUsd) {
+          return `Daily budget of $${budget.dailyUsd} exceeded ($${today.cost.toFixed(4)} spent today)`
+        }
+      }
+      if (budget.sessionUsd > 0 && sessionId) {
+        const session = await this.getSession(sessionId)
+        if (session.cost >= budget.sessionUsd) {
+          return `Session budget of $${budget.sessionUsd} exceeded ($${session.cost.toFixed(4)} spent)`
+        }
+      }
+      return null
+    }
+  }
+}
+
+export type UsageTracker = ReturnType<typeof createUsageTracker>
+
+/**
+ * Adds the catalog cost to provider usage
+ */
+const priceUsage = (model: string, usage: ChatUsage, catalog: ModelInfo[]): ChatUsage => ({
+  ...usage,
+  cost: usage.cost ?? estimateCost(model, usage, catalog)
+})
+
+/**
+ * Wraps a provider so every call reports priced usage
+ * Streams always end with a usage chunk; when the provider sends none, usage is
+ * estimated from the text. Cancelled or failed streams record what was generated
+ * @param provider The provider to wrap
+ * @param catalog The model catalog used for prices
+ * @param onUsage Called once per call with the usage record
+ * @returns The wrapped provider
+ */
+export const createUsageTrackingProvider = (
+  provider: LLMProvider,
+  catalog: ModelInfo[],
+  onUsage: (usage: TokenUsage) => void | Promise<void>
+): LLMProvider => ({
+  id: provider.id,
+
+  async complete(request, signal) {
+    const completion = await provider.complete(request, signal)
+    const usage = priceUsage(
+      completion.model,
+      completion.usage || { ...estimateUsage(request, completion.content), estimated: true },
+      catalog
+    )
+    await onUsage(toTokenUsage(completion.model, usage, catalog))
+    return { ...completion, usage }
+  },
+
+  async stream(request, signal) {
+    const chunks = await provider.stream(request, signal)
+
+    return (async function* () {
+      let content = ''
+      let model = request.model
+      let usage: ChatUsage | undefined
+      let recorded = false
+
+      const record = async (finalUsage: ChatUsage) => {
+        recorded = true
+        await onUsage(toTokenUsage(model, finalUsage, catalog))
+      }
+
+      try {
+        for await (const chunk of chunks) {
+          content += chunk.content
+          if (chunk.model) model = chunk.model
+          if (chunk.usage) {
+            usage = priceUsage(model, chunk.usage, catalog)
+            yield { ...chunk, usage }
+          } else {
+            yield chunk
+          }
+        }
+
+        if (!usage) {
+          usage = priceUsage(model, { ...estimateUsage(request, content), estimated: true }, catalog)
+          yield { content: '', model, usage }
+        }
+        await record(usage)
+      } finally {
+        // The stream was cancelled or failed: account for what was generated so far
+        if (!recorded) {
+          await record(usage || priceUsage(model, { ...estimateUsage(request, content), estimated: true }, catalog))
+        }
+      }
+    })()
+  }
+})